@@ -0,0 +1,124 @@
+// assessment.ts – the JSON shape we ask the model for, and a strict
+// validator for it. Anything that doesn't validate gets one repair round
+// in server.ts before we give up on it.
+
+export type Assessment = {
+  fitScore: number;
+  riskScore: number;
+  verdict: string;
+  alignment: string[];
+  gaps: string[];
+  redFlags: string[];
+  missingSkills: string[];
+  report: string;
+};
+
+export type ParseOutcome =
+  | { ok: true; value: Assessment }
+  | { ok: false; errors: string[] };
+
+export const SCORE_MIN = 0;
+export const SCORE_MAX = 10;
+
+// Shown to the model verbatim, so keep it in sync with `Assessment`.
+export const ASSESSMENT_SCHEMA = `{
+  "fitScore": <integer ${SCORE_MIN}-${SCORE_MAX}>,
+  "riskScore": <integer ${SCORE_MIN}-${SCORE_MAX}>,
+  "verdict": "<short one-sentence verdict>",
+  "alignment": ["<where the resume clearly matches the JD>", ...],
+  "gaps": ["<JD expectation the resume only partly covers>", ...],
+  "redFlags": ["<inflated, vague or suspicious claim>", ...],
+  "missingSkills": ["<JD skill with no evidence in the resume>", ...],
+  "report": "<multi-line markdown analysis>"
+}`;
+
+const STRING_LISTS = [
+  "alignment",
+  "gaps",
+  "redFlags",
+  "missingSkills",
+] as const;
+
+// Models like to wrap JSON in ``` fences or add a sentence around it; take
+// the outermost {...} and parse that.
+export function extractJson(raw: string): unknown {
+  const unfenced = raw.replace(/```(?:json)?/gi, "");
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("no JSON object found in model output");
+  }
+  return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+function checkScore(
+  obj: Record<string, unknown>,
+  key: string,
+  errors: string[],
+) {
+  const v = obj[key];
+  if (typeof v !== "number" || !Number.isInteger(v)) {
+    errors.push(`"${key}" must be an integer`);
+  } else if (v < SCORE_MIN || v > SCORE_MAX) {
+    errors.push(
+      `"${key}" must be between ${SCORE_MIN} and ${SCORE_MAX}, got ${v}`,
+    );
+  }
+}
+
+export function validateAssessment(value: unknown): ParseOutcome {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, errors: ["output must be a JSON object"] };
+  }
+  const obj = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  checkScore(obj, "fitScore", errors);
+  checkScore(obj, "riskScore", errors);
+
+  if (typeof obj.verdict !== "string" || !obj.verdict.trim()) {
+    errors.push(`"verdict" must be a non-empty string`);
+  }
+  if (typeof obj.report !== "string" || !obj.report.trim()) {
+    errors.push(`"report" must be a non-empty string`);
+  }
+  for (const key of STRING_LISTS) {
+    const list = obj[key];
+    if (!Array.isArray(list) || list.some((s) => typeof s !== "string")) {
+      errors.push(`"${key}" must be an array of strings`);
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const clean = (list: unknown) =>
+    (list as string[]).map((s) => s.trim()).filter(Boolean);
+  return {
+    ok: true,
+    value: {
+      fitScore: obj.fitScore as number,
+      riskScore: obj.riskScore as number,
+      verdict: (obj.verdict as string).trim(),
+      alignment: clean(obj.alignment),
+      gaps: clean(obj.gaps),
+      redFlags: clean(obj.redFlags),
+      missingSkills: clean(obj.missingSkills),
+      report: (obj.report as string).trim(),
+    },
+  };
+}
+
+export function parseAssessment(raw: string): ParseOutcome {
+  let value: unknown;
+  try {
+    value = extractJson(raw);
+  } catch (err) {
+    return {
+      ok: false,
+      errors: [
+        `invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+      ],
+    };
+  }
+  return validateAssessment(value);
+}
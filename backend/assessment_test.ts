@@ -0,0 +1,66 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { parseAssessment } from "./assessment.ts";
+import { readOutput } from "./testdata/fake_agent.ts";
+
+Deno.test("parseAssessment accepts a clean JSON answer", async () => {
+  const out = parseAssessment(await readOutput("clean"));
+  assert(out.ok);
+  assertEquals(out.value.fitScore, 8);
+  assertEquals(out.value.riskScore, 3);
+  assertEquals(out.value.missingSkills, ["Terraform"]);
+  assertStringIncludes(out.value.report, "## Verdict");
+});
+
+Deno.test("parseAssessment digs JSON out of fences and chatter", async () => {
+  const out = parseAssessment(await readOutput("fenced"));
+  assert(out.ok);
+  assertEquals(out.value.fitScore, 6);
+  assertEquals(out.value.redFlags, ['"Spearheaded" with no scope given']);
+});
+
+Deno.test("parseAssessment rejects the old line-based format", async () => {
+  const out = parseAssessment(await readOutput("malformed"));
+  assert(!out.ok);
+  assertStringIncludes(out.errors[0], "invalid JSON");
+});
+
+Deno.test("parseAssessment rejects an answer cut off mid-way", async () => {
+  const out = parseAssessment(await readOutput("truncated"));
+  assert(!out.ok);
+  assertStringIncludes(out.errors[0], "invalid JSON");
+});
+
+Deno.test("parseAssessment lists every missing or mistyped field", async () => {
+  const out = parseAssessment(await readOutput("missing-fields"));
+  assert(!out.ok);
+  assertEquals(out.errors, [
+    `"riskScore" must be an integer`,
+    `"report" must be a non-empty string`,
+    `"redFlags" must be an array of strings`,
+  ]);
+});
+
+Deno.test("parseAssessment checks score ranges and integers", async () => {
+  const out = parseAssessment(await readOutput("out-of-range"));
+  assert(!out.ok);
+  assertEquals(out.errors, [
+    `"fitScore" must be between 0 and 10, got 14`,
+    `"riskScore" must be an integer`,
+  ]);
+});
+
+Deno.test("parseAssessment trims lists and drops empty entries", () => {
+  const out = parseAssessment(JSON.stringify({
+    fitScore: 5,
+    riskScore: 5,
+    verdict: "  Maybe.  ",
+    alignment: ["  TypeScript ", ""],
+    gaps: [],
+    redFlags: [],
+    missingSkills: [],
+    report: "## Verdict\nMaybe.",
+  }));
+  assert(out.ok);
+  assertEquals(out.value.verdict, "Maybe.");
+  assertEquals(out.value.alignment, ["TypeScript"]);
+});
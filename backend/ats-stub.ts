@@ -0,0 +1,158 @@
+// ats-stub.ts – a stand-in ATS for trying the integration locally, and the
+// receiver the tests deliver to.
+//
+//   deno task ats-stub                  receive deliveries on :8787 and
+//                                       print them (signatures checked)
+//   deno task ats-stub apply <jobRef> <resume file> [applicationId]
+//                                       send a signed application to the
+//                                       backend
+//
+//   ATS_WEBHOOK_SECRET    same value as the backend's (signs applications,
+//                         and checks deliveries unless the next one is set)
+//   ATS_CALLBACK_SECRET   same value as the backend's, if it has one
+//   STUB_PORT=8787        where the receiver listens
+//   STUB_FAIL_FIRST=0     answer 503 to the first n deliveries, to watch
+//                         the backend retry
+//   FITSCORE_URL=http://localhost:8000
+//
+// Point the backend at the receiver with
+// ATS_CALLBACK_URL=http://localhost:8787/fitscore.
+
+import { signPayload, verifySignature } from "./ats.ts";
+
+export type ReceivedDelivery = {
+  event: string | null;
+  deliveryId: string | null;
+  // null when the signature checked out (or no secret was given)
+  signatureError: string | null;
+  body: Record<string, unknown>;
+};
+
+// A webhook receiver on localhost. Every delivery it answered is kept in
+// `received` and passed to `onDelivery`; `next()` resolves with the next
+// one to arrive.
+export function startReceiver(
+  opts: {
+    port?: number;
+    secret?: string | null;
+    failFirst?: number;
+    onDelivery?: (d: ReceivedDelivery) => void;
+  } = {},
+) {
+  const received: ReceivedDelivery[] = [];
+  const waiting: ((d: ReceivedDelivery) => void)[] = [];
+  let failuresLeft = opts.failFirst ?? 0;
+
+  const server = Deno.serve(
+    { port: opts.port ?? 0, hostname: "127.0.0.1", onListen: () => {} },
+    async (req) => {
+      if (req.method !== "POST") {
+        return new Response("Not found", { status: 404 });
+      }
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        return new Response("stub: failing on purpose", { status: 503 });
+      }
+
+      const raw = await req.text();
+      const delivery: ReceivedDelivery = {
+        event: req.headers.get("X-FitScore-Event"),
+        deliveryId: req.headers.get("X-FitScore-Delivery"),
+        signatureError: opts.secret
+          ? await verifySignature(opts.secret, req.headers, raw)
+          : null,
+        body: JSON.parse(raw),
+      };
+      received.push(delivery);
+      opts.onDelivery?.(delivery);
+      waiting.shift()?.(delivery);
+      return delivery.signatureError
+        ? new Response(delivery.signatureError, { status: 401 })
+        : new Response(null, { status: 204 });
+    },
+  );
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}/fitscore`,
+    received,
+    next(): Promise<ReceivedDelivery> {
+      return new Promise((resolve) => waiting.push(resolve));
+    },
+    shutdown: () => server.shutdown(),
+  };
+}
+
+async function sendApplication(
+  jobRef: string,
+  path: string,
+  applicationId: string,
+) {
+  const secret = Deno.env.get("ATS_WEBHOOK_SECRET");
+  if (!secret) throw new Error("Set ATS_WEBHOOK_SECRET first");
+  const base = Deno.env.get("FITSCORE_URL") ?? "http://localhost:8000";
+
+  const fileName = path.split("/").pop() ?? path;
+  const bytes = await Deno.readFile(path);
+  let resume;
+  if (/\.(txt|md)$/i.test(fileName)) {
+    resume = { text: new TextDecoder().decode(bytes) };
+  } else {
+    let binary = "";
+    for (const b of bytes) binary += String.fromCharCode(b);
+    resume = { fileName, contentBase64: btoa(binary) };
+  }
+  const body = JSON.stringify({ jobRef, applicationId, resume });
+
+  const res = await fetch(`${base}/webhooks/applications`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(await signPayload(secret, body)),
+    },
+    body,
+  });
+  console.log(res.status, await res.text());
+}
+
+if (import.meta.main) {
+  const [command, ...args] = Deno.args;
+  if (command === "apply") {
+    const [jobRef, path, applicationId] = args;
+    if (!jobRef || !path) {
+      console.error(
+        "Usage: deno task ats-stub apply <jobRef> <resume file> [applicationId]",
+      );
+      Deno.exit(2);
+    }
+    await sendApplication(
+      jobRef,
+      path,
+      applicationId ?? `app-${Date.now().toString(36)}`,
+    );
+  } else {
+    const secret = Deno.env.get("ATS_CALLBACK_SECRET") ??
+      Deno.env.get("ATS_WEBHOOK_SECRET") ?? null;
+    const receiver = startReceiver({
+      port: Number(Deno.env.get("STUB_PORT") ?? 8787),
+      secret,
+      failFirst: Number(Deno.env.get("STUB_FAIL_FIRST") ?? 0),
+      onDelivery: (d) => {
+        const result = d.body.result as {
+          fitScore: number | null;
+          riskScore: number | null;
+          verdict: string;
+        } | null;
+        const outcome = result
+          ? `fit ${result.fitScore}, risk ${result.riskScore}: ${result.verdict}`
+          : String(d.body.error);
+        const mark = d.signatureError ? "❌" : "✅";
+        console.log(
+          `${mark} ${d.event} ${d.body.applicationId} – ${outcome}` +
+            (d.signatureError ? ` (${d.signatureError})` : ""),
+        );
+      },
+    });
+    console.log(`📥 ATS stub listening on ${receiver.url}`);
+    if (!secret) console.warn("⚠️ No secret set – signatures aren't checked.");
+  }
+}
@@ -0,0 +1,269 @@
+// ats.ts – inbound side of the applicant tracking system integration: job
+// postings (the stored JD an ATS job is scored against), signed application
+// webhooks, and the signature scheme outbound deliveries use as well (see
+// webhooks.ts).
+//
+// Requests are signed with HMAC-SHA256 over "<timestamp>.<raw body>":
+//
+//   X-FitScore-Timestamp: 1718000000          (unix seconds)
+//   X-FitScore-Signature: sha256=<hex digest>
+//
+// and refused when the timestamp is more than five minutes off, so a
+// captured request can't be replayed later.
+//
+//   ATS_WEBHOOK_SECRET   shared secret for POST /webhooks/applications
+//                        (unset = inbound webhooks disabled)
+
+import { isOwnedBy, safeEqual } from "./security.ts";
+
+export const SIGNATURE_HEADER = "X-FitScore-Signature";
+export const TIMESTAMP_HEADER = "X-FitScore-Timestamp";
+const MAX_SKEW_SECONDS = 5 * 60;
+
+// API key name the inbound webhook runs under (quotas, rate limit, jobs).
+export const ATS_CLIENT = "ats-webhook";
+
+export function readInboundSecret(): string | null {
+  return Deno.env.get("ATS_WEBHOOK_SECRET")?.trim() || null;
+}
+
+// --- signatures ---
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const sig = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(message),
+  );
+  return Array.from(new Uint8Array(sig))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// The two headers to send along with `body`.
+export async function signPayload(
+  secret: string,
+  body: string,
+  now = Date.now(),
+): Promise<Record<string, string>> {
+  const timestamp = String(Math.floor(now / 1000));
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: `sha256=${await hmacHex(
+      secret,
+      `${timestamp}.${body}`,
+    )}`,
+  };
+}
+
+// Check a signed request. Returns null when it's genuine, else what's wrong.
+export async function verifySignature(
+  secret: string,
+  headers: Headers,
+  body: string,
+  now = Date.now(),
+): Promise<string | null> {
+  const timestamp = headers.get(TIMESTAMP_HEADER) ?? "";
+  const signature = headers.get(SIGNATURE_HEADER) ?? "";
+  if (!/^\d+$/.test(timestamp) || !signature.startsWith("sha256=")) {
+    return `Missing ${TIMESTAMP_HEADER} or ${SIGNATURE_HEADER} header`;
+  }
+  if (Math.abs(now / 1000 - Number(timestamp)) > MAX_SKEW_SECONDS) {
+    return "Signature timestamp is too old or in the future";
+  }
+  const expected = await hmacHex(secret, `${timestamp}.${body}`);
+  return safeEqual(signature.slice("sha256=".length), expected)
+    ? null
+    : "Signature doesn't match";
+}
+
+// --- job postings ---
+
+// An ATS job we can score applications for, keyed by the ATS's own job id.
+export type JobPosting = {
+  ref: string;
+  title: string;
+  jd: string;
+  // null = the default profile
+  profileId: string | null;
+  blind: boolean;
+  // API key name that stored it; applications for it are scored, and their
+  // deliveries logged, under this key
+  client: string;
+  updatedAt: string;
+};
+
+export type PostingInput = Omit<JobPosting, "ref" | "client" | "updatedAt">;
+
+const POSTING = "ats_postings";
+// applicationId → background job, so an ATS retrying a webhook doesn't get
+// the candidate scored (and charged) twice
+const APPLICATION = "ats_applications";
+const APPLICATION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const REF = /^[\w.-]{1,64}$/;
+
+export function isValidRef(ref: string): boolean {
+  return REF.test(ref);
+}
+
+// Validate a PUT /postings/:ref body.
+export function parsePostingInput(
+  body: unknown,
+): { ok: true; value: PostingInput } | { ok: false; error: string } {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const b = body as Record<string, unknown>;
+
+  const jd = typeof b.jd === "string" ? b.jd.trim() : "";
+  if (!jd) return { ok: false, error: "Missing 'jd'" };
+
+  return {
+    ok: true,
+    value: {
+      title: typeof b.title === "string" ? b.title.trim() : "",
+      jd,
+      profileId: typeof b.profileId === "string" && b.profileId.trim()
+        ? b.profileId.trim()
+        : null,
+      blind: b.blind === true,
+    },
+  };
+}
+
+export function createPostingStore(kv: Deno.Kv) {
+  return {
+    // The client's postings.
+    async list(client: string): Promise<JobPosting[]> {
+      const out: JobPosting[] = [];
+      for await (const entry of kv.list<JobPosting>({ prefix: [POSTING] })) {
+        if (isOwnedBy(entry.value.client, client)) out.push(entry.value);
+      }
+      return out;
+    },
+
+    async get(ref: string): Promise<JobPosting | null> {
+      return (await kv.get<JobPosting>([POSTING, ref])).value;
+    },
+
+    // Create or overwrite.
+    async save(
+      ref: string,
+      input: PostingInput,
+      client: string,
+    ): Promise<JobPosting> {
+      const posting: JobPosting = {
+        ...input,
+        ref,
+        client,
+        updatedAt: new Date().toISOString(),
+      };
+      await kv.set([POSTING, ref], posting);
+      return posting;
+    },
+
+    // Returns false if there was nothing to delete.
+    async delete(ref: string): Promise<boolean> {
+      const existing = await kv.get([POSTING, ref]);
+      if (!existing.value) return false;
+      await kv.delete([POSTING, ref]);
+      return true;
+    },
+
+    // The job an application was already queued as, if any.
+    async jobFor(ref: string, applicationId: string): Promise<string | null> {
+      return (await kv.get<string>([APPLICATION, ref, applicationId])).value;
+    },
+
+    async recordApplication(
+      ref: string,
+      applicationId: string,
+      jobId: string,
+    ): Promise<void> {
+      await kv.set([APPLICATION, ref, applicationId], jobId, {
+        expireIn: APPLICATION_TTL_MS,
+      });
+    },
+  };
+}
+
+export type PostingStore = ReturnType<typeof createPostingStore>;
+
+// --- inbound applications ---
+
+// What POST /webhooks/applications accepts. The resume comes as text or
+// as a file (PDF, DOCX…) in base64.
+export type ApplicationInput = {
+  jobRef: string;
+  // the ATS's id for this application, echoed back in the delivery
+  applicationId: string;
+  // label shown in results and history (defaults to applicationId)
+  candidateId: string;
+  resume: { text: string } | { file: File };
+};
+
+export function parseApplicationInput(
+  body: unknown,
+): { ok: true; value: ApplicationInput } | { ok: false; error: string } {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const b = body as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+  const jobRef = str(b.jobRef);
+  if (!isValidRef(jobRef)) {
+    return {
+      ok: false,
+      error: "'jobRef' must be 1-64 letters, digits, '.', '_' or '-'",
+    };
+  }
+  const applicationId = str(b.applicationId);
+  if (!isValidRef(applicationId)) {
+    return {
+      ok: false,
+      error: "'applicationId' must be 1-64 letters, digits, '.', '_' or '-'",
+    };
+  }
+  const candidateId = str(b.candidateId) || applicationId;
+
+  const r = (b.resume ?? {}) as Record<string, unknown>;
+  if (typeof r.text === "string" && r.text.trim()) {
+    return {
+      ok: true,
+      value: { jobRef, applicationId, candidateId, resume: { text: r.text } },
+    };
+  }
+  const fileName = str(r.fileName);
+  const content = str(r.contentBase64);
+  if (!fileName || !content) {
+    return {
+      ok: false,
+      error:
+        "'resume' needs non-empty 'text', or 'fileName' and 'contentBase64'",
+    };
+  }
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = Uint8Array.from(atob(content), (c) => c.charCodeAt(0));
+  } catch {
+    return { ok: false, error: "'resume.contentBase64' isn't valid base64" };
+  }
+  return {
+    ok: true,
+    value: {
+      jobRef,
+      applicationId,
+      candidateId,
+      resume: { file: new File([bytes], fileName) },
+    },
+  };
+}
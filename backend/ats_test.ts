@@ -0,0 +1,97 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  parseApplicationInput,
+  parsePostingInput,
+  signPayload,
+  verifySignature,
+} from "./ats.ts";
+
+const SECRET = "test-secret";
+const NOW = Date.UTC(2025, 5, 1);
+
+Deno.test("a signed body verifies, a changed one doesn't", async () => {
+  const body = JSON.stringify({ jobRef: "eng-1" });
+  const headers = new Headers(await signPayload(SECRET, body, NOW));
+
+  assertEquals(await verifySignature(SECRET, headers, body, NOW), null);
+  assertEquals(
+    await verifySignature(SECRET, headers, body + " ", NOW),
+    "Signature doesn't match",
+  );
+  assertEquals(
+    await verifySignature("other-secret", headers, body, NOW),
+    "Signature doesn't match",
+  );
+});
+
+Deno.test("old or unsigned requests are refused", async () => {
+  const body = "{}";
+  const headers = new Headers(await signPayload(SECRET, body, NOW));
+  const later = NOW + 6 * 60 * 1000;
+  assertEquals(
+    await verifySignature(SECRET, headers, body, later),
+    "Signature timestamp is too old or in the future",
+  );
+  assert(await verifySignature(SECRET, new Headers(), body, NOW));
+});
+
+Deno.test("parseApplicationInput takes a text resume", () => {
+  const parsed = parseApplicationInput({
+    jobRef: "eng-1",
+    applicationId: "app-42",
+    resume: { text: "Jane Doe, TypeScript" },
+  });
+  assertEquals(parsed, {
+    ok: true,
+    value: {
+      jobRef: "eng-1",
+      applicationId: "app-42",
+      candidateId: "app-42",
+      resume: { text: "Jane Doe, TypeScript" },
+    },
+  });
+});
+
+Deno.test("parseApplicationInput decodes a base64 file", async () => {
+  const parsed = parseApplicationInput({
+    jobRef: "eng-1",
+    applicationId: "app-42",
+    candidateId: "Jane D.",
+    resume: { fileName: "cv.txt", contentBase64: btoa("Jane, Deno") },
+  });
+  assert(parsed.ok && "file" in parsed.value.resume);
+  assertEquals(parsed.value.candidateId, "Jane D.");
+  assertEquals(parsed.value.resume.file.name, "cv.txt");
+  assertEquals(await parsed.value.resume.file.text(), "Jane, Deno");
+});
+
+Deno.test("parseApplicationInput rejects bad applications", () => {
+  const resume = { text: "x" };
+  for (
+    const body of [
+      null,
+      { applicationId: "a", resume },
+      { jobRef: "eng 1", applicationId: "a", resume },
+      { jobRef: "eng-1", resume },
+      { jobRef: "eng-1", applicationId: "a", resume: { text: " " } },
+      {
+        jobRef: "eng-1",
+        applicationId: "a",
+        resume: { fileName: "cv.pdf", contentBase64: "%%%" },
+      },
+    ]
+  ) {
+    assertEquals(parseApplicationInput(body).ok, false);
+  }
+});
+
+Deno.test("parsePostingInput needs a JD", () => {
+  assertEquals(parsePostingInput({ title: "Eng" }), {
+    ok: false,
+    error: "Missing 'jd'",
+  });
+  assertEquals(parsePostingInput({ jd: " Go ", profileId: " " }), {
+    ok: true,
+    value: { title: "", jd: "Go", profileId: null, blind: false },
+  });
+});
@@ -0,0 +1,102 @@
+// cache.ts – content-addressed cache of analysis results in Deno KV, so
+// re-running a JD against a mostly unchanged pool only pays for the resumes
+// that changed.
+//
+// The key is a SHA-256 over everything that shapes the model's answer: the
+// normalized JD and resume text, the prompt version, the role profile
+// (id + last edit), the model(s), the ensemble / blind settings and any
+// reviewer examples the prompt was calibrated with.
+//
+//   ANALYSIS_CACHE_TTL_HOURS  how long results stay reusable (default 168,
+//                             0 = no caching)
+
+import type { EnsembleConfig } from "./ensemble.ts";
+import type { CalibrationExample } from "./feedback.ts";
+import type { RoleProfile } from "./profiles.ts";
+import type { AnalyzeResult } from "./types.ts";
+
+// What gets stored: the model's answer, not the resume (the caller has it).
+export type CachedAnalysis = {
+  rawOutput: string;
+  result: AnalyzeResult;
+  cachedAt: string;
+};
+
+export type CacheKeyInput = {
+  jd: string;
+  resume: string;
+  promptVersion: number;
+  profile: Pick<RoleProfile, "id" | "updatedAt">;
+  model: string;
+  ensemble: EnsembleConfig | null;
+  blind: boolean;
+  calibration: CalibrationExample[];
+};
+
+const CACHE = "analysis_cache";
+
+export function readCacheTtlMs(): number {
+  const v = Number(Deno.env.get("ANALYSIS_CACHE_TTL_HOURS") ?? 168);
+  return Number.isFinite(v) && v > 0 ? v * 60 * 60 * 1000 : 0;
+}
+
+// Whitespace and line endings don't change what the model reads.
+function normalize(text: string): string {
+  return text.replace(/\r\n?/g, "\n").replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n").trim();
+}
+
+export async function cacheKey(input: CacheKeyInput): Promise<string> {
+  const material = JSON.stringify([
+    input.promptVersion,
+    normalize(input.jd),
+    normalize(input.resume),
+    input.profile.id,
+    input.profile.updatedAt,
+    input.model,
+    input.ensemble,
+    input.blind,
+    // only when present, so uncalibrated runs keep their existing keys
+    ...(input.calibration.length ? [input.calibration] : []),
+  ]);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(material),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function createAnalysisCache(kv: Deno.Kv, ttlMs: number) {
+  return {
+    enabled: ttlMs > 0,
+
+    async get(key: string): Promise<CachedAnalysis | null> {
+      if (ttlMs <= 0) return null;
+      return (await kv.get<CachedAnalysis>([CACHE, key])).value;
+    },
+
+    // Best effort: a value over KV's 64 KiB limit just isn't cached.
+    async set(
+      key: string,
+      entry: Omit<CachedAnalysis, "cachedAt">,
+    ): Promise<void> {
+      if (ttlMs <= 0) return;
+      try {
+        await kv.set(
+          [CACHE, key],
+          { ...entry, cachedAt: new Date().toISOString() },
+          { expireIn: ttlMs },
+        );
+      } catch (err) {
+        console.warn(
+          "⚠️ Couldn't cache analysis:",
+          err instanceof Error ? err.message : err,
+        );
+      }
+    },
+  };
+}
+
+export type AnalysisCache = ReturnType<typeof createAnalysisCache>;
@@ -0,0 +1,107 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { cacheKey, type CacheKeyInput, createAnalysisCache } from "./cache.ts";
+import type { AnalyzeResult } from "./types.ts";
+
+const INPUT: CacheKeyInput = {
+  jd: "Senior TypeScript engineer\nPostgres, Deno",
+  resume: "Alice\nTypeScript at Acme",
+  promptVersion: 3,
+  profile: { id: "backend", updatedAt: "2025-06-01T00:00:00.000Z" },
+  model: "claude-test",
+  ensemble: null,
+  blind: false,
+  calibration: [],
+};
+
+function result(verdict: string): AnalyzeResult {
+  return { id: "cv-1.txt", verdict } as AnalyzeResult;
+}
+
+Deno.test("cache keys ignore whitespace and line endings", async () => {
+  const key = await cacheKey(INPUT);
+  assertEquals(key, await cacheKey({ ...INPUT }));
+  assertEquals(
+    await cacheKey({
+      ...INPUT,
+      jd: "  Senior TypeScript   engineer\r\nPostgres,\tDeno\n",
+      resume: "Alice \r\n\r\nTypeScript at Acme",
+    }),
+    // blank lines collapse too
+    await cacheKey({ ...INPUT, resume: "Alice\nTypeScript at Acme" }),
+  );
+  assertEquals(key.length, 64);
+});
+
+Deno.test("editing the profile or switching models changes the key", async () => {
+  const key = await cacheKey(INPUT);
+  const changed: Partial<CacheKeyInput>[] = [
+    { profile: { ...INPUT.profile, updatedAt: "2025-06-02T00:00:00.000Z" } },
+    { profile: { ...INPUT.profile, id: "frontend" } },
+    { model: "claude-pricey" },
+    { promptVersion: 4 },
+    { jd: "Data analyst, SQL" },
+    { resume: "Bob\nSQL at Initech" },
+    { ensemble: { runs: 3, models: [], method: "median" } },
+    { blind: true },
+  ];
+  for (const change of changed) {
+    assertNotEquals(await cacheKey({ ...INPUT, ...change }), key);
+  }
+});
+
+Deno.test("calibration examples only enter the key when there are some", async () => {
+  const key = await cacheKey(INPUT);
+  const calibrated = await cacheKey({
+    ...INPUT,
+    calibration: [{
+      fitScore: 8,
+      riskScore: 2,
+      verdict: "Strong",
+      rating: 2,
+      outcome: "rejected",
+      note: "Never shipped Postgres",
+    }],
+  });
+  assertNotEquals(calibrated, key);
+});
+
+Deno.test("a stored result comes back under the same key", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const cache = createAnalysisCache(kv, 60_000);
+  const key = await cacheKey(INPUT);
+
+  assertEquals(await cache.get(key), null);
+  await cache.set(key, { rawOutput: "{}", result: result("Strong") });
+
+  const hit = await cache.get(key);
+  assertEquals(hit?.result.verdict, "Strong");
+  assertEquals(typeof hit?.cachedAt, "string");
+  // a new model is a new key, so it misses
+  assertEquals(await cache.get(await cacheKey({ ...INPUT, model: "x" })), null);
+  kv.close();
+});
+
+Deno.test("a forced re-run replaces the cached result", async () => {
+  // `force` skips the lookup; the fresh answer is stored over the old one
+  const kv = await Deno.openKv(":memory:");
+  const cache = createAnalysisCache(kv, 60_000);
+  const key = await cacheKey(INPUT);
+
+  await cache.set(key, { rawOutput: "{}", result: result("Strong") });
+  await cache.set(key, { rawOutput: "{}", result: result("Weak") });
+
+  assertEquals((await cache.get(key))?.result.verdict, "Weak");
+  kv.close();
+});
+
+Deno.test("a zero TTL turns the cache off", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const cache = createAnalysisCache(kv, 0);
+  const key = await cacheKey(INPUT);
+
+  await cache.set(key, { rawOutput: "{}", result: result("Strong") });
+
+  assertEquals(cache.enabled, false);
+  assertEquals(await cache.get(key), null);
+  kv.close();
+});
@@ -0,0 +1,293 @@
+// compare.ts – head-to-head comparison: two to four candidates sent to the
+// model together with the JD, so it has to rank them against each other
+// instead of scoring each in isolation.
+//
+// Candidates are shown to the model as "A", "B", … rather than by their
+// ids, so file names don't leak into blind screening and the model can't
+// misspell an id it has to echo back.
+
+import { extractJson } from "./assessment.ts";
+import type { RoleProfile } from "./profiles.ts";
+import type { CandidateUsage } from "./usage.ts";
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+// the answer has to fit in MAX_OUTPUT_TOKENS
+const MAX_REQUIREMENTS = 6;
+
+export type RequirementRating = "strong" | "partial" | "missing";
+
+const RATINGS: RequirementRating[] = ["strong", "partial", "missing"];
+
+export type ComparisonRanking = {
+  id: string;
+  // 1 = best fit
+  rank: number;
+  justification: string;
+};
+
+// One JD requirement, with how each candidate covers it.
+export type RequirementComparison = {
+  requirement: string;
+  candidates: { id: string; rating: RequirementRating; note: string }[];
+};
+
+export type Comparison = {
+  // best first
+  ranking: ComparisonRanking[];
+  requirements: RequirementComparison[];
+  summary: string;
+  model: string;
+  generatedAt: string;
+  parseStatus: "clean" | "repaired";
+  usage: CandidateUsage;
+};
+
+// What POST /compare accepts.
+export type CompareInput = {
+  jd: string;
+  candidates: { id: string; text: string }[];
+  profileId: string | null;
+  blind: boolean;
+};
+
+// Shown to the model verbatim, so keep it in sync with `parseComparison`.
+export const COMPARISON_SCHEMA = `{
+  "ranking": [
+    { "candidate": "<letter>", "justification": "<why this place, relative to the others>" },
+    ...
+  ],
+  "requirements": [
+    {
+      "requirement": "<JD requirement>",
+      "candidates": [
+        { "candidate": "<letter>", "rating": "strong" | "partial" | "missing", "note": "<evidence, max 15 words>" },
+        ...
+      ]
+    },
+    ...
+  ],
+  "summary": "<two or three sentences on what separates them>"
+}`;
+
+// "A", "B", … for the candidate at `index`.
+export function candidateLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// Validate a POST /compare body. Returns the clean fields, or a message
+// describing the first problem found.
+export function parseCompareInput(
+  body: unknown,
+): { ok: true; value: CompareInput } | { ok: false; error: string } {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const b = body as Record<string, unknown>;
+
+  const jd = typeof b.jd === "string" ? b.jd.trim() : "";
+  if (!jd) return { ok: false, error: "Missing 'jd'" };
+
+  const list = b.candidates;
+  if (
+    !Array.isArray(list) || list.length < MIN_COMPARE ||
+    list.length > MAX_COMPARE
+  ) {
+    return {
+      ok: false,
+      error:
+        `'candidates' must be an array of ${MIN_COMPARE} to ${MAX_COMPARE} resumes`,
+    };
+  }
+  const bad = list.find((c) =>
+    !c || typeof c.id !== "string" || !c.id.trim() ||
+    typeof c.text !== "string" || !c.text.trim()
+  );
+  if (bad !== undefined) {
+    return {
+      ok: false,
+      error: "Every candidate needs an 'id' and non-empty 'text'",
+    };
+  }
+  const candidates = list.map((c) => ({ id: c.id as string, text: c.text }));
+  if (new Set(candidates.map((c) => c.id)).size !== candidates.length) {
+    return { ok: false, error: "Candidate ids must be unique" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      jd,
+      candidates,
+      profileId: typeof b.profileId === "string" && b.profileId.trim()
+        ? b.profileId.trim()
+        : null,
+      blind: b.blind === true,
+    },
+  };
+}
+
+export function buildComparePrompt(
+  jd: string,
+  resumes: string[],
+  profile: RoleProfile,
+): string {
+  const role = profile.seniority ? `the ${profile.seniority} role` : "the role";
+  const letters = resumes.map((_, i) => candidateLetter(i));
+  const musts = profile.mustHave.length
+    ? `\nMust-have skills (always include these as requirements): ${
+      profile.mustHave.join(", ")
+    }\n`
+    : "";
+
+  return `
+You are ${profile.persona} choosing between ${resumes.length} finalists for ${role} described in the job description below.
+
+Compare candidates ${
+    letters.join(", ")
+  } AGAINST EACH OTHER, not against an ideal candidate:
+- Rank all of them, best fit first; no ties. Justify each place by what this candidate has or lacks compared with the others.
+- Pick the ${MAX_REQUIREMENTS} or fewer JD requirements that separate them most, and rate every candidate on each: "strong" (clear hands-on evidence), "partial" (adjacent or shallow) or "missing".
+- Only use what the resumes say. If information is missing, say so instead of hallucinating.
+${profile.rubric ? `\nScoring rubric:\n${profile.rubric}\n` : ""}${musts}
+IMPORTANT: You MUST respond with a single JSON object matching this shape.
+Do NOT add any explanation, markdown fences or text before or after it.
+
+${COMPARISON_SCHEMA}
+
+---------------- JD START ----------------
+${jd}
+---------------- JD END ------------------
+${
+    resumes.map((text, i) => `
+----------- CANDIDATE ${letters[i]} START -----------
+${text}
+----------- CANDIDATE ${letters[i]} END -------------
+`).join("")
+  }`;
+}
+
+function nonEmpty(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+// Check the model's answer against the candidates it was given and map the
+// letters back to ids. Everything a comparison needs has to be there: a
+// place for every candidate and a rating for each on every requirement.
+export function validateComparison(
+  value: unknown,
+  ids: string[],
+):
+  | {
+    ok: true;
+    value: Pick<Comparison, "ranking" | "requirements" | "summary">;
+  }
+  | { ok: false; errors: string[] } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, errors: ["output must be a JSON object"] };
+  }
+  const obj = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const letters = ids.map((_, i) => candidateLetter(i));
+  const idOf = (letter: unknown) =>
+    typeof letter === "string"
+      ? ids[letters.indexOf(letter.trim().toUpperCase())]
+      : undefined;
+
+  const ranking: ComparisonRanking[] = [];
+  if (!Array.isArray(obj.ranking)) {
+    errors.push(`"ranking" must be an array`);
+  } else {
+    obj.ranking.forEach((r, i) => {
+      const id = idOf(r?.candidate);
+      if (!id) {
+        errors.push(`ranking[${i}].candidate must be one of ${letters}`);
+      } else if (!nonEmpty(r.justification)) {
+        errors.push(`ranking[${i}].justification must be a non-empty string`);
+      } else if (ranking.some((x) => x.id === id)) {
+        errors.push(`candidate ${r.candidate} is ranked twice`);
+      } else {
+        ranking.push({
+          id,
+          rank: ranking.length + 1,
+          justification: r.justification.trim(),
+        });
+      }
+    });
+    const unranked = letters.filter((_, i) =>
+      !ranking.some((r) => r.id === ids[i])
+    );
+    if (errors.length === 0 && unranked.length > 0) {
+      errors.push(`"ranking" is missing candidate(s) ${unranked.join(", ")}`);
+    }
+  }
+
+  const requirements: RequirementComparison[] = [];
+  if (!Array.isArray(obj.requirements) || obj.requirements.length === 0) {
+    errors.push(`"requirements" must be a non-empty array`);
+  } else {
+    obj.requirements.slice(0, MAX_REQUIREMENTS).forEach((req, i) => {
+      if (!nonEmpty(req?.requirement)) {
+        errors.push(
+          `requirements[${i}].requirement must be a non-empty string`,
+        );
+        return;
+      }
+      const rated = Array.isArray(req.candidates) ? req.candidates : [];
+      const candidates = ids.map((id, c) => {
+        const entry = rated.find((x: Record<string, unknown>) =>
+          idOf(x?.candidate) === id
+        );
+        if (!entry || !RATINGS.includes(entry.rating)) {
+          errors.push(
+            `requirements[${i}] needs a rating (${
+              RATINGS.join(" | ")
+            }) for candidate ${letters[c]}`,
+          );
+          return null;
+        }
+        return {
+          id,
+          rating: entry.rating as RequirementRating,
+          note: nonEmpty(entry.note) ? entry.note.trim() : "",
+        };
+      });
+      requirements.push({
+        requirement: req.requirement.trim(),
+        candidates: candidates.filter((c) => c !== null),
+      });
+    });
+  }
+
+  if (!nonEmpty(obj.summary)) {
+    errors.push(`"summary" must be a non-empty string`);
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      ranking,
+      requirements,
+      summary: (obj.summary as string).trim(),
+    },
+  };
+}
+
+export function parseComparison(
+  raw: string,
+  ids: string[],
+): ReturnType<typeof validateComparison> {
+  let value: unknown;
+  try {
+    value = extractJson(raw);
+  } catch (err) {
+    return {
+      ok: false,
+      errors: [
+        `invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+      ],
+    };
+  }
+  return validateComparison(value, ids);
+}
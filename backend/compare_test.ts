@@ -0,0 +1,184 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  buildComparePrompt,
+  MAX_COMPARE,
+  parseCompareInput,
+  parseComparison,
+  validateComparison,
+} from "./compare.ts";
+import type { RoleProfile } from "./profiles.ts";
+
+const PROFILE: RoleProfile = {
+  id: "test",
+  name: "Test",
+  persona: "a staff engineer",
+  seniority: "Senior",
+  mustHave: ["Postgres"],
+  niceToHave: [],
+  rubric: "",
+  tone: "neutral-hr",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+const IDS = ["alice.pdf", "bob.pdf"];
+
+const ANSWER = {
+  ranking: [
+    { candidate: "B", justification: " Ran Postgres at scale. " },
+    { candidate: "a", justification: "Strong TypeScript, no Postgres." },
+  ],
+  requirements: [{
+    requirement: "Postgres",
+    candidates: [
+      { candidate: "A", rating: "missing", note: "Not mentioned" },
+      { candidate: "B", rating: "strong" },
+    ],
+  }],
+  summary: "B has the database depth.",
+};
+
+Deno.test("compare requests need a JD and 2 to 4 distinct resumes", () => {
+  const body = {
+    jd: " Senior engineer ",
+    candidates: [
+      { id: "alice.pdf", text: "Alice" },
+      { id: "bob.pdf", text: "Bob" },
+    ],
+  };
+  assertEquals(parseCompareInput(body), {
+    ok: true,
+    value: {
+      jd: "Senior engineer",
+      candidates: body.candidates,
+      profileId: null,
+      blind: false,
+    },
+  });
+
+  assertEquals(parseCompareInput({ ...body, jd: "" }), {
+    ok: false,
+    error: "Missing 'jd'",
+  });
+  for (const count of [1, MAX_COMPARE + 1]) {
+    const candidates = Array.from(
+      { length: count },
+      (_, i) => ({ id: `cv-${i}`, text: "x" }),
+    );
+    assertEquals(
+      parseCompareInput({ ...body, candidates }),
+      { ok: false, error: "'candidates' must be an array of 2 to 4 resumes" },
+    );
+  }
+  assertEquals(
+    parseCompareInput({
+      ...body,
+      candidates: [{ id: "a", text: "x" }, { id: "b", text: " " }],
+    }),
+    { ok: false, error: "Every candidate needs an 'id' and non-empty 'text'" },
+  );
+  assertEquals(
+    parseCompareInput({
+      ...body,
+      candidates: [{ id: "a", text: "x" }, { id: "a", text: "y" }],
+    }),
+    { ok: false, error: "Candidate ids must be unique" },
+  );
+});
+
+Deno.test("the prompt shows candidates by letter, never by id", () => {
+  const prompt = buildComparePrompt(
+    "Senior engineer",
+    ["Alice, TypeScript", "Bob, Postgres"],
+    PROFILE,
+  );
+  assertStringIncludes(prompt, "choosing between 2 finalists");
+  assertStringIncludes(prompt, "Compare candidates A, B AGAINST EACH OTHER");
+  assertStringIncludes(prompt, "Must-have skills (always include");
+  assertStringIncludes(
+    prompt,
+    "CANDIDATE B START -----------\nBob, Postgres\n",
+  );
+  assert(!prompt.includes("alice.pdf"));
+});
+
+Deno.test("letters in the answer are mapped back to ids", () => {
+  assertEquals(
+    parseComparison("```json\n" + JSON.stringify(ANSWER) + "\n```", IDS),
+    {
+      ok: true,
+      value: {
+        ranking: [
+          { id: "bob.pdf", rank: 1, justification: "Ran Postgres at scale." },
+          {
+            id: "alice.pdf",
+            rank: 2,
+            justification: "Strong TypeScript, no Postgres.",
+          },
+        ],
+        requirements: [{
+          requirement: "Postgres",
+          candidates: [
+            { id: "alice.pdf", rating: "missing", note: "Not mentioned" },
+            { id: "bob.pdf", rating: "strong", note: "" },
+          ],
+        }],
+        summary: "B has the database depth.",
+      },
+    },
+  );
+});
+
+Deno.test("every candidate needs a place and a rating on every requirement", () => {
+  assertEquals(
+    validateComparison({ ...ANSWER, ranking: ANSWER.ranking.slice(0, 1) }, IDS),
+    { ok: false, errors: ['"ranking" is missing candidate(s) A'] },
+  );
+  assertEquals(
+    validateComparison(
+      { ...ANSWER, ranking: [ANSWER.ranking[0], ANSWER.ranking[0]] },
+      IDS,
+    ),
+    { ok: false, errors: ["candidate B is ranked twice"] },
+  );
+  assertEquals(
+    validateComparison({
+      ...ANSWER,
+      ranking: [...ANSWER.ranking, { candidate: "C", justification: "?" }],
+    }, IDS),
+    { ok: false, errors: ["ranking[2].candidate must be one of A,B"] },
+  );
+  assertEquals(
+    validateComparison({
+      ...ANSWER,
+      requirements: [{
+        requirement: "Postgres",
+        candidates: [{ candidate: "A", rating: "great" }],
+      }],
+    }, IDS),
+    {
+      ok: false,
+      errors: [
+        "requirements[0] needs a rating (strong | partial | missing) for candidate A",
+        "requirements[0] needs a rating (strong | partial | missing) for candidate B",
+      ],
+    },
+  );
+  assertEquals(
+    validateComparison({ ...ANSWER, requirements: [], summary: "" }, IDS),
+    {
+      ok: false,
+      errors: [
+        '"requirements" must be a non-empty array',
+        '"summary" must be a non-empty string',
+      ],
+    },
+  );
+  assertEquals(validateComparison([ANSWER], IDS), {
+    ok: false,
+    errors: ["output must be a JSON object"],
+  });
+  assertEquals(parseComparison("I'd pick B.", IDS), {
+    ok: false,
+    errors: ["invalid JSON: no JSON object found in model output"],
+  });
+});
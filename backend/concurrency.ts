@@ -0,0 +1,127 @@
+// concurrency.ts – small helpers for running model calls in parallel
+// with a bounded worker pool and retrying transient failures.
+
+// Run `worker` over `items` with at most `limit` calls in flight.
+// Results keep the input order.
+export async function runPool<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const size = Math.max(1, Math.min(limit, items.length));
+  const workers = Array.from({ length: size }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+// A fixed set of slots (0..size-1) shared by every request in the process.
+// A slot is held by one task at a time, so per-slot state (one agent per
+// slot) is never used by two tasks at once. Tasks queue for a free slot in
+// the order they asked.
+export function createSlotPool(size: number) {
+  const total = Math.max(1, size);
+  const free = Array.from({ length: total }, (_, slot) => slot);
+  const waiting: ((slot: number) => void)[] = [];
+
+  // Resolves with a free slot; aborting `signal` gives up the place in line.
+  function lease(signal?: AbortSignal): Promise<number> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const slot = free.shift();
+    if (slot !== undefined) return Promise.resolve(slot);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        waiting.splice(waiting.indexOf(take), 1);
+        reject(signal?.reason);
+      };
+      const take = (slot: number) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(slot);
+      };
+      waiting.push(take);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  function release(slot: number) {
+    const next = waiting.shift();
+    if (next) next(slot);
+    else free.push(slot);
+  }
+
+  return {
+    size: total,
+    lease,
+    release,
+
+    // Run `task` on a leased slot and hand the slot back when it's done.
+    async use<T>(
+      task: (slot: number) => Promise<T>,
+      signal?: AbortSignal,
+    ): Promise<T> {
+      const slot = await lease(signal);
+      try {
+        return await task(slot);
+      } finally {
+        release(slot);
+      }
+    },
+  };
+}
+
+export type SlotPool = ReturnType<typeof createSlotPool>;
+
+export type RetryOptions = {
+  // extra attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  isRetryable: (err: unknown) => boolean;
+  onRetry?: (err: unknown, attempt: number, delayMs: number) => void;
+};
+
+// Call `fn` until it succeeds, backing off exponentially (with jitter)
+// between attempts. Non-retryable errors and the last failure are rethrown.
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  opts: RetryOptions,
+): Promise<T> {
+  for (let attempt = 1;; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (attempt > opts.retries || !opts.isRetryable(err)) throw err;
+
+      const backoff = Math.min(
+        opts.maxDelayMs,
+        opts.baseDelayMs * 2 ** (attempt - 1),
+      );
+      const delayMs = Math.round(backoff / 2 + Math.random() * backoff / 2);
+      opts.onRetry?.(err, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+// Rate limits (429), overloaded API (529) and timeouts are worth another
+// try. Everything else (bad key, bad request…) will fail the same way again.
+export function isTransientError(err: unknown): boolean {
+  if (!err || typeof err !== "object") return false;
+
+  const e = err as { status?: unknown; name?: unknown; message?: unknown };
+  if (e.status === 408 || e.status === 429 || e.status === 529) return true;
+  if (e.name === "TimeoutError" || e.name === "AbortError") return true;
+
+  const message = typeof e.message === "string" ? e.message : "";
+  return /rate.?limit|overloaded|timed? ?out|timeout|ETIMEDOUT|ECONNRESET/i
+    .test(message);
+}
@@ -0,0 +1,131 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  createSlotPool,
+  isTransientError,
+  runPool,
+  withRetry,
+} from "./concurrency.ts";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+Deno.test("runPool keeps at most `limit` calls in flight, in input order", async () => {
+  let running = 0;
+  let peak = 0;
+  const results = await runPool([5, 1, 4, 2, 3], 2, async (n, i) => {
+    running++;
+    peak = Math.max(peak, running);
+    for (let t = 0; t < n; t++) await tick();
+    running--;
+    return `${i}:${n}`;
+  });
+
+  assertEquals(peak, 2);
+  assertEquals(results, ["0:5", "1:1", "2:4", "3:2", "4:3"]);
+  assertEquals(await runPool([], 4, () => Promise.resolve(1)), []);
+});
+
+Deno.test("a slot is held by one task at a time", async () => {
+  const pool = createSlotPool(2);
+  const busy = new Set<number>();
+  const used: number[] = [];
+
+  await Promise.all(Array.from({ length: 6 }, () =>
+    pool.use(async (slot) => {
+      assertEquals(busy.has(slot), false, `slot ${slot} handed out twice`);
+      busy.add(slot);
+      used.push(slot);
+      await tick();
+      busy.delete(slot);
+    })));
+
+  assertEquals(pool.size, 2);
+  assertEquals(used.length, 6);
+  assertEquals(new Set(used), new Set([0, 1]));
+});
+
+Deno.test("waiting tasks get slots in the order they asked", async () => {
+  const pool = createSlotPool(1);
+  const first = await pool.lease();
+  const order: string[] = [];
+  const b = pool.lease().then((slot) => {
+    order.push("b");
+    return slot;
+  });
+  const c = pool.lease().then((slot) => {
+    order.push("c");
+    return slot;
+  });
+
+  pool.release(first);
+  pool.release(await b);
+  await c;
+
+  assertEquals(order, ["b", "c"]);
+});
+
+Deno.test("a failing task still hands its slot back", async () => {
+  const pool = createSlotPool(1);
+  await assertRejects(
+    () => pool.use(() => Promise.reject(new Error("boom"))),
+    Error,
+    "boom",
+  );
+  assertEquals(await pool.use((slot) => Promise.resolve(slot)), 0);
+});
+
+Deno.test("aborting a waiting lease gives up its place in line", async () => {
+  const pool = createSlotPool(1);
+  const held = await pool.lease();
+  const controller = new AbortController();
+  const given = pool.lease(controller.signal);
+  const next = pool.lease();
+
+  controller.abort(new Error("cancelled"));
+  await assertRejects(() => given, Error, "cancelled");
+  pool.release(held);
+
+  assertEquals(await next, held);
+  await assertRejects(() => pool.lease(controller.signal), Error, "cancelled");
+});
+
+Deno.test("withRetry retries transient errors up to the limit", async () => {
+  const attempts: number[] = [];
+  const retried: number[] = [];
+  const opts = {
+    retries: 2,
+    baseDelayMs: 1,
+    maxDelayMs: 2,
+    isRetryable: isTransientError,
+    onRetry: (_: unknown, attempt: number) => retried.push(attempt),
+  };
+
+  const out = await withRetry((attempt) => {
+    attempts.push(attempt);
+    if (attempt < 3) throw new Error("Overloaded");
+    return Promise.resolve("done");
+  }, opts);
+  assertEquals([out, attempts, retried], ["done", [1, 2, 3], [1, 2]]);
+
+  let calls = 0;
+  await assertRejects(
+    () =>
+      withRetry(() => {
+        calls++;
+        throw new Error("invalid x-api-key");
+      }, opts),
+    Error,
+    "invalid x-api-key",
+  );
+  assertEquals(calls, 1);
+});
+
+Deno.test("rate limits, overload and timeouts are transient", () => {
+  assertEquals(isTransientError({ status: 429 }), true);
+  assertEquals(isTransientError({ status: 529 }), true);
+  assertEquals(isTransientError({ name: "TimeoutError" }), true);
+  assertEquals(isTransientError(new Error("read ECONNRESET")), true);
+  assertEquals(isTransientError(new Error("Rate limit exceeded")), true);
+  assertEquals(isTransientError({ status: 401 }), false);
+  assertEquals(isTransientError(new Error("invalid x-api-key")), false);
+  assertEquals(isTransientError("Overloaded"), false);
+});
@@ -0,0 +1,168 @@
+// ensemble.ts – score each candidate several times (and/or with several
+// models) and combine the results, reporting how much the runs agree.
+
+export type EnsembleMethod = "median" | "mean";
+
+export type EnsembleConfig = {
+  // passes per model
+  runs: number;
+  // models to run (same provider); empty = just the configured model
+  models: string[];
+  method: EnsembleMethod;
+};
+
+// Attached to an AnalyzeResult when it came from an ensemble.
+export type EnsembleSummary = {
+  method: EnsembleMethod;
+  // passes that produced a valid assessment / passes attempted
+  validRuns: number;
+  totalRuns: number;
+  models: string[];
+  fitScores: number[];
+  riskScores: number[];
+  // max - min across valid runs (null when nothing was valid)
+  fitSpread: number | null;
+  riskSpread: number | null;
+  // 1 = every run agreed, 0 = runs span the whole 0-10 scale
+  fitConfidence: number | null;
+  riskConfidence: number | null;
+  // true when either spread reaches DISAGREEMENT_SPREAD
+  disagreement: boolean;
+};
+
+export const MAX_ENSEMBLE_RUNS = 5;
+export const MAX_ENSEMBLE_MODELS = 3;
+export const MAX_ENSEMBLE_PASSES = 10;
+export const DISAGREEMENT_SPREAD = 3;
+
+const SCORE_RANGE = 10;
+
+// Validate the optional `ensemble` field of an /analyze body.
+export function parseEnsembleInput(
+  input: unknown,
+): { ok: true; value: EnsembleConfig | null } | { ok: false; error: string } {
+  if (input === undefined || input === null || input === false) {
+    return { ok: true, value: null };
+  }
+  if (typeof input !== "object") {
+    return { ok: false, error: "'ensemble' must be an object" };
+  }
+  const e = input as Record<string, unknown>;
+
+  const runs = e.runs ?? 3;
+  if (
+    typeof runs !== "number" || !Number.isInteger(runs) || runs < 1 ||
+    runs > MAX_ENSEMBLE_RUNS
+  ) {
+    return {
+      ok: false,
+      error:
+        `'ensemble.runs' must be an integer from 1 to ${MAX_ENSEMBLE_RUNS}`,
+    };
+  }
+
+  const models = e.models ?? [];
+  if (!Array.isArray(models) || models.some((m) => typeof m !== "string")) {
+    return {
+      ok: false,
+      error: "'ensemble.models' must be an array of strings",
+    };
+  }
+  const cleanModels = [
+    ...new Set(models.map((m: string) => m.trim()).filter(Boolean)),
+  ];
+  if (cleanModels.length > MAX_ENSEMBLE_MODELS) {
+    return {
+      ok: false,
+      error: `'ensemble.models' allows at most ${MAX_ENSEMBLE_MODELS} models`,
+    };
+  }
+  if (runs * Math.max(1, cleanModels.length) > MAX_ENSEMBLE_PASSES) {
+    return {
+      ok: false,
+      error:
+        `An ensemble may run at most ${MAX_ENSEMBLE_PASSES} passes per candidate`,
+    };
+  }
+
+  const method = e.method ?? "median";
+  if (method !== "median" && method !== "mean") {
+    return { ok: false, error: "'ensemble.method' must be median or mean" };
+  }
+
+  return { ok: true, value: { runs, models: cleanModels, method } };
+}
+
+export function combineScores(values: number[], method: EnsembleMethod) {
+  if (values.length === 0) return null;
+  if (method === "mean") {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    return Math.round(mean * 10) / 10;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function spread(values: number[]): number | null {
+  return values.length ? Math.max(...values) - Math.min(...values) : null;
+}
+
+function confidence(s: number | null): number | null {
+  return s === null
+    ? null
+    : Math.round(Math.max(0, 1 - s / SCORE_RANGE) * 100) / 100;
+}
+
+export function summarizeEnsemble(
+  config: EnsembleConfig,
+  passes: {
+    model: string;
+    fitScore: number | null;
+    riskScore: number | null;
+  }[],
+): EnsembleSummary {
+  const valid = passes.filter((p) =>
+    p.fitScore !== null && p.riskScore !== null
+  );
+  const fitScores = valid.map((p) => p.fitScore as number);
+  const riskScores = valid.map((p) => p.riskScore as number);
+  const fitSpread = spread(fitScores);
+  const riskSpread = spread(riskScores);
+
+  return {
+    method: config.method,
+    validRuns: valid.length,
+    totalRuns: passes.length,
+    models: [...new Set(passes.map((p) => p.model))],
+    fitScores,
+    riskScores,
+    fitSpread,
+    riskSpread,
+    fitConfidence: confidence(fitSpread),
+    riskConfidence: confidence(riskSpread),
+    disagreement: (fitSpread ?? 0) >= DISAGREEMENT_SPREAD ||
+      (riskSpread ?? 0) >= DISAGREEMENT_SPREAD,
+  };
+}
+
+// Index of the valid pass closest to the combined scores – its verdict and
+// report are the ones shown for the candidate.
+export function pickRepresentative(
+  passes: { fitScore: number | null; riskScore: number | null }[],
+  fit: number | null,
+  risk: number | null,
+): number {
+  let best = -1;
+  let bestDistance = Infinity;
+  passes.forEach((p, i) => {
+    if (p.fitScore === null || p.riskScore === null) return;
+    const d = Math.abs(p.fitScore - (fit ?? 0)) +
+      Math.abs(p.riskScore - (risk ?? 0));
+    if (d < bestDistance) {
+      best = i;
+      bestDistance = d;
+    }
+  });
+  return best;
+}
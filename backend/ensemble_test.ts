@@ -0,0 +1,81 @@
+import { assertEquals } from "@std/assert";
+import {
+  combineScores,
+  type EnsembleConfig,
+  MAX_ENSEMBLE_PASSES,
+  parseEnsembleInput,
+  pickRepresentative,
+  summarizeEnsemble,
+} from "./ensemble.ts";
+
+const PASSES = [
+  { model: "model-a", fitScore: 7, riskScore: 2 },
+  { model: "model-a", fitScore: 8, riskScore: 3 },
+  { model: "model-b", fitScore: 4, riskScore: 2 },
+  { model: "model-b", fitScore: null, riskScore: null },
+];
+
+Deno.test("parseEnsembleInput fills defaults and checks limits", () => {
+  assertEquals(parseEnsembleInput(undefined), { ok: true, value: null });
+  assertEquals(parseEnsembleInput(false), { ok: true, value: null });
+  assertEquals(parseEnsembleInput({}), {
+    ok: true,
+    value: { runs: 3, models: [], method: "median" },
+  });
+  assertEquals(
+    parseEnsembleInput({ runs: 2, models: [" a ", "a", "", "b"] }),
+    { ok: true, value: { runs: 2, models: ["a", "b"], method: "median" } },
+  );
+  assertEquals(parseEnsembleInput("yes").ok, false);
+  assertEquals(parseEnsembleInput({ runs: 0 }).ok, false);
+  assertEquals(parseEnsembleInput({ runs: 2.5 }).ok, false);
+  assertEquals(parseEnsembleInput({ models: ["a", 1] }).ok, false);
+  assertEquals(parseEnsembleInput({ models: ["a", "b", "c", "d"] }).ok, false);
+  assertEquals(parseEnsembleInput({ method: "mode" }).ok, false);
+  assertEquals(parseEnsembleInput({ runs: 4, models: ["a", "b", "c"] }), {
+    ok: false,
+    error:
+      `An ensemble may run at most ${MAX_ENSEMBLE_PASSES} passes per candidate`,
+  });
+});
+
+Deno.test("combineScores takes the median or a rounded mean", () => {
+  assertEquals(combineScores([7, 8, 4], "median"), 7);
+  assertEquals(combineScores([4, 8], "median"), 6);
+  assertEquals(combineScores([7, 8, 4], "mean"), 6.3);
+  assertEquals(combineScores([], "median"), null);
+});
+
+Deno.test("the summary measures agreement over the valid passes", () => {
+  const config: EnsembleConfig = {
+    runs: 2,
+    models: ["model-a", "model-b"],
+    method: "median",
+  };
+  assertEquals(summarizeEnsemble(config, PASSES), {
+    method: "median",
+    validRuns: 3,
+    totalRuns: 4,
+    models: ["model-a", "model-b"],
+    fitScores: [7, 8, 4],
+    riskScores: [2, 3, 2],
+    fitSpread: 4,
+    riskSpread: 1,
+    fitConfidence: 0.6,
+    riskConfidence: 0.9,
+    disagreement: true,
+  });
+
+  const failed = summarizeEnsemble(config, PASSES.slice(3));
+  assertEquals(
+    [failed.validRuns, failed.fitSpread, failed.fitConfidence],
+    [0, null, null],
+  );
+  assertEquals(failed.disagreement, false);
+});
+
+Deno.test("the representative pass is the valid one closest to the scores", () => {
+  assertEquals(pickRepresentative(PASSES, 7, 2), 0);
+  assertEquals(pickRepresentative(PASSES, 5, 2), 2);
+  assertEquals(pickRepresentative(PASSES.slice(3), null, null), -1);
+});
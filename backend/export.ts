@@ -0,0 +1,247 @@
+// export.ts – saved runs as files to share outside the app: CSV for ATS
+// spreadsheets, JSON with everything, and a printable HTML shortlist
+// (one page per candidate; the browser's print dialog turns it into a PDF).
+
+import type { AnalysisSession } from "./sessions.ts";
+import type { AnalyzeResult } from "./types.ts";
+
+export type ExportFormat = "csv" | "json" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "html"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+// Highest fit first, unscored candidates last.
+function ranked(session: AnalysisSession): AnalyzeResult[] {
+  return session.candidates
+    .map((c) => c.result)
+    .sort((a, b) => (b.fitScore ?? -1) - (a.fitScore ?? -1));
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  let s = String(value);
+  // keep spreadsheets from evaluating model text as a formula
+  if (typeof value === "string" && /^[=+\-@]/.test(s)) s = `'${s}`;
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(session: AnalysisSession): string {
+  const rows = [
+    ["id", "fitScore", "riskScore", "verdict", "decision"],
+    ...ranked(session).map((r) => [
+      r.id,
+      r.fitScore,
+      r.riskScore,
+      r.verdict,
+      session.decisions[r.id] ?? null,
+    ]),
+  ];
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function toJson(session: AnalysisSession): string {
+  return JSON.stringify(
+    {
+      sessionId: session.id,
+      createdAt: session.createdAt,
+      model: session.model,
+      jd: session.jd,
+      decisions: session.decisions,
+      results: session.candidates.map((c) => c.result),
+    },
+    null,
+    2,
+  );
+}
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function inlineMarkdown(s: string): string {
+  return escapeHtml(s)
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*])\*([^*]+)\*/g, "$1<em>$2</em>")
+    .replace(/(^|\W)_([^_]+)_(?=\W|$)/g, "$1<em>$2</em>")
+    .replace(/`([^`]+)`/g, "<code>$1</code>");
+}
+
+// Just the markdown the model writes: headings, bullet lists, paragraphs.
+export function markdownToHtml(md: string): string {
+  const out: string[] = [];
+  let list: string[] = [];
+  let para: string[] = [];
+
+  const flush = () => {
+    if (list.length) out.push(`<ul>${list.join("")}</ul>`);
+    if (para.length) out.push(`<p>${para.join(" ")}</p>`);
+    list = [];
+    para = [];
+  };
+
+  for (const raw of md.split("\n")) {
+    const line = raw.trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^[-*•]\s+(.*)$/) ??
+      line.match(/^\d+[.)]\s+(.*)$/);
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      // h1/h2 are taken by the page itself
+      const level = Math.min(6, heading[1].length + 2);
+      out.push(`<h${level}>${inlineMarkdown(heading[2])}</h${level}>`);
+    } else if (bullet) {
+      if (para.length) flush();
+      list.push(`<li>${inlineMarkdown(bullet[1])}</li>`);
+    } else {
+      if (list.length) flush();
+      para.push(inlineMarkdown(line));
+    }
+  }
+  flush();
+  return out.join("\n");
+}
+
+function listSection(title: string, items: string[] | undefined): string {
+  if (!items?.length) return "";
+  return `<h3>${escapeHtml(title)}</h3><ul>${
+    items.map((i) => `<li>${inlineMarkdown(i)}</li>`).join("")
+  }</ul>`;
+}
+
+function skillsSection(r: AnalyzeResult): string {
+  if (!r.skills.length) return "";
+  const mark = { exact: "✓", synonym: "≈", missing: "✗" };
+  return `<h3>Skill coverage</h3><ul class="skills">${
+    r.skills.map((m) =>
+      `<li class="${m.match}">${mark[m.match]} ${escapeHtml(m.skill)}${
+        m.importance === "preferred" ? " <small>(preferred)</small>" : ""
+      }${m.quote ? ` — <q>${escapeHtml(m.quote)}</q>` : ""}</li>`
+    ).join("")
+  }</ul>`;
+}
+
+function riskSignalsSection(r: AnalyzeResult): string {
+  if (!r.riskSignals.length) return "";
+  return `<h3>Risk signals</h3><ul>${
+    r.riskSignals.map((s) =>
+      `<li><b>${s.severity}</b> ${escapeHtml(s.summary)}${
+        s.evidence.length
+          ? `<br><small>${s.evidence.map(escapeHtml).join(" · ")}</small>`
+          : ""
+      }</li>`
+    ).join("")
+  }</ul>`;
+}
+
+function candidatePage(r: AnalyzeResult, rank: number): string {
+  return `
+<section class="page">
+  <h2>#${rank} ${escapeHtml(r.id)}</h2>
+  <p class="scores">
+    <span>FitScore <b>${r.fitScore ?? "—"}</b>/10</span>
+    <span>RiskScore <b>${r.riskScore ?? "—"}</b>/10</span>
+    <span class="meta">${escapeHtml(r.profile.name)} · ${
+    escapeHtml(r.model)
+  }</span>
+  </p>
+  <p class="verdict">${inlineMarkdown(r.verdict)}</p>
+  ${listSection("Alignment", r.alignment)}
+  ${listSection("Gaps", r.gaps)}
+  ${listSection("Red Flags", r.redFlags)}
+  ${riskSignalsSection(r)}
+  ${listSection("Missing Skills", r.missingSkills)}
+  ${skillsSection(r)}
+  <h3>Full report</h3>
+  <div class="report">${markdownToHtml(r.report)}</div>
+</section>`;
+}
+
+export function toHtml(session: AnalysisSession): string {
+  const results = ranked(session);
+  const created = new Date(session.createdAt).toLocaleString("en-GB", {
+    timeZone: "UTC",
+  });
+  const jdTitle = session.jd.split("\n").find((l) => l.trim())?.trim() ?? "";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>FitScore shortlist – ${escapeHtml(jdTitle.slice(0, 80))}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #0f172a; max-width: 820px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0; }
+  h2 { font-size: 1.25rem; border-bottom: 2px solid #10b981; padding-bottom: .25rem; }
+  h3 { font-size: 1rem; margin: 1rem 0 .25rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: .35rem .5rem; text-align: left; vertical-align: top; }
+  .meta, small { color: #64748b; }
+  .scores span { margin-right: 1.25rem; }
+  .verdict { font-weight: 600; }
+  .skills { list-style: none; padding-left: 0; }
+  .skills .missing { color: #b91c1c; }
+  .skills .synonym { color: #b45309; }
+  .report { background: #f8fafc; padding: .5rem 1rem; border-radius: 6px; }
+  .print { margin: 1rem 0; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .print { display: none; }
+    .page { break-before: page; }
+  }
+</style>
+</head>
+<body>
+<h1>FitScore shortlist</h1>
+<p class="meta">${escapeHtml(jdTitle)}<br>Run ${escapeHtml(session.id)} · ${
+    escapeHtml(created)
+  } UTC · ${escapeHtml(session.model)}</p>
+<button class="print" onclick="window.print()">Print / save as PDF</button>
+<table>
+  <thead><tr><th>#</th><th>Candidate</th><th>Fit</th><th>Risk</th><th>Verdict</th></tr></thead>
+  <tbody>
+${
+    results.map((r, i) =>
+      `    <tr><td>${i + 1}</td><td>${escapeHtml(r.id)}</td><td>${
+        r.fitScore ?? "—"
+      }</td><td>${r.riskScore ?? "—"}</td><td>${
+        inlineMarkdown(r.verdict)
+      }</td></tr>`
+    ).join("\n")
+  }
+  </tbody>
+</table>
+${results.map((r, i) => candidatePage(r, i + 1)).join("\n")}
+</body>
+</html>
+`;
+}
+
+const RENDERERS: Record<ExportFormat, (s: AnalysisSession) => string> = {
+  csv: toCsv,
+  json: toJson,
+  html: toHtml,
+};
+
+// The finished response body; CSV and JSON download as files, the HTML
+// report opens in the browser.
+export function exportSession(
+  session: AnalysisSession,
+  format: ExportFormat,
+): { body: string; contentType: string; fileName: string | null } {
+  return {
+    body: RENDERERS[format](session),
+    contentType: CONTENT_TYPES[format],
+    fileName: format === "html" ? null : `fitscore-${session.id}.${format}`,
+  };
+}
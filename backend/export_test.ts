@@ -0,0 +1,154 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  escapeHtml,
+  exportSession,
+  inlineMarkdown,
+  markdownToHtml,
+  toCsv,
+  toHtml,
+} from "./export.ts";
+import type { AnalysisSession } from "./sessions.ts";
+import type { AnalyzeResult } from "./types.ts";
+import { EMPTY_USAGE } from "./usage.ts";
+
+function result(over: Partial<AnalyzeResult>): AnalyzeResult {
+  return {
+    id: "cv-1.txt",
+    verdict: "Solid",
+    fitScore: 7,
+    riskScore: 3,
+    report: "## Alignment\n- Owns the Postgres layer",
+    alignment: ["Postgres"],
+    gaps: [],
+    redFlags: [],
+    missingSkills: [],
+    skills: [],
+    riskSignals: [],
+    redactions: [],
+    blind: false,
+    parseStatus: "clean",
+    profile: { id: "p", name: "Backend" },
+    model: "claude-test",
+    attempts: 1,
+    status: "ok",
+    usage: EMPTY_USAGE,
+    truncated: false,
+    budgetExceeded: false,
+    cached: false,
+    ...over,
+  };
+}
+
+function session(...results: AnalyzeResult[]): AnalysisSession {
+  return {
+    id: "run-1",
+    client: "default",
+    createdAt: "2025-06-01T09:30:00.000Z",
+    model: "claude-test",
+    jd: "Senior TypeScript engineer\nPostgres",
+    candidates: results.map((r) => ({
+      resume: { id: r.id, text: "" },
+      rawOutput: "",
+      result: r,
+    })),
+    decisions: {},
+  };
+}
+
+Deno.test("CSV rows are ranked and carry the decision", () => {
+  const s = session(
+    result({ id: "low", fitScore: 3 }),
+    result({ id: "failed", fitScore: null, riskScore: null }),
+    result({ id: "high", fitScore: 9 }),
+  );
+  s.decisions = { high: "shortlisted" };
+
+  assertEquals(
+    toCsv(s),
+    "id,fitScore,riskScore,verdict,decision\r\n" +
+      "high,9,3,Solid,shortlisted\r\n" +
+      "low,3,3,Solid,\r\n" +
+      "failed,,,Solid,\r\n",
+  );
+});
+
+Deno.test("CSV cells can't start a spreadsheet formula", () => {
+  const csv = toCsv(session(
+    result({ id: '=HYPERLINK("http://x")', fitScore: 9 }),
+    result({ id: "+1 more", fitScore: 8, verdict: "-2 years short" }),
+    result({ id: "@SUM(A1)", fitScore: 7, verdict: "Fine" }),
+  ));
+  const rows = csv.split("\r\n");
+
+  assertEquals(rows[1], `"'=HYPERLINK(""http://x"")",9,3,Solid,`);
+  assertEquals(rows[2], "'+1 more,8,3,'-2 years short,");
+  assertEquals(rows[3], "'@SUM(A1),7,3,Fine,");
+});
+
+Deno.test("CSV quotes commas, quotes and line breaks", () => {
+  const csv = toCsv(session(
+    result({ verdict: 'Strong, but "senior" is a stretch\nfor now' }),
+  ));
+  assertEquals(
+    csv.split("\r\n")[1],
+    'cv-1.txt,7,3,"Strong, but ""senior"" is a stretch\nfor now",',
+  );
+});
+
+Deno.test("HTML escapes everything that came from a resume or the model", () => {
+  const html = toHtml(session(result({
+    id: "<script>alert(1)</script>",
+    verdict: '**Strong** <img src=x onerror="alert(1)">',
+    alignment: ["<b>Postgres</b>"],
+    report: "## <i>Alignment</i>\n- Ran `<svg onload=alert(1)>`",
+    profile: { id: "p", name: "Back & <end>" },
+    skills: [{
+      skill: "TypeScript",
+      importance: "required",
+      match: "exact",
+      term: "TypeScript",
+      quote: 'Wrote "TypeScript" <everywhere>',
+    }],
+  })));
+
+  assert(!html.includes("<script>alert"));
+  assert(!html.includes("<img"));
+  assert(!html.includes("<svg"));
+  assertStringIncludes(html, "&lt;script&gt;alert(1)&lt;/script&gt;");
+  assertStringIncludes(
+    html,
+    "<strong>Strong</strong> &lt;img src=x onerror=&quot;alert(1)&quot;&gt;",
+  );
+  assertStringIncludes(html, "<li>&lt;b&gt;Postgres&lt;/b&gt;</li>");
+  assertStringIncludes(html, "<h4>&lt;i&gt;Alignment&lt;/i&gt;</h4>");
+  assertStringIncludes(html, "<code>&lt;svg onload=alert(1)&gt;</code>");
+  assertStringIncludes(html, "Back &amp; &lt;end&gt;");
+  assertStringIncludes(
+    html,
+    "<q>Wrote &quot;TypeScript&quot; &lt;everywhere&gt;</q>",
+  );
+});
+
+Deno.test("inline markdown only adds its own tags", () => {
+  assertEquals(escapeHtml(`a & "b" <c>`), "a &amp; &quot;b&quot; &lt;c&gt;");
+  assertEquals(
+    inlineMarkdown("**bold**, *em*, _em_ and `code` but snake_case_name"),
+    "<strong>bold</strong>, <em>em</em>, <em>em</em> and <code>code</code>" +
+      " but snake_case_name",
+  );
+  assertEquals(
+    markdownToHtml("# Title\nOne\nline\n\n- a\n2. b"),
+    "<h3>Title</h3>\n<p>One line</p>\n<ul><li>a</li><li>b</li></ul>",
+  );
+});
+
+Deno.test("CSV and JSON download as files, HTML opens inline", () => {
+  const s = session(result({}));
+  assertEquals(exportSession(s, "csv").fileName, "fitscore-run-1.csv");
+  assertEquals(
+    exportSession(s, "json").contentType,
+    "application/json; charset=utf-8",
+  );
+  assertEquals(JSON.parse(exportSession(s, "json").body).sessionId, "run-1");
+  assertEquals(exportSession(s, "html").fileName, null);
+});
@@ -0,0 +1,245 @@
+// extract.ts – pull plain text out of uploaded resume files
+// (PDF, DOCX, RTF, TXT) so they can go through the normal /analyze flow.
+
+import { unzipSync } from "fflate";
+import { extractText, getDocumentProxy } from "unpdf";
+
+export type ExtractedFile = {
+  fileName: string;
+  // default candidate label, derived from the file name
+  id: string;
+  text: string;
+  // set when this one file couldn't be read; the rest of the batch still goes
+  error: string | null;
+};
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+type FileKind = "pdf" | "docx" | "rtf" | "txt";
+
+function detectKind(file: File): FileKind | null {
+  const ext = file.name.toLowerCase().split(".").pop() ?? "";
+  if (ext === "pdf" || file.type === "application/pdf") return "pdf";
+  if (
+    ext === "docx" ||
+    file.type ===
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+  ) return "docx";
+  if (ext === "rtf" || file.type === "application/rtf") return "rtf";
+  if (ext === "txt" || ext === "md" || file.type.startsWith("text/")) {
+    return "txt";
+  }
+  return null;
+}
+
+// "Jane_Doe-Resume.pdf" -> "Jane_Doe-Resume"
+export function labelFromFileName(name: string): string {
+  const base = name.replace(/\.[^.]+$/, "").trim();
+  return base || name;
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<string> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: true });
+  return text;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(s: string): string {
+  return s.replace(/&(#x?[0-9a-f]+|\w+);/gi, (whole, ent: string) => {
+    if (ent[0] === "#") {
+      const code = ent[1] === "x" || ent[1] === "X"
+        ? parseInt(ent.slice(2), 16)
+        : parseInt(ent.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : whole;
+    }
+    return XML_ENTITIES[ent] ?? whole;
+  });
+}
+
+// A .docx is a zip; the body lives in word/document.xml. We only need the
+// text runs (<w:t>) plus paragraph / tab / line-break boundaries.
+function extractDocx(bytes: Uint8Array): string {
+  const files = unzipSync(bytes, {
+    filter: (f) => f.name === "word/document.xml",
+  });
+  const xml = files["word/document.xml"];
+  if (!xml) throw new Error("word/document.xml missing – not a DOCX file");
+
+  const body = new TextDecoder().decode(xml);
+  const text = body
+    // field codes (e.g. HYPERLINK "...") aren't visible text
+    .replace(/<w:instrText[^>]*>[^<]*<\/w:instrText>/g, "")
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:br\/>|<w:cr\/>/g, "\n")
+    .replace(/<\/w:p>/g, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeXmlEntities(text);
+}
+
+// Destinations whose contents are metadata, not document text.
+const RTF_SKIP_GROUPS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "header",
+  "footer",
+  "listtable",
+  "listoverridetable",
+  "generator",
+]);
+
+// Minimal RTF → text: follows groups so font tables etc. are dropped, maps
+// paragraph/tab/line controls to whitespace and decodes \'hh and \uN escapes.
+export function rtfToText(rtf: string): string {
+  const cp1252 = new TextDecoder("windows-1252");
+  const out: string[] = [];
+  // per-group "skip" flags; a group inherits skipping from its parent
+  const stack: boolean[] = [];
+  let skipping = false;
+  // chars to drop after a \uN escape (its ANSI fallback)
+  let ucSkip = 0;
+  let i = 0;
+
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === "{") {
+      stack.push(skipping);
+      i++;
+      continue;
+    }
+    if (ch === "}") {
+      skipping = stack.pop() ?? false;
+      i++;
+      continue;
+    }
+    if (ch === "\r" || ch === "\n") {
+      i++;
+      continue;
+    }
+    if (ch !== "\\") {
+      if (ucSkip > 0) ucSkip--;
+      else if (!skipping) out.push(ch);
+      i++;
+      continue;
+    }
+
+    // control sequence
+    const next = rtf[i + 1];
+    if (next === "\\" || next === "{" || next === "}") {
+      if (!skipping) out.push(next);
+      i += 2;
+      continue;
+    }
+    if (next === "'") {
+      const hex = rtf.slice(i + 2, i + 4);
+      if (ucSkip > 0) ucSkip--;
+      else if (!skipping) {
+        out.push(cp1252.decode(new Uint8Array([parseInt(hex, 16)])));
+      }
+      i += 4;
+      continue;
+    }
+    if (next === "*") {
+      // {\*\destination ...} – unknown destinations are ignorable
+      skipping = true;
+      i += 2;
+      continue;
+    }
+
+    const m = /^\\([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i, i + 40));
+    if (!m) {
+      // control symbol like \~ or \-
+      if (next === "~" && !skipping) out.push(" ");
+      i += 2;
+      continue;
+    }
+    i += m[0].length;
+    const word = m[1];
+    const param = m[2];
+
+    if (RTF_SKIP_GROUPS.has(word)) {
+      skipping = true;
+    } else if (skipping) {
+      continue;
+    } else if (word === "par" || word === "line" || word === "sect") {
+      out.push("\n");
+    } else if (word === "tab") {
+      out.push("\t");
+    } else if (word === "u" && param) {
+      let code = Number(param);
+      if (code < 0) code += 65536;
+      out.push(String.fromCharCode(code));
+      ucSkip = 1;
+    }
+  }
+
+  return out.join("").replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n");
+}
+
+export async function extractFile(file: File): Promise<ExtractedFile> {
+  const base = {
+    fileName: file.name,
+    id: labelFromFileName(file.name),
+  };
+
+  const kind = detectKind(file);
+  if (!kind) {
+    return {
+      ...base,
+      text: "",
+      error: "Unsupported file type. Use PDF, DOCX, RTF or TXT.",
+    };
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return {
+      ...base,
+      text: "",
+      error: `File is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`,
+    };
+  }
+
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let text: string;
+    switch (kind) {
+      case "pdf":
+        text = await extractPdf(bytes);
+        break;
+      case "docx":
+        text = extractDocx(bytes);
+        break;
+      case "rtf":
+        text = rtfToText(new TextDecoder().decode(bytes));
+        break;
+      case "txt":
+        text = new TextDecoder().decode(bytes);
+        break;
+    }
+
+    text = text.trim();
+    if (!text) {
+      // usually a scanned PDF with no text layer
+      return { ...base, text: "", error: "No text found in this file." };
+    }
+    return { ...base, text, error: null };
+  } catch (err) {
+    console.error(`❌ Failed to extract "${file.name}":`, err);
+    return {
+      ...base,
+      text: "",
+      error: `Couldn't read this ${kind.toUpperCase()} file.`,
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { assertEquals } from "@std/assert";
+import { strToU8, zipSync } from "fflate";
+import {
+  extractFile,
+  labelFromFileName,
+  MAX_UPLOAD_BYTES,
+  rtfToText,
+} from "./extract.ts";
+
+// The smallest .docx extractFile accepts: just word/document.xml.
+function docx(body: string): File {
+  const xml = `<?xml version="1.0"?><w:document><w:body>${body}</w:body>` +
+    `</w:document>`;
+  const zip = zipSync({ "word/document.xml": strToU8(xml) });
+  return new File([zip], "Jane_Doe-Resume.docx");
+}
+
+Deno.test("candidate labels come from the file name", () => {
+  assertEquals(labelFromFileName("Jane_Doe-Resume.pdf"), "Jane_Doe-Resume");
+  assertEquals(labelFromFileName("cv.final.docx"), "cv.final");
+  assertEquals(labelFromFileName(".pdf"), ".pdf");
+});
+
+Deno.test("text files are read as they are", async () => {
+  const file = new File(["  Jane Doe\nTypeScript  \n"], "jane.md");
+  assertEquals(await extractFile(file), {
+    fileName: "jane.md",
+    id: "jane",
+    text: "Jane Doe\nTypeScript",
+    error: null,
+  });
+});
+
+Deno.test("DOCX keeps paragraphs, tabs and breaks but not field codes", async () => {
+  const out = await extractFile(docx(
+    `<w:p><w:r><w:t>Jane Doe</w:t></w:r></w:p>` +
+      `<w:p><w:r><w:t>Skills</w:t><w:tab/><w:t>Go &amp; TS</w:t></w:r>` +
+      `<w:r><w:br/><w:t xml:space="preserve">site: </w:t></w:r>` +
+      `<w:r><w:instrText> HYPERLINK "https://x" </w:instrText></w:r>` +
+      `<w:r><w:t>jane&#x2E;dev &#8211; &lt;hi&gt;</w:t></w:r></w:p>`,
+  ));
+  assertEquals(out.id, "Jane_Doe-Resume");
+  assertEquals(out.text, "Jane Doe\nSkills\tGo & TS\nsite: jane.dev – <hi>");
+  assertEquals(out.error, null);
+});
+
+Deno.test("a zip without a document body isn't a DOCX", async () => {
+  const zip = zipSync({ "notes.txt": strToU8("hello") });
+  const out = await extractFile(new File([zip], "cv.docx"));
+  assertEquals(out.error, "Couldn't read this DOCX file.");
+  assertEquals(out.text, "");
+});
+
+Deno.test("RTF drops font tables and decodes escapes", () => {
+  const rtf = String.raw`{\rtf1\ansi{\fonttbl{\f0 Arial;}}` +
+    String.raw`{\colortbl;\red0\green0\blue0;}{\*\generator Word;}` +
+    String.raw`\f0 Ren\'e9e Dupont\par ` +
+    String.raw`Skills:\tab Go\line Caf\u233?\~bar \{ok\}\par}`;
+  assertEquals(rtfToText(rtf), "Renée Dupont\nSkills:\tGo\nCafé bar {ok}\n");
+});
+
+Deno.test("RTF uploads go through the same path", async () => {
+  const file = new File([String.raw`{\rtf1 Jane Doe\par Go}`], "jane.rtf");
+  assertEquals((await extractFile(file)).text, "Jane Doe\nGo");
+});
+
+Deno.test("unsupported, oversized and empty files fail on their own", async () => {
+  assertEquals(
+    (await extractFile(new File(["x"], "photo.png", { type: "image/png" })))
+      .error,
+    "Unsupported file type. Use PDF, DOCX, RTF or TXT.",
+  );
+  const big = new File([new Uint8Array(MAX_UPLOAD_BYTES + 1)], "big.txt");
+  assertEquals((await extractFile(big)).error, "File is larger than 10 MB.");
+  assertEquals(
+    (await extractFile(new File([" \n "], "blank.txt"))).error,
+    "No text found in this file.",
+  );
+});
+
+Deno.test("a broken PDF is reported, not thrown", async () => {
+  const out = await extractFile(
+    new File(["%PDF-1.7 not really"], "scan.pdf", { type: "application/pdf" }),
+  );
+  assertEquals(out, {
+    fileName: "scan.pdf",
+    id: "scan",
+    text: "",
+    error: "Couldn't read this PDF file.",
+  });
+});
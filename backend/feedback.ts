@@ -0,0 +1,450 @@
+// feedback.ts – reviewer feedback on scored candidates (the reviewer's own
+// fit rating and what happened to the candidate), the calibration report
+// that checks the model's scores against it, and the labeled examples that
+// can be fed back into the prompt (see buildPrompt).
+//
+// Each entry carries a copy of the scores it reviews, so the report never
+// has to load the runs themselves.
+
+import type { AnalyzeResult } from "./types.ts";
+
+export type ReviewOutcome = "advanced" | "rejected" | "hired";
+
+export const REVIEW_OUTCOMES: ReviewOutcome[] = [
+  "advanced",
+  "rejected",
+  "hired",
+];
+
+export type ReviewerFeedback = {
+  sessionId: string;
+  candidateId: string;
+  // the reviewer's own fit score, same 0-10 scale as fitScore
+  rating: number | null;
+  outcome: ReviewOutcome | null;
+  note: string;
+  // API key name of whoever saved it
+  reviewer: string;
+  updatedAt: string;
+  // what the model said about the candidate in that run
+  scored: {
+    fitScore: number | null;
+    riskScore: number | null;
+    verdict: string;
+    model: string;
+    profile: { id: string; name: string };
+  };
+};
+
+export type FeedbackInput = {
+  candidateId: string;
+  rating: number | null;
+  outcome: ReviewOutcome | null;
+  note: string;
+};
+
+const MAX_NOTE_CHARS = 1000;
+
+// Validate a PUT /sessions/:id/feedback body. Null (or missing) rating and
+// outcome together mean "clear this candidate's feedback".
+export function parseFeedbackInput(
+  body: unknown,
+): { ok: true; value: FeedbackInput } | { ok: false; error: string } {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const b = body as Record<string, unknown>;
+
+  const candidateId = typeof b.candidateId === "string" ? b.candidateId : "";
+  if (!candidateId) return { ok: false, error: "Missing 'candidateId'" };
+
+  const rating = b.rating ?? null;
+  if (
+    rating !== null &&
+    !(Number.isInteger(rating) && (rating as number) >= 0 &&
+      (rating as number) <= 10)
+  ) {
+    return { ok: false, error: "'rating' must be null or an integer 0-10" };
+  }
+
+  const outcome = b.outcome ?? null;
+  if (outcome !== null && !REVIEW_OUTCOMES.includes(outcome as ReviewOutcome)) {
+    return {
+      ok: false,
+      error: `'outcome' must be null or one of: ${REVIEW_OUTCOMES.join(", ")}`,
+    };
+  }
+
+  if (b.note !== undefined && typeof b.note !== "string") {
+    return { ok: false, error: "'note' must be a string" };
+  }
+  const note = ((b.note as string | undefined) ?? "").trim();
+  if (note.length > MAX_NOTE_CHARS) {
+    return {
+      ok: false,
+      error: `'note' must be at most ${MAX_NOTE_CHARS} characters`,
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      candidateId,
+      rating: rating as number | null,
+      outcome: outcome as ReviewOutcome | null,
+      note,
+    },
+  };
+}
+
+// The copy of the model's answer stored with the feedback.
+export function scoredFrom(result: AnalyzeResult): ReviewerFeedback["scored"] {
+  return {
+    fitScore: result.fitScore,
+    riskScore: result.riskScore,
+    verdict: result.verdict,
+    model: result.model,
+    profile: result.profile,
+  };
+}
+
+const FEEDBACK = "feedback";
+// The same entries by reviewer and profile, oldest update first, so the
+// report and the example picker read only what they use.
+const BY_PROFILE = "feedback_by_profile";
+// how many of a profile's newest reviews pickExamples chooses from
+const EXAMPLE_POOL = 50;
+
+function indexKey(entry: ReviewerFeedback): Deno.KvKey {
+  return [
+    BY_PROFILE,
+    entry.reviewer,
+    entry.scored.profile.id,
+    entry.updatedAt,
+    entry.sessionId,
+    entry.candidateId,
+  ];
+}
+
+function sameKey(a: Deno.KvKey, b: Deno.KvKey): boolean {
+  return a.length === b.length && a.every((part, i) => part === b[i]);
+}
+
+export function createFeedbackStore(kv: Deno.Kv) {
+  // Replace (or with null, remove) the feedback on one candidate, and its
+  // index entry with it.
+  async function write(
+    sessionId: string,
+    candidateId: string,
+    entry: ReviewerFeedback | null,
+  ): Promise<void> {
+    const key = [FEEDBACK, sessionId, candidateId];
+    // optimistic update: two reviewers can save the same candidate at once
+    for (let i = 0; i < 5; i++) {
+      const current = await kv.get<ReviewerFeedback>(key);
+      const op = kv.atomic().check(current);
+      const stale = current.value && indexKey(current.value);
+      if (stale && !(entry && sameKey(stale, indexKey(entry)))) {
+        op.delete(stale);
+      }
+      if (entry) op.set(key, entry).set(indexKey(entry), entry);
+      else op.delete(key);
+      if ((await op.commit()).ok) return;
+    }
+    throw new Error(
+      `Failed to update feedback on ${candidateId} in session ${sessionId}`,
+    );
+  }
+
+  return {
+    // Create or overwrite the feedback on one candidate of a run.
+    async set(entry: ReviewerFeedback): Promise<void> {
+      await write(entry.sessionId, entry.candidateId, entry);
+    },
+
+    async clear(sessionId: string, candidateId: string): Promise<void> {
+      await write(sessionId, candidateId, null);
+    },
+
+    // candidate id → feedback, for one run
+    async forSession(
+      sessionId: string,
+    ): Promise<Partial<Record<string, ReviewerFeedback>>> {
+      const out: Partial<Record<string, ReviewerFeedback>> = {};
+      for await (
+        const entry of kv.list<ReviewerFeedback>({
+          prefix: [FEEDBACK, sessionId],
+        })
+      ) {
+        out[entry.value.candidateId] = entry.value;
+      }
+      return out;
+    },
+
+    // Everything one reviewer saved, or what they saved on one profile,
+    // oldest update first.
+    async byReviewer(
+      reviewer: string,
+      profileId?: string,
+    ): Promise<ReviewerFeedback[]> {
+      const prefix = profileId
+        ? [BY_PROFILE, reviewer, profileId]
+        : [BY_PROFILE, reviewer];
+      const out: ReviewerFeedback[] = [];
+      for await (const entry of kv.list<ReviewerFeedback>({ prefix })) {
+        out.push(entry.value);
+      }
+      return out;
+    },
+
+    // The reviewer's newest feedback on a profile, newest first: what
+    // pickExamples chooses from.
+    async recent(
+      reviewer: string,
+      profileId: string,
+      limit = EXAMPLE_POOL,
+    ): Promise<ReviewerFeedback[]> {
+      const out: ReviewerFeedback[] = [];
+      for await (
+        const entry of kv.list<ReviewerFeedback>(
+          { prefix: [BY_PROFILE, reviewer, profileId] },
+          { reverse: true, limit },
+        )
+      ) {
+        out.push(entry.value);
+      }
+      return out;
+    },
+  };
+}
+
+export type FeedbackStore = ReturnType<typeof createFeedbackStore>;
+
+// --- calibration report ---
+
+// How close the model's fitScore is to the reviewers' own ratings.
+export type RatingAgreement = {
+  count: number;
+  meanAbsError: number;
+  // mean of fitScore - rating: positive = the model scores higher
+  bias: number;
+  // Pearson r; null when either side has no spread
+  correlation: number | null;
+  // share of ratings within one point of the fitScore
+  withinOne: number;
+};
+
+// How well "fitScore >= threshold" predicts who was advanced or hired.
+export type OutcomeAgreement = {
+  count: number;
+  accuracy: number;
+  // of the candidates above the threshold, the share that went on
+  precision: number | null;
+  // of the candidates that went on, the share above the threshold
+  recall: number | null;
+  meanFitScore: Record<ReviewOutcome, number | null>;
+};
+
+export type ProfileCalibration = {
+  profile: { id: string; name: string };
+  count: number;
+  meanFitScore: number | null;
+  meanRating: number | null;
+  rating: RatingAgreement | null;
+  outcome: OutcomeAgreement | null;
+};
+
+export type CalibrationReport = {
+  threshold: number;
+  // feedback entries on candidates that got a fitScore
+  count: number;
+  rating: RatingAgreement | null;
+  outcome: OutcomeAgreement | null;
+  profiles: ProfileCalibration[];
+  // counts per score 0-10: fitScores by outcome, and the reviewers' ratings
+  distribution: {
+    fitScore: Record<ReviewOutcome | "all", number[]>;
+    rating: number[];
+  };
+};
+
+export const DEFAULT_THRESHOLD = 7;
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function mean(values: number[]): number | null {
+  return values.length
+    ? round(values.reduce((a, b) => a + b, 0) / values.length)
+    : null;
+}
+
+function correlation(pairs: [number, number][]): number | null {
+  const n = pairs.length;
+  const mx = pairs.reduce((s, [x]) => s + x, 0) / n;
+  const my = pairs.reduce((s, [, y]) => s + y, 0) / n;
+  let sxy = 0, sxx = 0, syy = 0;
+  for (const [x, y] of pairs) {
+    sxy += (x - mx) * (y - my);
+    sxx += (x - mx) ** 2;
+    syy += (y - my) ** 2;
+  }
+  return sxx && syy ? round(sxy / Math.sqrt(sxx * syy)) : null;
+}
+
+function histogram(values: number[]): number[] {
+  const counts = new Array(11).fill(0);
+  for (const v of values) counts[Math.min(10, Math.max(0, Math.round(v)))]++;
+  return counts;
+}
+
+type Scored = ReviewerFeedback & {
+  scored: ReviewerFeedback["scored"] & { fitScore: number };
+};
+
+function ratingAgreement(entries: Scored[]): RatingAgreement | null {
+  const pairs = entries.flatMap((e): [number, number][] =>
+    e.rating === null ? [] : [[e.scored.fitScore, e.rating]]
+  );
+  if (pairs.length === 0) return null;
+  const diffs = pairs.map(([fit, rating]) => fit - rating);
+  return {
+    count: pairs.length,
+    meanAbsError: mean(diffs.map(Math.abs))!,
+    bias: mean(diffs)!,
+    correlation: correlation(pairs),
+    withinOne: round(
+      diffs.filter((d) => Math.abs(d) <= 1).length / diffs.length,
+    ),
+  };
+}
+
+function outcomeAgreement(
+  entries: Scored[],
+  threshold: number,
+): OutcomeAgreement | null {
+  const labeled = entries.filter((e) => e.outcome !== null);
+  if (labeled.length === 0) return null;
+
+  let tp = 0, fp = 0, fn = 0, tn = 0;
+  for (const e of labeled) {
+    const predicted = e.scored.fitScore >= threshold;
+    const actual = e.outcome !== "rejected";
+    if (predicted && actual) tp++;
+    else if (predicted) fp++;
+    else if (actual) fn++;
+    else tn++;
+  }
+  const fitsOf = (outcome: ReviewOutcome) =>
+    labeled.filter((e) => e.outcome === outcome).map((e) => e.scored.fitScore);
+
+  return {
+    count: labeled.length,
+    accuracy: round((tp + tn) / labeled.length),
+    precision: tp + fp ? round(tp / (tp + fp)) : null,
+    recall: tp + fn ? round(tp / (tp + fn)) : null,
+    meanFitScore: {
+      advanced: mean(fitsOf("advanced")),
+      rejected: mean(fitsOf("rejected")),
+      hired: mean(fitsOf("hired")),
+    },
+  };
+}
+
+// Agreement between the model's scores and the reviewers, overall and per
+// profile. Feedback on candidates without a fitScore (failed analyses)
+// isn't counted.
+export function buildCalibrationReport(
+  all: ReviewerFeedback[],
+  threshold = DEFAULT_THRESHOLD,
+): CalibrationReport {
+  const entries = all.filter((e): e is Scored => e.scored.fitScore !== null);
+
+  const byProfile = new Map<string, Scored[]>();
+  for (const e of entries) {
+    const group = byProfile.get(e.scored.profile.id) ?? [];
+    group.push(e);
+    byProfile.set(e.scored.profile.id, group);
+  }
+  const profiles = [...byProfile.values()].map((group) => ({
+    // the newest entry has the profile's current name
+    profile: group[group.length - 1].scored.profile,
+    count: group.length,
+    meanFitScore: mean(group.map((e) => e.scored.fitScore)),
+    meanRating: mean(
+      group.flatMap((e) => (e.rating === null ? [] : [e.rating])),
+    ),
+    rating: ratingAgreement(group),
+    outcome: outcomeAgreement(group, threshold),
+  })).sort((a, b) => b.count - a.count);
+
+  const fitsOf = (outcome: ReviewOutcome) =>
+    entries.filter((e) => e.outcome === outcome).map((e) => e.scored.fitScore);
+
+  return {
+    threshold,
+    count: entries.length,
+    rating: ratingAgreement(entries),
+    outcome: outcomeAgreement(entries, threshold),
+    profiles,
+    distribution: {
+      fitScore: {
+        all: histogram(entries.map((e) => e.scored.fitScore)),
+        advanced: histogram(fitsOf("advanced")),
+        rejected: histogram(fitsOf("rejected")),
+        hired: histogram(fitsOf("hired")),
+      },
+      rating: histogram(
+        entries.flatMap((e) => (e.rating === null ? [] : [e.rating])),
+      ),
+    },
+  };
+}
+
+// --- few-shot calibration ---
+
+// One reviewed candidate, as shown to the model (see buildPrompt).
+export type CalibrationExample = {
+  fitScore: number;
+  riskScore: number | null;
+  verdict: string;
+  rating: number | null;
+  outcome: ReviewOutcome | null;
+  note: string;
+};
+
+export const MAX_EXAMPLES = 4;
+
+// The newest reviewed candidates of a profile, taking turns between
+// outcomes (hired, advanced, rejected, rating only) so the model sees both
+// sides of the bar rather than the last few rejections.
+export function pickExamples(
+  all: ReviewerFeedback[],
+  profileId: string,
+  limit = MAX_EXAMPLES,
+): CalibrationExample[] {
+  const newest = all
+    .filter((e): e is Scored =>
+      e.scored.profile.id === profileId && e.scored.fitScore !== null
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const groups = (["hired", "advanced", "rejected", null] as const).map(
+    (outcome) => newest.filter((e) => e.outcome === outcome),
+  );
+
+  const picked: Scored[] = [];
+  for (let i = 0; picked.length < limit; i++) {
+    const row = groups.flatMap((g) => (i < g.length ? [g[i]] : []));
+    if (row.length === 0) break;
+    picked.push(...row.slice(0, limit - picked.length));
+  }
+  return picked.map((e) => ({
+    fitScore: e.scored.fitScore,
+    riskScore: e.scored.riskScore,
+    verdict: e.scored.verdict,
+    rating: e.rating,
+    outcome: e.outcome,
+    note: e.note,
+  }));
+}
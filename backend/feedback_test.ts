@@ -0,0 +1,154 @@
+import { assertEquals } from "@std/assert";
+import {
+  buildCalibrationReport,
+  createFeedbackStore,
+  parseFeedbackInput,
+  pickExamples,
+  type ReviewerFeedback,
+  type ReviewOutcome,
+} from "./feedback.ts";
+
+let seq = 0;
+function review(
+  fitScore: number | null,
+  rating: number | null,
+  outcome: ReviewOutcome | null,
+  profileId = "eng",
+): ReviewerFeedback {
+  seq++;
+  return {
+    sessionId: "s1",
+    candidateId: `c${seq}`,
+    rating,
+    outcome,
+    note: "",
+    reviewer: "web",
+    updatedAt: new Date(Date.UTC(2025, 0, 1, 0, seq)).toISOString(),
+    scored: {
+      fitScore,
+      riskScore: 3,
+      verdict: `verdict ${seq}`,
+      model: "claude-test",
+      profile: { id: profileId, name: profileId.toUpperCase() },
+    },
+  };
+}
+
+Deno.test("parseFeedbackInput checks rating, outcome and note", () => {
+  assertEquals(
+    parseFeedbackInput({ candidateId: "a", rating: 7, outcome: "hired" }),
+    {
+      ok: true,
+      value: { candidateId: "a", rating: 7, outcome: "hired", note: "" },
+    },
+  );
+  assertEquals(parseFeedbackInput({ candidateId: "a", rating: 7.5 }).ok, false);
+  assertEquals(
+    parseFeedbackInput({ candidateId: "a", outcome: "shortlisted" }).ok,
+    false,
+  );
+  assertEquals(parseFeedbackInput({ rating: 3 }).ok, false);
+  assertEquals(
+    parseFeedbackInput({ candidateId: "a", note: "x".repeat(1001) }).ok,
+    false,
+  );
+});
+
+Deno.test("the report measures rating agreement and bias", () => {
+  const report = buildCalibrationReport([
+    review(8, 6, null),
+    review(6, 5, null),
+    review(4, 4, null),
+    review(null, 5, "rejected"),
+  ]);
+  // the failed analysis isn't counted
+  assertEquals(report.count, 3);
+  assertEquals(report.rating, {
+    count: 3,
+    meanAbsError: 1,
+    bias: 1,
+    correlation: 1,
+    withinOne: 0.67,
+  });
+  assertEquals(report.outcome, null);
+  assertEquals(report.distribution.rating[5], 1);
+  assertEquals(report.distribution.fitScore.all[8], 1);
+});
+
+Deno.test("the report checks the threshold against outcomes", () => {
+  const report = buildCalibrationReport([
+    review(9, null, "hired"),
+    review(8, null, "rejected"),
+    review(7, null, "advanced"),
+    review(5, null, "advanced"),
+    review(3, null, "rejected"),
+  ], 7);
+  assertEquals(report.outcome, {
+    count: 5,
+    accuracy: 0.6,
+    precision: 0.67,
+    recall: 0.67,
+    meanFitScore: { advanced: 6, rejected: 5.5, hired: 9 },
+  });
+  assertEquals(report.distribution.fitScore.rejected[8], 1);
+  assertEquals(report.distribution.fitScore.rejected[3], 1);
+});
+
+Deno.test("the report is broken down per profile", () => {
+  const report = buildCalibrationReport([
+    review(8, 5, null, "eng"),
+    review(9, 6, null, "eng"),
+    review(4, 6, null, "sales"),
+  ]);
+  assertEquals(
+    report.profiles.map((p) => [p.profile.id, p.count, p.rating?.bias]),
+    [["eng", 2, 3], ["sales", 1, -2]],
+  );
+  assertEquals(report.profiles[0].meanRating, 5.5);
+});
+
+Deno.test("pickExamples takes turns between outcomes, newest first", () => {
+  const reviews = [
+    review(3, 2, "rejected"),
+    review(4, 3, "rejected"),
+    review(6, 6, "rejected"),
+    review(8, 9, "hired"),
+    review(7, null, "advanced"),
+    review(9, 8, "hired", "sales"),
+    review(null, 5, "advanced"),
+  ];
+  const picked = pickExamples(reviews, "eng", 4);
+  assertEquals(picked.map((e) => [e.fitScore, e.outcome]), [
+    [8, "hired"],
+    [7, "advanced"],
+    [6, "rejected"],
+    [4, "rejected"],
+  ]);
+  assertEquals(pickExamples(reviews, "nope"), []);
+});
+
+Deno.test("feedback is read back per reviewer and profile", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const store = createFeedbackStore(kv);
+  const first = review(6, 5, "rejected");
+  await store.set(first);
+  await store.set(review(8, 9, "hired"));
+  await store.set(review(7, 7, null, "sales"));
+  await store.set({ ...review(5, 5, null), reviewer: "ats" });
+  // a later edit moves the entry to the end, once
+  const edited = { ...first, rating: 7, updatedAt: "2026-01-01T00:00:00Z" };
+  await store.set(edited);
+
+  const eng = await store.byReviewer("web", "eng");
+  assertEquals(eng.map((e) => e.rating), [9, 7]);
+  assertEquals((await store.byReviewer("web")).length, 3);
+  assertEquals(await store.recent("web", "eng", 1), [edited]);
+
+  await store.clear(first.sessionId, first.candidateId);
+  assertEquals((await store.byReviewer("web", "eng")).length, 1);
+  assertEquals(
+    (await store.forSession(first.sessionId))[first.candidateId],
+    undefined,
+  );
+  kv.close();
+});
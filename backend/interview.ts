@@ -0,0 +1,349 @@
+// interview.ts – tailored interview kits: questions that probe the gaps and
+// red flags an analysis found, each tied to a JD requirement and with what
+// a strong and a weak answer sound like. Exported as Markdown or as a
+// printable HTML page.
+
+import { extractJson } from "./assessment.ts";
+import { escapeHtml, inlineMarkdown } from "./export.ts";
+import type { RoleProfile } from "./profiles.ts";
+import type { CandidateUsage } from "./usage.ts";
+
+export type InterviewQuestion = {
+  question: string;
+  // the JD requirement the question checks
+  requirement: string;
+  // the gap, red flag or missing skill from the analysis it probes
+  probes: string;
+  strongAnswer: string;
+  weakAnswer: string;
+};
+
+export type InterviewKit = {
+  candidateId: string;
+  questions: InterviewQuestion[];
+  model: string;
+  generatedAt: string;
+  parseStatus: "clean" | "repaired";
+  usage: CandidateUsage;
+};
+
+// The parts of an AnalyzeResult the questions are built from.
+export type InterviewAnalysis = {
+  verdict: string;
+  gaps: string[];
+  redFlags: string[];
+  missingSkills: string[];
+  // summaries of the measured risk signals
+  riskSignals: string[];
+};
+
+// What POST /interview-kit accepts.
+export type InterviewKitInput = {
+  jd: string;
+  resume: { id: string; text: string };
+  analysis: InterviewAnalysis;
+  profileId: string | null;
+  blind: boolean;
+};
+
+export type KitExportFormat = "markdown" | "html";
+
+export const KIT_EXPORT_FORMATS: KitExportFormat[] = ["markdown", "html"];
+
+const MIN_QUESTIONS = 3;
+// the answer has to fit in MAX_OUTPUT_TOKENS, so keep kits short
+const MAX_QUESTIONS = 8;
+
+const QUESTION_FIELDS = [
+  "question",
+  "requirement",
+  "probes",
+  "strongAnswer",
+  "weakAnswer",
+] as const;
+
+// Shown to the model verbatim, so keep it in sync with `InterviewQuestion`.
+export const INTERVIEW_KIT_SCHEMA = `{
+  "questions": [
+    {
+      "question": "<what the interviewer asks, in their words>",
+      "requirement": "<the JD requirement this checks>",
+      "probes": "<the gap, red flag or missing skill it targets>",
+      "strongAnswer": "<what a convincing answer contains>",
+      "weakAnswer": "<what an evasive or shallow answer sounds like>"
+    },
+    ...
+  ]
+}`;
+
+function stringList(v: unknown): string[] | null {
+  if (v === undefined) return [];
+  if (!Array.isArray(v) || v.some((s) => typeof s !== "string")) return null;
+  return v.map((s: string) => s.trim()).filter(Boolean);
+}
+
+// Validate a POST /interview-kit body. Returns the clean fields, or a
+// message describing the first problem found.
+export function parseInterviewKitInput(
+  body: unknown,
+): { ok: true; value: InterviewKitInput } | { ok: false; error: string } {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const b = body as Record<string, unknown>;
+
+  const jd = typeof b.jd === "string" ? b.jd.trim() : "";
+  if (!jd) return { ok: false, error: "Missing 'jd'" };
+
+  const resume = b.resume as Record<string, unknown> | undefined;
+  if (
+    !resume || typeof resume.id !== "string" ||
+    typeof resume.text !== "string" || !resume.text.trim()
+  ) {
+    return {
+      ok: false,
+      error: "'resume' must be an object with 'id' and non-empty 'text'",
+    };
+  }
+
+  const a = b.analysis as Record<string, unknown> | undefined;
+  if (!a || typeof a !== "object") {
+    return { ok: false, error: "Missing 'analysis'" };
+  }
+  const gaps = stringList(a.gaps);
+  const redFlags = stringList(a.redFlags);
+  const missingSkills = stringList(a.missingSkills);
+  if (!gaps || !redFlags || !missingSkills) {
+    return {
+      ok: false,
+      error:
+        "'analysis.gaps', 'redFlags' and 'missingSkills' must be arrays of strings",
+    };
+  }
+  // the full signal objects from an AnalyzeResult; only the summary is used
+  const riskSignals = Array.isArray(a.riskSignals)
+    ? a.riskSignals.flatMap((s) =>
+      typeof s?.summary === "string" ? [s.summary as string] : []
+    )
+    : [];
+
+  return {
+    ok: true,
+    value: {
+      jd,
+      resume: { id: resume.id, text: resume.text },
+      analysis: {
+        verdict: typeof a.verdict === "string" ? a.verdict.trim() : "",
+        gaps,
+        redFlags,
+        missingSkills,
+        riskSignals,
+      },
+      profileId: typeof b.profileId === "string" && b.profileId.trim()
+        ? b.profileId.trim()
+        : null,
+      blind: b.blind === true,
+    },
+  };
+}
+
+function section(title: string, items: string[]): string {
+  return `${title}:\n${
+    items.length ? items.map((s) => `- ${s}`).join("\n") : "- (none)"
+  }`;
+}
+
+export function buildInterviewPrompt(
+  jd: string,
+  resumeText: string,
+  analysis: InterviewAnalysis,
+  profile: RoleProfile,
+): string {
+  const role = profile.seniority ? `the ${profile.seniority} role` : "the role";
+
+  return `
+You are ${profile.persona} preparing an INTERVIEW KIT for one candidate for ${role} described in the job description below.
+
+A screening pass already analyzed this resume against the JD. Write ${MIN_QUESTIONS}-${MAX_QUESTIONS} interview questions that test what that analysis could not settle from paper:
+- Each question targets one specific gap, red flag, missing skill or risk signal listed below, and names the JD requirement it checks.
+- Ask for concrete situations, numbers and decisions the candidate personally made; avoid trivia and yes/no questions.
+- For each question, say what a strong answer contains and what a weak one sounds like, specific to this candidate.
+- Keep every field to one or two sentences.
+
+IMPORTANT: You MUST respond with a single JSON object matching this shape.
+Do NOT add any explanation, markdown fences or text before or after it.
+
+${INTERVIEW_KIT_SCHEMA}
+
+------------ ANALYSIS START -------------
+Verdict: ${analysis.verdict || "(none)"}
+
+${section("Gaps", analysis.gaps)}
+
+${section("Red flags", analysis.redFlags)}
+
+${section("Missing skills", analysis.missingSkills)}
+
+${section("Measured risk signals", analysis.riskSignals)}
+------------ ANALYSIS END ---------------
+
+---------------- JD START ----------------
+${jd}
+---------------- JD END ------------------
+
+------------- RESUME START --------------
+${resumeText}
+------------- RESUME END ----------------
+`;
+}
+
+export function validateInterviewKit(
+  value: unknown,
+): { ok: true; value: InterviewQuestion[] } | { ok: false; errors: string[] } {
+  const questions = (value as { questions?: unknown } | null)?.questions;
+  if (!Array.isArray(questions)) {
+    return { ok: false, errors: [`"questions" must be an array`] };
+  }
+  if (questions.length < MIN_QUESTIONS) {
+    return {
+      ok: false,
+      errors: [`"questions" needs at least ${MIN_QUESTIONS} entries`],
+    };
+  }
+
+  const errors: string[] = [];
+  questions.forEach((q, i) => {
+    for (const key of QUESTION_FIELDS) {
+      const v = (q as Record<string, unknown> | null)?.[key];
+      if (typeof v !== "string" || !v.trim()) {
+        errors.push(`questions[${i}].${key} must be a non-empty string`);
+      }
+    }
+  });
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: questions.slice(0, MAX_QUESTIONS).map((q) => ({
+      question: q.question.trim(),
+      requirement: q.requirement.trim(),
+      probes: q.probes.trim(),
+      strongAnswer: q.strongAnswer.trim(),
+      weakAnswer: q.weakAnswer.trim(),
+    })),
+  };
+}
+
+export function parseInterviewKit(
+  raw: string,
+): { ok: true; value: InterviewQuestion[] } | { ok: false; errors: string[] } {
+  let value: unknown;
+  try {
+    value = extractJson(raw);
+  } catch (err) {
+    return {
+      ok: false,
+      errors: [
+        `invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+      ],
+    };
+  }
+  return validateInterviewKit(value);
+}
+
+// --- export ---
+
+// What the files need; a kit posted back by the UI is trusted no further.
+export type ExportableKit = Pick<
+  InterviewKit,
+  "candidateId" | "questions" | "model" | "generatedAt"
+>;
+
+export function kitToMarkdown(kit: ExportableKit): string {
+  return [
+    `# Interview kit – ${kit.candidateId}`,
+    "",
+    `_Generated ${kit.generatedAt} by ${kit.model}_`,
+    "",
+    ...kit.questions.flatMap((q, i) => [
+      `## ${i + 1}. ${q.question}`,
+      "",
+      `- **Checks:** ${q.requirement}`,
+      `- **Probes:** ${q.probes}`,
+      `- **Strong answer:** ${q.strongAnswer}`,
+      `- **Weak answer:** ${q.weakAnswer}`,
+      "",
+    ]),
+  ].join("\n");
+}
+
+export function kitToHtml(kit: ExportableKit): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Interview kit – ${escapeHtml(kit.candidateId)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #0f172a; max-width: 820px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0; }
+  h2 { font-size: 1.05rem; margin: 1.5rem 0 .25rem; }
+  dl { display: grid; grid-template-columns: 8rem 1fr; gap: .25rem .75rem; margin: 0; }
+  dt { color: #64748b; }
+  dd { margin: 0; }
+  .strong { color: #047857; }
+  .weak { color: #b91c1c; }
+  .notes { border: 1px dashed #cbd5e1; border-radius: 6px; min-height: 4rem; margin-top: .5rem; }
+  .meta { color: #64748b; }
+  .print { margin: 1rem 0; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .print { display: none; }
+    section { break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>Interview kit – ${escapeHtml(kit.candidateId)}</h1>
+<p class="meta">Generated ${escapeHtml(kit.generatedAt)} · ${
+    escapeHtml(kit.model)
+  }</p>
+<button class="print" onclick="window.print()">Print / save as PDF</button>
+${
+    kit.questions.map((q, i) =>
+      `<section>
+  <h2>${i + 1}. ${inlineMarkdown(q.question)}</h2>
+  <dl>
+    <dt>Checks</dt><dd>${inlineMarkdown(q.requirement)}</dd>
+    <dt>Probes</dt><dd>${inlineMarkdown(q.probes)}</dd>
+    <dt class="strong">Strong answer</dt><dd>${
+        inlineMarkdown(q.strongAnswer)
+      }</dd>
+    <dt class="weak">Weak answer</dt><dd>${inlineMarkdown(q.weakAnswer)}</dd>
+  </dl>
+  <div class="notes"></div>
+</section>`
+    ).join("\n")
+  }
+</body>
+</html>
+`;
+}
+
+// Same shape as exportSession: Markdown downloads, HTML opens in the browser.
+export function exportInterviewKit(
+  kit: ExportableKit,
+  format: KitExportFormat,
+): { body: string; contentType: string; fileName: string | null } {
+  const safeId = kit.candidateId.replace(/[^\w.-]+/g, "_") || "candidate";
+  return format === "markdown"
+    ? {
+      body: kitToMarkdown(kit),
+      contentType: "text/markdown; charset=utf-8",
+      fileName: `interview-kit-${safeId}.md`,
+    }
+    : {
+      body: kitToHtml(kit),
+      contentType: "text/html; charset=utf-8",
+      fileName: null,
+    };
+}
@@ -0,0 +1,148 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  buildInterviewPrompt,
+  exportInterviewKit,
+  type InterviewQuestion,
+  parseInterviewKit,
+  parseInterviewKitInput,
+} from "./interview.ts";
+import type { RoleProfile } from "./profiles.ts";
+
+const PROFILE: RoleProfile = {
+  id: "test",
+  name: "Test",
+  persona: "a staff engineer",
+  seniority: "Senior",
+  mustHave: [],
+  niceToHave: [],
+  rubric: "",
+  tone: "neutral-hr",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+const QUESTION: InterviewQuestion = {
+  question: "Walk me through the last Postgres outage you handled.",
+  requirement: "Runs Postgres in production",
+  probes: "No production database work listed",
+  strongAnswer: "Names the failure, the fix and what changed after.",
+  weakAnswer: "Talks about tutorials or someone else's incident.",
+};
+
+Deno.test("kit requests need a JD, a resume and the analysis", () => {
+  const body = {
+    jd: " Senior TypeScript engineer ",
+    resume: { id: "cv-1.txt", text: "[NAME], TypeScript" },
+    analysis: {
+      verdict: " Solid ",
+      gaps: [" Postgres ", ""],
+      redFlags: [],
+      riskSignals: [{ summary: "Short tenures" }, { severity: "low" }],
+    },
+    profileId: " backend ",
+    blind: true,
+  };
+  assertEquals(parseInterviewKitInput(body), {
+    ok: true,
+    value: {
+      jd: "Senior TypeScript engineer",
+      resume: { id: "cv-1.txt", text: "[NAME], TypeScript" },
+      analysis: {
+        verdict: "Solid",
+        gaps: ["Postgres"],
+        redFlags: [],
+        missingSkills: [],
+        riskSignals: ["Short tenures"],
+      },
+      profileId: "backend",
+      blind: true,
+    },
+  });
+
+  assertEquals(parseInterviewKitInput({ ...body, jd: " " }), {
+    ok: false,
+    error: "Missing 'jd'",
+  });
+  assertEquals(
+    parseInterviewKitInput({ ...body, resume: { id: "a", text: "" } }).ok,
+    false,
+  );
+  assertEquals(
+    parseInterviewKitInput({ ...body, analysis: undefined }),
+    { ok: false, error: "Missing 'analysis'" },
+  );
+  assertEquals(
+    parseInterviewKitInput({ ...body, analysis: { gaps: "Postgres" } }).ok,
+    false,
+  );
+});
+
+Deno.test("the prompt lists what the analysis left open", () => {
+  const prompt = buildInterviewPrompt(
+    "Senior TypeScript engineer",
+    "[NAME], TypeScript",
+    {
+      verdict: "",
+      gaps: ["Postgres"],
+      redFlags: [],
+      missingSkills: ["Kubernetes"],
+      riskSignals: ["Short tenures"],
+    },
+    PROFILE,
+  );
+  assertStringIncludes(prompt, "You are a staff engineer");
+  assertStringIncludes(prompt, "for the Senior role");
+  assertStringIncludes(prompt, "Verdict: (none)");
+  assertStringIncludes(prompt, "Gaps:\n- Postgres");
+  assertStringIncludes(prompt, "Red flags:\n- (none)");
+  assertStringIncludes(prompt, "Measured risk signals:\n- Short tenures");
+  assertStringIncludes(
+    prompt,
+    "RESUME START --------------\n[NAME], TypeScript\n",
+  );
+});
+
+Deno.test("a kit answer needs enough complete questions", () => {
+  const answer = (questions: unknown[]) =>
+    parseInterviewKit("```json\n" + JSON.stringify({ questions }) + "\n```");
+
+  assertEquals(answer([QUESTION, QUESTION, QUESTION]), {
+    ok: true,
+    value: [QUESTION, QUESTION, QUESTION],
+  });
+  // long kits are cut to the first eight
+  const long = answer(Array(10).fill(QUESTION));
+  assertEquals(long.ok && long.value.length, 8);
+
+  assertEquals(answer([QUESTION]), {
+    ok: false,
+    errors: ['"questions" needs at least 3 entries'],
+  });
+  assertEquals(answer([QUESTION, QUESTION, { ...QUESTION, probes: " " }]), {
+    ok: false,
+    errors: ["questions[2].probes must be a non-empty string"],
+  });
+  assertEquals(parseInterviewKit("no JSON here").ok, false);
+});
+
+Deno.test("kits export as Markdown files or an escaped HTML page", () => {
+  const kit = {
+    candidateId: "Jane <Doe>/cv",
+    questions: [{ ...QUESTION, question: "Why **<b>Postgres</b>**?" }],
+    model: "claude-test",
+    generatedAt: "2025-06-01T00:00:00.000Z",
+  };
+
+  const md = exportInterviewKit(kit, "markdown");
+  assertEquals(md.fileName, "interview-kit-Jane_Doe_cv.md");
+  assertStringIncludes(md.body, "## 1. Why **<b>Postgres</b>**?");
+  assertStringIncludes(md.body, "- **Checks:** Runs Postgres in production");
+
+  const html = exportInterviewKit(kit, "html");
+  assertEquals(html.fileName, null);
+  assert(!html.body.includes("<b>"));
+  assertStringIncludes(html.body, "Interview kit – Jane &lt;Doe&gt;/cv");
+  assertStringIncludes(
+    html.body,
+    "<h2>1. Why <strong>&lt;b&gt;Postgres&lt;/b&gt;</strong>?</h2>",
+  );
+});
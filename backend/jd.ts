@@ -0,0 +1,507 @@
+// jd.ts – JD quality review before any candidate is scored: the JD parsed
+// into structured requirements, the problems that make scores vague or
+// unfair, and a rewritten version.
+//
+// Some problems are measured here without a model call:
+//
+//   exclusionary   wording that puts off or screens out groups of people
+//   unrealistic    more years of a tool than it has existed, or a wall of
+//                  required skills
+//   contradiction  junior titles asking for senior experience, remote and
+//                  on-site at once
+//   ambiguity      catch-all phrases that say nothing about the work
+//
+// Those go into the prompt as facts; the model adds what they miss and
+// writes the rewrite.
+
+import { extractJson } from "./assessment.ts";
+import type { RoleProfile } from "./profiles.ts";
+import { extractJdSkills } from "./skills.ts";
+import type { CandidateUsage } from "./usage.ts";
+
+export type JdIssueKind =
+  | "ambiguity"
+  | "contradiction"
+  | "exclusionary"
+  | "unrealistic";
+
+export const JD_ISSUE_KINDS: JdIssueKind[] = [
+  "ambiguity",
+  "contradiction",
+  "exclusionary",
+  "unrealistic",
+];
+
+type Severity = "low" | "medium" | "high";
+
+const SEVERITIES: Severity[] = ["low", "medium", "high"];
+
+export type JdIssue = {
+  kind: JdIssueKind;
+  severity: Severity;
+  // the JD wording it's about; "" when it's about the JD as a whole
+  quote: string;
+  explanation: string;
+  suggestion: string;
+  // measured = found by the checks below, model = raised by the model
+  source: "measured" | "model";
+};
+
+export type JdRequirements = {
+  role: string;
+  // "" when the JD doesn't say
+  seniority: string;
+  location: string;
+  mustHave: string[];
+  niceToHave: string[];
+  stack: string[];
+};
+
+export type JdAnalysis = {
+  requirements: JdRequirements;
+  // measured issues first, then the model's
+  issues: JdIssue[];
+  // the whole JD rewritten, as markdown
+  rewrite: string;
+  model: string;
+  generatedAt: string;
+  parseStatus: "clean" | "repaired";
+  usage: CandidateUsage;
+};
+
+// What POST /jd/analyze accepts.
+export type JdAnalyzeInput = {
+  jd: string;
+  profileId: string | null;
+};
+
+// the answer has to fit in MAX_OUTPUT_TOKENS, rewrite included
+const MAX_MODEL_ISSUES = 8;
+const MAX_REWRITE_WORDS = 300;
+const MAX_QUOTE = 120;
+
+// more required skills than this reads as a wish list
+const MAX_REQUIRED_SKILLS = 10;
+
+const REQUIREMENT_LISTS = ["mustHave", "niceToHave", "stack"] as const;
+
+// Shown to the model verbatim, so keep it in sync with `validateJdAnalysis`.
+export const JD_ANALYSIS_SCHEMA = `{
+  "requirements": {
+    "role": "<job title>",
+    "seniority": "<junior | mid | senior | staff | lead | … or empty>",
+    "location": "<where and how (remote, hybrid, on-site) or empty>",
+    "mustHave": ["<required skill or experience>", ...],
+    "niceToHave": ["<optional skill or experience>", ...],
+    "stack": ["<technology named in the JD>", ...]
+  },
+  "issues": [
+    {
+      "kind": "ambiguity" | "contradiction" | "exclusionary" | "unrealistic",
+      "severity": "low" | "medium" | "high",
+      "quote": "<the JD wording, verbatim, or empty>",
+      "explanation": "<why it's a problem, one sentence>",
+      "suggestion": "<what to write instead, one sentence>"
+    },
+    ...
+  ],
+  "rewrite": "<the full JD rewritten as markdown>"
+}`;
+
+// --- measured checks ---
+
+type WordingRule = {
+  pattern: RegExp;
+  kind: JdIssueKind;
+  severity: Severity;
+  explanation: string;
+  suggestion: string;
+};
+
+const WORDING_RULES: WordingRule[] = [
+  {
+    pattern: /\b(?:rock ?stars?|ninjas?|gurus?|superheroe?s?|wizards?)\b/gi,
+    kind: "exclusionary",
+    severity: "low",
+    explanation:
+      "Hype titles read as a bro-culture signal and put off many applicants.",
+    suggestion: "Describe the skill level and the work instead.",
+  },
+  {
+    pattern:
+      /\b(?:young|youthful|digital natives?|recent (?:college )?grad(?:uate)?s? only)\b/gi,
+    kind: "exclusionary",
+    severity: "high",
+    explanation: "Age-coded wording can discriminate against older workers.",
+    suggestion: "State the experience range the role needs.",
+  },
+  {
+    pattern: /\bnative (?:english |german |french )?speakers?\b/gi,
+    kind: "exclusionary",
+    severity: "high",
+    explanation:
+      "Native-speaker requirements screen out on origin, not ability.",
+    suggestion: 'Ask for the language level instead, e.g. "fluent English".',
+  },
+  {
+    pattern: /\b(?:he|his|him) (?:will|should|must|is|has)\b|\bsalesman\b/gi,
+    kind: "exclusionary",
+    severity: "medium",
+    explanation: "Gendered wording assumes who the candidate is.",
+    suggestion: 'Use "you" or "they", and neutral job titles.',
+  },
+  {
+    pattern:
+      /\b(?:work hard,? play hard|culture fit|able-bodied|must be able to lift)\b/gi,
+    kind: "exclusionary",
+    severity: "medium",
+    explanation:
+      "Vague culture or physical requirements screen out people without saying why.",
+    suggestion:
+      "Name the actual requirement and why the job needs it, or drop it.",
+  },
+  {
+    pattern:
+      /\b(?:other duties as assigned|and (?:much )?more\b(?! than)|etc\.?|various (?:tasks|duties|responsibilities)|wear many hats)/gi,
+    kind: "ambiguity",
+    severity: "low",
+    explanation: "Catch-all phrases don't tell candidates what the job is.",
+    suggestion: "List the concrete responsibilities instead.",
+  },
+  {
+    pattern:
+      /\b(?:some|relevant|related|a good amount of|sufficient) experience\b|\bfamiliarity with\b/gi,
+    kind: "ambiguity",
+    severity: "low",
+    explanation:
+      "Unquantified experience can't be scored consistently across candidates.",
+    suggestion:
+      "Say how much experience, or what the candidate should have done.",
+  },
+];
+
+// Release years, for "N+ years of X" that X hasn't been around for.
+const RELEASED: Record<string, number> = {
+  "typescript": 2012,
+  "react": 2013,
+  "docker": 2013,
+  "kubernetes": 2014,
+  "swift": 2014,
+  "rust": 2015,
+  "graphql": 2015,
+  "vue": 2014,
+  "next.js": 2016,
+  "nextjs": 2016,
+  "svelte": 2016,
+  "flutter": 2017,
+  "kotlin": 2016,
+  "deno": 2018,
+  "swiftui": 2019,
+  "bun": 2022,
+  "chatgpt": 2022,
+  "llms": 2020,
+  "llm": 2020,
+};
+
+const YEARS_OF =
+  /\b(\d{1,2})\+?\s*(?:years?|yrs?)(?:['’]s?)?\s+(?:of\s+)?(?:(?:professional|commercial|hands-on|production)\s+)?(?:experience\s+(?:with|in|using)\s+)?([A-Za-z](?:[\w+#-]|\.(?=\w))*)/gi;
+
+const JUNIOR =
+  /\b(?:junior|entry[- ]level|new grad|graduate (?:role|position|program(?:me)?)|intern(?:ship)?)\b/i;
+
+function quote(text: string): string {
+  const t = text.replace(/\s+/g, " ").trim();
+  return t.length > MAX_QUOTE ? `${t.slice(0, MAX_QUOTE - 1)}…` : t;
+}
+
+function wordingIssues(jd: string): JdIssue[] {
+  return WORDING_RULES.flatMap((rule) => {
+    const found = [...new Set([...jd.matchAll(rule.pattern)].map((m) => m[0]))];
+    if (found.length === 0) return [];
+    return [{
+      kind: rule.kind,
+      severity: rule.severity,
+      quote: quote(found.join(", ")),
+      explanation: rule.explanation,
+      suggestion: rule.suggestion,
+      source: "measured" as const,
+    }];
+  });
+}
+
+function experienceIssues(jd: string, now: Date): JdIssue[] {
+  const issues: JdIssue[] = [];
+  let maxYears = 0;
+
+  for (const m of jd.matchAll(YEARS_OF)) {
+    const years = Number(m[1]);
+    maxYears = Math.max(maxYears, years);
+    const released = RELEASED[m[2].toLowerCase()];
+    const age = released ? now.getFullYear() - released : null;
+    if (age !== null && years > age) {
+      issues.push({
+        kind: "unrealistic",
+        severity: "high",
+        quote: quote(m[0]),
+        explanation: `${
+          m[2]
+        } has only existed for about ${age} years, so almost nobody has ${years}.`,
+        suggestion: `Ask for ${
+          Math.max(1, Math.min(age - 2, years))
+        }+ years, or for the underlying skill.`,
+        source: "measured",
+      });
+    }
+  }
+
+  const junior = jd.match(JUNIOR);
+  if (junior && maxYears >= 3) {
+    issues.push({
+      kind: "contradiction",
+      severity: "high",
+      quote: quote(junior[0]),
+      explanation: `A ${
+        junior[0].toLowerCase()
+      } role asking for ${maxYears}+ years of experience.`,
+      suggestion: "Lower the years or change the title to match them.",
+      source: "measured",
+    });
+  }
+
+  const remote = jd.match(/\b(?:fully|100%) remote\b/i);
+  const onsite = jd.match(
+    /\bon[- ]?site\b|\bin (?:the )?office \d+ days\b|\brelocat(?:e|ion) (?:is )?required\b/i,
+  );
+  if (remote && onsite) {
+    issues.push({
+      kind: "contradiction",
+      severity: "medium",
+      quote: quote(`${remote[0]} … ${onsite[0]}`),
+      explanation: "The JD says both fully remote and on-site.",
+      suggestion: "State one work arrangement and where it applies.",
+      source: "measured",
+    });
+  }
+  return issues;
+}
+
+function skillCountIssue(jd: string): JdIssue | null {
+  const required = extractJdSkills(jd).filter((s) =>
+    s.importance === "required"
+  );
+  if (required.length <= MAX_REQUIRED_SKILLS) return null;
+  return {
+    kind: "unrealistic",
+    severity: required.length > 1.5 * MAX_REQUIRED_SKILLS ? "high" : "medium",
+    quote: quote(required.map((s) => s.skill).join(", ")),
+    explanation:
+      `${required.length} required skills; few people have all of them, and strong candidates who miss one don't apply.`,
+    suggestion:
+      `Keep the ${MAX_REQUIRED_SKILLS} or fewer the job can't do without; move the rest to nice-to-have.`,
+    source: "measured",
+  };
+}
+
+// Everything the checks above find in the JD, most severe first.
+export function lintJd(jd: string, now = new Date()): JdIssue[] {
+  const rank = (s: Severity) => SEVERITIES.indexOf(s);
+  return [
+    ...experienceIssues(jd, now),
+    ...wordingIssues(jd),
+    ...[skillCountIssue(jd)].filter((i) => i !== null),
+  ].sort((a, b) => rank(b.severity) - rank(a.severity));
+}
+
+// --- model call ---
+
+// Validate a POST /jd/analyze body. Returns the clean fields, or a message
+// describing the first problem found.
+export function parseJdAnalyzeInput(
+  body: unknown,
+): { ok: true; value: JdAnalyzeInput } | { ok: false; error: string } {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const b = body as Record<string, unknown>;
+
+  const jd = typeof b.jd === "string" ? b.jd.trim() : "";
+  if (!jd) return { ok: false, error: "Missing 'jd'" };
+
+  return {
+    ok: true,
+    value: {
+      jd,
+      profileId: typeof b.profileId === "string" && b.profileId.trim()
+        ? b.profileId.trim()
+        : null,
+    },
+  };
+}
+
+function describeIssues(issues: JdIssue[]): string {
+  if (issues.length === 0) return "None found.";
+  return issues
+    .map((i) =>
+      `- [${i.severity}] ${i.kind}: ${i.explanation}${
+        i.quote ? ` ("${i.quote}")` : ""
+      }`
+    )
+    .join("\n");
+}
+
+export function buildJdPrompt(
+  jd: string,
+  measured: JdIssue[],
+  profile: RoleProfile,
+): string {
+  const musts = profile.mustHave.length
+    ? `\nThe hiring team's must-have skills are: ${
+      profile.mustHave.join(", ")
+    }. Flag it as a contradiction if the JD leaves one out or calls it optional.\n`
+    : "";
+
+  return `
+You are an experienced technical recruiter reviewing a JOB DESCRIPTION before it is used to screen candidates. Vague or bloated JDs produce vague scores, so be specific.
+
+Your job:
+- Extract the structured requirements: role, seniority, location, must-haves, nice-to-haves and the technology stack. Leave a field empty rather than guess.
+- List the JD's problems: ambiguity (requirements that can't be checked), contradictions, exclusionary wording and unrealistic requirement lists. Quote the JD verbatim.
+- The measured issues below were found by simple checks and are already reported; don't repeat them. Add at most ${MAX_MODEL_ISSUES} issues they miss.
+- Rewrite the JD so it fixes every issue, measured or yours: same role, clear must-haves vs nice-to-haves, inclusive wording, at most ${MAX_REWRITE_WORDS} words. Don't invent benefits, salaries or facts the JD doesn't give.
+${musts}
+IMPORTANT: You MUST respond with a single JSON object matching this shape.
+Do NOT add any explanation, markdown fences or text before or after it.
+
+${JD_ANALYSIS_SCHEMA}
+
+--------- MEASURED ISSUES START ---------
+${describeIssues(measured)}
+--------- MEASURED ISSUES END -----------
+
+---------------- JD START ----------------
+${jd}
+---------------- JD END ------------------
+`;
+}
+
+function nonEmpty(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function stringList(v: unknown): string[] | null {
+  if (!Array.isArray(v) || v.some((s) => typeof s !== "string")) return null;
+  return v.map((s: string) => s.trim()).filter(Boolean);
+}
+
+export function validateJdAnalysis(
+  value: unknown,
+):
+  | {
+    ok: true;
+    value: Pick<JdAnalysis, "requirements" | "issues" | "rewrite">;
+  }
+  | { ok: false; errors: string[] } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, errors: ["output must be a JSON object"] };
+  }
+  const obj = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const req = obj.requirements as Record<string, unknown> | undefined;
+  let requirements: JdRequirements | null = null;
+  if (!req || typeof req !== "object") {
+    errors.push(`"requirements" must be an object`);
+  } else {
+    if (!nonEmpty(req.role)) {
+      errors.push(`requirements.role must be a non-empty string`);
+    }
+    for (const key of ["seniority", "location"]) {
+      if (typeof req[key] !== "string") {
+        errors.push(`requirements.${key} must be a string`);
+      }
+    }
+    const lists = REQUIREMENT_LISTS.map((key) => {
+      const list = stringList(req[key]);
+      if (!list) errors.push(`requirements.${key} must be an array of strings`);
+      return list ?? [];
+    });
+    if (errors.length === 0) {
+      requirements = {
+        role: (req.role as string).trim(),
+        seniority: (req.seniority as string).trim(),
+        location: (req.location as string).trim(),
+        mustHave: lists[0],
+        niceToHave: lists[1],
+        stack: lists[2],
+      };
+    }
+  }
+
+  const issues: JdIssue[] = [];
+  if (!Array.isArray(obj.issues)) {
+    errors.push(`"issues" must be an array`);
+  } else {
+    obj.issues.slice(0, MAX_MODEL_ISSUES).forEach((issue, i) => {
+      const x = (issue ?? {}) as Record<string, unknown>;
+      if (!JD_ISSUE_KINDS.includes(x.kind as JdIssueKind)) {
+        errors.push(`issues[${i}].kind must be one of ${JD_ISSUE_KINDS}`);
+      } else if (!SEVERITIES.includes(x.severity as Severity)) {
+        errors.push(`issues[${i}].severity must be one of ${SEVERITIES}`);
+      } else if (!nonEmpty(x.explanation) || !nonEmpty(x.suggestion)) {
+        errors.push(
+          `issues[${i}] needs a non-empty "explanation" and "suggestion"`,
+        );
+      } else {
+        issues.push({
+          kind: x.kind as JdIssueKind,
+          severity: x.severity as Severity,
+          quote: typeof x.quote === "string" ? quote(x.quote) : "",
+          explanation: x.explanation.trim(),
+          suggestion: x.suggestion.trim(),
+          source: "model",
+        });
+      }
+    });
+  }
+
+  if (!nonEmpty(obj.rewrite)) {
+    errors.push(`"rewrite" must be a non-empty string`);
+  }
+
+  if (errors.length > 0 || !requirements) return { ok: false, errors };
+  return {
+    ok: true,
+    value: { requirements, issues, rewrite: (obj.rewrite as string).trim() },
+  };
+}
+
+export function parseJdAnalysis(
+  raw: string,
+): ReturnType<typeof validateJdAnalysis> {
+  let value: unknown;
+  try {
+    value = extractJson(raw);
+  } catch (err) {
+    return {
+      ok: false,
+      errors: [
+        `invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+      ],
+    };
+  }
+  return validateJdAnalysis(value);
+}
+
+// Measured issues plus the model's, minus any the model repeated anyway.
+export function mergeJdIssues(
+  measured: JdIssue[],
+  model: JdIssue[],
+): JdIssue[] {
+  const seen = new Set(
+    measured.map((i) => i.quote.toLowerCase()).filter(Boolean),
+  );
+  return [
+    ...measured,
+    ...model.filter((i) => !i.quote || !seen.has(i.quote.toLowerCase())),
+  ];
+}
@@ -0,0 +1,100 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { type JdIssue, lintJd, mergeJdIssues, parseJdAnalysis } from "./jd.ts";
+import { readOutput } from "./testdata/fake_agent.ts";
+
+const NOW = new Date("2025-06-01T00:00:00Z");
+
+function kinds(issues: JdIssue[]): string[] {
+  return issues.map((i) => `${i.kind}:${i.severity}`);
+}
+
+Deno.test("lintJd finds nothing in a plain, specific JD", () => {
+  const jd = `Senior Backend Engineer (remote, EU)
+Requirements:
+- 5+ years of backend development
+- TypeScript and Postgres
+Nice to have:
+- Kubernetes`;
+  assertEquals(lintJd(jd, NOW), []);
+});
+
+Deno.test("lintJd flags more years of a tool than it has existed", () => {
+  const issues = lintJd(
+    "We need 15+ years of experience with Kubernetes.",
+    NOW,
+  );
+  assertEquals(kinds(issues), ["unrealistic:high"]);
+  assertStringIncludes(issues[0].explanation, "about 11 years");
+  assertEquals(issues[0].quote, "15+ years of experience with Kubernetes");
+});
+
+Deno.test("lintJd flags junior roles that ask for senior experience", () => {
+  const issues = lintJd("Junior developer. 5 years of React required.", NOW);
+  assertEquals(kinds(issues), ["contradiction:high"]);
+  assertEquals(issues[0].quote, "Junior");
+});
+
+Deno.test("lintJd flags remote and on-site at once", () => {
+  const issues = lintJd("Fully remote team. You'll be on-site in Berlin.", NOW);
+  assertEquals(kinds(issues), ["contradiction:medium"]);
+});
+
+Deno.test("lintJd flags exclusionary and catch-all wording", () => {
+  const issues = lintJd(
+    "Looking for a young rockstar, native English speaker. Other duties as assigned.",
+    NOW,
+  );
+  assertEquals(kinds(issues), [
+    "exclusionary:high",
+    "exclusionary:high",
+    "exclusionary:low",
+    "ambiguity:low",
+  ]);
+  assert(issues.every((i) => i.source === "measured"));
+});
+
+Deno.test("lintJd flags a wall of required skills", () => {
+  const jd = `Requirements:
+- TypeScript, JavaScript, React, Node.js, Python, Go, Rust, Java
+- Postgres, Redis, Kafka, Kubernetes, Docker, AWS, Terraform`;
+  const [issue] = lintJd(jd, NOW);
+  assertEquals(issue.kind, "unrealistic");
+  assertStringIncludes(issue.explanation, "required skills");
+});
+
+Deno.test("parseJdAnalysis reads a full review", async () => {
+  const out = parseJdAnalysis(await readOutput("jd-review"));
+  assert(out.ok);
+  assertEquals(out.value.requirements.seniority, "senior");
+  assertEquals(out.value.requirements.niceToHave, ["Kubernetes"]);
+  assertEquals(out.value.issues.length, 2);
+  assert(out.value.issues.every((i) => i.source === "model"));
+  assertStringIncludes(out.value.rewrite, "## What you'll need");
+});
+
+Deno.test("parseJdAnalysis lists what's missing", () => {
+  const out = parseJdAnalysis(
+    JSON.stringify({
+      requirements: { role: "", seniority: "senior", location: "" },
+      issues: [{ kind: "vague", severity: "low" }],
+    }),
+  );
+  assert(!out.ok);
+  assertEquals(out.errors, [
+    "requirements.role must be a non-empty string",
+    "requirements.mustHave must be an array of strings",
+    "requirements.niceToHave must be an array of strings",
+    "requirements.stack must be an array of strings",
+    "issues[0].kind must be one of ambiguity,contradiction,exclusionary,unrealistic",
+    `"rewrite" must be a non-empty string`,
+  ]);
+});
+
+Deno.test("mergeJdIssues drops model issues that repeat a measured one", () => {
+  const measured = lintJd("A rockstar engineer.", NOW);
+  const merged = mergeJdIssues(measured, [
+    { ...measured[0], quote: "Rockstar", source: "model" },
+    { ...measured[0], quote: "", explanation: "Too short.", source: "model" },
+  ]);
+  assertEquals(merged.map((i) => i.source), ["measured", "model"]);
+});
@@ -0,0 +1,251 @@
+// jobs.ts – background analysis jobs backed by Deno KV, for batches too
+// big to keep a browser tab (or a single request) open for.
+//
+// Same layout as sessions.ts: one small header entry per job plus each
+// candidate split over as many entries as it needs (see storage.ts), so
+// progress can be written candidate by candidate and a restarted server can
+// pick up where it stopped.
+
+import { chunkedWrites, commitInBatches, listChunked } from "./storage.ts";
+import { type RunUsage, summarizeRun } from "./usage.ts";
+import type {
+  AnalyzeResult,
+  AnalyzeRun,
+  CandidateAnalysis,
+  PreparedResume,
+} from "./types.ts";
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type JobCandidateStatus = "queued" | "running" | "done" | "cancelled";
+
+export type Job = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  // API key name that created the job; only it can see or cancel it
+  client: string;
+  status: JobStatus;
+  run: AnalyzeRun;
+  total: number;
+  // history entry with the finished candidates, once the job is over
+  sessionId: string | null;
+  error: string | null;
+  // set when an ATS sent the resume (POST /webhooks/applications); the
+  // result goes back to it when the job is over. Absent on older jobs.
+  application?: ApplicationRef | null;
+};
+
+export type ApplicationRef = {
+  jobRef: string;
+  applicationId: string;
+  candidateId: string;
+};
+
+export type JobCandidate = {
+  index: number;
+  // already redacted, like everything else that gets stored
+  resume: PreparedResume;
+  status: JobCandidateStatus;
+  rawOutput: string;
+  result: AnalyzeResult | null;
+};
+
+// What GET /jobs/:id returns – progress plus the results so far.
+export type JobView = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status: JobStatus;
+  total: number;
+  completed: number;
+  sessionId: string | null;
+  error: string | null;
+  jd: string;
+  profile: { id: string; name: string };
+  // totals over the finished candidates
+  usage: RunUsage;
+  candidates: {
+    index: number;
+    id: string;
+    status: JobCandidateStatus;
+    result: AnalyzeResult | null;
+  }[];
+};
+
+const HEADER = "jobs";
+const CANDIDATE = "job_candidates";
+
+// Finished or not, jobs are dropped after a week; the results live on in
+// the session history.
+const JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isFinished(status: JobStatus): boolean {
+  return status === "done" || status === "failed" || status === "cancelled";
+}
+
+// Time-ordered ids: base36 timestamp first so KV key order = creation order.
+function newJobId(now: Date): string {
+  const rand = crypto.randomUUID().slice(0, 8);
+  return `${now.getTime().toString(36).padStart(9, "0")}-${rand}`;
+}
+
+export function toJobView(job: Job, candidates: JobCandidate[]): JobView {
+  return {
+    id: job.id,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    status: job.status,
+    total: job.total,
+    completed: candidates.filter((c) => c.status === "done").length,
+    sessionId: job.sessionId,
+    error: job.error,
+    jd: job.run.jd,
+    profile: { id: job.run.profile.id, name: job.run.profile.name },
+    usage: summarizeRun(
+      finishedCandidates(candidates).map((c) => c.result),
+      job.run.budgetUsd,
+    ),
+    candidates: candidates.map((c) => ({
+      index: c.index,
+      id: c.resume.id,
+      // whatever hadn't finished when the job was cancelled never will
+      status: job.status === "cancelled" && c.status !== "done"
+        ? "cancelled"
+        : c.status,
+      result: c.result,
+    })),
+  };
+}
+
+// The finished candidates, in the shape the session history stores.
+export function finishedCandidates(
+  candidates: JobCandidate[],
+): CandidateAnalysis[] {
+  return candidates.flatMap((c) =>
+    c.status === "done" && c.result
+      ? [{
+        resume: { id: c.resume.id, text: c.resume.text },
+        rawOutput: c.rawOutput,
+        result: c.result,
+      }]
+      : []
+  );
+}
+
+export function createJobStore(kv: Deno.Kv) {
+  return {
+    async create(
+      input: {
+        client: string;
+        run: AnalyzeRun;
+        resumes: PreparedResume[];
+        application?: ApplicationRef;
+      },
+    ): Promise<Job> {
+      const now = new Date().toISOString();
+      const job: Job = {
+        id: newJobId(new Date(now)),
+        createdAt: now,
+        updatedAt: now,
+        client: input.client,
+        status: "queued",
+        run: input.run,
+        total: input.resumes.length,
+        sessionId: null,
+        error: null,
+        application: input.application ?? null,
+      };
+
+      // the header goes last, so a job is only queued once all of its
+      // resumes are stored
+      try {
+        await commitInBatches(kv, [
+          ...input.resumes.flatMap((resume, index) =>
+            chunkedWrites(
+              [CANDIDATE, job.id, index],
+              {
+                index,
+                resume,
+                status: "queued",
+                rawOutput: "",
+                result: null,
+              } satisfies JobCandidate,
+              { expireIn: JOB_TTL_MS },
+            )
+          ),
+          { key: [HEADER, job.id], value: job, expireIn: JOB_TTL_MS },
+        ]);
+      } catch (err) {
+        throw new Error(`Failed to create job ${job.id}`, { cause: err });
+      }
+
+      return job;
+    },
+
+    async get(
+      id: string,
+    ): Promise<{ job: Job; candidates: JobCandidate[] } | null> {
+      const header = await kv.get<Job>([HEADER, id]);
+      if (!header.value) return null;
+
+      const candidates = await listChunked<JobCandidate>(kv, [
+        CANDIDATE,
+        id,
+      ]);
+      return { job: header.value, candidates };
+    },
+
+    // Jobs a restarted server still has to finish, oldest first.
+    async listUnfinished(): Promise<Job[]> {
+      const out: Job[] = [];
+      for await (const entry of kv.list<Job>({ prefix: [HEADER] })) {
+        if (!isFinished(entry.value.status)) out.push(entry.value);
+      }
+      return out;
+    },
+
+    // Change the header; returns the updated job, or null if it's gone.
+    async update(
+      id: string,
+      patch: Partial<Pick<Job, "status" | "sessionId" | "error">>,
+    ): Promise<Job | null> {
+      // optimistic update: the worker and DELETE /jobs/:id both write here
+      for (let i = 0; i < 5; i++) {
+        const header = await kv.get<Job>([HEADER, id]);
+        if (!header.value) return null;
+
+        const job = {
+          ...header.value,
+          ...patch,
+          updatedAt: new Date().toISOString(),
+        };
+        const res = await kv.atomic()
+          .check(header)
+          .set([HEADER, id], job, { expireIn: JOB_TTL_MS })
+          .commit();
+        if (res.ok) return job;
+      }
+      throw new Error(`Failed to update job ${id}`);
+    },
+
+    // Only the worker writes candidate entries, so no check is needed.
+    async updateCandidate(
+      id: string,
+      candidate: JobCandidate,
+    ): Promise<void> {
+      const key = [CANDIDATE, id, candidate.index];
+      let previousChunks = 0;
+      for await (const _ of kv.list({ prefix: key })) previousChunks++;
+      await commitInBatches(
+        kv,
+        chunkedWrites(key, candidate, {
+          expireIn: JOB_TTL_MS,
+          previousChunks,
+        }),
+      );
+    },
+  };
+}
+
+export type JobStore = ReturnType<typeof createJobStore>;
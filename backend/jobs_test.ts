@@ -0,0 +1,71 @@
+import { assertEquals } from "@std/assert";
+import { createJobStore } from "./jobs.ts";
+import { createProfileStore, DEFAULT_PROFILE_ID } from "./profiles.ts";
+import type { AnalyzeRun, PreparedResume } from "./types.ts";
+
+async function testRun(kv: Deno.Kv): Promise<AnalyzeRun> {
+  const profiles = createProfileStore(kv);
+  await profiles.ensureDefault();
+  return {
+    jd: "Senior engineer",
+    profile: (await profiles.get("web", DEFAULT_PROFILE_ID))!,
+    skills: [],
+    ensemble: null,
+    blind: false,
+    budgetUsd: null,
+    calibration: [],
+  };
+}
+
+// 60 000 characters, most of them two bytes in KV
+const LONG_RESUME = "Ďévéloper – Постгрес, TypeScript. ".repeat(1800)
+  .slice(0, 60_000);
+
+function resume(id: string, text: string): PreparedResume {
+  return { id, text, redactions: [], force: false };
+}
+
+Deno.test("a job of 30 long resumes is queued whole", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const jobs = createJobStore(kv);
+  const resumes = Array.from(
+    { length: 30 },
+    (_, i) => resume(`cv-${i}`, LONG_RESUME),
+  );
+
+  const job = await jobs.create({
+    client: "web",
+    run: await testRun(kv),
+    resumes,
+  });
+  const stored = await jobs.get(job.id);
+  assertEquals(stored?.candidates.map((c) => c.resume), resumes);
+  kv.close();
+});
+
+Deno.test("a candidate can grow and shrink between updates", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const jobs = createJobStore(kv);
+  const job = await jobs.create({
+    client: "web",
+    run: await testRun(kv),
+    resumes: [resume("a", "short")],
+  });
+  const [queued] = (await jobs.get(job.id))!.candidates;
+
+  await jobs.updateCandidate(job.id, {
+    ...queued,
+    status: "done",
+    rawOutput: "x".repeat(100_000),
+  });
+  assertEquals(
+    (await jobs.get(job.id))!.candidates[0].rawOutput.length,
+    100_000,
+  );
+
+  await jobs.updateCandidate(job.id, { ...queued, status: "cancelled" });
+  assertEquals((await jobs.get(job.id))!.candidates, [
+    { ...queued, status: "cancelled" },
+  ]);
+  kv.close();
+});
@@ -0,0 +1,140 @@
+// matrix.ts – multi-JD mode: one candidate pool scored against several
+// open roles at once. Every role is an ordinary run (own JD, profile,
+// cache entries and saved session); this file only parses the roles and
+// folds their results into a roles × candidates matrix with a best-fit
+// role per candidate.
+
+import type { AnalyzeResult } from "./types.ts";
+
+export const MAX_ROLES = 5;
+
+// One entry of `jds` in an /analyze body.
+export type RoleInput = {
+  id: string;
+  name: string;
+  jd: string;
+  // null = the request's profileId
+  profileId: string | null;
+};
+
+export type MatrixCell = {
+  fitScore: number | null;
+  riskScore: number | null;
+  status: AnalyzeResult["status"];
+};
+
+export type BestFit = {
+  candidateId: string;
+  // null when no role produced a score for this candidate
+  roleId: string | null;
+  fitScore: number | null;
+  // fit points ahead of the runner-up role; null with fewer than two scored
+  margin: number | null;
+};
+
+export type ScoreMatrix = {
+  roles: { id: string; name: string }[];
+  candidates: string[];
+  // cells[role][candidate], in the order of `roles` and `candidates`
+  cells: MatrixCell[][];
+  // one per candidate, same order
+  bestFit: BestFit[];
+};
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+// Validate the `jds` field of an /analyze body: 1 to MAX_ROLES roles, each
+// with a name and a JD. Ids default to a slug of the name and must be
+// unique.
+export function parseRolesInput(
+  value: unknown,
+): { ok: true; value: RoleInput[] } | { ok: false; error: string } {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_ROLES) {
+    return {
+      ok: false,
+      error: `'jds' must be an array of 1 to ${MAX_ROLES} roles`,
+    };
+  }
+
+  const roles: RoleInput[] = [];
+  for (const [i, raw] of value.entries()) {
+    const r = (raw ?? {}) as Record<string, unknown>;
+    const name = typeof r.name === "string" ? r.name.trim() : "";
+    const jd = typeof r.jd === "string" ? r.jd.trim() : "";
+    if (!name || !jd) {
+      return {
+        ok: false,
+        error: `jds[${i}] needs a non-empty 'name' and 'jd'`,
+      };
+    }
+    const id = typeof r.id === "string" && r.id.trim()
+      ? r.id.trim()
+      : slug(name) || `role-${i + 1}`;
+    if (roles.some((x) => x.id === id)) {
+      return { ok: false, error: `Duplicate role id '${id}'` };
+    }
+    roles.push({
+      id,
+      name,
+      jd,
+      profileId: typeof r.profileId === "string" && r.profileId.trim()
+        ? r.profileId.trim()
+        : null,
+    });
+  }
+  return { ok: true, value: roles };
+}
+
+// Highest fit wins; a tie goes to the lower risk, then the earlier role.
+function pickBestFit(
+  candidateId: string,
+  roleIds: string[],
+  cells: MatrixCell[],
+): BestFit {
+  // sort is stable, so equal roles keep their order
+  const [best, runnerUp] = cells
+    .flatMap((cell, i) =>
+      cell.fitScore === null ? [] : [{
+        roleId: roleIds[i],
+        fit: cell.fitScore,
+        risk: cell.riskScore ?? Infinity,
+      }]
+    )
+    .sort((a, b) => b.fit - a.fit || a.risk - b.risk);
+  return {
+    candidateId,
+    roleId: best?.roleId ?? null,
+    fitScore: best?.fit ?? null,
+    margin: best && runnerUp ? best.fit - runnerUp.fit : null,
+  };
+}
+
+// `results` of every role must be in the same candidate order, one per
+// entry of `candidates` (they all come from the same resume list).
+export function buildMatrix(
+  roles: { id: string; name: string; results: AnalyzeResult[] }[],
+  candidates: string[],
+): ScoreMatrix {
+  const cells = roles.map((role) =>
+    candidates.map((_, c): MatrixCell => {
+      const r = role.results[c];
+      return {
+        fitScore: r?.fitScore ?? null,
+        riskScore: r?.riskScore ?? null,
+        status: r?.status ?? "failed",
+      };
+    })
+  );
+  const roleIds = roles.map((r) => r.id);
+
+  return {
+    roles: roles.map(({ id, name }) => ({ id, name })),
+    candidates,
+    cells,
+    bestFit: candidates.map((id, c) =>
+      pickBestFit(id, roleIds, cells.map((row) => row[c]))
+    ),
+  };
+}
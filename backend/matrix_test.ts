@@ -0,0 +1,98 @@
+import { assertEquals } from "@std/assert";
+import { buildMatrix, MAX_ROLES, parseRolesInput } from "./matrix.ts";
+import type { AnalyzeResult } from "./types.ts";
+
+function result(
+  fitScore: number | null,
+  riskScore: number | null = 3,
+): AnalyzeResult {
+  return {
+    fitScore,
+    riskScore,
+    status: fitScore === null ? "failed" : "ok",
+  } as AnalyzeResult;
+}
+
+Deno.test("parseRolesInput derives ids from names", () => {
+  const parsed = parseRolesInput([
+    { name: "Senior Backend Engineer", jd: "Go" },
+    { id: "ops", name: "SRE", jd: "Linux", profileId: "sre" },
+  ]);
+  assertEquals(parsed, {
+    ok: true,
+    value: [
+      {
+        id: "senior-backend-engineer",
+        name: "Senior Backend Engineer",
+        jd: "Go",
+        profileId: null,
+      },
+      { id: "ops", name: "SRE", jd: "Linux", profileId: "sre" },
+    ],
+  });
+});
+
+Deno.test("parseRolesInput rejects bad role lists", () => {
+  const tooMany = Array.from(
+    { length: MAX_ROLES + 1 },
+    (_, i) => ({ name: `Role ${i}`, jd: "x" }),
+  );
+  for (const value of [[], tooMany, "Go", [{ name: "A" }]]) {
+    assertEquals(parseRolesInput(value).ok, false);
+  }
+  assertEquals(
+    parseRolesInput([{ name: "Dev", jd: "a" }, { name: "dev", jd: "b" }]),
+    { ok: false, error: "Duplicate role id 'dev'" },
+  );
+});
+
+Deno.test("buildMatrix picks the best-fit role with its margin", () => {
+  const matrix = buildMatrix(
+    [
+      { id: "be", name: "Backend", results: [result(8), result(4)] },
+      { id: "fe", name: "Frontend", results: [result(6), result(7)] },
+    ],
+    ["a", "b"],
+  );
+  assertEquals(matrix.cells[1][1], { fitScore: 7, riskScore: 3, status: "ok" });
+  assertEquals(matrix.bestFit, [
+    { candidateId: "a", roleId: "be", fitScore: 8, margin: 2 },
+    { candidateId: "b", roleId: "fe", fitScore: 7, margin: 3 },
+  ]);
+});
+
+Deno.test("buildMatrix breaks fit ties on risk, then role order", () => {
+  const matrix = buildMatrix(
+    [
+      { id: "be", name: "Backend", results: [result(7, 5), result(7)] },
+      { id: "fe", name: "Frontend", results: [result(7, 2), result(7)] },
+    ],
+    ["a", "b"],
+  );
+  assertEquals(matrix.bestFit.map((b) => [b.roleId, b.margin]), [
+    ["fe", 0],
+    ["be", 0],
+  ]);
+});
+
+Deno.test("buildMatrix has no best fit without a score", () => {
+  const matrix = buildMatrix(
+    [
+      { id: "be", name: "Backend", results: [result(null)] },
+      { id: "fe", name: "Frontend", results: [result(5)] },
+    ],
+    ["a"],
+  );
+  assertEquals(matrix.bestFit[0], {
+    candidateId: "a",
+    roleId: "fe",
+    fitScore: 5,
+    margin: null,
+  });
+
+  const none = buildMatrix(
+    [{ id: "be", name: "Backend", results: [result(null)] }],
+    ["a"],
+  );
+  assertEquals(none.bestFit[0].roleId, null);
+});
@@ -0,0 +1,479 @@
+// mock-provider.ts – deterministic offline stand-in for the model, for
+// local development, demos and tests. Same prompt in, same output out.
+//
+// Without a marker, scores come from simple JD/resume keyword overlap.
+// A `[[mock:<scenario>]]` marker in the resume (or anywhere in the prompt)
+// forces a scenario:
+//
+//   strong        high fit, low risk
+//   weak          low fit, high risk
+//   noisy         scores drift between repeated calls (for ensembles)
+//   malformed     tagged text instead of JSON first, valid JSON on repair
+//   out-of-range  fitScore 14 first, valid JSON on repair
+//   garbage       never valid JSON (parse status "failed")
+//   truncated     answer cut off at the output token limit first, valid
+//                 JSON on repair
+//   rate-limit    first call fails with a 429, retry succeeds
+//   timeout       first call times out, retry succeeds
+//   error         every call fails with a non-retryable error
+
+import type { ModelRunner } from "./providers.ts";
+import { estimateTokens, MAX_OUTPUT_TOKENS } from "./usage.ts";
+
+export type MockScenario =
+  | "default"
+  | "strong"
+  | "weak"
+  | "noisy"
+  | "malformed"
+  | "out-of-range"
+  | "garbage"
+  | "truncated"
+  | "rate-limit"
+  | "timeout"
+  | "error";
+
+const SCENARIOS = new Set<MockScenario>([
+  "strong",
+  "weak",
+  "noisy",
+  "malformed",
+  "out-of-range",
+  "garbage",
+  "truncated",
+  "rate-limit",
+  "timeout",
+  "error",
+]);
+
+const STOPWORDS = new Set(
+  ("about above after again also an and any are as at be been being both but by can could did do does each for from had has have having he her here his how if in into is it its just more most must no nor not of on once only or other our out over own same she should so some such than that the their them then there these they this those through to too under until up very was we were what when where which while who whom why will with would you your role team work years experience strong ability")
+    .split(" "),
+);
+
+// score drift per repeated call in the "noisy" scenario
+const NOISE = [0, 3, -2, 1, -3];
+
+const BUZZWORDS = [
+  "synergy",
+  "passionate",
+  "results-driven",
+  "cutting-edge",
+  "rockstar",
+  "ninja",
+  "thought leader",
+  "world-class",
+  "leveraged",
+  "spearheaded",
+  "dynamic",
+  "innovative",
+];
+
+// tools the mock JD review lists as the stack
+const TECH = [
+  "typescript",
+  "javascript",
+  "react",
+  "node",
+  "deno",
+  "postgres",
+  "postgresql",
+  "kubernetes",
+  "docker",
+  "aws",
+  "gcp",
+  "terraform",
+  "python",
+  "go",
+  "rust",
+  "graphql",
+  "redis",
+  "kafka",
+];
+
+type MockError = Error & { status?: number };
+
+function mockError(name: string, message: string, status?: number): MockError {
+  const err: MockError = new Error(message);
+  err.name = name;
+  if (status !== undefined) err.status = status;
+  return err;
+}
+
+function between(text: string, start: RegExp, end: RegExp): string {
+  const s = text.search(start);
+  if (s === -1) return "";
+  const rest = text.slice(s).replace(start, "");
+  const e = rest.search(end);
+  return e === -1 ? rest : rest.slice(0, e);
+}
+
+// The "measured risk signals" lines buildPrompt adds, minus buzzwords
+// (the mock already counts those itself).
+function measuredSignals(
+  prompt: string,
+): { severity: string; summary: string }[] {
+  return [
+    ...prompt.matchAll(
+      /^- \[(low|medium|high)\] ([a-z-]+): (.+?)(?: \(e\.g\. .*)?$/gm,
+    ),
+  ]
+    .filter((m) => m[2] !== "buzzwords")
+    .map((m) => ({ severity: m[1], summary: m[3] }));
+}
+
+function keywords(text: string): string[] {
+  const seen = new Set<string>();
+  for (const word of text.toLowerCase().match(/[a-z][a-z0-9+#.]{2,}/g) ?? []) {
+    const w = word.replace(/\.+$/, "");
+    if (!STOPWORDS.has(w)) seen.add(w);
+  }
+  return [...seen];
+}
+
+export function detectScenario(prompt: string): MockScenario {
+  const m = prompt.match(/\[\[mock:([a-z-]+)\]\]/i);
+  const name = m?.[1].toLowerCase() as MockScenario | undefined;
+  return name && SCENARIOS.has(name) ? name : "default";
+}
+
+// The assessment JSON the mock "model" would give for this prompt.
+// `call` is how many times this exact prompt has been run (1 = first).
+export function mockAssessment(
+  prompt: string,
+  scenario: MockScenario,
+  call = 1,
+) {
+  const jd = between(prompt, /-+ JD START -+/, /-+ JD END -+/);
+  const resume = between(prompt, /-+ RESUME START -+/, /-+ RESUME END -+/);
+
+  const jdTerms = keywords(jd).slice(0, 40);
+  const resumeTerms = new Set(keywords(resume));
+  const matched = jdTerms.filter((t) => resumeTerms.has(t));
+  const missing = jdTerms.filter((t) => !resumeTerms.has(t));
+  const lower = resume.toLowerCase();
+  const buzz = BUZZWORDS.filter((b) => lower.includes(b));
+  const measured = measuredSignals(prompt);
+  const weight: Record<string, number> = { low: 0, medium: 1, high: 2 };
+
+  let fitScore = jdTerms.length
+    ? Math.round((matched.length / jdTerms.length) * 10)
+    : 5;
+  let riskScore = Math.min(
+    10,
+    2 + buzz.length * 2 +
+      measured.reduce((sum, m) => sum + weight[m.severity], 0),
+  );
+  if (scenario === "strong") [fitScore, riskScore] = [9, 2];
+  if (scenario === "weak") [fitScore, riskScore] = [2, 8];
+  if (scenario === "noisy") {
+    const drift = NOISE[(call - 1) % NOISE.length];
+    fitScore = Math.min(10, Math.max(0, 5 + drift));
+    riskScore = Math.min(10, Math.max(0, 5 - drift));
+  }
+
+  const verdict = fitScore >= 8
+    ? "Strong match — move to interview."
+    : fitScore >= 5
+    ? "Partial match — worth a screening call."
+    : "Weak match — pass for this role.";
+
+  const alignment = matched.slice(0, 5).map((t) =>
+    `Resume mentions "${t}" from the JD`
+  );
+  const missingSkills = missing.slice(0, 5);
+  const redFlags = [
+    ...buzz.map((b) => `Buzzword without evidence: "${b}"`),
+    ...measured.map((m) => `Measured: ${m.summary}`),
+  ];
+  const gaps = missing.length > 5
+    ? [`${missing.length} JD terms have no evidence in the resume`]
+    : [];
+
+  return {
+    fitScore,
+    riskScore,
+    verdict,
+    alignment,
+    gaps,
+    redFlags,
+    missingSkills,
+    report: [
+      "## Alignment",
+      alignment.length ? alignment.map((a) => `- ${a}`).join("\n") : "- None",
+      "## Gaps",
+      gaps.length ? gaps.map((g) => `- ${g}`).join("\n") : "- None",
+      "## Red Flags",
+      redFlags.length ? redFlags.map((r) => `- ${r}`).join("\n") : "- None",
+      "## Verdict",
+      verdict,
+      "",
+      "_Generated by the offline mock provider._",
+    ].join("\n"),
+  };
+}
+
+// The interview kit the mock "model" would write: one question per gap,
+// red flag or missing skill in the analysis section, padded with questions
+// on the JD's own terms when the analysis found little.
+export function mockInterviewKit(prompt: string) {
+  const analysis = between(
+    prompt,
+    /-+ ANALYSIS START -+/,
+    /-+ ANALYSIS END -+/,
+  );
+  const jd = between(prompt, /-+ JD START -+/, /-+ JD END -+/);
+  const findings = [...analysis.matchAll(/^- (?!\(none\))(.+)$/gm)].map((m) =>
+    m[1].trim()
+  );
+  const terms = keywords(jd).slice(0, 3);
+
+  const questions = findings.slice(0, 6).map((finding) => ({
+    question: `Walk me through a project where you dealt with this: ${finding}`,
+    requirement: terms[0] ?? "Core requirement of the role",
+    probes: finding,
+    strongAnswer:
+      "Names a specific project, their own decisions and a measurable result.",
+    weakAnswer: 'Stays general, says "we" throughout, no numbers.',
+  }));
+  for (const term of terms) {
+    if (questions.length >= 3) break;
+    questions.push({
+      question: `What is the hardest thing you have built with ${term}?`,
+      requirement: term,
+      probes: `Depth of hands-on ${term} experience`,
+      strongAnswer: "Explains trade-offs and what they would do differently.",
+      weakAnswer: "Lists features of the tool instead of their own work.",
+    });
+  }
+  while (questions.length < 3) {
+    questions.push({
+      question: "Which result on your resume are you proudest of, and why?",
+      requirement: "Ownership",
+      probes: "Little evidence of personal ownership",
+      strongAnswer: "Clear personal contribution with a before/after metric.",
+      weakAnswer: "Credits the team only, can't say what they did.",
+    });
+  }
+  return { questions };
+}
+
+// The comparison the mock "model" would give: candidates ranked by how
+// many of the JD's terms they mention, rated on the first few terms.
+export function mockComparison(prompt: string) {
+  const jd = between(prompt, /-+ JD START -+/, /-+ JD END -+/);
+  const resumes = [
+    ...prompt.matchAll(
+      /-+ CANDIDATE ([A-Z]) START -+\n([\s\S]*?)\n-+ CANDIDATE \1 END -+/g,
+    ),
+  ].map((m) => ({ letter: m[1], terms: new Set(keywords(m[2])) }));
+  const jdTerms = keywords(jd).slice(0, 40);
+  const hits = (c: { terms: Set<string> }) =>
+    jdTerms.filter((t) => c.terms.has(t)).length;
+
+  const ranked = [...resumes].sort((a, b) => hits(b) - hits(a));
+  return {
+    ranking: ranked.map((c, i) => ({
+      candidate: c.letter,
+      justification: i === 0
+        ? `Covers the most JD terms (${hits(c)} of ${jdTerms.length}).`
+        : `Covers ${hits(c)} JD terms, fewer than candidate ${
+          ranked[i - 1].letter
+        }.`,
+    })),
+    requirements: jdTerms.slice(0, 4).map((term) => ({
+      requirement: term,
+      candidates: resumes.map((c) => ({
+        candidate: c.letter,
+        rating: c.terms.has(term) ? "strong" : "missing",
+        note: c.terms.has(term)
+          ? `Resume mentions "${term}".`
+          : `No mention of "${term}".`,
+      })),
+    })),
+    summary: ranked.length
+      ? `Candidate ${ranked[0].letter} matches the most JD terms.`
+      : "No candidates found.",
+  };
+}
+
+// The JD review the mock "model" would give: bullet lines become
+// requirements (those under a nice-to-have heading or marked "a plus" are
+// optional), known tools become the stack. It flags one issue of its own
+// when the JD is short, and the rewrite is the same bullets tidied up.
+export function mockJdAnalysis(prompt: string) {
+  const jd = between(prompt, /-+ JD START -+/, /-+ JD END -+/).trim();
+  const lines = jd.split("\n").map((l) => l.trim()).filter(Boolean);
+  const role = lines[0]?.replace(/^#+\s*/, "").slice(0, 80) || "Unknown role";
+  const seniority =
+    jd.match(/\b(junior|mid|senior|staff|principal|lead)\b/i)?.[1]
+      .toLowerCase() ?? "";
+  const location = jd.match(/\b(?:fully )?(remote|hybrid|on-?site)\b/i)?.[0] ??
+    "";
+
+  const mustHave: string[] = [];
+  const niceToHave: string[] = [];
+  let optional = false;
+  for (const line of lines) {
+    if (
+      /nice[- ]to[- ]have|bonus|preferred/i.test(line) && !/^[-*•]/.test(line)
+    ) {
+      optional = true;
+    }
+    const bullet = line.match(/^[-*•]\s+(.+)$/)?.[1];
+    if (!bullet) continue;
+    if (optional || /\ba plus\b/i.test(bullet)) niceToHave.push(bullet);
+    else mustHave.push(bullet);
+  }
+  const stack = keywords(jd).filter((w) => TECH.includes(w));
+
+  const issues = jd.length < 300
+    ? [{
+      kind: "ambiguity",
+      severity: "medium",
+      quote: "",
+      explanation: "The JD is too short to say what the job involves.",
+      suggestion: "Add the main responsibilities and what success looks like.",
+    }]
+    : [];
+
+  const section = (title: string, items: string[]) =>
+    items.length ? [`## ${title}`, ...items.map((s) => `- ${s}`), ""] : [];
+  const rewrite = [
+    `# ${role}`,
+    "",
+    [
+      seniority && `Seniority: ${seniority}`,
+      location && `Location: ${location}`,
+    ]
+      .filter(Boolean).join(" · "),
+    "",
+    ...section("What you'll need", mustHave.slice(0, 8)),
+    ...section("Nice to have", niceToHave),
+  ].join("\n").trim();
+
+  return {
+    requirements: { role, seniority, location, mustHave, niceToHave, stack },
+    issues,
+    rewrite,
+  };
+}
+
+function mockOutput(
+  prompt: string,
+  scenario: MockScenario,
+  call: number,
+): string {
+  const isRepair = prompt.includes("PREVIOUS ANSWER START");
+  if (/CANDIDATE A START/.test(prompt)) {
+    if (scenario === "garbage") return "They are all great.";
+    if (scenario === "malformed" && !isRepair) {
+      return JSON.stringify({ ranking: [], summary: "" });
+    }
+    return JSON.stringify(mockComparison(prompt), null, 2);
+  }
+  if (prompt.includes("MEASURED ISSUES START")) {
+    if (scenario === "garbage") return "This JD looks fine to me.";
+    if (scenario === "malformed" && !isRepair) {
+      return JSON.stringify({ requirements: {}, issues: "none" });
+    }
+    return JSON.stringify(mockJdAnalysis(prompt), null, 2);
+  }
+  if (prompt.includes("ANALYSIS START")) {
+    if (scenario === "garbage") return "No questions today.";
+    if (scenario === "malformed" && !isRepair) return "1. Tell me about X?";
+    return JSON.stringify(mockInterviewKit(prompt), null, 2);
+  }
+  const assessment = mockAssessment(prompt, scenario, call);
+
+  if (scenario === "garbage") return "I'm sorry, I can't produce JSON today.";
+  if (scenario === "malformed" && !isRepair) {
+    return [
+      `FIT_SCORE: ${assessment.fitScore}`,
+      `RISK_SCORE: ${assessment.riskScore}`,
+      `VERDICT: ${assessment.verdict}`,
+      "REPORT:",
+      assessment.report,
+    ].join("\n");
+  }
+  if (scenario === "out-of-range" && !isRepair) {
+    return JSON.stringify({ ...assessment, fitScore: 14 }, null, 2);
+  }
+  if (scenario === "truncated" && !isRepair) {
+    const full = JSON.stringify(assessment, null, 2);
+    return full.slice(0, Math.floor(full.length / 2));
+  }
+  return JSON.stringify(assessment, null, 2);
+}
+
+// Prompts the call counts are kept for. Enough for the retries and repeated
+// passes of a few runs; older prompts are forgotten, so a long-running
+// server doesn't grow without bound.
+const MAX_TRACKED_PROMPTS = 1000;
+
+// FNV-1a: a short key instead of holding on to whole prompts.
+function promptKey(prompt: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    h = Math.imul(h ^ prompt.charCodeAt(i), 0x01000193);
+  }
+  return `${prompt.length}:${(h >>> 0).toString(36)}`;
+}
+
+export function createMockRunner(
+  opts: { model?: string; latencyMs?: number } = {},
+): ModelRunner {
+  const model = opts.model ?? "mock-fitscore-v1";
+  const latencyMs = opts.latencyMs ?? 0;
+  // calls per prompt, so "fail once then succeed" scenarios are repeatable
+  const calls = new Map<string, number>();
+
+  return {
+    provider: "mock",
+    model,
+    async run(prompt, _slot, onDelta, signal) {
+      signal?.throwIfAborted();
+      const scenario = detectScenario(prompt);
+      const key = promptKey(prompt);
+      const n = (calls.get(key) ?? 0) + 1;
+      // re-insert, so the Map's order is least recently used first
+      calls.delete(key);
+      calls.set(key, n);
+      if (calls.size > MAX_TRACKED_PROMPTS) {
+        calls.delete(calls.keys().next().value!);
+      }
+
+      if (scenario === "error") {
+        throw mockError("MockError", "mock provider: invalid request", 400);
+      }
+      if (scenario === "rate-limit" && n === 1) {
+        throw mockError("RateLimitError", "mock provider: rate limited", 429);
+      }
+      if (scenario === "timeout" && n === 1) {
+        throw mockError("TimeoutError", "mock provider: request timed out");
+      }
+
+      const text = mockOutput(prompt, scenario, n);
+      // stream in small chunks like a real provider
+      for (let i = 0; i < text.length; i += 24) {
+        if (latencyMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, latencyMs));
+        }
+        signal?.throwIfAborted();
+        onDelta?.(text.slice(i, i + 24));
+      }
+
+      const truncated = scenario === "truncated" &&
+        !prompt.includes("PREVIOUS ANSWER START");
+      return {
+        text,
+        usage: {
+          inputTokens: estimateTokens(prompt),
+          outputTokens: truncated ? MAX_OUTPUT_TOKENS : estimateTokens(text),
+          estimated: false,
+        },
+        truncated,
+      };
+    },
+  };
+}
@@ -0,0 +1,163 @@
+// profiles.ts – named role profiles that shape the analysis prompt
+// (persona, seniority, skills, rubric, tone), stored in Deno KV.
+//
+// Profiles belong to the API key that created them, like saved runs: a
+// key's runs are only ever scored with its own profiles or the shared
+// default, which no key can change.
+
+export type ProfileTone = "ruthless-founder" | "neutral-hr";
+
+export const PROFILE_TONES: ProfileTone[] = ["ruthless-founder", "neutral-hr"];
+
+export type RoleProfile = {
+  id: string;
+  name: string;
+  // who the model pretends to be, e.g. "a ruthless startup founder"
+  persona: string;
+  seniority: string;
+  mustHave: string[];
+  niceToHave: string[];
+  // free-form scoring guidance appended to the prompt
+  rubric: string;
+  tone: ProfileTone;
+  updatedAt: string;
+};
+
+// What POST /profiles accepts; `id` present = edit that profile (one of the
+// caller's own).
+export type ProfileInput = Omit<RoleProfile, "id" | "updatedAt"> & {
+  id?: string;
+};
+
+// The original hardcoded CoreSpeed prompt, kept as the default profile.
+export const DEFAULT_PROFILE_ID = "corespeed-founder";
+
+const DEFAULT_PROFILE: Omit<RoleProfile, "updatedAt"> = {
+  id: DEFAULT_PROFILE_ID,
+  name: "CoreSpeed – Senior Full-Stack / Agent Infra",
+  persona: "a ruthless startup founder at CoreSpeed",
+  seniority: "Senior",
+  mustHave: [],
+  niceToHave: [],
+  rubric:
+    "Weigh real ownership of agent / infra systems heavily. Shallow infra experience dressed up with buzzwords is a risk signal.",
+  tone: "ruthless-founder",
+};
+
+// [PROFILE, client, id]; the default is stored on its own
+const PROFILE = "profiles";
+const DEFAULT = "default_profile";
+
+function toStringList(v: unknown): string[] | null {
+  if (v === undefined) return [];
+  if (!Array.isArray(v) || v.some((s) => typeof s !== "string")) return null;
+  return v.map((s: string) => s.trim()).filter(Boolean);
+}
+
+// Validate a POST /profiles body. Returns the clean fields, or a message
+// describing the first problem found.
+export function parseProfileInput(
+  body: unknown,
+): { ok: true; value: ProfileInput } | { ok: false; error: string } {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Expected a JSON object" };
+  }
+  const b = body as Record<string, unknown>;
+
+  const str = (key: string) =>
+    typeof b[key] === "string" ? (b[key] as string).trim() : "";
+  const name = str("name");
+  if (!name) return { ok: false, error: "Missing 'name'" };
+
+  const tone = b.tone ?? "ruthless-founder";
+  if (!PROFILE_TONES.includes(tone as ProfileTone)) {
+    return {
+      ok: false,
+      error: `'tone' must be one of: ${PROFILE_TONES.join(", ")}`,
+    };
+  }
+
+  const mustHave = toStringList(b.mustHave);
+  const niceToHave = toStringList(b.niceToHave);
+  if (!mustHave || !niceToHave) {
+    return {
+      ok: false,
+      error: "'mustHave' and 'niceToHave' must be arrays of strings",
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: str("id") || undefined,
+      name,
+      persona: str("persona") || "an experienced hiring manager",
+      seniority: str("seniority"),
+      mustHave,
+      niceToHave,
+      rubric: str("rubric"),
+      tone: tone as ProfileTone,
+    },
+  };
+}
+
+function slugify(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug.slice(0, 40) || "profile"}-${crypto.randomUUID().slice(0, 6)}`;
+}
+
+export function createProfileStore(kv: Deno.Kv) {
+  const getDefault = async () => (await kv.get<RoleProfile>([DEFAULT])).value;
+
+  return {
+    // Make sure the default profile exists (first start, or after a wipe).
+    async ensureDefault(): Promise<void> {
+      if (await getDefault()) return;
+      await kv.set([DEFAULT], {
+        ...DEFAULT_PROFILE,
+        updatedAt: new Date().toISOString(),
+      });
+    },
+
+    // The default plus the client's own profiles, by name.
+    async list(client: string): Promise<RoleProfile[]> {
+      const out: RoleProfile[] = [];
+      const shared = await getDefault();
+      if (shared) out.push(shared);
+      for await (
+        const entry of kv.list<RoleProfile>({ prefix: [PROFILE, client] })
+      ) {
+        out.push(entry.value);
+      }
+      return out.sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async get(client: string, id: string): Promise<RoleProfile | null> {
+      if (id === DEFAULT_PROFILE_ID) return await getDefault();
+      return (await kv.get<RoleProfile>([PROFILE, client, id])).value;
+    },
+
+    // Create, or overwrite when `id` is given. Returns null when `id` isn't
+    // one of the client's profiles (the default included).
+    async save(
+      client: string,
+      input: ProfileInput,
+    ): Promise<RoleProfile | null> {
+      if (input.id && !(await kv.get([PROFILE, client, input.id])).value) {
+        return null;
+      }
+      const profile: RoleProfile = {
+        ...input,
+        id: input.id || slugify(input.name),
+        updatedAt: new Date().toISOString(),
+      };
+      await kv.set([PROFILE, client, profile.id], profile);
+      return profile;
+    },
+  };
+}
+
+export type ProfileStore = ReturnType<typeof createProfileStore>;
@@ -0,0 +1,65 @@
+import { assertEquals } from "@std/assert";
+import {
+  createProfileStore,
+  DEFAULT_PROFILE_ID,
+  type ProfileInput,
+} from "./profiles.ts";
+
+const INPUT: ProfileInput = {
+  name: "Data Engineer",
+  persona: "a data platform lead",
+  seniority: "Mid",
+  mustHave: ["SQL"],
+  niceToHave: [],
+  rubric: "",
+  tone: "neutral-hr",
+};
+
+Deno.test("a key only sees and uses its own profiles and the default", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const profiles = createProfileStore(kv);
+  await profiles.ensureDefault();
+  const mine = (await profiles.save("web", INPUT))!;
+
+  assertEquals(
+    (await profiles.list("web")).map((p) => p.id).sort(),
+    [
+      DEFAULT_PROFILE_ID,
+      mine.id,
+    ].sort(),
+  );
+  assertEquals((await profiles.list("ats")).map((p) => p.id), [
+    DEFAULT_PROFILE_ID,
+  ]);
+  assertEquals(await profiles.get("ats", mine.id), null);
+  assertEquals(
+    (await profiles.get("ats", DEFAULT_PROFILE_ID))?.id,
+    DEFAULT_PROFILE_ID,
+  );
+  kv.close();
+});
+
+Deno.test("a key can't overwrite another key's profile or the default", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const profiles = createProfileStore(kv);
+  await profiles.ensureDefault();
+  const before = await profiles.get("web", DEFAULT_PROFILE_ID);
+  const mine = (await profiles.save("web", INPUT))!;
+
+  assertEquals(await profiles.save("ats", { ...INPUT, id: mine.id }), null);
+  assertEquals(
+    await profiles.save("ats", { ...INPUT, id: DEFAULT_PROFILE_ID }),
+    null,
+  );
+  assertEquals((await profiles.get("web", mine.id))?.persona, INPUT.persona);
+  assertEquals(await profiles.get("ats", DEFAULT_PROFILE_ID), before);
+
+  const edited = await profiles.save("web", {
+    ...INPUT,
+    id: mine.id,
+    rubric: "x",
+  });
+  assertEquals(edited?.id, mine.id);
+  assertEquals((await profiles.get("web", mine.id))?.rubric, "x");
+  kv.close();
+});
@@ -0,0 +1,134 @@
+// prompt.ts – the per-candidate analysis prompt and the repair prompt sent
+// when an answer doesn't validate.
+
+import { ASSESSMENT_SCHEMA } from "./assessment.ts";
+import type { CalibrationExample } from "./feedback.ts";
+import type { RoleProfile } from "./profiles.ts";
+import { describeSignalsForPrompt, type RiskSignal } from "./signals.ts";
+
+// Per-tone wording. "ruthless-founder" is the original FitScore voice.
+const TONE_INSTRUCTIONS: Record<
+  RoleProfile["tone"],
+  { hunt: string; honesty: string }
+> = {
+  "ruthless-founder": {
+    hunt: "Detect any bullshit / AI-rewritten / keyword-stuffed patterns.",
+    honesty:
+      "Be brutally honest but grounded in the evidence from the resume vs JD.",
+  },
+  "neutral-hr": {
+    hunt:
+      "Note any signs of AI-rewritten or keyword-stuffed content, neutrally.",
+    honesty:
+      "Be balanced and professional; ground every point in the resume vs JD.",
+  },
+};
+
+function bulletList(items: string[]): string {
+  return items.map((s) => `- ${s}`).join("\n");
+}
+
+// How reviewers judged earlier candidates, one line each: what was scored
+// and what the human made of it.
+function describeExamples(examples: CalibrationExample[]): string {
+  return examples.map((e) => {
+    const human = [
+      e.rating !== null && `rated fit ${e.rating}`,
+      e.outcome && `${e.outcome} them`,
+    ].filter(Boolean).join(" and ");
+    const note = e.note ? ` Reviewer note: "${e.note}"` : "";
+    return `- Scored fit ${e.fitScore}, risk ${e.riskScore ?? "–"} ` +
+      `("${e.verdict}"); the reviewer ${human}.${note}`;
+  }).join("\n");
+}
+
+// Part of the analysis cache key: bump it whenever buildPrompt or the
+// assessment schema changes, so older cached answers aren't reused.
+export const PROMPT_VERSION = 2;
+
+// Build the per-candidate prompt for the chosen role profile, optionally
+// calibrated with reviewer feedback on earlier candidates (see feedback.ts)
+export function buildPrompt(
+  jd: string,
+  resumeText: string,
+  profile: RoleProfile,
+  signals: RiskSignal[],
+  examples: CalibrationExample[] = [],
+): string {
+  const tone = TONE_INSTRUCTIONS[profile.tone];
+  const role = profile.seniority ? `the ${profile.seniority} role` : "the role";
+
+  const extras = [
+    profile.mustHave.length > 0 &&
+    `Must-have skills (weigh these heavily):\n${bulletList(profile.mustHave)}`,
+    profile.niceToHave.length > 0 &&
+    `Nice-to-have skills (a bonus, never required):\n${
+      bulletList(profile.niceToHave)
+    }`,
+    profile.rubric && `Scoring rubric:\n${profile.rubric}`,
+    examples.length > 0 &&
+    `How human reviewers judged earlier candidates for this role (match their bar when scoring; these are other people, not this candidate):\n${
+      describeExamples(examples)
+    }`,
+  ].filter(Boolean).join("\n\n");
+
+  return `
+You are ${profile.persona} reviewing candidates for ${role} described in the job description below.
+
+You get:
+1) The exact job description (JD).
+2) One candidate’s resume.
+
+Your job:
+- Decide how well this candidate truly fits the JD.
+- ${tone.hunt}
+- Score both Fit and Risk.
+${extras ? `\n${extras}\n` : ""}
+IMPORTANT: You MUST respond with a single JSON object matching this shape.
+Do NOT add any explanation, markdown fences or text before or after it.
+
+${ASSESSMENT_SCHEMA}
+
+Rules:
+- fitScore: higher = better match to JD (skills, stack, scope, ownership).
+- riskScore: higher = more risky (inflated buzzwords, weak ownership, shallow hands-on experience).
+- ${tone.honesty}
+- If information is missing, say so instead of hallucinating.
+- "report" uses markdown sections: Alignment, Gaps, Red Flags, Verdict.
+- Ground riskScore and redFlags in the measured risk signals below: cite the
+  ones that matter, and don't claim buzzword stuffing, copied JD text or
+  timeline problems they don't back up.
+
+Measured risk signals (computed locally from the resume, not by you):
+${describeSignalsForPrompt(signals)}
+
+---------------- JD START ----------------
+${jd}
+---------------- JD END ------------------
+
+------------- RESUME START --------------
+${resumeText}
+------------- RESUME END ----------------
+`;
+}
+
+// Second chance for output that didn't validate: show the model what it
+// sent and what was wrong, and ask for the corrected JSON only.
+export function buildRepairPrompt(
+  originalPrompt: string,
+  badOutput: string,
+  errors: string[],
+): string {
+  return `
+${originalPrompt}
+
+Your previous answer could not be used:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+---------- PREVIOUS ANSWER START ----------
+${badOutput}
+---------- PREVIOUS ANSWER END ------------
+
+Reply again with ONLY the corrected JSON object, nothing else.
+`;
+}
@@ -0,0 +1,128 @@
+import {
+  assert,
+  assertEquals,
+  assertMatch,
+  assertStringIncludes,
+} from "@std/assert";
+import type { RoleProfile } from "./profiles.ts";
+import { buildPrompt, buildRepairPrompt } from "./prompt.ts";
+import type { RiskSignal } from "./signals.ts";
+
+const PROFILE: RoleProfile = {
+  id: "test",
+  name: "Test",
+  persona: "a staff engineer",
+  seniority: "Senior",
+  mustHave: [],
+  niceToHave: [],
+  rubric: "",
+  tone: "neutral-hr",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+const JD = "Senior TypeScript engineer, Postgres, Deno.";
+const RESUME = "Alice – five years of TypeScript.";
+
+Deno.test("buildPrompt puts the JD and resume between the markers", () => {
+  const prompt = buildPrompt(JD, RESUME, PROFILE, []);
+  assertMatch(
+    prompt,
+    /-+ JD START -+\nSenior TypeScript engineer.*\n-+ JD END/,
+  );
+  assertMatch(prompt, /-+ RESUME START -+\nAlice.*\n-+ RESUME END/);
+  assertStringIncludes(prompt, "You are a staff engineer");
+  assertStringIncludes(prompt, "the Senior role");
+});
+
+Deno.test("buildPrompt asks for the JSON schema", () => {
+  const prompt = buildPrompt(JD, RESUME, PROFILE, []);
+  assertStringIncludes(prompt, `"fitScore": <integer 0-10>`);
+  assertStringIncludes(prompt, "Do NOT add any explanation");
+});
+
+Deno.test("buildPrompt follows the profile's tone", () => {
+  const neutral = buildPrompt(JD, RESUME, PROFILE, []);
+  const ruthless = buildPrompt(JD, RESUME, {
+    ...PROFILE,
+    tone: "ruthless-founder",
+  }, []);
+  assertStringIncludes(neutral, "Be balanced and professional");
+  assertStringIncludes(ruthless, "Be brutally honest");
+});
+
+Deno.test("buildPrompt only adds skill sections the profile has", () => {
+  const bare = buildPrompt(JD, RESUME, PROFILE, []);
+  assert(!bare.includes("Must-have skills"));
+  assert(!bare.includes("Scoring rubric"));
+
+  const full = buildPrompt(JD, RESUME, {
+    ...PROFILE,
+    mustHave: ["Postgres"],
+    niceToHave: ["Rust"],
+    rubric: "Ownership over buzzwords.",
+  }, []);
+  assertStringIncludes(
+    full,
+    "Must-have skills (weigh these heavily):\n- Postgres",
+  );
+  assertStringIncludes(full, "Nice-to-have skills");
+  assertStringIncludes(full, "Scoring rubric:\nOwnership over buzzwords.");
+});
+
+Deno.test("buildPrompt lists the measured risk signals", () => {
+  const signal: RiskSignal = {
+    kind: "employment-gap",
+    severity: "medium",
+    summary: "1 gap(s) between jobs, longest 14 months",
+    value: 14,
+    evidence: ["Jan 2020 – Feb 2021 (14 months)"],
+  };
+  assertStringIncludes(
+    buildPrompt(JD, RESUME, PROFILE, []),
+    "No measurable risk signals were found.",
+  );
+  assertStringIncludes(
+    buildPrompt(JD, RESUME, PROFILE, [signal]),
+    "- [medium] employment-gap: 1 gap(s) between jobs, longest 14 months",
+  );
+});
+
+Deno.test("buildPrompt adds reviewer examples only when given", () => {
+  assert(
+    !buildPrompt(JD, RESUME, PROFILE, []).includes("human reviewers"),
+  );
+  const prompt = buildPrompt(JD, RESUME, PROFILE, [], [{
+    fitScore: 9,
+    riskScore: 2,
+    verdict: "Strong hire",
+    rating: 6,
+    outcome: "rejected",
+    note: "",
+  }, {
+    fitScore: 5,
+    riskScore: null,
+    verdict: "Borderline",
+    rating: null,
+    outcome: "hired",
+    note: "Great in the interview.",
+  }]);
+  assertStringIncludes(
+    prompt,
+    `- Scored fit 9, risk 2 ("Strong hire"); the reviewer rated fit 6 and rejected them.\n` +
+      `- Scored fit 5, risk – ("Borderline"); the reviewer hired them. ` +
+      `Reviewer note: "Great in the interview."`,
+  );
+});
+
+Deno.test("buildRepairPrompt shows the bad answer and what was wrong", () => {
+  const repair = buildRepairPrompt("ORIGINAL", "FIT_SCORE: 7", [
+    `"riskScore" must be an integer`,
+  ]);
+  assertEquals(repair.trim().startsWith("ORIGINAL"), true);
+  assertStringIncludes(repair, `- "riskScore" must be an integer`);
+  assertMatch(
+    repair,
+    /PREVIOUS ANSWER START -+\nFIT_SCORE: 7\n-+ PREVIOUS ANSWER END/,
+  );
+  assertStringIncludes(repair, "ONLY the corrected JSON");
+});
@@ -0,0 +1,269 @@
+// providers.ts – picks the model backend from configuration.
+//
+//   MODEL_PROVIDER=anthropic  (default) Claude via Zypher; MODEL_NAME may be
+//                             a full model id or a tier: haiku | sonnet | opus
+//   MODEL_PROVIDER=openai     any OpenAI-compatible endpoint via Zypher, e.g.
+//                             a local llama.cpp server (OPENAI_BASE_URL)
+//   MODEL_PROVIDER=mock       deterministic offline output, no API key needed
+
+import {
+  AnthropicModelProvider,
+  createZypherContext,
+  OpenAIModelProvider,
+  ZypherAgent,
+} from "@corespeed/zypher";
+
+import { eachValueFrom } from "npm:rxjs-for-await";
+
+import { createMockRunner } from "./mock-provider.ts";
+import { estimateTokens, MAX_OUTPUT_TOKENS, type TokenUsage } from "./usage.ts";
+
+export type ProviderName = "anthropic" | "openai" | "mock";
+
+export type ModelConfig = {
+  provider: ProviderName;
+  model: string;
+};
+
+// One finished model call.
+export type ModelOutput = {
+  text: string;
+  usage: TokenUsage;
+  // the answer hit MAX_OUTPUT_TOKENS and was cut off
+  truncated: boolean;
+};
+
+// Everything the analysis code needs from a model backend.
+export interface ModelRunner {
+  readonly provider: ProviderName;
+  readonly model: string;
+  // Run one prompt on the given agent slot and return the full answer. The
+  // caller holds the slot (see createSlotPool), so nothing else runs on it.
+  // `onDelta` gets each streamed token as it arrives; aborting `signal`
+  // stops the task and rejects with an AbortError.
+  run(
+    prompt: string,
+    slot: number,
+    onDelta?: (delta: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ModelOutput>;
+}
+
+const ANTHROPIC_TIERS: Record<string, string> = {
+  haiku: "claude-3-haiku-20240307",
+  sonnet: "claude-3-5-sonnet-latest",
+  opus: "claude-3-opus-latest",
+};
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  anthropic: ANTHROPIC_TIERS.haiku,
+  openai: "gpt-4o-mini",
+  mock: "mock-fitscore-v1",
+};
+
+function getRequiredEnv(name: string): string {
+  const v = Deno.env.get(name);
+  if (!v) {
+    throw new Error(`Environment variable ${name} is not set`);
+  }
+  return v;
+}
+
+export function readModelConfig(): ModelConfig {
+  const raw = (Deno.env.get("MODEL_PROVIDER") ?? "anthropic").toLowerCase();
+  if (raw !== "anthropic" && raw !== "openai" && raw !== "mock") {
+    throw new Error(
+      `MODEL_PROVIDER must be anthropic, openai or mock (got "${raw}")`,
+    );
+  }
+
+  return {
+    provider: raw,
+    model: resolveModelName(raw, Deno.env.get("MODEL_NAME")),
+  };
+}
+
+// Expand tier aliases (anthropic: haiku | sonnet | opus) to model ids.
+export function resolveModelName(
+  provider: ProviderName,
+  name: string | undefined,
+): string {
+  const model = name?.trim() || DEFAULT_MODELS[provider];
+  return provider === "anthropic" ? ANTHROPIC_TIERS[model] ?? model : model;
+}
+
+// Events are typed loosely across providers; fields are read off them as
+// plain records.
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object"
+    ? value as Record<string, unknown>
+    : null;
+}
+
+// The first of `keys` that holds a number.
+function numberAt(
+  o: Record<string, unknown> | null,
+  ...keys: string[]
+): number | undefined {
+  for (const key of keys) {
+    const v = o?.[key];
+    if (typeof v === "number") return v;
+  }
+  return undefined;
+}
+
+// Token counts on a Zypher event, if it carries any. Where they live (and
+// what they're called) depends on the provider and Zypher version.
+function usageOf(event: unknown): { input: number; output: number } | null {
+  const e = asRecord(event);
+  const u = asRecord(e?.usage) ?? asRecord(asRecord(e?.message)?.usage);
+  if (!u) return null;
+  const input = numberAt(u, "inputTokens", "input_tokens", "prompt_tokens") ??
+    numberAt(asRecord(u.input), "total");
+  const output =
+    numberAt(u, "outputTokens", "output_tokens", "completion_tokens") ??
+      numberAt(asRecord(u.output), "total");
+  return input !== undefined && output !== undefined ? { input, output } : null;
+}
+
+function stopReasonOf(event: unknown): string | undefined {
+  const e = asRecord(event);
+  const message = asRecord(e?.message);
+  const stop = e?.stopReason ?? e?.stop_reason ?? message?.stopReason ??
+    message?.stop_reason;
+  return typeof stop === "string" ? stop : undefined;
+}
+
+// The part of a ZypherAgent the runner drives; tests pass a fake one that
+// replays recorded events.
+export type TaskAgent = Pick<ZypherAgent, "runTask">;
+
+// Zypher-backed runner: one agent per pool slot, since a ZypherAgent runs
+// one task at a time.
+async function createZypherRunner(
+  provider: "anthropic" | "openai",
+  model: string,
+): Promise<ModelRunner> {
+  const zypherContext = await createZypherContext(Deno.cwd());
+  const modelProvider = provider === "anthropic"
+    ? new AnthropicModelProvider({
+      apiKey: getRequiredEnv("ANTHROPIC_API_KEY"),
+    })
+    : new OpenAIModelProvider({
+      // local servers (llama.cpp, vLLM…) usually ignore the key
+      apiKey: Deno.env.get("OPENAI_API_KEY") ?? "not-needed",
+      baseUrl: Deno.env.get("OPENAI_BASE_URL"),
+    });
+
+  return createAgentRunner(
+    provider,
+    model,
+    () =>
+      new ZypherAgent(zypherContext, modelProvider, {
+        config: {
+          maxTokens: MAX_OUTPUT_TOKENS,
+          maxIterations: 6,
+          taskTimeoutMs: 120_000,
+        },
+      }),
+  );
+}
+
+// Turns an agent's task events into a ModelOutput: streamed text, summed
+// token usage and whether the answer was cut off. `createAgent` is called
+// once per pool slot.
+export function createAgentRunner(
+  provider: "anthropic" | "openai",
+  model: string,
+  createAgent: (slot: number) => TaskAgent,
+): ModelRunner {
+  const agents: TaskAgent[] = [];
+  const getAgent = (slot: number) => (agents[slot] ??= createAgent(slot));
+
+  return {
+    provider,
+    model,
+    async run(prompt, slot, onDelta, signal) {
+      signal?.throwIfAborted();
+      const event$ = getAgent(slot).runTask(prompt, model);
+      const events = eachValueFrom(event$)[Symbol.asyncIterator]();
+      // leaving the iterator unsubscribes, which stops the agent's task
+      let onAbort = () => {};
+      const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal?.reason);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+      aborted.catch(() => {});
+      let finalText = "";
+      // summed over the agent's model calls (one per iteration)
+      const reported = { input: 0, output: 0, seen: false };
+      // the most any single call wrote; the limit applies per call
+      let largestCall = 0;
+      let truncated = false;
+
+      try {
+        while (true) {
+          const next = await Promise.race([events.next(), aborted]);
+          if (next.done) break;
+          const event = next.value;
+          const { delta, content } = asRecord(event) ?? {};
+          if (
+            event.type === "text-delta" && typeof delta === "string" && delta
+          ) {
+            finalText += delta;
+            onDelta?.(delta);
+          } else if (event.type === "text" && typeof content === "string") {
+            finalText += content;
+          }
+
+          const used = usageOf(event);
+          if (used) {
+            reported.input += used.input;
+            reported.output += used.output;
+            reported.seen = true;
+            largestCall = Math.max(largestCall, used.output);
+          }
+          const stop = stopReasonOf(event);
+          if (stop === "max_tokens" || stop === "length") truncated = true;
+        }
+      } finally {
+        signal?.removeEventListener("abort", onAbort);
+        if (signal?.aborted) void events.return?.();
+      }
+
+      const text = finalText.trim();
+      const usage: TokenUsage = reported.seen
+        ? {
+          inputTokens: reported.input,
+          outputTokens: reported.output,
+          estimated: false,
+        }
+        : {
+          inputTokens: estimateTokens(prompt),
+          outputTokens: estimateTokens(text),
+          estimated: true,
+        };
+      return {
+        text,
+        usage,
+        // no stop reason reported: going by the size is the best we can do
+        truncated: truncated ||
+          (reported.seen ? largestCall : usage.outputTokens) >=
+            MAX_OUTPUT_TOKENS,
+      };
+    },
+  };
+}
+
+export function createModelRunner(config: ModelConfig): Promise<ModelRunner> {
+  if (config.provider === "mock") {
+    const latency = Number(Deno.env.get("MOCK_LATENCY_MS") ?? 0);
+    return Promise.resolve(
+      createMockRunner({
+        model: config.model,
+        latencyMs: Number.isFinite(latency) ? latency : 0,
+      }),
+    );
+  }
+  return createZypherRunner(config.provider, config.model);
+}
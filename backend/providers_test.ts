@@ -0,0 +1,149 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { createMockRunner } from "./mock-provider.ts";
+import { createAgentRunner } from "./providers.ts";
+import { eventsFor, fakeAgent, readEvents } from "./testdata/fake_agent.ts";
+import { MAX_OUTPUT_TOKENS } from "./usage.ts";
+
+Deno.test("agent runner joins streamed deltas and reports usage", async () => {
+  const events = await readEvents("anthropic-stream");
+  const runner = createAgentRunner(
+    "anthropic",
+    "claude-test",
+    () => fakeAgent(() => events),
+  );
+  const deltas: string[] = [];
+
+  const out = await runner.run("prompt", 0, (d) => deltas.push(d));
+
+  assertEquals(deltas.length, 4);
+  assertEquals(JSON.parse(out.text).fitScore, 8);
+  assertEquals(out.usage, {
+    inputTokens: 812,
+    outputTokens: 64,
+    estimated: false,
+  });
+  assertEquals(out.truncated, false);
+});
+
+Deno.test("agent runner flags a max_tokens stop as truncated", async () => {
+  const events = await readEvents("max-tokens");
+  const runner = createAgentRunner(
+    "anthropic",
+    "claude-test",
+    () => fakeAgent(() => events),
+  );
+
+  const out = await runner.run("prompt", 0);
+
+  assertEquals(out.truncated, true);
+  assertEquals(out.usage.outputTokens, MAX_OUTPUT_TOKENS);
+});
+
+Deno.test("agent runner checks the output limit per model call", async () => {
+  const call = (text: string, outputTokens: number) => [
+    { type: "text", content: text },
+    {
+      type: "message",
+      message: {
+        role: "assistant",
+        stop_reason: "end_turn",
+        usage: { input_tokens: 500, output_tokens: outputTokens },
+      },
+    },
+  ];
+  const half = Math.ceil(MAX_OUTPUT_TOKENS * 0.6);
+  const runner = createAgentRunner(
+    "anthropic",
+    "claude-test",
+    () => fakeAgent(() => [...call("draft ", half), ...call("{}", half)]),
+  );
+
+  const out = await runner.run("prompt", 0);
+
+  assertEquals(out.usage.outputTokens, half * 2);
+  assertEquals(out.truncated, false);
+});
+
+Deno.test("agent runner estimates usage the provider didn't report", async () => {
+  const events = await readEvents("openai-no-usage");
+  const runner = createAgentRunner(
+    "openai",
+    "gpt-test",
+    () => fakeAgent(() => events),
+  );
+
+  const out = await runner.run("x".repeat(400), 0);
+
+  assertEquals(JSON.parse(out.text).verdict, "Maybe.");
+  assertEquals(out.usage.estimated, true);
+  assertEquals(out.usage.inputTokens, 100);
+});
+
+Deno.test("agent runner passes agent errors through", async () => {
+  const runner = createAgentRunner(
+    "anthropic",
+    "claude-test",
+    () => fakeAgent(() => new Error("overloaded")),
+  );
+  await assertRejects(() => runner.run("prompt", 0), Error, "overloaded");
+});
+
+Deno.test("agent runner stops when the signal aborts", async () => {
+  const controller = new AbortController();
+  controller.abort();
+  const runner = createAgentRunner(
+    "anthropic",
+    "claude-test",
+    () => fakeAgent(() => eventsFor("{}")),
+  );
+  await assertRejects(() =>
+    runner.run("prompt", 0, undefined, controller.signal)
+  );
+});
+
+Deno.test("agent runner lets go of the signal once a run is over", async () => {
+  // one signal is shared by every candidate of a batch
+  const listeners = new Set<unknown>();
+  const signal = {
+    aborted: false,
+    throwIfAborted() {},
+    addEventListener: (_: string, l: unknown) => listeners.add(l),
+    removeEventListener: (_: string, l: unknown) => listeners.delete(l),
+  } as unknown as AbortSignal;
+  const runner = createAgentRunner(
+    "anthropic",
+    "claude-test",
+    () => fakeAgent(() => eventsFor("{}")),
+  );
+
+  await runner.run("a", 0, undefined, signal);
+  await runner.run("b", 0, undefined, signal);
+
+  assertEquals(listeners.size, 0);
+});
+
+Deno.test("agent runner keeps one agent per slot", async () => {
+  const created: number[] = [];
+  const runner = createAgentRunner("anthropic", "claude-test", (slot) => {
+    created.push(slot);
+    return fakeAgent(() => eventsFor("{}"));
+  });
+
+  await runner.run("a", 0);
+  await runner.run("b", 1);
+  await runner.run("c", 0);
+
+  assertEquals(created, [0, 1]);
+});
+
+Deno.test("mock runner only remembers recent prompts", async () => {
+  const runner = createMockRunner();
+  const prompt = "resume [[mock:rate-limit]]";
+  await assertRejects(() => runner.run(prompt, 0));
+  // "fail once": the retry goes through
+  await runner.run(prompt, 0);
+
+  for (let i = 0; i < 1000; i++) await runner.run(`other ${i}`, 0);
+  // forgotten, so it counts as a first call again
+  await assertRejects(() => runner.run(prompt, 0));
+});
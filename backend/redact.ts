@@ -0,0 +1,416 @@
+// redact.ts – mask personal data in resume text before it reaches the
+// prompt, the logs or the history store.
+//
+// Always masked: emails, phone numbers, street addresses, social profile
+// links, age / date of birth, photo descriptions and labelled personal
+// details (marital status, nationality…).
+// Blind mode also hides what can bias a reviewer: the candidate's name,
+// gendered pronouns and titles, school names and graduation years.
+//
+// All of this is pattern based, so it catches the common layouts, not
+// every possible one.
+
+export type RedactionKind =
+  | "email"
+  | "phone"
+  | "address"
+  | "profile-url"
+  | "age"
+  | "date-of-birth"
+  | "photo"
+  | "personal-detail"
+  | "name"
+  | "pronoun"
+  | "school"
+  | "graduation-year";
+
+// What was masked – counts only, the original values are never kept.
+export type Redaction = { kind: RedactionKind; count: number };
+
+export type RedactionResult = { text: string; redactions: Redaction[] };
+
+type Rule = {
+  kind: RedactionKind;
+  pattern: RegExp;
+  replace: string | ((match: string, ...groups: string[]) => string);
+  // drop matches this rejects (e.g. digit runs that aren't phone numbers);
+  // `before` and `after` are the text on either side of the match
+  accept?: (match: string, before: string, after: string) => boolean;
+};
+
+const YEAR = /\b(?:19|20)\d{2}\b/g;
+
+const STREET_TYPES =
+  "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl|Terrace|Square|Sq|Parkway|Pkwy|Highway|Hwy|Straße|Strasse|Rue";
+
+const PERSONAL_LABELS =
+  "Marital status|Nationality|Citizenship|Gender|Sex|Religion|Place of birth|Passport(?: number| no\\.?)?|Visa status|Children|Dependents";
+
+// Words that make a first line a heading ("Senior Software Engineer",
+// "Curriculum Vitae") rather than a name.
+const HEADING_WORDS = new Set([
+  "resume",
+  "résumé",
+  "cv",
+  "curriculum",
+  "vitae",
+  "profile",
+  "summary",
+  "senior",
+  "junior",
+  "lead",
+  "principal",
+  "staff",
+  "head",
+  "chief",
+  "associate",
+  "assistant",
+  "intern",
+  "software",
+  "hardware",
+  "backend",
+  "frontend",
+  "full",
+  "stack",
+  "data",
+  "product",
+  "project",
+  "program",
+  "marketing",
+  "sales",
+  "design",
+  "engineer",
+  "engineering",
+  "developer",
+  "development",
+  "programmer",
+  "architect",
+  "designer",
+  "manager",
+  "director",
+  "analyst",
+  "scientist",
+  "consultant",
+  "specialist",
+  "administrator",
+  "officer",
+  "founder",
+  "president",
+  "executive",
+  "technician",
+  "researcher",
+  "accountant",
+]);
+
+// Given names and surnames that are also everyday words. Only the full name
+// is masked for these, so "Mark Young" doesn't turn every "mark" or "young"
+// into [NAME].
+const COMMON_WORDS = new Set([
+  "will",
+  "mark",
+  "bill",
+  "grace",
+  "hope",
+  "joy",
+  "faith",
+  "rose",
+  "may",
+  "june",
+  "april",
+  "august",
+  "frank",
+  "sterling",
+  "young",
+  "long",
+  "little",
+  "brown",
+  "white",
+  "green",
+  "black",
+  "gray",
+  "grey",
+  "king",
+  "best",
+  "rich",
+  "hunt",
+  "price",
+  "cook",
+  "baker",
+  "miller",
+  "walker",
+  "turner",
+  "fisher",
+  "hill",
+  "wood",
+  "field",
+  "stone",
+  "park",
+  "lee",
+  "ward",
+  "bell",
+  "case",
+  "lane",
+  "rice",
+  "bush",
+  "west",
+  "north",
+  "south",
+  "day",
+  "strong",
+  "wise",
+  "love",
+]);
+
+// Currency in front of a digit run ("$1 200 000 000", "EUR 1.500.000"):
+// the run is an amount, not a phone number.
+const CURRENCY_BEFORE =
+  /(?:[$€£¥₹]|\b(?:USD|EUR|GBP|INR|JPY|CHF|CAD|AUD))\s?(?:\d{1,3}[\s.,])*$/;
+
+// "123 456 789", "12.345.678.901": thousands grouping, which is a count
+// ("123 456 789 requests") unless the context says it's a phone number.
+const THOUSANDS = /^\d{1,3}(?:([\s.])\d{3})(?:\1\d{3})+$/;
+
+// "Phone:", "Ph:", "Mobile no.", "Tel." right in front of a number.
+const PHONE_LABEL =
+  /\b(?:phone|ph|mobile|mob|cell|tel|telephone|whatsapp)(?:\s*(?:no|number|#))?\.?\s*[:.-]?\s*$/i;
+
+// A number that is a field of its own on a contact line, e.g.
+// "Madrid · 612 345 678 · jane@example.com", not part of a sentence.
+const FIELD_BEFORE = /(?:^|[|·•,;/]|\s{2})\s*$/;
+const FIELD_AFTER = /^\s*(?:$|[|·•,;/])/;
+
+// Does a digit run read as a phone number, given the text around it?
+function isPhoneNumber(m: string, before: string, after: string): boolean {
+  const digits = m.replace(/\D/g, "");
+  if (digits.length < 9 || digits.length > 15) return false;
+  // "2019 - 2021"-style year ranges and amounts
+  if (/^(?:(?:19|20)\d{2}[\s.-]*){2,}$/.test(m.trim())) return false;
+  if (CURRENCY_BEFORE.test(before)) return false;
+
+  const line = (t: string) => t.split("\n");
+  const labelled = PHONE_LABEL.test(line(before).at(-1) ?? "");
+  const international = m.startsWith("+");
+  if (labelled || international) return true;
+  // contiguous runs and 5-6 digit groups are as often IDs or account
+  // numbers, so they need the label or country code
+  if ((m.match(/\d+/g) ?? []).some((group) => group.length > 4)) return false;
+  if (THOUSANDS.test(m)) {
+    return FIELD_BEFORE.test(line(before).at(-1) ?? "") &&
+      FIELD_AFTER.test(line(after)[0]);
+  }
+  return true;
+}
+
+const SCHOOL_ACRONYMS = [
+  "MIT",
+  "CMU",
+  "UCLA",
+  "NYU",
+  "UCL",
+  "LSE",
+  "ETH",
+  "EPFL",
+  "IIT",
+  "NUS",
+  "KAIST",
+  "Caltech",
+];
+
+const BASE_RULES: Rule[] = [
+  {
+    kind: "email",
+    pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+    replace: "[EMAIL]",
+  },
+  {
+    kind: "profile-url",
+    pattern:
+      /\b(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com\/in|facebook\.com|instagram\.com|twitter\.com|x\.com)\/[\w.\-/%]+/gi,
+    replace: "[PROFILE URL]",
+  },
+  {
+    kind: "photo",
+    pattern:
+      /^.*\b(?:photo(?:graph)?|headshot|picture|portrait)\b.*\b(?:attached|enclosed|included|shows?|of me)\b.*$|^\s*\[?(?:photo|headshot|picture)\]?:?.*$/gim,
+    replace: "[PHOTO]",
+  },
+  {
+    kind: "date-of-birth",
+    pattern:
+      /\b(?:date of birth|d\.?o\.?b\.?|born(?: on| in)?)\s*:?\s*(?:\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{1,2}\s+[A-Z][a-z]+\.?\s+\d{4}|[A-Z][a-z]+\.?\s+\d{1,2},?\s+\d{4}|(?:19|20)\d{2})/gi,
+    replace: "[DATE OF BIRTH]",
+  },
+  {
+    kind: "age",
+    pattern: /\bage\s*:\s*\d{2}\b|\b\d{2}\s*(?:years?|yrs?)[\s-]old\b/gi,
+    replace: "[AGE]",
+  },
+  {
+    kind: "personal-detail",
+    pattern: new RegExp(
+      `^(\\s*[-•*]?\\s*(?:${PERSONAL_LABELS})\\s*:).*$`,
+      "gim",
+    ),
+    replace: (_m, label) => `${label} [REDACTED]`,
+  },
+  {
+    kind: "address",
+    pattern: new RegExp(
+      `\\b\\d{1,5}[A-Za-z]?\\s+(?:[A-Z][\\w'.-]*\\s+){1,4}(?:${STREET_TYPES})\\b\\.?(?:,?\\s*(?:Apt|Suite|Unit|#)\\.?\\s*\\w+)?(?:,\\s*[A-Z][\\w .'-]+?)?(?:,\\s*[A-Z]{2})?(?:\\s+\\d{5}(?:-\\d{4})?)?(?=$|[\\s,;|])`,
+      "gm",
+    ),
+    replace: "[ADDRESS]",
+  },
+  {
+    kind: "phone",
+    pattern:
+      /(?<![\w.+]|\d,)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,15}(?:[\s.-]\d{2,15}){0,4}(?!\w|\.\d)/g,
+    replace: "[PHONE]",
+    accept: isPhoneNumber,
+  },
+];
+
+const PRONOUNS: Record<string, string> = {
+  he: "they",
+  she: "they",
+  him: "them",
+  his: "their",
+  her: "their",
+  hers: "theirs",
+  himself: "themselves",
+  herself: "themselves",
+};
+
+const BLIND_RULES: Rule[] = [
+  {
+    kind: "pronoun",
+    pattern: /\b(?:he|she|him|his|her|hers|himself|herself)\b/gi,
+    replace: (m) => {
+      const neutral = PRONOUNS[m.toLowerCase()];
+      return m[0] === m[0].toUpperCase()
+        ? neutral[0].toUpperCase() + neutral.slice(1)
+        : neutral;
+    },
+  },
+  {
+    kind: "pronoun",
+    pattern: /\b(?:Mr|Mrs|Ms|Miss|Mx)\.?(?=\s)/g,
+    replace: "[TITLE]",
+  },
+  {
+    kind: "school",
+    pattern:
+      /\b(?:(?:The|the)\s+)?(?:[A-Z][\w&'.-]*\s+){0,4}(?:University|College|Institute(?:\s+of\s+Technology)?|Polytechnic|Academy|(?:High\s+|Business\s+|Law\s+)?School)(?:\s+(?:of|at|for)\s+(?:[A-Z][\w&'.-]*)(?:\s+[A-Z][\w&'.-]*){0,3})?\b/g,
+    replace: "[SCHOOL]",
+  },
+  {
+    kind: "school",
+    pattern: new RegExp(`\\b(?:${SCHOOL_ACRONYMS.join("|")})\\b`, "g"),
+    replace: "[SCHOOL]",
+  },
+];
+
+// Lines that talk about education – years on them are graduation years.
+const EDUCATION_LINE =
+  /\b(?:B\.?Sc?|B\.?A|B\.?Eng|B\.?Tech|M\.?Sc?|M\.?A|M\.?Eng|MBA|Ph\.?D|Bachelor|Master|Doctorate|Diploma|Degree|Graduat\w*|Class of|\[SCHOOL\])\b/i;
+
+function applyRule(
+  text: string,
+  rule: Rule,
+  counts: Map<RedactionKind, number>,
+): string {
+  return text.replace(rule.pattern, (match: string, ...rest: unknown[]) => {
+    const offset = rest.find((r): r is number => typeof r === "number") ?? 0;
+    if (
+      rule.accept &&
+      !rule.accept(
+        match,
+        text.slice(0, offset),
+        text.slice(offset + match.length),
+      )
+    ) {
+      return match;
+    }
+    counts.set(rule.kind, (counts.get(rule.kind) ?? 0) + 1);
+    if (typeof rule.replace === "string") return rule.replace;
+    const groups = rest.filter((g): g is string => typeof g === "string");
+    return rule.replace(match, ...groups);
+  });
+}
+
+function looksLikeName(line: string): boolean {
+  return /^(?:[A-Z][a-zA-Z'’-]*\.?\s+){1,3}[A-Z][a-zA-Z'’-]+$/.test(line) &&
+    !line.split(/\s+/).some((w) =>
+      HEADING_WORDS.has(w.replace(/\.$/, "").toLowerCase())
+    );
+}
+
+// The candidate's name: a "Name:" line, or a short first line that looks
+// like one ("Jane A. Doe") and not like a heading ("Senior Software
+// Engineer"). Returns the full name first, then the parts that aren't
+// everyday words, so later mentions ("Jane", "Doe") match too.
+function findName(text: string): string[] {
+  const labelled = text.match(/^\s*(?:full\s+)?name\s*:\s*(.+)$/im)?.[1];
+  const firstLine = text.split("\n").map((l) => l.trim()).find(Boolean) ?? "";
+  const candidate = labelled?.trim() ??
+    (looksLikeName(firstLine) ? firstLine : "");
+  if (!candidate) return [];
+  const parts = candidate
+    .split(/\s+/)
+    .map((p) => p.replace(/\.$/, ""))
+    .filter((p) =>
+      p.length > 1 && !COMMON_WORDS.has(p.toLowerCase()) &&
+      !HEADING_WORDS.has(p.toLowerCase())
+    );
+  return [candidate, ...parts];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function redactPii(
+  text: string,
+  opts: { blind?: boolean } = {},
+): RedactionResult {
+  const counts = new Map<RedactionKind, number>();
+  // look for the name before anything else is rewritten
+  const nameParts = opts.blind ? findName(text) : [];
+
+  let out = text;
+  for (const rule of BASE_RULES) out = applyRule(out, rule, counts);
+
+  if (opts.blind) {
+    if (nameParts.length) {
+      out = applyRule(out, {
+        kind: "name",
+        pattern: new RegExp(
+          `\\b(?:${
+            nameParts.map((p) => escapeRegExp(p).replace(/\s+/g, "\\s+"))
+              .join("|")
+          })(?![\\w'’-])`,
+          "g",
+        ),
+        replace: "[NAME]",
+      }, counts);
+    }
+    for (const rule of BLIND_RULES) out = applyRule(out, rule, counts);
+    out = out
+      .split("\n")
+      .map((line) =>
+        EDUCATION_LINE.test(line)
+          ? applyRule(
+            line,
+            { kind: "graduation-year", pattern: YEAR, replace: "[YEAR]" },
+            counts,
+          )
+          : line
+      )
+      .join("\n");
+  }
+
+  return {
+    text: out,
+    redactions: [...counts].map(([kind, count]) => ({ kind, count })),
+  };
+}
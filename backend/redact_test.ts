@@ -0,0 +1,144 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { redactPii } from "./redact.ts";
+
+function kinds(text: string, blind = false): string[] {
+  return redactPii(text, { blind }).redactions.map((r) => r.kind);
+}
+
+Deno.test("phone numbers in common layouts are masked", () => {
+  for (
+    const phone of [
+      "+1 415 555 0100",
+      "(415) 555-0100",
+      "415.555.0100",
+      "+44 20 7946 0958",
+      "06 12 34 56 78",
+    ]
+  ) {
+    assertEquals(redactPii(`Phone: ${phone}`).text, "Phone: [PHONE]", phone);
+  }
+});
+
+Deno.test("labelled and international numbers are masked without separators", () => {
+  for (
+    const [text, masked] of [
+      ["Phone: 4155550132", "Phone: [PHONE]"],
+      ["Ph: 9876543210", "Ph: [PHONE]"],
+      ["Mobile: +91 9876543210", "Mobile: [PHONE]"],
+      ["+919876543210", "[PHONE]"],
+      ["Tel: 07700 900123", "Tel: [PHONE]"],
+    ]
+  ) {
+    assertEquals(redactPii(text).text, masked, text);
+  }
+});
+
+Deno.test("3-3-3 numbers are masked when they stand on their own", () => {
+  for (
+    const [text, masked] of [
+      ["612 345 678", "[PHONE]"],
+      ["Phone: 612 345 678", "Phone: [PHONE]"],
+      ["Madrid · 612 345 678 · Remote", "Madrid · [PHONE] · Remote"],
+    ]
+  ) {
+    assertEquals(redactPii(text).text, masked, text);
+  }
+});
+
+Deno.test("unlabelled long digit runs are not phone numbers", () => {
+  for (
+    const text of [
+      "Employee ID 123456789",
+      "Account 12345678901",
+      "Total served: 123 456 789.",
+    ]
+  ) {
+    assertEquals(redactPii(text).text, text);
+  }
+});
+
+Deno.test("amounts and grouped numbers are not phone numbers", () => {
+  for (
+    const text of [
+      "Closed a $1 200 000 000 deal.",
+      "Managed a budget of EUR 1.500.000.000 across teams.",
+      "Grew revenue to €2 500 000 000.",
+      "Grew revenue to 1,250,000,000 USD.",
+      "Served 123 456 789 requests a day.",
+      "Indexed 12.345.678.901 documents.",
+    ]
+  ) {
+    assertEquals(redactPii(text).text, text);
+  }
+});
+
+Deno.test("year ranges and short digit runs are left alone", () => {
+  const text = "Acme Corp, 2019 - 2021. Team of 12, 40 000 users.";
+  assertEquals(redactPii(text).text, text);
+});
+
+Deno.test("emails, profile links and personal details are masked", () => {
+  const { text, redactions } = redactPii(`jane.doe@example.com
+linkedin.com/in/jane-doe
+Nationality: Canadian
+Born on 12/03/1990`);
+  assertEquals(
+    text,
+    "[EMAIL]\n[PROFILE URL]\nNationality: [REDACTED]\n[DATE OF BIRTH]",
+  );
+  assertEquals(redactions.map((r) => r.kind), [
+    "email",
+    "profile-url",
+    "date-of-birth",
+    "personal-detail",
+  ]);
+});
+
+Deno.test("blind mode masks a name on the first line and later mentions", () => {
+  const { text } = redactPii(
+    "Jane A. Doe\nBackend engineer. Jane led the Doe-free migration.",
+    { blind: true },
+  );
+  assertEquals(
+    text,
+    "[NAME]\nBackend engineer. [NAME] led the Doe-free migration.",
+  );
+});
+
+Deno.test("blind mode doesn't take a job title for a name", () => {
+  const resume = `Senior Software Engineer
+Senior engineer on the Software Platform team.`;
+  assertEquals(redactPii(resume, { blind: true }).text, resume);
+  assertEquals(kinds("Curriculum Vitae\nBuilt things.", true), []);
+});
+
+Deno.test("blind mode takes the name from a Name: line", () => {
+  const { text } = redactPii(
+    "Senior Software Engineer\nName: Priya Raman\nPriya shipped the API.",
+    { blind: true },
+  );
+  assertEquals(
+    text,
+    "Senior Software Engineer\nName: [NAME]\n[NAME] shipped the API.",
+  );
+});
+
+Deno.test("blind mode only masks everyday-word names in full", () => {
+  const { text } = redactPii(
+    "Mark Young\nMark Young led a young team. Set a new high-water mark.",
+    { blind: true },
+  );
+  assertEquals(
+    text,
+    "[NAME]\n[NAME] led a young team. Set a new high-water mark.",
+  );
+});
+
+Deno.test("blind mode neutralises pronouns and hides schools", () => {
+  const { text } = redactPii(
+    "She studied at Stanford University, BSc 2015. Her team grew.",
+    { blind: true },
+  );
+  assertStringIncludes(text, "They studied at [SCHOOL], BSc [YEAR].");
+  assertStringIncludes(text, "Their team grew.");
+});
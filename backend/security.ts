@@ -0,0 +1,204 @@
+// security.ts – who may call the API and how much: API keys, the CORS
+// allow-list, per-key rate limits and daily quotas, and request size limits.
+//
+//   FITSCORE_API_KEYS      name:key pairs, comma separated ("web:s3cret,ats:…");
+//                          a bare key is named after its position (key1…).
+//                          Empty = no auth (local development only).
+//   FITSCORE_CORS_ORIGINS  allowed browser origins, comma separated
+//                          (default http://localhost:5173; "*" = any)
+//   RATE_LIMIT_PER_MINUTE  requests per key per minute (default 60)
+//   DAILY_ANALYSIS_QUOTA   model passes per key per UTC day (default 500)
+//   MAX_BODY_BYTES         request bodies except uploads (default 2 MB)
+//   MAX_RESUMES            resumes per /analyze request (default 50)
+//   MAX_MATRIX_ANALYSES    roles × resumes per multi-JD request (default 100)
+//   MAX_RESUME_CHARS       characters per resume (default 60000)
+
+export type SecurityConfig = {
+  // key → client name; empty map = auth disabled
+  apiKeys: Map<string, string>;
+  corsOrigins: string[];
+  rateLimitPerMinute: number;
+  dailyQuota: number;
+  maxBodyBytes: number;
+  maxResumes: number;
+  maxMatrixAnalyses: number;
+  maxResumeChars: number;
+};
+
+// Name used for rate limits / quotas when auth is disabled.
+export const ANONYMOUS_CLIENT = "anonymous";
+
+// Saved runs, postings and webhook deliveries belong to the API key that
+// created them, like jobs.
+export function isOwnedBy(owner: string, client: string): boolean {
+  return owner === client;
+}
+
+function getIntEnv(name: string, fallback: number): number {
+  const v = Number(Deno.env.get(name));
+  return Number.isInteger(v) && v > 0 ? v : fallback;
+}
+
+function list(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+export function readSecurityConfig(): SecurityConfig {
+  const apiKeys = new Map<string, string>();
+  list(Deno.env.get("FITSCORE_API_KEYS")).forEach((entry, i) => {
+    const sep = entry.indexOf(":");
+    const [name, key] = sep === -1
+      ? [`key${i + 1}`, entry]
+      : [entry.slice(0, sep).trim(), entry.slice(sep + 1).trim()];
+    if (key) apiKeys.set(key, name || `key${i + 1}`);
+  });
+
+  const origins = list(Deno.env.get("FITSCORE_CORS_ORIGINS"));
+
+  return {
+    apiKeys,
+    corsOrigins: origins.length ? origins : ["http://localhost:5173"],
+    rateLimitPerMinute: getIntEnv("RATE_LIMIT_PER_MINUTE", 60),
+    dailyQuota: getIntEnv("DAILY_ANALYSIS_QUOTA", 500),
+    maxBodyBytes: getIntEnv("MAX_BODY_BYTES", 2 * 1024 * 1024),
+    maxResumes: getIntEnv("MAX_RESUMES", 50),
+    maxMatrixAnalyses: getIntEnv("MAX_MATRIX_ANALYSES", 100),
+    maxResumeChars: getIntEnv("MAX_RESUME_CHARS", 60_000),
+  };
+}
+
+// --- CORS ---
+
+// Headers to add to every response for this request's Origin. Requests
+// from origins not on the list get none, so the browser blocks them.
+export function corsHeaders(
+  req: Request,
+  config: SecurityConfig,
+): Record<string, string> {
+  const origin = req.headers.get("Origin");
+  if (!origin) return {};
+  const allowed = config.corsOrigins.includes("*") ||
+    config.corsOrigins.includes(origin);
+  if (!allowed) return { "Vary": "Origin" };
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Expose-Headers": "Content-Disposition, Retry-After",
+    "Vary": "Origin",
+  };
+}
+
+// --- authentication ---
+
+// Compare without bailing out at the first different character.
+export function safeEqual(a: string, b: string): boolean {
+  const x = new TextEncoder().encode(a);
+  const y = new TextEncoder().encode(b);
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    diff |= (x[i] ?? 0) ^ (y[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+// `Authorization: Bearer <key>` or `X-API-Key: <key>`. Returns the client
+// name, or null when the key is missing or unknown.
+export function authenticate(
+  req: Request,
+  config: SecurityConfig,
+): string | null {
+  if (config.apiKeys.size === 0) return ANONYMOUS_CLIENT;
+
+  const bearer = req.headers.get("Authorization")?.match(
+    /^Bearer\s+(.+)$/i,
+  )?.[1];
+  const token = (bearer ?? req.headers.get("X-API-Key") ?? "").trim();
+  if (!token) return null;
+
+  for (const [key, name] of config.apiKeys) {
+    if (safeEqual(token, key)) return name;
+  }
+  return null;
+}
+
+// --- rate limiting ---
+
+// Fixed one-minute windows per client, in memory (resets on restart).
+export function createRateLimiter(limitPerMinute: number) {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    // Count one request. Returns 0 if allowed, else seconds to wait.
+    hit(client: string, now = Date.now()): number {
+      const w = windows.get(client);
+      if (!w || now - w.start >= 60_000) {
+        windows.set(client, { start: now, count: 1 });
+        return 0;
+      }
+      if (w.count >= limitPerMinute) {
+        return Math.ceil((w.start + 60_000 - now) / 1000);
+      }
+      w.count++;
+      return 0;
+    },
+  };
+}
+
+// --- daily quota ---
+
+const QUOTA = "quota";
+
+// Model passes per client per UTC day, kept in Deno KV so restarts don't
+// reset them.
+export function createQuotaStore(kv: Deno.Kv, dailyLimit: number) {
+  return {
+    // Reserve `units` for today. Returns what's left, or null if the
+    // request would go over the limit (nothing is reserved then).
+    async consume(client: string, units: number): Promise<number | null> {
+      const day = new Date().toISOString().slice(0, 10);
+      const key = [QUOTA, client, day];
+
+      for (let i = 0; i < 5; i++) {
+        const current = await kv.get<number>(key);
+        const used = current.value ?? 0;
+        if (used + units > dailyLimit) return null;
+
+        const res = await kv.atomic()
+          .check(current)
+          .set(key, used + units, { expireIn: 2 * 24 * 60 * 60 * 1000 })
+          .commit();
+        if (res.ok) return dailyLimit - used - units;
+      }
+      throw new Error(`Failed to update quota for ${client}`);
+    },
+  };
+}
+
+// --- request size ---
+
+// Read the whole body, giving up as soon as it passes `maxBytes` – also
+// when the client sends no (or a wrong) Content-Length. Returns null when
+// the body is too large.
+export async function readBodyWithLimit(
+  req: Request,
+  maxBytes: number,
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  const declared = Number(req.headers.get("Content-Length"));
+  if (declared > maxBytes) return null;
+  if (!req.body) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of req.body) {
+    size += chunk.byteLength;
+    if (size > maxBytes) return null;
+    chunks.push(chunk);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const c of chunks) {
+    body.set(c, offset);
+    offset += c.byteLength;
+  }
+  return body;
+}
@@ -0,0 +1,145 @@
+import { assertEquals } from "@std/assert";
+import {
+  ANONYMOUS_CLIENT,
+  authenticate,
+  corsHeaders,
+  createQuotaStore,
+  createRateLimiter,
+  readBodyWithLimit,
+  readSecurityConfig,
+  safeEqual,
+  type SecurityConfig,
+} from "./security.ts";
+
+function config(over: Partial<SecurityConfig> = {}): SecurityConfig {
+  return {
+    apiKeys: new Map([["s3cret", "web"], ["ats-key", "ats"]]),
+    corsOrigins: ["https://app.example.com"],
+    rateLimitPerMinute: 2,
+    dailyQuota: 10,
+    maxBodyBytes: 16,
+    maxResumes: 50,
+    maxMatrixAnalyses: 100,
+    maxResumeChars: 60_000,
+    ...over,
+  };
+}
+
+function request(headers: Record<string, string>, body?: BodyInit): Request {
+  return new Request("http://localhost/analyze", {
+    method: body === undefined ? "GET" : "POST",
+    headers,
+    body,
+  });
+}
+
+Deno.test("API keys are read as name:key pairs", () => {
+  const saved = ["FITSCORE_API_KEYS", "FITSCORE_CORS_ORIGINS"]
+    .map((name) => [name, Deno.env.get(name)] as const);
+  Deno.env.set("FITSCORE_API_KEYS", "web:s3cret, bare-key ,:nameless, ats:");
+  Deno.env.delete("FITSCORE_CORS_ORIGINS");
+  try {
+    const c = readSecurityConfig();
+    assertEquals([...c.apiKeys], [
+      ["s3cret", "web"],
+      ["bare-key", "key2"],
+      ["nameless", "key3"],
+    ]);
+    assertEquals(c.corsOrigins, ["http://localhost:5173"]);
+  } finally {
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+});
+
+Deno.test("requests without a known key are turned away", () => {
+  const c = config();
+  assertEquals(authenticate(request({}), c), null);
+  assertEquals(authenticate(request({ "X-API-Key": "wrong" }), c), null);
+  assertEquals(
+    authenticate(request({ Authorization: "Basic s3cret" }), c),
+    null,
+  );
+  // a prefix of a real key isn't the key
+  assertEquals(authenticate(request({ "X-API-Key": "s3cre" }), c), null);
+
+  assertEquals(
+    authenticate(request({ Authorization: "Bearer s3cret" }), c),
+    "web",
+  );
+  assertEquals(authenticate(request({ "X-API-Key": " ats-key " }), c), "ats");
+  assertEquals(
+    authenticate(request({}), config({ apiKeys: new Map() })),
+    ANONYMOUS_CLIENT,
+  );
+  assertEquals([safeEqual("abc", "abc"), safeEqual("abc", "abd")], [
+    true,
+    false,
+  ]);
+});
+
+Deno.test("only listed origins get CORS headers", () => {
+  const c = config();
+  assertEquals(
+    corsHeaders(request({ Origin: "https://evil.example.com" }), c),
+    { "Vary": "Origin" },
+  );
+  assertEquals(corsHeaders(request({}), c), {});
+  assertEquals(
+    corsHeaders(request({ Origin: "https://app.example.com" }), c)[
+      "Access-Control-Allow-Origin"
+    ],
+    "https://app.example.com",
+  );
+  assertEquals(
+    corsHeaders(
+      request({ Origin: "https://any.example.com" }),
+      config({ corsOrigins: ["*"] }),
+    )["Access-Control-Allow-Origin"],
+    "https://any.example.com",
+  );
+});
+
+Deno.test("the rate limit rejects with the seconds left in the window", () => {
+  const limiter = createRateLimiter(2);
+  const t = 1_000_000;
+  assertEquals(limiter.hit("web", t), 0);
+  assertEquals(limiter.hit("web", t + 1_000), 0);
+  assertEquals(limiter.hit("web", t + 20_500), 40);
+  // every key has its own window
+  assertEquals(limiter.hit("ats", t + 20_500), 0);
+  assertEquals(limiter.hit("web", t + 60_000), 0);
+});
+
+Deno.test("the daily quota refuses what would go over it", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const quota = createQuotaStore(kv, 10);
+
+  assertEquals(await quota.consume("web", 6), 4);
+  assertEquals(await quota.consume("web", 5), null);
+  // a refused request reserves nothing
+  assertEquals(await quota.consume("web", 4), 0);
+  assertEquals(await quota.consume("ats", 10), 0);
+  kv.close();
+});
+
+Deno.test("bodies over the limit are refused, declared or not", async () => {
+  const small = await readBodyWithLimit(request({}, "0123456789"), 16);
+  assertEquals(new TextDecoder().decode(small!), "0123456789");
+
+  assertEquals(
+    await readBodyWithLimit(request({ "Content-Length": "17" }, "x"), 16),
+    null,
+  );
+  // streamed without a Content-Length
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(10));
+      controller.enqueue(new Uint8Array(10));
+      controller.close();
+    },
+  });
+  assertEquals(await readBodyWithLimit(request({}, stream), 16), null);
+});
@@ -1,265 +1,2313 @@
-// server.ts – FitScore AI backend using Zypher + Claude 3 Haiku
-// Uses a simple tagged text format instead of JSON to avoid parsing issues.
+// server.ts – FitScore AI backend (Zypher + Claude by default; see
+// providers.ts for the other model backends).
+// The model answers in JSON (see assessment.ts); output that fails
+// validation gets one repair round before we mark it as failed.
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import "jsr:@std/dotenv/load";
 
+import { type Assessment, parseAssessment } from "./assessment.ts";
 import {
-  AnthropicModelProvider,
-  createZypherContext,
-  ZypherAgent,
-} from "@corespeed/zypher";
-
-import { eachValueFrom } from "npm:rxjs-for-await";
+  ATS_CLIENT,
+  createPostingStore,
+  isValidRef,
+  parseApplicationInput,
+  parsePostingInput,
+  readInboundSecret,
+  verifySignature,
+} from "./ats.ts";
+import { cacheKey, createAnalysisCache, readCacheTtlMs } from "./cache.ts";
+import {
+  buildComparePrompt,
+  type Comparison,
+  type CompareInput,
+  parseCompareInput,
+  parseComparison,
+} from "./compare.ts";
+import {
+  createSlotPool,
+  isTransientError,
+  runPool,
+  withRetry,
+} from "./concurrency.ts";
+import {
+  combineScores,
+  parseEnsembleInput,
+  pickRepresentative,
+  summarizeEnsemble,
+} from "./ensemble.ts";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  exportSession,
+} from "./export.ts";
+import { extractFile, MAX_UPLOAD_BYTES } from "./extract.ts";
+import {
+  buildCalibrationReport,
+  type CalibrationExample,
+  createFeedbackStore,
+  DEFAULT_THRESHOLD,
+  parseFeedbackInput,
+  pickExamples,
+  scoredFrom,
+} from "./feedback.ts";
+import {
+  buildInterviewPrompt,
+  exportInterviewKit,
+  type InterviewKit,
+  type InterviewKitInput,
+  KIT_EXPORT_FORMATS,
+  type KitExportFormat,
+  parseInterviewKit,
+  parseInterviewKitInput,
+  validateInterviewKit,
+} from "./interview.ts";
+import {
+  buildJdPrompt,
+  type JdAnalysis,
+  type JdAnalyzeInput,
+  lintJd,
+  mergeJdIssues,
+  parseJdAnalysis,
+  parseJdAnalyzeInput,
+} from "./jd.ts";
+import {
+  createJobStore,
+  finishedCandidates,
+  isFinished,
+  type Job,
+  type JobCandidate,
+  toJobView,
+} from "./jobs.ts";
+import {
+  buildMatrix,
+  MAX_ROLES,
+  parseRolesInput,
+  type RoleInput,
+} from "./matrix.ts";
+import {
+  createProfileStore,
+  DEFAULT_PROFILE_ID,
+  parseProfileInput,
+  type RoleProfile,
+} from "./profiles.ts";
+import {
+  createModelRunner,
+  type ModelOutput,
+  type ModelRunner,
+  readModelConfig,
+  resolveModelName,
+} from "./providers.ts";
+import { buildPrompt, buildRepairPrompt, PROMPT_VERSION } from "./prompt.ts";
+import { redactPii } from "./redact.ts";
+import {
+  ANONYMOUS_CLIENT,
+  authenticate,
+  corsHeaders,
+  createQuotaStore,
+  createRateLimiter,
+  isOwnedBy,
+  readBodyWithLimit,
+  readSecurityConfig,
+} from "./security.ts";
+import { CANDIDATE_DECISIONS, createSessionStore } from "./sessions.ts";
+import { detectRiskSignals, type RiskSignal } from "./signals.ts";
+import { extractJdSkills, matchSkills } from "./skills.ts";
+import {
+  addUsage,
+  type Budget,
+  budgetExceededError,
+  type CandidateUsage,
+  costOf,
+  createBudget,
+  EMPTY_USAGE,
+  isBudgetExceeded,
+  readPriceTable,
+  readRunBudget,
+  type RunUsage,
+  summarizeRun,
+  worstCaseCost,
+} from "./usage.ts";
+import {
+  createDeliveryLog,
+  createWebhookSender,
+  readWebhookConfig,
+} from "./webhooks.ts";
+import type {
+  AnalyzeResult,
+  AnalyzeRun,
+  CandidateAnalysis,
+  CandidateDecision,
+  PreparedResume,
+  ResumeInput,
+} from "./types.ts";
 
 // TODO: optimize this later
 
 
-type ResumeInput = {
-  id: string;
-  text: string;
+// --- helpers ---
+
+function getIntEnv(name: string, fallback: number): number {
+  const v = Number(Deno.env.get(name));
+  return Number.isInteger(v) && v > 0 ? v : fallback;
+}
+
+// How many candidates are analyzed at once, and how many extra tries a
+// rate-limited / timed-out call gets.
+const ANALYZE_CONCURRENCY = getIntEnv("ANALYZE_CONCURRENCY", 4);
+const ANALYZE_MAX_RETRIES = getIntEnv("ANALYZE_MAX_RETRIES", 3);
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 20_000;
+
+// Agent slots for the whole process: a ZypherAgent runs one task at a time,
+// so every model call leases a slot (and with it that slot's agent) and
+// hands it back when the call is over. Concurrent requests and background
+// jobs share these, so ANALYZE_CONCURRENCY is also the process-wide cap.
+const agentSlots = createSlotPool(ANALYZE_CONCURRENCY);
+
+// cost accounting: USD per million tokens, and the default cap per run
+const prices = readPriceTable();
+const RUN_BUDGET_USD = readRunBudget();
+
+// Local storage: every run is saved so past analyses can be reopened, and
+// role profiles live next to them.
+const kv = await Deno.openKv(
+  Deno.env.get("FITSCORE_KV_PATH") ?? "./fitscore.kv",
+);
+const sessions = createSessionStore(kv);
+const profiles = createProfileStore(kv);
+const jobs = createJobStore(kv);
+const analysisCache = createAnalysisCache(kv, readCacheTtlMs());
+const feedback = createFeedbackStore(kv);
+await profiles.ensureDefault();
+
+// ATS integration: postings (a stored JD per ATS job), the inbound
+// webhook's secret and outbound result deliveries (see ats.ts, webhooks.ts).
+const postings = createPostingStore(kv);
+const ATS_WEBHOOK_SECRET = readInboundSecret();
+const webhooks = createWebhookSender(
+  createDeliveryLog(kv),
+  readWebhookConfig(),
+);
+const INBOUND_PATH = "/webhooks/applications";
+
+// API keys, CORS origins, rate limits, quotas and size limits (see
+// security.ts).
+const security = readSecurityConfig();
+const rateLimiter = createRateLimiter(security.rateLimitPerMinute);
+const quotas = createQuotaStore(kv, security.dailyQuota);
+// uploads are multipart and may carry several files
+const MAX_EXTRACT_BODY_BYTES = 5 * MAX_UPLOAD_BYTES;
+
+// Model backend, picked from MODEL_PROVIDER / MODEL_NAME.
+const modelConfig = readModelConfig();
+let model = await createModelRunner(modelConfig);
+
+// Swap the model backend, e.g. for a fake agent in server_test.ts.
+export function useModelRunner(runner: ModelRunner) {
+  model = runner;
+  extraRunners.clear();
+}
+
+// Extra runners for ensembles that mix models (same provider), created on
+// first use.
+const extraRunners = new Map<string, Promise<ModelRunner>>();
+
+function getRunner(name: string): Promise<ModelRunner> {
+  const resolved = resolveModelName(modelConfig.provider, name);
+  if (resolved === model.model) return Promise.resolve(model);
+  let runner = extraRunners.get(resolved);
+  if (!runner) {
+    runner = createModelRunner({ ...modelConfig, model: resolved });
+    extraRunners.set(resolved, runner);
+  }
+  return runner;
+}
+
+// Which ensemble pass a model call belongs to.
+type PassInfo = { index: number; total: number; model: string };
+
+// Progress callbacks for a single candidate (used by streaming and jobs).
+type AnalyzeHooks = {
+  // called before every model call, 1 = first try
+  onAttempt?: (attempt: number, pass?: PassInfo) => void;
+  onDelta?: (delta: string) => void;
+  // abort = stop the model call in flight and give up on the candidate
+  signal?: AbortSignal;
+  // the run's spending cap; model calls that could go over are refused
+  budget?: Budget | null;
 };
 
-type AnalyzeResult = {
-  id: string;
-  verdict: string;
-  fitScore: number | null;
-  riskScore: number | null;
-  report: string;
+// Outcome of one scoring pass (one prompt + optional repair).
+type ScoringPass = {
+  model: string;
+  rawOutput: string;
+  assessment: Assessment | null;
+  parseStatus: AnalyzeResult["parseStatus"];
+  fallbackVerdict: string;
+  fallbackReport: string;
+  attempts: number;
+  status: AnalyzeResult["status"];
+  usage: CandidateUsage;
+  truncated: boolean;
+  budgetExceeded: boolean;
 };
 
-// --- helpers ---
+// One model call on a free agent, held against the budget: the worst case is
+// reserved first (a BudgetExceededError when it doesn't fit) and swapped for
+// the real cost once that's known. `onStart` runs once the call is cleared.
+async function callWithinBudget(
+  runner: ModelRunner,
+  prompt: string,
+  opts: {
+    budget?: Budget | null;
+    onStart?: () => void;
+    onDelta?: (delta: string) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<{ out: ModelOutput; usage: CandidateUsage }> {
+  const price = prices[runner.model];
+  const reserved = worstCaseCost(prompt, price);
+  if (opts.budget && !opts.budget.reserve(reserved)) {
+    throw budgetExceededError(opts.budget.limitUsd);
+  }
+  let spent: number | null = 0;
+  try {
+    opts.onStart?.();
+    return await agentSlots.use(async (slot) => {
+      const started = performance.now();
+      const out = await runner.run(prompt, slot, opts.onDelta, opts.signal);
+      spent = costOf(out.usage, price);
+      return {
+        out,
+        usage: {
+          calls: 1,
+          inputTokens: out.usage.inputTokens,
+          outputTokens: out.usage.outputTokens,
+          latencyMs: Math.round(performance.now() - started),
+          costUsd: spent,
+          estimated: out.usage.estimated,
+        },
+      };
+    }, opts.signal);
+  } finally {
+    opts.budget?.settle(reserved, spent);
+  }
+}
+
+// One scoring pass for a resume. Never throws: once retries run out,
+// failures come back as a fallback verdict.
+async function scoreOnce(
+  prompt: string,
+  label: string,
+  runner: ModelRunner,
+  hooks: AnalyzeHooks,
+): Promise<ScoringPass> {
+  let rawOutput = "";
+  let assessment: Assessment | null = null;
+  let parseStatus: AnalyzeResult["parseStatus"] = "failed";
+  let fallbackVerdict = "";
+  let fallbackReport = "";
+  let attempts = 0;
+  let status: AnalyzeResult["status"] = "ok";
+  let usage = EMPTY_USAGE;
+  let truncated = false;
+  let budgetExceeded = false;
+
+  // every model call (first try, transient retries, repair) counts, and
+  // each attempt has to fit the budget on its own
+  const callModel = (p: string) =>
+    withRetry(
+      async () => {
+        const call = await callWithinBudget(runner, p, {
+          budget: hooks.budget,
+          onStart: () => {
+            attempts++;
+            hooks.onAttempt?.(attempts);
+          },
+          onDelta: hooks.onDelta,
+          signal: hooks.signal,
+        });
+        usage = addUsage(usage, call.usage);
+        if (call.out.truncated) {
+          truncated = true;
+          console.warn(`✂️ Output for ${label} hit the token limit`);
+        }
+        return call.out.text;
+      },
+      {
+        retries: ANALYZE_MAX_RETRIES,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        maxDelayMs: RETRY_MAX_DELAY_MS,
+        isRetryable: (err) => !hooks.signal?.aborted && isTransientError(err),
+        onRetry: (err, attempt, delayMs) =>
+          console.warn(
+            `🔁 Retrying ${label} (attempt ${attempt} failed, waiting ${delayMs}ms):`,
+            err instanceof Error ? err.message : err,
+          ),
+      },
+    );
+
+  try {
+    const raw = await callModel(prompt);
+    rawOutput = raw;
+    console.log(`📄 Raw model output for ${label}:\n${raw}\n---`);
+
+    const first = parseAssessment(raw);
+    if (first.ok) {
+      assessment = first.value;
+      parseStatus = "clean";
+    } else {
+      console.warn(
+        `🛠️ Output for ${label} failed validation, re-prompting:`,
+        first.errors,
+      );
+      const repaired = await callModel(
+        buildRepairPrompt(prompt, raw, first.errors),
+      );
+      rawOutput += `\n\n--- repair attempt ---\n${repaired}`;
+      console.log(`📄 Repaired model output for ${label}:\n${repaired}\n---`);
+
+      const second = parseAssessment(repaired);
+      if (second.ok) {
+        assessment = second.value;
+        parseStatus = "repaired";
+      } else {
+        console.error(
+          `❌ Output for ${label} still invalid after repair:`,
+          second.errors,
+        );
+        fallbackVerdict = "Model output failed validation — see raw report.";
+        fallbackReport = [
+          "Validation errors:",
+          ...second.errors.map((e) => `- ${e}`),
+          "",
+          "Raw output:",
+          repaired,
+        ].join("\n");
+      }
+    }
+  } catch (err) {
+    if (hooks.signal?.aborted) {
+      console.warn(`⏹️ Analysis of ${label} cancelled`);
+    } else if (isBudgetExceeded(err)) {
+      console.warn(`💸 Skipping ${label}: ${(err as Error).message}`);
+      budgetExceeded = true;
+    } else {
+      console.error(
+        `❌ Error analyzing resume ${label} after ${attempts} attempt(s):`,
+        err,
+      );
+    }
+    status = "failed";
+    fallbackVerdict = budgetExceeded
+      ? "Not analyzed — the run's budget ran out."
+      : "Analysis failed — fallback verdict. Check backend logs.";
+    fallbackReport = `Raw error: ${
+      err instanceof Error ? err.message : String(err)
+    }`;
+  }
+
+  return {
+    model: runner.model,
+    rawOutput,
+    assessment,
+    parseStatus,
+    fallbackVerdict,
+    fallbackReport,
+    attempts,
+    status,
+    usage,
+    truncated,
+    budgetExceeded,
+  };
+}
+
+// What the logs call a candidate. Blind runs keep the id out too, since
+// it's often a file or person's name; a short hash still ties a
+// candidate's log lines together.
+async function logLabel(id: string, blind: boolean): Promise<string> {
+  if (!blind) return `"${id}"`;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(id),
+  );
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `candidate #${hex}`;
+}
+
+function resultFromPass(
+  r: PreparedResume,
+  run: AnalyzeRun,
+  pass: ScoringPass,
+  riskSignals: RiskSignal[],
+): AnalyzeResult {
+  const a = pass.assessment;
+  return {
+    id: r.id,
+    fitScore: a?.fitScore ?? null,
+    riskScore: a?.riskScore ?? null,
+    verdict: a?.verdict ?? pass.fallbackVerdict,
+    report: a?.report ?? pass.fallbackReport,
+    alignment: a?.alignment ?? [],
+    gaps: a?.gaps ?? [],
+    redFlags: a?.redFlags ?? [],
+    missingSkills: a?.missingSkills ?? [],
+    skills: matchSkills(run.skills, r.text),
+    riskSignals,
+    redactions: r.redactions,
+    blind: run.blind,
+    parseStatus: pass.parseStatus,
+    profile: { id: run.profile.id, name: run.profile.name },
+    model: pass.model,
+    attempts: pass.attempts,
+    status: pass.status,
+    usage: pass.usage,
+    truncated: pass.truncated,
+    budgetExceeded: pass.budgetExceeded,
+    cached: false,
+  };
+}
+
+function cacheKeyFor(run: AnalyzeRun, r: PreparedResume): Promise<string> {
+  return cacheKey({
+    jd: run.jd,
+    resume: r.text,
+    promptVersion: PROMPT_VERSION,
+    profile: run.profile,
+    model: model.model,
+    ensemble: run.ensemble,
+    blind: run.blind,
+    calibration: run.calibration,
+  });
+}
 
-function getRequiredEnv(name: string): string {
-  const v = Deno.env.get(name);
-  if (!v) {
-    throw new Error(`Environment variable ${name} is not set`);
+// Analyze a single resume, reusing a cached result for the same JD, resume,
+// profile and model unless the resume asks for a fresh run (`force`).
+// Cached results come back right away with `cached: true`. Never throws.
+async function analyzeResume(
+  run: AnalyzeRun,
+  r: PreparedResume,
+  hooks: AnalyzeHooks = {},
+): Promise<CandidateAnalysis> {
+  const key = await cacheKeyFor(run, r);
+
+  if (!r.force) {
+    const hit = await analysisCache.get(key).catch((err) => {
+      console.warn("⚠️ Analysis cache lookup failed:", err);
+      return null;
+    });
+    if (hit) {
+      const label = await logLabel(r.id, run.blind);
+      console.log(`♻️ Cached result for ${label} (${hit.cachedAt})`);
+      return {
+        resume: { id: r.id, text: r.text },
+        rawOutput: hit.rawOutput,
+        // riskSignals stay as cached: they're what the model was shown
+        // when it wrote the report
+        result: {
+          ...hit.result,
+          // the label and what was masked belong to this request
+          id: r.id,
+          skills: matchSkills(run.skills, r.text),
+          redactions: r.redactions,
+          cached: true,
+        },
+      };
+    }
+  }
+
+  const analysis = await scoreResume(run, r, hooks);
+  const { result } = analysis;
+  // only answers worth reusing: not failed, cancelled or cut short by budget
+  if (
+    result.status === "ok" && result.parseStatus !== "failed" &&
+    !result.budgetExceeded
+  ) {
+    await analysisCache.set(key, { rawOutput: analysis.rawOutput, result });
   }
-  return v;
+  return analysis;
 }
 
-const MODEL_NAME = "claude-3-haiku-20240307";
+// Score a single resume against the JD – once, or as an ensemble of passes
+// run one after another. Never throws, so one bad candidate doesn't sink
+// the whole batch.
+async function scoreResume(
+  run: AnalyzeRun,
+  r: PreparedResume,
+  hooks: AnalyzeHooks = {},
+): Promise<CandidateAnalysis> {
+  const signals = detectRiskSignals(run.jd, r.text);
+  const prompt = buildPrompt(
+    run.jd,
+    r.text,
+    run.profile,
+    signals,
+    run.calibration,
+  );
+  const label = await logLabel(r.id, run.blind);
 
-// Initialize Zypher agent once at startup
-// TODO: optimize this later
+  if (!run.ensemble) {
+    const pass = await scoreOnce(prompt, label, model, hooks);
+    return {
+      resume: { id: r.id, text: r.text },
+      rawOutput: pass.rawOutput,
+      result: resultFromPass(r, run, pass, signals),
+    };
+  }
+
+  const { ensemble } = run;
+  const modelNames = ensemble.models.length
+    ? ensemble.models
+    : [model.model];
+  const plan = modelNames.flatMap((name) =>
+    Array.from({ length: ensemble.runs }, () => name)
+  );
+
+  const passes: ScoringPass[] = [];
+  let attempts = 0;
+  for (const [index, name] of plan.entries()) {
+    const info = { index, total: plan.length, model: name };
+    let pass: ScoringPass;
+    try {
+      const runner = await getRunner(name);
+      pass = await scoreOnce(prompt, label, runner, {
+        onAttempt: (n) => hooks.onAttempt?.(attempts + n, info),
+        onDelta: hooks.onDelta,
+        signal: hooks.signal,
+        budget: hooks.budget,
+      });
+    } catch (err) {
+      // runner couldn't even be created (bad model name, missing key…)
+      console.error(`❌ Ensemble model "${name}" unavailable:`, err);
+      pass = {
+        model: name,
+        rawOutput: "",
+        assessment: null,
+        parseStatus: "failed",
+        fallbackVerdict: `Model "${name}" unavailable.`,
+        fallbackReport: `Raw error: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+        attempts: 0,
+        status: "failed",
+        usage: EMPTY_USAGE,
+        truncated: false,
+        budgetExceeded: false,
+      };
+    }
+    attempts += pass.attempts;
+    passes.push(pass);
+    if (hooks.signal?.aborted) break;
+  }
+
+  const scores = passes.map((p) => ({
+    model: p.model,
+    fitScore: p.assessment?.fitScore ?? null,
+    riskScore: p.assessment?.riskScore ?? null,
+  }));
+  const summary = summarizeEnsemble(ensemble, scores);
+  const fitScore = combineScores(summary.fitScores, ensemble.method);
+  const riskScore = combineScores(summary.riskScores, ensemble.method);
+  const rep = pickRepresentative(scores, fitScore, riskScore);
+  // nothing valid: show the last pass's failure
+  const shown = passes[rep === -1 ? passes.length - 1 : rep];
+
+  return {
+    resume: { id: r.id, text: r.text },
+    rawOutput: passes
+      .map((p, i) => `--- run ${i + 1} (${p.model}) ---\n${p.rawOutput}`)
+      .join("\n\n"),
+    result: {
+      ...resultFromPass(r, run, shown, signals),
+      fitScore,
+      riskScore,
+      parseStatus: passes.every((p) => p.parseStatus === "failed")
+        ? "failed"
+        : passes.some((p) => p.parseStatus === "repaired")
+        ? "repaired"
+        : "clean",
+      attempts,
+      status: passes.every((p) => p.status === "failed") ? "failed" : "ok",
+      usage: passes.reduce((sum, p) => addUsage(sum, p.usage), EMPTY_USAGE),
+      truncated: passes.some((p) => p.truncated),
+      budgetExceeded: passes.some((p) => p.budgetExceeded),
+      cached: false,
+      ensemble: summary,
+    },
+  };
+}
+
+// Persist a finished run under the key it was run for. History is
+// nice-to-have: a storage failure is logged and never fails the analysis
+// itself.
+async function saveRun(
+  client: string,
+  run: AnalyzeRun,
+  candidates: CandidateAnalysis[],
+): Promise<string | null> {
+  if (candidates.length === 0) return null;
+  try {
+    return await sessions.save({
+      client,
+      model: model.model,
+      jd: run.jd,
+      candidates,
+    });
+  } catch (err) {
+    console.error("❌ Failed to save session:", err);
+    return null;
+  }
+}
+
+// Only resumes with actual text get sent to the model.
+function nonEmptyResumes<T extends ResumeInput>(resumes: T[]): T[] {
+  return resumes.filter((r) => r.text && r.text.trim());
+}
+
+// One role of a multi-JD request: an ordinary run plus its label.
+type RoleRun = { id: string; name: string; run: AnalyzeRun };
+
+// Read + validate the /analyze body. Returns either the clean input or an
+// error Response to send back as-is. With `jds` (several open roles) the
+// input is one run per role over the same resumes instead of a single run.
+async function readAnalyzeBody(
+  req: Request,
+  client: string,
+): Promise<
+  | { run: AnalyzeRun; resumes: PreparedResume[] }
+  | { roles: RoleRun[]; resumes: PreparedResume[] }
+  | Response
+> {
+  const body = (await req.json().catch(() => null)) as {
+    jd?: string;
+    jds?: unknown;
+    resumes?: (ResumeInput & { force?: boolean })[];
+    profileId?: string;
+    ensemble?: unknown;
+    blind?: boolean;
+    budgetUsd?: unknown;
+    calibrate?: boolean;
+  } | null;
+  if (!body || typeof body !== "object") {
+    return json({ error: "Expected a JSON body" }, 400);
+  }
+
+  const jd = typeof body.jd === "string" ? body.jd.trim() : "";
+  const resumes = Array.isArray(body.resumes) ? body.resumes : [];
+
+  let roles: RoleInput[] | null = null;
+  if (body.jds !== undefined && body.jds !== null) {
+    if (jd) {
+      return json({ error: "Send either 'jd' or 'jds', not both" }, 400);
+    }
+    const parsed = parseRolesInput(body.jds);
+    if (!parsed.ok) return json({ error: parsed.error }, 400);
+    roles = parsed.value;
+  } else if (!jd) {
+    return json(
+      { error: "Missing 'jd' in request body" },
+      400,
+    );
+  }
+  if (resumes.length === 0) {
+    return json(
+      { error: "Provide at least one resume" },
+      400,
+    );
+  }
+  if (resumes.length > security.maxResumes) {
+    return json(
+      { error: `At most ${security.maxResumes} resumes per request` },
+      400,
+    );
+  }
+  // every resume is scored against every role within this one request, so
+  // the matrix has its own cap on analyses; blank resumes are skipped and
+  // don't count
+  if (roles) {
+    const scored = resumes.filter((r) =>
+      typeof r.text === "string" && r.text.trim()
+    ).length;
+    if (roles.length * scored > security.maxMatrixAnalyses) {
+      return json(
+        {
+          error:
+            `At most ${security.maxMatrixAnalyses} analyses per request: ${roles.length} roles × ${scored} resumes is ${
+              roles.length * scored
+            }`,
+        },
+        400,
+      );
+    }
+  }
+  const tooLong = resumes.find((r) =>
+    typeof r.text === "string" && r.text.length > security.maxResumeChars
+  );
+  if (tooLong) {
+    return json(
+      {
+        error:
+          `Resume '${tooLong.id}' is longer than ${security.maxResumeChars} characters`,
+      },
+      413,
+    );
+  }
+
+  const defaultProfileId = body.profileId?.trim() || DEFAULT_PROFILE_ID;
+  const profileIds = roles
+    ? [...new Set(roles.map((r) => r.profileId ?? defaultProfileId))]
+    : [defaultProfileId];
+  const loaded = new Map<string, RoleProfile>();
+  for (const profileId of profileIds) {
+    const profile = await profiles.get(client, profileId);
+    if (!profile) {
+      return json(
+        { error: `Unknown profile '${profileId}'` },
+        400,
+      );
+    }
+    loaded.set(profileId, profile);
+  }
+
+  const ensemble = parseEnsembleInput(body.ensemble);
+  if (!ensemble.ok) return json({ error: ensemble.error }, 400);
+
+  const blind = body.blind === true;
 
-const zypherContext = await createZypherContext(Deno.cwd());
-const provider = new AnthropicModelProvider({
-  apiKey: getRequiredEnv("ANTHROPIC_API_KEY"),
-});
+  // a request may lower the configured cap, never raise it
+  let budgetUsd = RUN_BUDGET_USD;
+  if (body.budgetUsd !== undefined && body.budgetUsd !== null) {
+    if (typeof body.budgetUsd !== "number" || !(body.budgetUsd > 0)) {
+      return json({ error: "'budgetUsd' must be a positive number" }, 400);
+    }
+    budgetUsd = Math.min(body.budgetUsd, budgetUsd ?? Infinity);
+  }
 
-const agent = new ZypherAgent(zypherContext, provider, {
-  config: {
-    maxTokens: 1024,
-    maxIterations: 6,
-    taskTimeoutMs: 120_000,
-  },
-});
+  // the client's own feedback on earlier candidates of the same profile,
+  // as few-shot calibration; masked like the resumes, since it goes to the
+  // model too
+  const examples = new Map<string, CalibrationExample[]>();
+  if (body.calibrate === true) {
+    for (const profileId of profileIds) {
+      const reviewed = await feedback.recent(client, profileId);
+      examples.set(
+        profileId,
+        pickExamples(reviewed, profileId).map((e) => ({
+          ...e,
+          verdict: redactPii(e.verdict, { blind }).text,
+          note: redactPii(e.note, { blind }).text,
+        })),
+      );
+    }
+  }
 
-// Run one Zypher task and return the final accumulated text
-async function runZypherTask(prompt: string): Promise<string> {
-  const event$ = agent.runTask(prompt, MODEL_NAME);
-  let finalText = "";
+  const runFor = (jd: string, profileId: string): AnalyzeRun => {
+    const profile = loaded.get(profileId)!;
+    return {
+      jd,
+      profile,
+      skills: extractJdSkills(jd, profile),
+      ensemble: ensemble.value,
+      blind,
+      budgetUsd,
+      calibration: examples.get(profileId) ?? [],
+    };
+  };
+  // PII is masked here, before the prompt, the logs or the history
+  const prepared = resumes.map((r) => {
+    const raw = typeof r.text === "string" ? r.text : "";
+    const { text, redactions } = redactPii(raw, { blind });
+    return { id: r.id, text, redactions, force: r.force === true };
+  });
+
+  if (roles) {
+    return {
+      roles: roles.map((role) => ({
+        id: role.id,
+        name: role.name,
+        run: runFor(role.jd, role.profileId ?? defaultProfileId),
+      })),
+      resumes: prepared,
+    };
+  }
+  return { run: runFor(jd, defaultProfileId), resumes: prepared };
+}
 
-  for await (const event of eachValueFrom(event$)) {
-    if (event.type === "text-delta" && (event as any).delta) {
-      finalText += (event as any).delta as string;
-    } else if (event.type === "text" && (event as any).content) {
-      finalText += (event as any).content as string;
+// Charge the runs against the caller's daily quota (one unit per model pass
+// per resume and run; cached results are free). Returns a 429 Response when it doesn't fit,
+// null when it's reserved.
+async function reserveQuota(
+  client: string,
+  runs: AnalyzeRun[],
+  resumes: PreparedResume[],
+): Promise<Response | null> {
+  let units = 0;
+  for (const run of runs) {
+    const passes = run.ensemble
+      ? run.ensemble.runs * Math.max(1, run.ensemble.models.length)
+      : 1;
+    for (const r of nonEmptyResumes(resumes)) {
+      const cached = !r.force &&
+        await analysisCache.get(await cacheKeyFor(run, r)).catch(() => null);
+      if (!cached) units += passes;
     }
   }
+  return await consumeQuota(client, units);
+}
 
-  return finalText.trim();
+// Take `units` from the caller's daily quota: null when they fit, else the
+// 429 Response to send.
+async function consumeQuota(
+  client: string,
+  units: number,
+): Promise<Response | null> {
+  const left = await quotas.consume(client, units);
+  if (left !== null) return null;
+  return json(
+    {
+      error:
+        `Daily analysis quota of ${security.dailyQuota} passes reached for this API key`,
+    },
+    429,
+  );
 }
 
-// Build the per-candidate prompt
-function buildPrompt(jd: string, resumeText: string): string {
-  return `
-You are a ruthless startup founder reviewing candidates for a Senior Full-Stack / Agent Infra role at CoreSpeed.
+// Multi-JD /analyze: every resume against every role, on one pool and one
+// budget. Each role is saved as its own session, so history, exports and
+// decisions work per role as usual.
+async function analyzeRoles(
+  client: string,
+  input: { roles: RoleRun[]; resumes: PreparedResume[] },
+): Promise<Response> {
+  const { roles } = input;
+  const overQuota = await reserveQuota(
+    client,
+    roles.map((role) => role.run),
+    input.resumes,
+  );
+  if (overQuota) return overQuota;
+
+  // the cap is the same for every role; it covers all of them together
+  const budgetUsd = roles[0].run.budgetUsd;
+  const budget = budgetUsd === null ? null : createBudget(budgetUsd);
+  const todo = nonEmptyResumes(input.resumes);
+  const pairs = roles.flatMap((role) => todo.map((r) => ({ role, r })));
+  const analyses = await runPool(
+    pairs,
+    ANALYZE_CONCURRENCY,
+    ({ role, r }) => analyzeResume(role.run, r, { budget }),
+  );
+
+  const done = [];
+  for (const [i, role] of roles.entries()) {
+    const candidates = analyses.slice(i * todo.length, (i + 1) * todo.length);
+    done.push({
+      id: role.id,
+      name: role.name,
+      profile: { id: role.run.profile.id, name: role.run.profile.name },
+      results: candidates.map((c) => c.result),
+      sessionId: await saveRun(client, role.run, candidates),
+    });
+  }
+
+  return json({
+    roles: done,
+    matrix: buildMatrix(done, todo.map((r) => r.id)),
+    usage: summarizeRun(analyses.map((c) => c.result), budgetUsd),
+  });
+}
+
+// --- follow-up calls (interview kits, comparisons, JD reviews) ---
+
+type FollowUpOutcome<T> =
+  | {
+    ok: true;
+    value: T;
+    parseStatus: "clean" | "repaired";
+    usage: CandidateUsage;
+  }
+  | { ok: false; errors: string[] };
+
+// One model call with the same transient-error retries, single repair
+// round and RUN_BUDGET_USD cap as an analysis. Model errors (running out of
+// budget included) are thrown; an answer that still doesn't validate comes
+// back as `errors`.
+async function runFollowUp<T>(
+  label: string,
+  prompt: string,
+  parse: (
+    raw: string,
+  ) => { ok: true; value: T } | { ok: false; errors: string[] },
+): Promise<FollowUpOutcome<T>> {
+  let usage = EMPTY_USAGE;
+  // capped like an analysis run: the first answer and its repair together
+  const budget = RUN_BUDGET_USD === null ? null : createBudget(RUN_BUDGET_USD);
+
+  const callModel = (p: string) =>
+    withRetry(
+      async () => {
+        const call = await callWithinBudget(model, p, { budget });
+        usage = addUsage(usage, call.usage);
+        return call.out.text;
+      },
+      {
+        retries: ANALYZE_MAX_RETRIES,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        maxDelayMs: RETRY_MAX_DELAY_MS,
+        isRetryable: isTransientError,
+        onRetry: (err, attempt, delayMs) =>
+          console.warn(
+            `🔁 Retrying ${label} (attempt ${attempt} failed, waiting ${delayMs}ms):`,
+            err instanceof Error ? err.message : err,
+          ),
+      },
+    );
+
+  const raw = await callModel(prompt);
+  console.log(`📄 Raw model output for ${label}:\n${raw}\n---`);
+  const first = parse(raw);
+  if (first.ok) {
+    return { ok: true, value: first.value, parseStatus: "clean", usage };
+  }
+
+  console.warn(
+    `🛠️ Output for ${label} failed validation, re-prompting:`,
+    first.errors,
+  );
+  const repaired = await callModel(
+    buildRepairPrompt(prompt, raw, first.errors),
+  );
+  console.log(`📄 Repaired model output for ${label}:\n${repaired}\n---`);
+  const second = parse(repaired);
+  if (!second.ok) {
+    console.error(
+      `❌ Output for ${label} still invalid after repair:`,
+      second.errors,
+    );
+    return second;
+  }
+  return { ok: true, value: second.value, parseStatus: "repaired", usage };
+}
+
+// Profile lookup and quota for a follow-up request (one unit, like an
+// analysis pass). Returns the profile, or an error Response to send as-is.
+async function prepareFollowUp(
+  client: string,
+  profileId: string | null,
+): Promise<RoleProfile | Response> {
+  const id = profileId ?? DEFAULT_PROFILE_ID;
+  const profile = await profiles.get(client, id);
+  if (!profile) return json({ error: `Unknown profile '${id}'` }, 400);
+
+  return await consumeQuota(client, 1) ?? profile;
+}
+
+async function generateInterviewKit(
+  input: InterviewKitInput,
+  profile: RoleProfile,
+): Promise<
+  { ok: true; value: InterviewKit } | { ok: false; errors: string[] }
+> {
+  // same masking as the analysis the kit follows up on
+  const { text } = redactPii(input.resume.text, { blind: input.blind });
+  const out = await runFollowUp(
+    `interview kit for ${await logLabel(input.resume.id, input.blind)}`,
+    buildInterviewPrompt(input.jd, text, input.analysis, profile),
+    parseInterviewKit,
+  );
+  if (!out.ok) return out;
+
+  return {
+    ok: true,
+    value: {
+      candidateId: input.resume.id,
+      questions: out.value,
+      model: model.model,
+      generatedAt: new Date().toISOString(),
+      parseStatus: out.parseStatus,
+      usage: out.usage,
+    },
+  };
+}
+
+async function generateComparison(
+  input: CompareInput,
+  profile: RoleProfile,
+): Promise<{ ok: true; value: Comparison } | { ok: false; errors: string[] }> {
+  const ids = input.candidates.map((c) => c.id);
+  const texts = input.candidates.map((c) =>
+    redactPii(c.text, { blind: input.blind }).text
+  );
+  const labels = await Promise.all(
+    ids.map((id) => logLabel(id, input.blind)),
+  );
+  const out = await runFollowUp(
+    `comparison of ${labels.join(", ")}`,
+    buildComparePrompt(input.jd, texts, profile),
+    (raw) => parseComparison(raw, ids),
+  );
+  if (!out.ok) return out;
+
+  return {
+    ok: true,
+    value: {
+      ...out.value,
+      model: model.model,
+      generatedAt: new Date().toISOString(),
+      parseStatus: out.parseStatus,
+      usage: out.usage,
+    },
+  };
+}
+
+async function generateJdAnalysis(
+  input: JdAnalyzeInput,
+  profile: RoleProfile,
+): Promise<{ ok: true; value: JdAnalysis } | { ok: false; errors: string[] }> {
+  const measured = lintJd(input.jd);
+  const out = await runFollowUp(
+    "JD review",
+    buildJdPrompt(input.jd, measured, profile),
+    parseJdAnalysis,
+  );
+  if (!out.ok) return out;
+
+  return {
+    ok: true,
+    value: {
+      requirements: out.value.requirements,
+      issues: mergeJdIssues(measured, out.value.issues),
+      rewrite: out.value.rewrite,
+      model: model.model,
+      generatedAt: new Date().toISOString(),
+      parseStatus: out.parseStatus,
+      usage: out.usage,
+    },
+  };
+}
+
+// --- streaming (Server-Sent Events) ---
+
+// Events sent on /analyze/stream, in order per candidate:
+//   candidate-start → delta* → result, then a single `done` at the end.
+// Candidates run concurrently, so events for different candidates
+// interleave; `index` is the position among the non-empty resumes sent.
+// A retried candidate gets a fresh candidate-start with the new `attempt`;
+// in ensemble mode `pass` says which of the passes is running.
+type StreamEvent =
+  | {
+    type: "candidate-start";
+    id: string;
+    index: number;
+    total: number;
+    attempt: number;
+    pass?: PassInfo;
+  }
+  | { type: "delta"; id: string; index: number; delta: string }
+  | { type: "result"; index: number; result: AnalyzeResult }
+  | {
+    type: "done";
+    count: number;
+    sessionId: string | null;
+    usage: RunUsage;
+  }
+  | { type: "error"; error: string };
+
+function encodeSse(event: StreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function streamAnalysis(
+  client: string,
+  run: AnalyzeRun,
+  resumes: PreparedResume[],
+): Response {
+  const encoder = new TextEncoder();
+  const todo = nonEmptyResumes(resumes);
+  let cancelled = false;
+  // stops the model calls still running when the client goes away
+  const abort = new AbortController();
+  const budget = run.budgetUsd === null ? null : createBudget(run.budgetUsd);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(encodeSse(event)));
+      };
+
+      try {
+        const done = await runPool(
+          todo,
+          ANALYZE_CONCURRENCY,
+          async (r, index) => {
+            // client went away – don't keep spending tokens
+            if (cancelled) return null;
 
-You get:
-1) The exact job description (JD).
-2) One candidate’s resume.
+            const analysis = await analyzeResume(run, r, {
+              onAttempt: (attempt, pass) =>
+                send({
+                  type: "candidate-start",
+                  id: r.id,
+                  index,
+                  total: todo.length,
+                  attempt,
+                  pass,
+                }),
+              onDelta: (delta) =>
+                send({ type: "delta", id: r.id, index, delta }),
+              signal: abort.signal,
+              budget,
+            });
+            // cut off halfway – nothing worth keeping
+            if (abort.signal.aborted && analysis.result.status === "failed") {
+              return null;
+            }
+            send({ type: "result", index, result: analysis.result });
+            return analysis;
+          },
+        );
 
-Your job:
-- Decide how well this candidate truly fits the JD.
-- Detect any bullshit / AI-rewritten / keyword-stuffed patterns.
-- Score both Fit and Risk.
+        // keep whatever finished, even if the client left halfway
+        const finished = done.filter((c): c is CandidateAnalysis => c !== null);
+        const sessionId = await saveRun(client, run, finished);
+        send({
+          type: "done",
+          count: todo.length,
+          sessionId,
+          usage: summarizeRun(finished.map((c) => c.result), run.budgetUsd),
+        });
+      } catch (err) {
+        console.error("❌ /analyze/stream error:", err);
+        send({
+          type: "error",
+          error: "Internal server error while analyzing resumes.",
+        });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      abort.abort();
+    },
+  });
 
-IMPORTANT: You MUST respond in the following EXACT plain-text format.
-Do NOT add any extra explanation, headings, markdown, or text before FIT_SCORE:.
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
+}
 
-FIT_SCORE: <integer 0-10>
-RISK_SCORE: <integer 0-10>
-VERDICT: <short one-sentence founder-style verdict>
-REPORT:
-<multi-line markdown analysis; sections: Alignment, Gaps, Red Flags, Verdict>
+// --- background jobs ---
 
-Rules:
-- fitScore: higher = better match to JD (skills, stack, scope, ownership).
-- riskScore: higher = more risky (inflated buzzwords, weak ownership, shallow infra experience).
-- Be brutally honest but grounded in the evidence from the resume vs JD.
-- If information is missing, say so instead of hallucinating.
+// Jobs run one at a time, in the order they were submitted; candidates
+// inside a job share the usual concurrency pool.
+const jobQueue: string[] = [];
+// AbortControllers of the job this process is running right now
+const runningJobs = new Map<string, AbortController>();
+let jobWorkerBusy = false;
 
----------------- JD START ----------------
-${jd}
----------------- JD END ------------------
+function enqueueJob(id: string) {
+  jobQueue.push(id);
+  void drainJobQueue();
+}
 
-------------- RESUME START --------------
-${resumeText}
-------------- RESUME END ----------------
-`;
+async function drainJobQueue() {
+  if (jobWorkerBusy) return;
+  jobWorkerBusy = true;
+  try {
+    while (jobQueue.length) {
+      const id = jobQueue.shift()!;
+      try {
+        await runJob(id);
+      } catch (err) {
+        console.error(`❌ Job ${id} failed:`, err);
+        const failed = await jobs.update(id, {
+          status: "failed",
+          error: err instanceof Error ? err.message : String(err),
+        }).catch(() => null);
+        if (failed) notifyAts(failed, []);
+      } finally {
+        runningJobs.delete(id);
+      }
+    }
+  } finally {
+    jobWorkerBusy = false;
+  }
+}
+
+// Progress writes are best effort: a candidate whose entry can't be written
+// still gets analyzed, and the worker's copy is what the saved run gets.
+async function storeProgress(id: string, candidate: JobCandidate) {
+  try {
+    await jobs.updateCandidate(id, candidate);
+  } catch (err) {
+    console.error(
+      `❌ Job ${id}: failed to store candidate #${candidate.index}:`,
+      err,
+    );
+  }
 }
 
-// tagged text output into our structured shape
-function parseModelOutput(raw: string): {
-  fitScore: number | null;
-  riskScore: number | null;
-  verdict: string;
-  report: string;
-} {
-  const fitMatch = raw.match(/FIT_SCORE\s*:\s*(\d+)/i);
-  const riskMatch = raw.match(/RISK_SCORE\s*:\s*(\d+)/i);
-  const verdictMatch = raw.match(/VERDICT\s*:\s*(.+)/i);
-  const reportIndex = raw.search(/REPORT\s*:/i);
+async function runJob(id: string) {
+  const stored = await jobs.get(id);
+  // cancelled while it was waiting in the queue
+  if (!stored || isFinished(stored.job.status)) return;
+  const { job } = stored;
 
-  const fitScore = fitMatch ? Number(fitMatch[1]) : null;
-  const riskScore = riskMatch ? Number(riskMatch[1]) : null;
-  const verdict = verdictMatch
-    ? verdictMatch[1].trim()
-    : "No clear verdict parsed";
+  const abort = new AbortController();
+  runningJobs.set(id, abort);
+  const budget = job.run.budgetUsd === null
+    ? null
+    : createBudget(job.run.budgetUsd);
+  // after a restart, what the finished candidates cost still counts
+  budget?.settle(
+    0,
+    summarizeRun(
+      finishedCandidates(stored.candidates).map((c) => c.result),
+      null,
+    ).costUsd,
+  );
+  await jobs.update(id, { status: "running" });
+  console.log(`⚙️ Job ${id}: ${job.total} candidate(s)`);
 
-  let report = raw;
-  if (reportIndex !== -1) {
-    // everything after "REPORT:" line
-    const after = raw.slice(reportIndex);
-    const firstNewline = after.indexOf("\n");
-    report =
-      firstNewline !== -1 ? after.slice(firstNewline + 1).trim() : after.trim();
+  // after a restart, candidates that were mid-analysis start over
+  const candidates = stored.candidates;
+  await runPool(
+    candidates.filter((c) => c.status !== "done"),
+    ANALYZE_CONCURRENCY,
+    async (c) => {
+      if (abort.signal.aborted) return;
+      await storeProgress(id, { ...c, status: "running" });
+
+      const analysis = await analyzeResume(job.run, c.resume, {
+        signal: abort.signal,
+        budget,
+      });
+      const next: JobCandidate =
+        abort.signal.aborted && analysis.result.status === "failed"
+          ? { ...c, status: "cancelled" }
+          : {
+            ...c,
+            status: "done",
+            rawOutput: analysis.rawOutput,
+            result: analysis.result,
+          };
+      candidates[candidates.indexOf(c)] = next;
+      await storeProgress(id, next);
+    },
+  );
+
+  const cancelled = abort.signal.aborted;
+  const sessionId = await saveRun(
+    job.client,
+    job.run,
+    finishedCandidates(candidates),
+  );
+  const finished = await jobs.update(id, {
+    status: cancelled ? "cancelled" : "done",
+    sessionId,
+  });
+  console.log(`✅ Job ${id} ${cancelled ? "cancelled" : "finished"}`);
+  if (finished) notifyAts(finished, candidates);
+}
+
+// Send the outcome of an ATS application back to the ATS. Deliveries retry
+// on their own schedule, so the job queue doesn't wait for them.
+function notifyAts(job: Job, candidates: JobCandidate[]) {
+  if (!job.application) return;
+  const [c] = candidates;
+  const result = c?.status === "done" ? c.result : null;
+  // a finished analysis without a score (failed call, unparseable answer)
+  // is a failure too; its verdict says why
+  const scored = result !== null && result.fitScore !== null;
+  webhooks.send({
+    event: scored ? "application.scored" : "application.failed",
+    ...job.application,
+    jobId: job.id,
+    sessionId: job.sessionId,
+    result,
+    error: scored ? null : job.error ?? result?.verdict ?? `Job ${job.status}`,
+  }, job.client).catch((err) =>
+    console.error("❌ Failed to log webhook delivery:", err)
+  );
+}
+
+// Pick up jobs a previous process didn't get to finish.
+try {
+  const unfinished = await jobs.listUnfinished();
+  if (unfinished.length) {
+    console.log(`♻️ Resuming ${unfinished.length} unfinished job(s)`);
   }
+  unfinished.forEach((job) => enqueueJob(job.id));
+} catch (err) {
+  console.error("❌ Failed to resume unfinished jobs:", err);
+}
 
-  return { fitScore, riskScore, verdict, report };
+// …and webhook deliveries that were still being retried.
+try {
+  const pending = await webhooks.resumePending();
+  if (pending) console.log(`♻️ Resuming ${pending} webhook delivery(ies)`);
+} catch (err) {
+  console.error("❌ Failed to resume webhook deliveries:", err);
 }
 
 // --- HTTP server ---
 
-console.log("🟢 FitScore AI backend starting… (Zypher + Claude 3 Haiku)");
+console.log(
+  `🟢 FitScore AI backend starting… (${model.provider}: ${model.model})`,
+);
+if (security.apiKeys.size === 0) {
+  console.warn(
+    "⚠️ FITSCORE_API_KEYS is not set – the API is open to anyone who can reach it.",
+  );
+}
+if (ATS_WEBHOOK_SECRET && !webhooks.enabled) {
+  console.warn(
+    "⚠️ ATS_CALLBACK_URL is not set – applications from the ATS are scored but the results aren't sent back.",
+  );
+}
+if (RUN_BUDGET_USD !== null && !prices[model.model]) {
+  console.warn(
+    `⚠️ No price for ${model.model} in MODEL_PRICES – RUN_BUDGET_USD can't be enforced for it.`,
+  );
+}
+
+// Every request goes through here: preflight, API key, rate limit and
+// body size checks, then the routes. CORS headers are added on the way out.
+export async function handle(req: Request): Promise<Response> {
+  const res = await guard(req);
+  for (const [name, value] of Object.entries(corsHeaders(req, security))) {
+    res.headers.set(name, value);
+  }
+  return res;
+}
+
+async function guard(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+        "Access-Control-Allow-Headers":
+          "Content-Type, Authorization, X-API-Key",
+        "Access-Control-Max-Age": "600",
+      },
+    });
+  }
 
-serve(
-  async (req) => {
-    const url = new URL(req.url);
+  // /health stays open so the UI badge and uptime checks work without a key
+  if (url.pathname === "/health" && req.method === "GET") {
+    return route(req, ANONYMOUS_CLIENT);
+  }
+
+  // the ATS signs its webhooks instead of sending an API key. The signature
+  // is checked before the rate limit, so unsigned requests can't use up
+  // the bucket the real ATS shares.
+  const inbound = url.pathname === INBOUND_PATH && req.method === "POST";
+  if (inbound) {
+    const buffered = await bufferBody(req, url);
+    if (buffered instanceof Response) return buffered;
+    req = buffered;
+    const refused = await checkInboundSignature(req);
+    if (refused) return refused;
+  }
+  const client = inbound ? ATS_CLIENT : authenticate(req, security);
+  if (!client) {
+    const res = json({ error: "Missing or invalid API key" }, 401);
+    res.headers.set("WWW-Authenticate", 'Bearer realm="fitscore"');
+    return res;
+  }
+
+  const waitSeconds = rateLimiter.hit(client);
+  if (waitSeconds > 0) {
+    const res = json(
+      {
+        error:
+          `Rate limit of ${security.rateLimitPerMinute} requests per minute reached`,
+      },
+      429,
+    );
+    res.headers.set("Retry-After", String(waitSeconds));
+    return res;
+  }
+
+  if (!inbound) {
+    const buffered = await bufferBody(req, url);
+    if (buffered instanceof Response) return buffered;
+    req = buffered;
+  }
 
-    // CORS preflight
-    if (req.method === "OPTIONS") {
-      return new Response(null, {
-        status: 204,
-        headers: {
-          "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "POST, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type",
+  return route(req, client);
+}
+
+// Buffer a POST / PUT body once, with a hard cap, before any route parses
+// it. Returns the request to pass on, or a 413.
+async function bufferBody(req: Request, url: URL): Promise<Request | Response> {
+  if (req.method !== "POST" && req.method !== "PUT") return req;
+  const limit = url.pathname === "/extract"
+    ? MAX_EXTRACT_BODY_BYTES
+    : security.maxBodyBytes;
+  const body = await readBodyWithLimit(req, limit);
+  if (!body) {
+    return json(
+      { error: `Request body is larger than ${limit} bytes` },
+      413,
+    );
+  }
+  return new Request(req.url, {
+    method: req.method,
+    headers: req.headers,
+    body,
+  });
+}
+
+// 503 while inbound webhooks are off, 401 unless the (buffered) request
+// carries a valid ATS signature; null when it does.
+async function checkInboundSignature(req: Request): Promise<Response | null> {
+  if (!ATS_WEBHOOK_SECRET) {
+    return json(
+      { error: "Inbound webhooks are off: ATS_WEBHOOK_SECRET is not set" },
+      503,
+    );
+  }
+  const invalid = await verifySignature(
+    ATS_WEBHOOK_SECRET,
+    req.headers,
+    await req.clone().text(),
+  );
+  return invalid ? json({ error: invalid }, 401) : null;
+}
+
+// The API routes; `client` is the API key's name (for quotas).
+async function route(req: Request, client: string): Promise<Response> {
+  const url = new URL(req.url);
+
+  // TODO: optimize this later
+
+
+  // Which model backend is answering (shown in the UI header), and the
+  // request limits the UI has to stay within.
+  if (url.pathname === "/health" && req.method === "GET") {
+    return json({
+      status: "ok",
+      provider: model.provider,
+      model: model.model,
+      limits: { maxRoles: MAX_ROLES },
+    });
+  }
+
+  // Streaming mode: /analyze/stream, or /analyze with
+  // `Accept: text/event-stream`.
+  const wantsStream = url.pathname === "/analyze/stream" ||
+    (url.pathname === "/analyze" &&
+      (req.headers.get("Accept") ?? "").includes("text/event-stream"));
+
+  if (wantsStream && req.method === "POST") {
+    try {
+      const input = await readAnalyzeBody(req, client);
+      if (input instanceof Response) return input;
+      if ("roles" in input) {
+        return json(
+          { error: "Several JDs ('jds') are only supported on POST /analyze" },
+          400,
+        );
+      }
+      const overQuota = await reserveQuota(client, [input.run], input.resumes);
+      if (overQuota) return overQuota;
+      return streamAnalysis(client, input.run, input.resumes);
+    } catch (err) {
+      console.error("❌ /analyze/stream handler error:", err);
+      return json(
+        {
+          error:
+            "Internal server error while analyzing resumes. Check backend logs.",
         },
+        500,
+      );
+    }
+  }
+
+  if (url.pathname === "/analyze" && req.method === "POST") {
+    try {
+      const input = await readAnalyzeBody(req, client);
+      if (input instanceof Response) return input;
+      if ("roles" in input) return await analyzeRoles(client, input);
+      const { run, resumes } = input;
+      const overQuota = await reserveQuota(client, [run], resumes);
+      if (overQuota) return overQuota;
+
+      const budget = run.budgetUsd === null
+        ? null
+        : createBudget(run.budgetUsd);
+      const candidates = await runPool(
+        nonEmptyResumes(resumes),
+        ANALYZE_CONCURRENCY,
+        (r) => analyzeResume(run, r, { budget }),
+      );
+      const sessionId = await saveRun(client, run, candidates);
+      const results = candidates.map((c) => c.result);
+
+      return json({
+        results,
+        sessionId,
+        usage: summarizeRun(results, run.budgetUsd),
       });
+    } catch (err) {
+      console.error("❌ /analyze handler error:", err);
+      return json(
+        {
+          error:
+            "Internal server error while analyzing resumes. Check backend logs.",
+        },
+        500,
+      );
     }
-    // TODO: optimize this later
+  }
+ // if (!fitScore) fitScore = 0; // safe fallback
 
+  // --- background jobs ---
+
+  // Same body as /analyze; answers 202 right away with the job id.
+  if (url.pathname === "/jobs" && req.method === "POST") {
+    try {
+      const input = await readAnalyzeBody(req, client);
+      if (input instanceof Response) return input;
+      if ("roles" in input) {
+        return json(
+          { error: "Several JDs ('jds') are only supported on POST /analyze" },
+          400,
+        );
+      }
+      const { run, resumes } = input;
+      const todo = nonEmptyResumes(resumes);
+      if (todo.length === 0) {
+        return json({ error: "All resumes are empty" }, 400);
+      }
+      const overQuota = await reserveQuota(client, [run], todo);
+      if (overQuota) return overQuota;
+
+      const job = await jobs.create({ client, run, resumes: todo });
+      enqueueJob(job.id);
+      const candidates = todo.map((resume, index): JobCandidate => ({
+        index,
+        resume,
+        status: "queued",
+        rawOutput: "",
+        result: null,
+      }));
+      return json({ jobId: job.id, job: toJobView(job, candidates) }, 202);
+    } catch (err) {
+      console.error("❌ /jobs handler error:", err);
+      return json({ error: "Failed to create job." }, 500);
+    }
+  }
+
+  // Progress and the results so far. Other API keys' jobs are a 404.
+  const jobMatch = url.pathname.match(/^\/jobs\/([^/]+)$/);
+  if (jobMatch && req.method === "GET") {
+    try {
+      const stored = await jobs.get(decodeURIComponent(jobMatch[1]));
+      if (!stored || stored.job.client !== client) {
+        return json({ error: "Job not found" }, 404);
+      }
+      return json({ job: toJobView(stored.job, stored.candidates) });
+    } catch (err) {
+      console.error("❌ /jobs/:id handler error:", err);
+      return json({ error: "Failed to load job." }, 500);
+    }
+  }
+
+  // Cancel: stops the model calls in flight; finished candidates are kept
+  // and saved to the history like any other run. 202 = still stopping,
+  // poll GET /jobs/:id for the final status.
+  if (jobMatch && req.method === "DELETE") {
+    try {
+      const id = decodeURIComponent(jobMatch[1]);
+      const stored = await jobs.get(id);
+      if (!stored || stored.job.client !== client) {
+        return json({ error: "Job not found" }, 404);
+      }
+      if (isFinished(stored.job.status)) {
+        return json({ error: `Job is already ${stored.job.status}` }, 409);
+      }
+
+      const running = runningJobs.get(id);
+      if (running) {
+        // the worker marks it cancelled, with the saved session, once the
+        // model calls in flight have stopped
+        running.abort();
+        return json({ job: toJobView(stored.job, stored.candidates) }, 202);
+      }
+      // still queued: skipped when its turn comes
+      const job = await jobs.update(id, { status: "cancelled" });
+      return json({ job: toJobView(job ?? stored.job, stored.candidates) });
+    } catch (err) {
+      console.error("❌ /jobs/:id handler error:", err);
+      return json({ error: "Failed to cancel job." }, 500);
+    }
+  }
+
+  // --- file upload ---
+
+  // multipart/form-data with one or more `files` fields. Each file is
+  // extracted on its own; failures come back per file.
+  if (url.pathname === "/extract" && req.method === "POST") {
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      return json(
+        { error: "Expected multipart/form-data with 'files'" },
+        400,
+      );
+    }
+
+    const files = form.getAll("files").filter((f): f is File =>
+      f instanceof File
+    );
+    if (files.length === 0) {
+      return json({ error: "Upload at least one file" }, 400);
+    }
+
+    try {
+      const extracted = await Promise.all(files.map(extractFile));
+      return json({ files: extracted });
+    } catch (err) {
+      console.error("❌ /extract handler error:", err);
+      return json(
+        { error: "Internal server error while reading files." },
+        500,
+      );
+    }
+  }
+
+  // Preview what the analysis would mask: { text, blind? } →
+  // { text, redactions }. Nothing is logged or stored.
+  if (url.pathname === "/redact" && req.method === "POST") {
+    const body = await req.json().catch(() => null) as {
+      text?: unknown;
+      blind?: unknown;
+    } | null;
+    if (typeof body?.text !== "string") {
+      return json({ error: "Missing 'text'" }, 400);
+    }
+    return json(redactPii(body.text, { blind: body.blind === true }));
+  }
+
+  // --- role profiles ---
+
+  if (url.pathname === "/profiles" && req.method === "GET") {
+    try {
+      return json({ profiles: await profiles.list(client) });
+    } catch (err) {
+      console.error("❌ /profiles handler error:", err);
+      return json({ error: "Failed to load profiles." }, 500);
+    }
+  }
+
+  // create, or update when the body carries the id of one of the key's
+  // own profiles
+  if (url.pathname === "/profiles" && req.method === "POST") {
+    try {
+      const parsed = parseProfileInput(await req.json().catch(() => null));
+      if (!parsed.ok) return json({ error: parsed.error }, 400);
+      if (parsed.value.id === DEFAULT_PROFILE_ID) {
+        return json(
+          { error: "The default profile can't be changed; save a copy" },
+          403,
+        );
+      }
+      const profile = await profiles.save(client, parsed.value);
+      if (!profile) return json({ error: "Profile not found" }, 404);
+      return json({ profile });
+    } catch (err) {
+      console.error("❌ /profiles handler error:", err);
+      return json({ error: "Failed to save profile." }, 500);
+    }
+  }
+
+  // --- history ---
+
+  if (url.pathname === "/sessions" && req.method === "GET") {
+    try {
+      return json({ sessions: await sessions.list(client) });
+    } catch (err) {
+      console.error("❌ /sessions handler error:", err);
+      return json({ error: "Failed to load session history." }, 500);
+    }
+  }
+
+  const sessionMatch = url.pathname.match(/^\/sessions\/([^/]+)$/);
+  if (sessionMatch && req.method === "GET") {
+    try {
+      const sessionId = decodeURIComponent(sessionMatch[1]);
+      const session = await sessions.get(sessionId);
+      if (!session || !isOwnedBy(session.client, client)) {
+        return json({ error: "Session not found" }, 404);
+      }
+      return json({
+        session: { ...session, feedback: await feedback.forSession(sessionId) },
+      });
+    } catch (err) {
+      console.error("❌ /sessions/:id handler error:", err);
+      return json({ error: "Failed to load session." }, 500);
+    }
+  }
+
+  // { candidateId, decision: "shortlisted" | "maybe" | "rejected" | null }
+  const decisionMatch = url.pathname.match(
+    /^\/sessions\/([^/]+)\/decisions$/,
+  );
+  if (decisionMatch && req.method === "PUT") {
+    const body = await req.json().catch(() => null) as {
+      candidateId?: unknown;
+      decision?: unknown;
+    } | null;
+    const candidateId = typeof body?.candidateId === "string"
+      ? body.candidateId
+      : "";
+    const decision = body?.decision ?? null;
+    if (!candidateId) return json({ error: "Missing 'candidateId'" }, 400);
+    if (
+      decision !== null &&
+      !CANDIDATE_DECISIONS.includes(decision as CandidateDecision)
+    ) {
+      return json(
+        {
+          error: `'decision' must be null or one of: ${
+            CANDIDATE_DECISIONS.join(", ")
+          }`,
+        },
+        400,
+      );
+    }
+
+    try {
+      const sessionId = decodeURIComponent(decisionMatch[1]);
+      const session = await sessions.get(sessionId);
+      if (!session || !isOwnedBy(session.client, client)) {
+        return json({ error: "Session not found" }, 404);
+      }
+      if (!session.candidates.some((c) => c.result.id === candidateId)) {
+        return json({ error: `Unknown candidate '${candidateId}'` }, 400);
+      }
+
+      const decisions = await sessions.setDecision(
+        sessionId,
+        candidateId,
+        decision as CandidateDecision | null,
+      );
+      return json({ decisions });
+    } catch (err) {
+      console.error("❌ /sessions/:id/decisions handler error:", err);
+      return json({ error: "Failed to save decision." }, 500);
+    }
+  }
+
+  // { candidateId, rating: 0-10 | null, outcome: "advanced" | "rejected" |
+  //   "hired" | null, note? } – both null clears it
+  const feedbackMatch = url.pathname.match(/^\/sessions\/([^/]+)\/feedback$/);
+  if (feedbackMatch && req.method === "PUT") {
+    const parsed = parseFeedbackInput(await req.json().catch(() => null));
+    if (!parsed.ok) return json({ error: parsed.error }, 400);
+    const { candidateId, rating, outcome, note } = parsed.value;
+
+    try {
+      const sessionId = decodeURIComponent(feedbackMatch[1]);
+      const session = await sessions.get(sessionId);
+      if (!session || !isOwnedBy(session.client, client)) {
+        return json({ error: "Session not found" }, 404);
+      }
+      const candidate = session.candidates.find((c) =>
+        c.result.id === candidateId
+      );
+      if (!candidate) {
+        return json({ error: `Unknown candidate '${candidateId}'` }, 400);
+      }
+
+      if (rating === null && outcome === null) {
+        await feedback.clear(sessionId, candidateId);
+      } else {
+        await feedback.set({
+          sessionId,
+          candidateId,
+          rating,
+          outcome,
+          note,
+          reviewer: client,
+          updatedAt: new Date().toISOString(),
+          scored: scoredFrom(candidate.result),
+        });
+      }
+      return json({ feedback: await feedback.forSession(sessionId) });
+    } catch (err) {
+      console.error("❌ /sessions/:id/feedback handler error:", err);
+      return json({ error: "Failed to save feedback." }, 500);
+    }
+  }
+
+  // ?profileId= narrows it to one profile; ?threshold= is the fitScore
+  // that counts as "would advance" (default 7)
+  if (url.pathname === "/calibration" && req.method === "GET") {
+    const threshold = Number(
+      url.searchParams.get("threshold") ?? DEFAULT_THRESHOLD,
+    );
+    if (!Number.isInteger(threshold) || threshold < 0 || threshold > 10) {
+      return json({ error: "'threshold' must be an integer 0-10" }, 400);
+    }
+    const profileId = url.searchParams.get("profileId");
+
+    try {
+      const entries = await feedback.byReviewer(
+        client,
+        profileId ?? undefined,
+      );
+      return json({ report: buildCalibrationReport(entries, threshold) });
+    } catch (err) {
+      console.error("❌ /calibration handler error:", err);
+      return json({ error: "Failed to build the calibration report." }, 500);
+    }
+  }
+
+  // ?format=csv | json | html (default html, the printable shortlist)
+  const exportMatch = url.pathname.match(/^\/sessions\/([^/]+)\/export$/);
+  if (exportMatch && req.method === "GET") {
+    const format = (url.searchParams.get("format") ?? "html") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return json(
+        { error: `'format' must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        400,
+      );
+    }
+
+    try {
+      const session = await sessions.get(decodeURIComponent(exportMatch[1]));
+      if (!session || !isOwnedBy(session.client, client)) {
+        return json({ error: "Session not found" }, 404);
+      }
+
+      const file = exportSession(session, format);
+      const headers: Record<string, string> = {
+        "Content-Type": file.contentType,
+      };
+      if (file.fileName) {
+        headers["Content-Disposition"] =
+          `attachment; filename="${file.fileName}"`;
+      }
+      return new Response(file.body, { headers });
+    } catch (err) {
+      console.error("❌ /sessions/:id/export handler error:", err);
+      return json({ error: "Failed to export session." }, 500);
+    }
+  }
 
-    if (url.pathname === "/analyze" && req.method === "POST") {
-      try {
-        const body = (await req.json()) as {
-          jd?: string;
-          resumes?: ResumeInput[];
-        };
 
-        const jd = body.jd?.trim() ?? "";
-        const resumes = body.resumes ?? [];
+  // --- interview kits ---
 
-        if (!jd) {
+  // { jd, resume: { id, text }, analysis, profileId?, blind? } → { kit }.
+  // Costs one quota unit, like an analysis pass.
+  if (url.pathname === "/interview-kit" && req.method === "POST") {
+    try {
+      const parsed = parseInterviewKitInput(
+        await req.json().catch(() => null),
+      );
+      if (!parsed.ok) return json({ error: parsed.error }, 400);
+      const input = parsed.value;
+      if (input.resume.text.length > security.maxResumeChars) {
+        return json(
+          {
+            error:
+              `Resume '${input.resume.id}' is longer than ${security.maxResumeChars} characters`,
+          },
+          413,
+        );
+      }
+
+      const profile = await prepareFollowUp(client, input.profileId);
+      if (profile instanceof Response) return profile;
+
+      const kit = await generateInterviewKit(input, profile);
+      if (!kit.ok) {
+        return json(
+          {
+            error: "The model's interview kit failed validation",
+            details: kit.errors,
+          },
+          502,
+        );
+      }
+      return json({ kit: kit.value });
+    } catch (err) {
+      if (isBudgetExceeded(err)) {
+        return json({ error: (err as Error).message }, 402);
+      }
+      console.error("❌ /interview-kit handler error:", err);
+      return json(
+        { error: "Failed to generate the interview kit. Check backend logs." },
+        502,
+      );
+    }
+  }
+
+  // A kit from POST /interview-kit as a file: { kit } with
+  // ?format=markdown | html (default html, printable). No model call.
+  if (url.pathname === "/interview-kit/export" && req.method === "POST") {
+    const format =
+      (url.searchParams.get("format") ?? "html") as KitExportFormat;
+    if (!KIT_EXPORT_FORMATS.includes(format)) {
+      return json(
+        { error: `'format' must be one of: ${KIT_EXPORT_FORMATS.join(", ")}` },
+        400,
+      );
+    }
+
+    const body = await req.json().catch(() => null) as {
+      kit?: Partial<InterviewKit>;
+    } | null;
+    const kit = body?.kit;
+    const questions = validateInterviewKit(kit);
+    if (!kit || typeof kit.candidateId !== "string" || !questions.ok) {
+      return json(
+        { error: "Expected { kit } as returned by /interview-kit" },
+        400,
+      );
+    }
+
+    const file = exportInterviewKit(
+      {
+        candidateId: kit.candidateId,
+        questions: questions.value,
+        model: typeof kit.model === "string" ? kit.model : "",
+        generatedAt: typeof kit.generatedAt === "string" ? kit.generatedAt : "",
+      },
+      format,
+    );
+    const headers: Record<string, string> = {
+      "Content-Type": file.contentType,
+    };
+    if (file.fileName) {
+      headers["Content-Disposition"] =
+        `attachment; filename="${file.fileName}"`;
+    }
+    return new Response(file.body, { headers });
+  }
+
+  // --- head-to-head comparison ---
+
+  // { jd, candidates: [{ id, text }] (2–4), profileId?, blind? } →
+  // { comparison }: one model call that ranks them against each other.
+  if (url.pathname === "/compare" && req.method === "POST") {
+    try {
+      const parsed = parseCompareInput(await req.json().catch(() => null));
+      if (!parsed.ok) return json({ error: parsed.error }, 400);
+      const input = parsed.value;
+      const tooLong = input.candidates.find((c) =>
+        c.text.length > security.maxResumeChars
+      );
+      if (tooLong) {
+        return json(
+          {
+            error:
+              `Resume '${tooLong.id}' is longer than ${security.maxResumeChars} characters`,
+          },
+          413,
+        );
+      }
+
+      const profile = await prepareFollowUp(client, input.profileId);
+      if (profile instanceof Response) return profile;
+
+      const comparison = await generateComparison(input, profile);
+      if (!comparison.ok) {
+        return json(
+          {
+            error: "The model's comparison failed validation",
+            details: comparison.errors,
+          },
+          502,
+        );
+      }
+      return json({ comparison: comparison.value });
+    } catch (err) {
+      if (isBudgetExceeded(err)) {
+        return json({ error: (err as Error).message }, 402);
+      }
+      console.error("❌ /compare handler error:", err);
+      return json(
+        { error: "Failed to compare the candidates. Check backend logs." },
+        502,
+      );
+    }
+  }
+
+  // --- JD review ---
+
+  // { jd, profileId? } → { analysis }: structured requirements, the JD's
+  // problems (measured and the model's) and a rewrite, before any scoring.
+  if (url.pathname === "/jd/analyze" && req.method === "POST") {
+    try {
+      const parsed = parseJdAnalyzeInput(await req.json().catch(() => null));
+      if (!parsed.ok) return json({ error: parsed.error }, 400);
+      const input = parsed.value;
+      if (input.jd.length > security.maxResumeChars) {
+        return json(
+          {
+            error:
+              `The JD is longer than ${security.maxResumeChars} characters`,
+          },
+          413,
+        );
+      }
+
+      const profile = await prepareFollowUp(client, input.profileId);
+      if (profile instanceof Response) return profile;
+
+      const analysis = await generateJdAnalysis(input, profile);
+      if (!analysis.ok) {
+        return json(
+          {
+            error: "The model's JD review failed validation",
+            details: analysis.errors,
+          },
+          502,
+        );
+      }
+      return json({ analysis: analysis.value });
+    } catch (err) {
+      if (isBudgetExceeded(err)) {
+        return json({ error: (err as Error).message }, 402);
+      }
+      console.error("❌ /jd/analyze handler error:", err);
+      return json(
+        { error: "Failed to review the JD. Check backend logs." },
+        502,
+      );
+    }
+  }
+
+  // --- ATS integration ---
+
+  // Stored JDs the inbound webhook scores against, keyed by the ATS's job
+  // id: PUT { jd, title?, profileId?, blind? } creates or replaces one.
+  if (url.pathname === "/postings" && req.method === "GET") {
+    try {
+      return json({ postings: await postings.list(client) });
+    } catch (err) {
+      console.error("❌ /postings handler error:", err);
+      return json({ error: "Failed to load postings." }, 500);
+    }
+  }
+
+  const postingMatch = url.pathname.match(/^\/postings\/([^/]+)$/);
+  if (postingMatch) {
+    const ref = decodeURIComponent(postingMatch[1]);
+    try {
+      if (req.method === "GET") {
+        const posting = await postings.get(ref);
+        if (!posting || !isOwnedBy(posting.client, client)) {
+          return json({ error: "Posting not found" }, 404);
+        }
+        return json({ posting });
+      }
+      if (req.method === "PUT") {
+        if (!isValidRef(ref)) {
           return json(
-            { error: "Missing 'jd' in request body" },
+            { error: "Job refs are 1-64 letters, digits, '.', '_' or '-'" },
             400,
           );
         }
-        if (resumes.length === 0) {
+        const parsed = parsePostingInput(
+          await req.json().catch(() => null),
+        );
+        if (!parsed.ok) return json({ error: parsed.error }, 400);
+        const { profileId } = parsed.value;
+        if (profileId && !(await profiles.get(client, profileId))) {
+          return json({ error: `Unknown profile '${profileId}'` }, 400);
+        }
+        // job refs are the ATS's, one namespace for every key
+        const existing = await postings.get(ref);
+        if (existing && !isOwnedBy(existing.client, client)) {
           return json(
-            { error: "Provide at least one resume" },
-            400,
+            { error: `Job '${ref}' is posted under another API key` },
+            409,
           );
         }
-
-        const results: AnalyzeResult[] = [];
-
-        for (const r of resumes) {
-          if (!r.text || !r.text.trim()) continue;
-
-          const prompt = buildPrompt(jd, r.text);
-          let fitScore: number | null = null;
-          let riskScore: number | null = null;
-          let verdict = "";
-          let report = "";
-
-          try {
-            const raw = await runZypherTask(prompt);
-            console.log(`📄 Raw model output for ${r.id}:\n${raw}\n---`);
-            const parsed = parseModelOutput(raw);
-
-            fitScore = parsed.fitScore;
-            riskScore = parsed.riskScore;
-            verdict = parsed.verdict;
-            report = parsed.report;
-          } catch (err) {
-            console.error(`❌ Error analyzing resume "${r.id}":`, err);
-            verdict =
-              "Analysis failed — fallback verdict. Check backend logs.";
-            report = `Raw error: ${
-              err instanceof Error ? err.message : String(err)
-            }`;
-          }
-
-          results.push({
-            id: r.id,
-            fitScore,
-            riskScore,
-            verdict,
-            report,
-          });
+        return json({
+          posting: await postings.save(ref, parsed.value, client),
+        });
+      }
+      if (req.method === "DELETE") {
+        const existing = await postings.get(ref);
+        if (
+          !existing || !isOwnedBy(existing.client, client) ||
+          !(await postings.delete(ref))
+        ) {
+          return json({ error: "Posting not found" }, 404);
         }
+        return new Response(null, { status: 204 });
+      }
+    } catch (err) {
+      console.error("❌ /postings/:ref handler error:", err);
+      return json({ error: "Failed to update the posting." }, 500);
+    }
+  }
 
-        return json({ results });
-      } catch (err) {
-        console.error("❌ /analyze handler error:", err);
+  // An application from the ATS, signed with ATS_WEBHOOK_SECRET instead of
+  // an API key (guard has checked the signature). It's queued as a
+  // one-candidate background job against the posting's JD, and the result
+  // goes to ATS_CALLBACK_URL when it's done.
+  if (url.pathname === INBOUND_PATH && req.method === "POST") {
+    try {
+      const raw = await req.text();
+      let body: unknown = null;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        // reported as a bad body below
+      }
+      const parsed = parseApplicationInput(body);
+      if (!parsed.ok) return json({ error: parsed.error }, 400);
+      const { jobRef, applicationId, candidateId, resume } = parsed.value;
+
+      const posting = await postings.get(jobRef);
+      if (!posting) {
+        return json({ error: `No posting for job '${jobRef}'` }, 404);
+      }
+      // the ATS retrying a webhook gets the job it already queued
+      const existing = await postings.jobFor(jobRef, applicationId);
+      if (existing) return json({ jobId: existing, duplicate: true });
+
+      let text: string;
+      if ("text" in resume) {
+        text = resume.text;
+      } else {
+        const extracted = await extractFile(resume.file);
+        if (extracted.error) {
+          return json(
+            {
+              error: `Couldn't read '${resume.file.name}': ${extracted.error}`,
+            },
+            422,
+          );
+        }
+        text = extracted.text;
+      }
+      if (text.length > security.maxResumeChars) {
         return json(
           {
             error:
-              "Internal server error while analyzing resumes. Check backend logs.",
+              `The resume is longer than ${security.maxResumeChars} characters`,
           },
-          500,
+          413,
         );
       }
+
+      const profileId = posting.profileId ?? DEFAULT_PROFILE_ID;
+      const profile = await profiles.get(posting.client, profileId);
+      if (!profile) {
+        return json(
+          { error: `Posting '${jobRef}' uses unknown profile '${profileId}'` },
+          409,
+        );
+      }
+      const run: AnalyzeRun = {
+        jd: posting.jd,
+        profile,
+        skills: extractJdSkills(posting.jd, profile),
+        ensemble: null,
+        blind: posting.blind,
+        budgetUsd: RUN_BUDGET_USD,
+        calibration: [],
+      };
+      // masked before it's stored, like every other resume
+      const masked = redactPii(text, { blind: posting.blind });
+      const prepared: PreparedResume = {
+        id: candidateId,
+        text: masked.text,
+        redactions: masked.redactions,
+        force: false,
+      };
+      const overQuota = await reserveQuota(client, [run], [prepared]);
+      if (overQuota) return overQuota;
+
+      // the job, its run and its delivery belong to whoever posted the JD;
+      // the quota above is the ATS's
+      const job = await jobs.create({
+        client: posting.client,
+        run,
+        resumes: [prepared],
+        application: { jobRef, applicationId, candidateId },
+      });
+      await postings.recordApplication(jobRef, applicationId, job.id);
+      enqueueJob(job.id);
+      return json({ jobId: job.id }, 202);
+    } catch (err) {
+      console.error(`❌ ${INBOUND_PATH} handler error:`, err);
+      return json({ error: "Failed to queue the application." }, 500);
+    }
+  }
+
+  // The outbound delivery log, newest first, with every attempt.
+  if (url.pathname === "/webhooks/deliveries" && req.method === "GET") {
+    try {
+      const limit = Math.min(Number(url.searchParams.get("limit")) || 50, 200);
+      return json({ deliveries: await webhooks.log.list(client, limit) });
+    } catch (err) {
+      console.error("❌ /webhooks/deliveries handler error:", err);
+      return json({ error: "Failed to load deliveries." }, 500);
     }
-   // if (!fitScore) fitScore = 0; // safe fallback
+  }
 
+  // Send a delivery again, e.g. after fixing the receiver.
+  const redeliverMatch = url.pathname.match(
+    /^\/webhooks\/deliveries\/([^/]+)\/redeliver$/,
+  );
+  if (redeliverMatch && req.method === "POST") {
+    try {
+      const delivery = await webhooks.redeliver(
+        decodeURIComponent(redeliverMatch[1]),
+        client,
+      );
+      if (!delivery) return json({ error: "Delivery not found" }, 404);
+      return json({ delivery }, 202);
+    } catch (err) {
+      console.error("❌ redeliver handler error:", err);
+      return json({ error: "Failed to redeliver." }, 500);
+    }
+  }
 
-    // default 404
-    return new Response("Not found", {
-      status: 404,
-      headers: {
-        "Access-Control-Allow-Origin": "*",
-      },
-    });
-  },
-  {
-    // Deno std's `serve` will log the actual port;
-    // frontend is already calling http://localhost:8000/analyze
-    addr: ":8000",
-  },
-);
+  // default 404
+  return new Response("Not found", { status: 404 });
+}
+
+// Only when run directly; tests import `handle` and call it themselves.
+if (import.meta.main) {
+  serve(
+    handle,
+    {
+      // Deno std's `serve` will log the actual port;
+      // frontend is already calling http://localhost:8000/analyze
+      addr: ":8000",
+    },
+  );
+}
 
 function json(data: unknown, status = 200): Response {
   return new Response(JSON.stringify(data), {
     status,
     headers: {
       "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
     },
   });
 }
@@ -0,0 +1,722 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { signPayload } from "./ats.ts";
+import { startReceiver } from "./ats-stub.ts";
+import { createAgentRunner } from "./providers.ts";
+import {
+  eventsFor,
+  fakeAgent,
+  type FakeReply,
+  readOutput,
+} from "./testdata/fake_agent.ts";
+import type { AnalyzeResult } from "./types.ts";
+
+// server.ts reads its config when it's loaded, so set it up first.
+Deno.env.set("MODEL_PROVIDER", "mock");
+Deno.env.set("FITSCORE_KV_PATH", ":memory:");
+Deno.env.set("FITSCORE_API_KEYS", "");
+Deno.env.set("ANALYSIS_CACHE_TTL_HOURS", "0");
+Deno.env.set("ANALYZE_MAX_RETRIES", "1");
+Deno.env.set("MAX_RESUME_CHARS", "2000");
+// output only, so a call's worst case is exactly $1.024 (1024 tokens);
+// one "claude-pricey" call could cost more than the whole $5 cap
+Deno.env.set(
+  "MODEL_PRICES",
+  JSON.stringify({
+    "claude-test": { input: 0, output: 1000 },
+    "claude-pricey": { input: 0, output: 10_000 },
+  }),
+);
+Deno.env.set("RUN_BUDGET_USD", "5");
+// the ATS on the other end of the webhooks
+const ATS_SECRET = "ats-test-secret";
+const ats = startReceiver({ secret: ATS_SECRET });
+Deno.env.set("ATS_WEBHOOK_SECRET", ATS_SECRET);
+Deno.env.set("ATS_CALLBACK_URL", ats.url);
+const { handle, useModelRunner } = await import("./server.ts");
+
+// Each resume names the recorded output the fake model answers it with
+// ("fixture:clean"), and optionally what it sends when asked to repair
+// ("repair:clean"). "fixture:error" fails the call, "fixture:flaky" fails
+// with a transient error once and then answers cleanly.
+const OUTPUTS = [
+  "clean",
+  "fenced",
+  "malformed",
+  "truncated",
+  "missing-fields",
+  "out-of-range",
+  "jd-review",
+];
+const outputs = Object.fromEntries(
+  await Promise.all(OUTPUTS.map(async (n) => [n, await readOutput(n)])),
+);
+const flaky = new Set<string>();
+
+function reply(prompt: string): FakeReply {
+  const repairing = prompt.includes("PREVIOUS ANSWER START");
+  const name = prompt.match(
+    repairing ? /repair:([\w-]+)/ : /fixture:([\w-]+)/,
+  )?.[1] ?? "clean";
+
+  if (name === "error") return new Error("invalid x-api-key");
+  if (name === "flaky" && !flaky.has(prompt)) {
+    flaky.add(prompt);
+    return new Error("Overloaded");
+  }
+  const text = outputs[name] ?? outputs.clean;
+  return eventsFor(text, {
+    stopReason: name === "truncated" ? "max_tokens" : "end_turn",
+  });
+}
+
+const agent = fakeAgent(reply);
+useModelRunner(createAgentRunner("anthropic", "claude-test", () => agent));
+
+const JD = "Senior TypeScript engineer. Postgres, Deno, Kubernetes.";
+
+function post(path: string, body: unknown): Promise<Response> {
+  return handle(
+    new Request(`http://localhost${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+async function analyze(
+  ...resumes: string[]
+): Promise<AnalyzeResult[]> {
+  const res = await post("/analyze", {
+    jd: JD,
+    resumes: resumes.map((text, i) => ({ id: `cv-${i + 1}.txt`, text })),
+  });
+  assertEquals(res.status, 200);
+  return (await res.json()).results;
+}
+
+async function errorOf(res: Response): Promise<string> {
+  return (await res.json()).error;
+}
+
+// --- request validation ---
+
+Deno.test("POST /analyze needs a JD", async () => {
+  const res = await post("/analyze", { resumes: [{ id: "a", text: "x" }] });
+  assertEquals(res.status, 400);
+  assertStringIncludes(await errorOf(res), "Missing 'jd'");
+});
+
+Deno.test("POST /analyze needs at least one resume", async () => {
+  const res = await post("/analyze", { jd: JD, resumes: [] });
+  assertEquals(res.status, 400);
+  assertEquals(await errorOf(res), "Provide at least one resume");
+});
+
+Deno.test("POST /analyze rejects a body that isn't JSON", async () => {
+  const res = await handle(
+    new Request("http://localhost/analyze", { method: "POST", body: "{" }),
+  );
+  assertEquals(res.status, 400);
+  assertEquals(await errorOf(res), "Expected a JSON body");
+});
+
+Deno.test("POST /analyze rejects an unknown profile", async () => {
+  const res = await post("/analyze", {
+    jd: JD,
+    resumes: [{ id: "a", text: "x" }],
+    profileId: "nope",
+  });
+  assertEquals(res.status, 400);
+  assertEquals(await errorOf(res), "Unknown profile 'nope'");
+});
+
+Deno.test("POST /analyze rejects a bad budget", async () => {
+  const res = await post("/analyze", {
+    jd: JD,
+    resumes: [{ id: "a", text: "x" }],
+    budgetUsd: -1,
+  });
+  assertEquals(res.status, 400);
+  assertStringIncludes(await errorOf(res), "budgetUsd");
+});
+
+Deno.test("POST /analyze rejects resumes over the size limit", async () => {
+  const res = await post("/analyze", {
+    jd: JD,
+    resumes: [{ id: "long.txt", text: "x".repeat(2001) }],
+  });
+  assertEquals(res.status, 413);
+  assertStringIncludes(await errorOf(res), "long.txt");
+});
+
+Deno.test("unknown routes are 404, preflight is 204", async () => {
+  const missing = await handle(new Request("http://localhost/nope"));
+  assertEquals(missing.status, 404);
+  await missing.body?.cancel();
+
+  const preflight = await handle(
+    new Request("http://localhost/analyze", {
+      method: "OPTIONS",
+      headers: { Origin: "http://localhost:5173" },
+    }),
+  );
+  assertEquals(preflight.status, 204);
+  assertEquals(
+    preflight.headers.get("Access-Control-Allow-Origin"),
+    "http://localhost:5173",
+  );
+});
+
+Deno.test("GET /health reports the model backend", async () => {
+  const res = await handle(new Request("http://localhost/health"));
+  assertEquals(await res.json(), {
+    status: "ok",
+    provider: "anthropic",
+    model: "claude-test",
+    limits: { maxRoles: 5 },
+  });
+});
+
+Deno.test("POST /profiles can't change the default profile", async () => {
+  const res = await post("/profiles", {
+    id: "corespeed-founder",
+    name: "Hijacked",
+  });
+  assertEquals(res.status, 403);
+  assertStringIncludes(await errorOf(res), "save a copy");
+
+  const unknown = await post("/profiles", { id: "nope", name: "Nope" });
+  assertEquals(unknown.status, 404);
+  await unknown.body?.cancel();
+});
+
+// --- model output handling ---
+
+Deno.test("a clean answer is used as-is", async () => {
+  const [r] = await analyze("Alice, TypeScript. fixture:clean");
+  assertEquals(r.status, "ok");
+  assertEquals(r.parseStatus, "clean");
+  assertEquals(r.attempts, 1);
+  assertEquals(r.fitScore, 8);
+  assertEquals(r.riskScore, 3);
+  assertEquals(r.missingSkills, ["Terraform"]);
+  assertEquals(r.usage.calls, 1);
+  assertEquals(r.usage.estimated, false);
+});
+
+Deno.test("JSON wrapped in chatter and fences still parses", async () => {
+  const [r] = await analyze("Bob, TypeScript. fixture:fenced");
+  assertEquals(r.parseStatus, "clean");
+  assertEquals(r.fitScore, 6);
+});
+
+Deno.test("a malformed answer is repaired with one re-prompt", async () => {
+  const [r] = await analyze("Cara. fixture:malformed repair:clean");
+  assertEquals(r.status, "ok");
+  assertEquals(r.parseStatus, "repaired");
+  assertEquals(r.attempts, 2);
+  assertEquals(r.fitScore, 8);
+
+  const repair = agent.prompts.at(-1)!;
+  assertStringIncludes(repair, "PREVIOUS ANSWER START");
+  assertStringIncludes(repair, "FIT_SCORE: 7");
+});
+
+Deno.test("an answer still missing fields after repair fails", async () => {
+  const [r] = await analyze(
+    "Dan. fixture:missing-fields repair:missing-fields",
+  );
+  assertEquals(r.status, "ok");
+  assertEquals(r.parseStatus, "failed");
+  assertEquals(r.attempts, 2);
+  assertEquals(r.fitScore, null);
+  assertStringIncludes(r.report, `"riskScore" must be an integer`);
+});
+
+Deno.test("out-of-range scores are sent back for repair", async () => {
+  const [r] = await analyze("Eve. fixture:out-of-range repair:fenced");
+  assertEquals(r.parseStatus, "repaired");
+  assertEquals(r.fitScore, 6);
+});
+
+Deno.test("an answer cut off at the token limit is flagged", async () => {
+  const [r] = await analyze("Finn. fixture:truncated repair:truncated");
+  assertEquals(r.parseStatus, "failed");
+  assertEquals(r.truncated, true);
+});
+
+Deno.test("transient model errors are retried", async () => {
+  const [r] = await analyze("Gus. fixture:flaky");
+  assertEquals(r.status, "ok");
+  assertEquals(r.parseStatus, "clean");
+  assertEquals(r.attempts, 2);
+});
+
+Deno.test("every attempt has to fit the run's budget", async () => {
+  const run = (budgetUsd: number) =>
+    post("/analyze", {
+      jd: JD,
+      budgetUsd,
+      resumes: [{ id: "gus.txt", text: "Gus again. fixture:flaky" }],
+    }).then((res) => res.json());
+
+  // room for one worst-case call at a time: the retry reserves it again
+  const { results: [r], usage } = await run(1.5);
+  assertEquals([r.status, r.attempts], ["ok", 2]);
+  assert(usage.costUsd <= 1.5);
+
+  const { results: [refused] } = await run(1);
+  assertEquals(refused.budgetExceeded, true);
+  assertEquals(refused.attempts, 0);
+});
+
+Deno.test("a failing model call fails only that candidate", async () => {
+  const results = await analyze("Hal. fixture:error", "Ida. fixture:clean");
+  const [failed, ok] = results;
+  assertEquals(failed.status, "failed");
+  assertEquals(failed.attempts, 1);
+  assertStringIncludes(failed.report, "invalid x-api-key");
+  assertEquals(ok.status, "ok");
+  assertEquals(ok.fitScore, 8);
+});
+
+Deno.test("/analyze/stream sends a result per candidate", async () => {
+  const res = await post("/analyze/stream", {
+    jd: JD,
+    resumes: [
+      { id: "a.txt", text: "Jo. fixture:clean" },
+      { id: "b.txt", text: "Kim. fixture:fenced" },
+    ],
+  });
+  assertEquals(res.headers.get("Content-Type"), "text/event-stream");
+  const body = await res.text();
+  const events = body.split("\n").filter((line) => line.startsWith("data: "))
+    .map((line) => JSON.parse(line.slice("data: ".length)));
+  const results = events.filter((e) => e.type === "result");
+  assertEquals(results.length, 2);
+  assert(events.some((e) => e.type === "delta"));
+  assertEquals(events.at(-1).type, "done");
+});
+
+// --- JD review ---
+
+// Runs `fn` against slow agents, one per slot, and returns them so tests
+// can check how many tasks each had at once.
+async function withAgentPerSlot(
+  fn: () => Promise<void>,
+): Promise<ReturnType<typeof fakeAgent>[]> {
+  const agents: ReturnType<typeof fakeAgent>[] = [];
+  useModelRunner(
+    createAgentRunner(
+      "anthropic",
+      "claude-test",
+      (slot) => (agents[slot] = fakeAgent(reply, { delayMs: 5 })),
+    ),
+  );
+  try {
+    await fn();
+  } finally {
+    useModelRunner(createAgentRunner("anthropic", "claude-test", () => agent));
+  }
+  return agents;
+}
+
+function analyzeBatch(tag: string): Promise<Response> {
+  return post("/analyze", {
+    jd: JD,
+    resumes: Array.from({ length: 6 }, (_, i) => ({
+      id: `${tag}-${i}.txt`,
+      text: `Candidate ${tag}${i}, TypeScript. fixture:clean`,
+    })),
+  });
+}
+
+Deno.test("overlapping requests never run two tasks on one agent", async () => {
+  const agents = await withAgentPerSlot(async () => {
+    // each request alone would fill every slot
+    const responses = await Promise.all([
+      analyzeBatch("a"),
+      analyzeBatch("b"),
+    ]);
+    for (const res of responses) {
+      const { results } = await res.json();
+      assertEquals(
+        results.map((r: AnalyzeResult) => r.status),
+        Array(6).fill("ok"),
+      );
+    }
+  });
+  assertEquals(agents.length, 4);
+  assertEquals(agents.map((a) => a.peak), [1, 1, 1, 1]);
+});
+
+Deno.test("follow-up calls take a free agent from the same pool", async () => {
+  const agents = await withAgentPerSlot(async () => {
+    const review = () =>
+      post("/jd/analyze", {
+        jd: "Senior backend engineer. 5 years of Deno. fixture:jd-review",
+      });
+    const responses = await Promise.all([
+      analyzeBatch("c"),
+      review(),
+      review(),
+    ]);
+    assertEquals(responses.map((res) => res.status), [200, 200, 200]);
+    await Promise.all(responses.map((res) => res.body?.cancel()));
+  });
+  assertEquals(agents.length, 4);
+  assertEquals(agents.map((a) => a.peak), [1, 1, 1, 1]);
+});
+
+Deno.test("POST /jd/analyze needs a JD", async () => {
+  const res = await post("/jd/analyze", { jd: "  " });
+  assertEquals(res.status, 400);
+  assertEquals(await errorOf(res), "Missing 'jd'");
+});
+
+Deno.test("POST /jd/analyze merges measured issues with the model's", async () => {
+  const res = await post("/jd/analyze", {
+    jd: "Senior rockstar backend engineer. 12 years of Deno. fixture:jd-review",
+  });
+  assertEquals(res.status, 200);
+  const { analysis } = await res.json();
+  assertEquals(analysis.requirements.role, "Senior Backend Engineer");
+  assertEquals(analysis.parseStatus, "clean");
+  // the model's "rockstar" repeats a measured issue and is dropped
+  assertEquals(
+    analysis.issues.map((i: { kind: string; source: string }) =>
+      `${i.source}:${i.kind}`
+    ),
+    ["measured:unrealistic", "measured:exclusionary", "model:ambiguity"],
+  );
+  assertStringIncludes(agent.prompts.at(-1)!, "MEASURED ISSUES START");
+});
+
+Deno.test("follow-up calls are capped by RUN_BUDGET_USD", async () => {
+  const pricey = fakeAgent(reply);
+  useModelRunner(createAgentRunner("anthropic", "claude-pricey", () => pricey));
+  try {
+    const res = await post("/jd/analyze", {
+      jd: "Backend engineer. fixture:jd-review",
+    });
+    assertEquals(res.status, 402);
+    assertEquals(await errorOf(res), "Run budget of $5 reached");
+    assertEquals(pricey.prompts, []);
+  } finally {
+    useModelRunner(createAgentRunner("anthropic", "claude-test", () => agent));
+  }
+});
+
+Deno.test("POST /jd/analyze is a 502 when the review never validates", async () => {
+  const res = await post("/jd/analyze", {
+    jd: "Backend engineer. fixture:clean repair:malformed",
+  });
+  assertEquals(res.status, 502);
+  const body = await res.json();
+  assertEquals(body.error, "The model's JD review failed validation");
+  assert(body.details.length > 0);
+});
+
+// --- several JDs ---
+
+Deno.test("POST /analyze with jds scores every resume against every role", async () => {
+  const res = await post("/analyze", {
+    jds: [
+      { name: "Backend Engineer", jd: JD },
+      { id: "platform", name: "Platform", jd: "Platform engineer. Deno." },
+    ],
+    resumes: [
+      { id: "lee.txt", text: "Lee. fixture:clean" },
+      { id: "mo.txt", text: "Mo. fixture:error" },
+    ],
+  });
+  assertEquals(res.status, 200);
+  const { roles, matrix } = await res.json();
+
+  assertEquals(roles.map((r: { id: string }) => r.id), [
+    "backend-engineer",
+    "platform",
+  ]);
+  for (const role of roles) {
+    assertEquals(role.results.length, 2);
+    assert(role.sessionId);
+  }
+  assertEquals(matrix.candidates, ["lee.txt", "mo.txt"]);
+  assertEquals(matrix.cells[1][0].fitScore, 8);
+  assertEquals(matrix.cells[1][1].status, "failed");
+  // same score for both roles: the first one wins, by nothing
+  assertEquals(matrix.bestFit[0], {
+    candidateId: "lee.txt",
+    roleId: "backend-engineer",
+    fitScore: 8,
+    margin: 0,
+  });
+  assertEquals(matrix.bestFit[1].roleId, null);
+});
+
+Deno.test("a roles × resumes matrix has its own cap", async () => {
+  const res = await post("/analyze", {
+    jds: Array.from({ length: 5 }, (_, i) => ({ name: `R${i}`, jd: JD })),
+    resumes: Array.from({ length: 25 }, (_, i) => ({
+      id: `cv-${i}`,
+      // blank ones are skipped, so they don't count
+      text: i < 21 ? "fixture:clean" : " ",
+    })),
+  });
+  assertEquals(res.status, 400);
+  assertStringIncludes(await errorOf(res), "5 roles × 21 resumes is 105");
+});
+
+Deno.test("3 roles × 20 resumes is under the matrix cap", async () => {
+  const res = await post("/analyze", {
+    jds: Array.from({ length: 3 }, (_, i) => ({ name: `R${i}`, jd: JD })),
+    resumes: Array.from({ length: 20 }, (_, i) => ({
+      id: `cv-${i}`,
+      text: "fixture:clean",
+    })),
+  });
+  assertEquals(res.status, 200);
+  assertEquals((await res.json()).matrix.candidates.length, 20);
+});
+
+Deno.test("jds are rejected where only one JD makes sense", async () => {
+  const body = {
+    jds: [{ name: "A", jd: JD }],
+    resumes: [{ id: "a", text: "x" }],
+  };
+  for (const path of ["/analyze/stream", "/jobs"]) {
+    const res = await post(path, body);
+    assertEquals(res.status, 400);
+    assertStringIncludes(await errorOf(res), "only supported on POST /analyze");
+  }
+  const both = await post("/analyze", { ...body, jd: JD });
+  assertEquals(both.status, 400);
+});
+
+// --- ATS webhooks ---
+
+async function apply(body: unknown, secret = ATS_SECRET): Promise<Response> {
+  const raw = JSON.stringify(body);
+  return await handle(
+    new Request("http://localhost/webhooks/applications", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await signPayload(secret, raw)),
+      },
+      body: raw,
+    }),
+  );
+}
+
+async function putPosting(ref: string, body: unknown): Promise<Response> {
+  return await handle(
+    new Request(`http://localhost/postings/${ref}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+Deno.test("an ATS application is scored and the result delivered", async () => {
+  assertEquals((await putPosting("eng-7", { jd: JD })).status, 200);
+
+  const arrived = ats.next();
+  const res = await apply({
+    jobRef: "eng-7",
+    applicationId: "app-100",
+    resume: { text: "Nia, TypeScript. fixture:clean" },
+  });
+  assertEquals(res.status, 202);
+  const { jobId } = await res.json();
+
+  const delivery = await arrived;
+  assertEquals(delivery.signatureError, null);
+  assertEquals(delivery.event, "application.scored");
+  assertEquals(delivery.body.applicationId, "app-100");
+  assertEquals(delivery.body.jobId, jobId);
+  assertEquals((delivery.body.result as AnalyzeResult).fitScore, 8);
+
+  // the same webhook again is answered with the same job
+  const again = await apply({
+    jobRef: "eng-7",
+    applicationId: "app-100",
+    resume: { text: "Nia, TypeScript. fixture:clean" },
+  });
+  assertEquals(again.status, 200);
+  assertEquals((await again.json()).jobId, jobId);
+
+  // wait for the sender to log the answer
+  for (;;) {
+    const log = await handle(
+      new Request("http://localhost/webhooks/deliveries"),
+    );
+    const [latest] = (await log.json()).deliveries;
+    if (latest?.status === "delivered") {
+      assertEquals(latest.attempts.length, 1);
+      assertEquals(latest.payload.applicationId, "app-100");
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+});
+
+Deno.test("ATS applications need a valid signature and a known job", async () => {
+  const body = {
+    jobRef: "eng-unknown",
+    applicationId: "app-1",
+    resume: { text: "x" },
+  };
+  const forged = await apply(body, "wrong-secret");
+  assertEquals(forged.status, 401);
+  assertEquals(await errorOf(forged), "Signature doesn't match");
+
+  const unsigned = await post("/webhooks/applications", body);
+  assertEquals(unsigned.status, 401);
+
+  const unknown = await apply(body);
+  assertEquals(unknown.status, 404);
+  assertStringIncludes(await errorOf(unknown), "eng-unknown");
+});
+
+Deno.test("unsigned webhooks don't use up the ATS's rate limit", async () => {
+  const body = {
+    jobRef: "eng-nope",
+    applicationId: "a",
+    resume: { text: "x" },
+  };
+  for (let i = 0; i < 70; i++) {
+    const res = await apply(body, "wrong-secret");
+    assertEquals(res.status, 401);
+    await res.body?.cancel();
+  }
+  // still within the ATS's 60 a minute: it's answered, not throttled
+  assertEquals((await apply(body)).status, 404);
+});
+
+Deno.test("postings need a JD and a known profile", async () => {
+  assertEquals((await putPosting("eng-8", { title: "Eng" })).status, 400);
+  const res = await putPosting("eng-8", { jd: JD, profileId: "nope" });
+  assertEquals(res.status, 400);
+  assertEquals(await errorOf(res), "Unknown profile 'nope'");
+  assertEquals((await putPosting("eng%208", { jd: JD })).status, 400);
+});
+
+// --- reviewer feedback ---
+
+function putFeedback(sessionId: string, body: unknown): Promise<Response> {
+  return handle(
+    new Request(`http://localhost/sessions/${sessionId}/feedback`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+Deno.test("feedback is saved with the run and calibrates later runs", async () => {
+  const res = await post("/analyze", {
+    jd: JD,
+    resumes: [{ id: "ada", text: "Ada, TypeScript. fixture:clean" }],
+  });
+  const { sessionId } = await res.json();
+
+  const saved = await putFeedback(sessionId, {
+    candidateId: "ada",
+    rating: 4,
+    outcome: "rejected",
+    note: "Thin on Postgres.",
+  });
+  assertEquals(saved.status, 200);
+  const entry = (await saved.json()).feedback.ada;
+  assertEquals(entry.rating, 4);
+  assertEquals(entry.scored.fitScore, 8);
+
+  const session = await handle(
+    new Request(`http://localhost/sessions/${sessionId}`),
+  );
+  assertEquals((await session.json()).session.feedback.ada.outcome, "rejected");
+
+  const calibration = await handle(
+    new Request("http://localhost/calibration?threshold=7"),
+  );
+  const { report } = await calibration.json();
+  assert(report.count >= 1);
+  assert(report.rating.bias > 0);
+  assertEquals(report.distribution.fitScore.rejected[8] >= 1, true);
+
+  // the next run for the profile sees the review, if it asks for it
+  await post("/analyze", {
+    jd: JD,
+    calibrate: true,
+    resumes: [{ id: "bo", text: "Bo, TypeScript. fixture:clean" }],
+  });
+  const prompt = agent.prompts.at(-1)!;
+  assertStringIncludes(prompt, "How human reviewers judged");
+  assertStringIncludes(
+    prompt,
+    "the reviewer rated fit 4 and rejected them. " +
+      'Reviewer note: "Thin on Postgres."',
+  );
+
+  // both null clears it
+  const cleared = await putFeedback(sessionId, {
+    candidateId: "ada",
+    rating: null,
+    outcome: null,
+  });
+  assertEquals((await cleared.json()).feedback, {});
+});
+
+Deno.test("feedback needs a known candidate and valid values", async () => {
+  const res = await post("/analyze", {
+    jd: JD,
+    resumes: [{ id: "cy", text: "Cy. fixture:clean" }],
+  });
+  const { sessionId } = await res.json();
+
+  const badRating = await putFeedback(sessionId, {
+    candidateId: "cy",
+    rating: 11,
+  });
+  assertEquals(badRating.status, 400);
+  const badOutcome = await putFeedback(sessionId, {
+    candidateId: "cy",
+    outcome: "maybe",
+  });
+  assertEquals(badOutcome.status, 400);
+  const unknown = await putFeedback(sessionId, {
+    candidateId: "nobody",
+    rating: 5,
+  });
+  assertEquals(unknown.status, 400);
+  assertEquals((await putFeedback("nope", { candidateId: "cy" })).status, 404);
+
+  const badThreshold = await handle(
+    new Request("http://localhost/calibration?threshold=high"),
+  );
+  assertEquals(badThreshold.status, 400);
+});
+
+Deno.test("blind runs keep candidate ids out of the logs", async () => {
+  const lines: string[] = [];
+  const { log, warn } = console;
+  console.log = console.warn = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    const res = await post("/analyze", {
+      jd: JD,
+      blind: true,
+      resumes: [{ id: "Jane Doe.pdf", text: "TypeScript. fixture:fenced" }],
+    });
+    assertEquals(res.status, 200);
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+  assert(lines.some((l) => l.includes("Raw model output for candidate #")));
+  assert(!lines.some((l) => l.includes("Jane Doe")));
+});
@@ -0,0 +1,171 @@
+// sessions.ts – persistent analysis history backed by Deno KV.
+//
+// KV values are capped at 64 KiB, so a run is stored as one small header
+// entry plus each candidate split over as many entries as its resume text
+// and raw output need (see storage.ts).
+
+import { isOwnedBy } from "./security.ts";
+import { chunkedWrites, commitInBatches, listChunked } from "./storage.ts";
+import type { CandidateAnalysis, CandidateDecision } from "./types.ts";
+
+export type AnalysisSession = {
+  id: string;
+  // API key name that saved the run; only it can see it
+  client: string;
+  createdAt: string;
+  model: string;
+  jd: string;
+  candidates: CandidateAnalysis[];
+  // candidate id → recruiter decision; undecided candidates are absent
+  decisions: Partial<Record<string, CandidateDecision>>;
+};
+
+export const CANDIDATE_DECISIONS: CandidateDecision[] = [
+  "shortlisted",
+  "maybe",
+  "rejected",
+];
+
+// What GET /sessions lists – enough to pick a run without loading it.
+export type SessionSummary = {
+  id: string;
+  createdAt: string;
+  model: string;
+  jdPreview: string;
+  candidateCount: number;
+  topCandidate: { id: string; fitScore: number } | null;
+};
+
+type SessionHeader = Omit<AnalysisSession, "candidates"> & {
+  summary: SessionSummary;
+};
+
+const HEADER = "sessions";
+const CANDIDATE = "session_candidates";
+
+// Time-ordered ids: base36 timestamp first so KV key order = creation order.
+function newSessionId(now: Date): string {
+  const rand = crypto.randomUUID().slice(0, 8);
+  return `${now.getTime().toString(36).padStart(9, "0")}-${rand}`;
+}
+
+function summarize(
+  header: Omit<SessionHeader, "summary" | "decisions">,
+  candidates: CandidateAnalysis[],
+): SessionSummary {
+  let topCandidate: SessionSummary["topCandidate"] = null;
+  for (const { result } of candidates) {
+    if (
+      result.fitScore !== null &&
+      (!topCandidate || result.fitScore > topCandidate.fitScore)
+    ) {
+      topCandidate = { id: result.id, fitScore: result.fitScore };
+    }
+  }
+
+  const firstLine = header.jd.split("\n").find((l) => l.trim()) ?? "";
+  return {
+    id: header.id,
+    createdAt: header.createdAt,
+    model: header.model,
+    jdPreview: firstLine.trim().slice(0, 120),
+    candidateCount: candidates.length,
+    topCandidate,
+  };
+}
+
+export function createSessionStore(kv: Deno.Kv) {
+  return {
+    async save(
+      input: {
+        client: string;
+        model: string;
+        jd: string;
+        candidates: CandidateAnalysis[];
+      },
+    ): Promise<string> {
+      const now = new Date();
+      const base = {
+        id: newSessionId(now),
+        client: input.client,
+        createdAt: now.toISOString(),
+        model: input.model,
+        jd: input.jd,
+      };
+      const header: SessionHeader = {
+        ...base,
+        decisions: {},
+        summary: summarize(base, input.candidates),
+      };
+
+      // a big run takes several atomic ops; the header goes last, so a run
+      // that fails halfway never shows up in the history
+      try {
+        await commitInBatches(kv, [
+          ...input.candidates.flatMap((c, i) =>
+            chunkedWrites([CANDIDATE, header.id, i], c)
+          ),
+          { key: [HEADER, header.id], value: header },
+        ]);
+      } catch (err) {
+        throw new Error(`Failed to save session ${header.id}`, { cause: err });
+      }
+
+      return header.id;
+    },
+
+    // The client's runs, newest first.
+    async list(client: string, limit = 50): Promise<SessionSummary[]> {
+      const out: SessionSummary[] = [];
+      const iter = kv.list<SessionHeader>({ prefix: [HEADER] }, {
+        reverse: true,
+      });
+      for await (const entry of iter) {
+        if (!isOwnedBy(entry.value.client, client)) continue;
+        out.push(entry.value.summary);
+        if (out.length >= limit) break;
+      }
+      return out;
+    },
+
+    async get(id: string): Promise<AnalysisSession | null> {
+      const header = await kv.get<SessionHeader>([HEADER, id]);
+      if (!header.value) return null;
+
+      const candidates = await listChunked<CandidateAnalysis>(kv, [
+        CANDIDATE,
+        id,
+      ]);
+
+      const { summary: _summary, ...session } = header.value;
+      return { ...session, candidates };
+    },
+
+    // Set (or clear, with null) the decision for one candidate. Returns the
+    // run's decisions, or null if the run doesn't exist.
+    async setDecision(
+      id: string,
+      candidateId: string,
+      decision: CandidateDecision | null,
+    ): Promise<AnalysisSession["decisions"] | null> {
+      // optimistic update: retry if another request changed the header
+      for (let i = 0; i < 5; i++) {
+        const header = await kv.get<SessionHeader>([HEADER, id]);
+        if (!header.value) return null;
+
+        const decisions = { ...header.value.decisions };
+        if (decision) decisions[candidateId] = decision;
+        else delete decisions[candidateId];
+
+        const res = await kv.atomic()
+          .check(header)
+          .set([HEADER, id], { ...header.value, decisions })
+          .commit();
+        if (res.ok) return decisions;
+      }
+      throw new Error(`Failed to update decisions for session ${id}`);
+    },
+  };
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import { createSessionStore } from "./sessions.ts";
+import type { AnalyzeResult, CandidateAnalysis } from "./types.ts";
+import { EMPTY_USAGE } from "./usage.ts";
+
+function candidate(id: string, text: string, rawOutput: string) {
+  const result: AnalyzeResult = {
+    id,
+    verdict: "Solid",
+    fitScore: 7,
+    riskScore: 3,
+    report: "## Alignment\n" + "Owns the Postgres layer. ".repeat(200),
+    alignment: ["Postgres"],
+    gaps: [],
+    redFlags: [],
+    missingSkills: [],
+    skills: [],
+    riskSignals: [],
+    redactions: [],
+    blind: false,
+    parseStatus: "clean",
+    profile: { id: "p", name: "P" },
+    model: "claude-test",
+    attempts: 1,
+    status: "ok",
+    usage: EMPTY_USAGE,
+    truncated: false,
+    budgetExceeded: false,
+    cached: false,
+  };
+  return { resume: { id, text }, rawOutput, result } as CandidateAnalysis;
+}
+
+// 60 000 characters, most of them two bytes in KV
+const LONG_RESUME = "Ďévéloper – Постгрес, TypeScript. ".repeat(1800)
+  .slice(0, 60_000);
+
+Deno.test("a run with a 60k-character resume is saved whole", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const sessions = createSessionStore(kv);
+  const c = candidate("long", LONG_RESUME, "{}".padEnd(40_000, " "));
+
+  const id = await sessions.save({
+    client: "web",
+    model: "m",
+    jd: "JD",
+    candidates: [c],
+  });
+  const session = await sessions.get(id);
+  assertEquals(session?.candidates, [c]);
+  kv.close();
+});
+
+Deno.test("a 50-candidate run of long resumes is saved whole", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const sessions = createSessionStore(kv);
+  const candidates = Array.from(
+    { length: 50 },
+    (_, i) => candidate(`cv-${i}`, LONG_RESUME, `pass ${i} `.repeat(2_000)),
+  );
+
+  const id = await sessions.save({
+    client: "web",
+    model: "m",
+    jd: "JD",
+    candidates,
+  });
+  const session = await sessions.get(id);
+  assertEquals(session?.candidates.length, 50);
+  assertEquals(session?.candidates.map((c) => c.result.id), [
+    ...candidates.map((c) => c.result.id),
+  ]);
+  assertEquals(session?.candidates[49], candidates[49]);
+  assertEquals((await sessions.list("web"))[0].candidateCount, 50);
+  kv.close();
+});
+
+Deno.test("history only lists the key's own runs", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const sessions = createSessionStore(kv);
+  const mine = await sessions.save({
+    client: "web",
+    model: "m",
+    jd: "JD",
+    candidates: [candidate("a", "short", "{}")],
+  });
+  await sessions.save({
+    client: "ats",
+    model: "m",
+    jd: "JD",
+    candidates: [candidate("b", "short", "{}")],
+  });
+
+  assertEquals((await sessions.list("web")).map((s) => s.id), [mine]);
+  assertEquals((await sessions.get(mine))?.client, "web");
+  kv.close();
+});
@@ -0,0 +1,376 @@
+// signals.ts – measurable risk signals in a resume, no model calls.
+//
+// The model's RiskScore is an opinion; these are the facts it gets to lean
+// on. Each signal is computed from the text alone:
+//
+//   buzzwords        marketing words per 100 words
+//   jd-copy          phrases of 6+ words lifted verbatim from the JD
+//   stock-phrases    boilerplate typical of LLM-written text
+//   vague-bullets    bullet points with no number, metric or scale
+//   date-overlap     jobs whose dates overlap by more than 3 months
+//   employment-gap   more than 6 months between jobs
+//
+// Only signals that fire are returned, each with the quotes behind it.
+
+export type RiskSignalKind =
+  | "buzzwords"
+  | "jd-copy"
+  | "stock-phrases"
+  | "vague-bullets"
+  | "date-overlap"
+  | "employment-gap";
+
+export type RiskSignal = {
+  kind: RiskSignalKind;
+  severity: "low" | "medium" | "high";
+  // one line for the prompt and the UI, e.g. "4.1 buzzwords per 100 words"
+  summary: string;
+  // what was measured (density, count, ratio or months, depending on kind)
+  value: number;
+  // resume excerpts that triggered it, at most MAX_EVIDENCE
+  evidence: string[];
+};
+
+const MAX_EVIDENCE = 5;
+const MAX_QUOTE = 120;
+
+const BUZZWORDS = [
+  "synergy",
+  "synergies",
+  "passionate",
+  "results-driven",
+  "cutting-edge",
+  "rockstar",
+  "ninja",
+  "guru",
+  "thought leader",
+  "world-class",
+  "best-in-class",
+  "leveraged",
+  "spearheaded",
+  "dynamic",
+  "innovative",
+  "visionary",
+  "disruptive",
+  "game-changer",
+  "game-changing",
+  "self-starter",
+  "go-getter",
+  "out-of-the-box",
+  "hard-working",
+  "detail-oriented",
+  "strategic thinker",
+  "value-add",
+  "holistic",
+  "robust",
+  "scalable solutions",
+  "next-generation",
+];
+
+// Phrases chat models reach for; harmless alone, telling in bulk.
+const STOCK_PHRASES = [
+  /\bproven track record\b/gi,
+  /\bin today'?s (?:fast-paced|ever-changing|dynamic|competitive)\b/gi,
+  /\bfast-paced environment\b/gi,
+  /\bever-evolving\b/gi,
+  /\b(?:a )?testament to\b/gi,
+  /\bdelv(?:e|ed|ing) (?:into|deep)\b/gi,
+  /\brich tapestry\b/gi,
+  /\bseamlessly (?:integrat|collaborat|bridg)\w*/gi,
+  /\bleverag(?:e|ing) my\b/gi,
+  /\bI am (?:excited|eager|thrilled) to\b/gi,
+  /\bthrive[sd]? in\b/gi,
+  /\bstrong (?:communication|interpersonal) skills\b/gi,
+  /\bteam player\b/gi,
+  /\bfostering (?:a )?culture of\b/gi,
+  /\bdrive (?:meaningful|impactful) (?:results|change|impact)\b/gi,
+  /\bunwavering (?:commitment|dedication)\b/gi,
+  /\bmeticulous(?:ly)? attention to detail\b/gi,
+  /\bplayed a (?:pivotal|key|crucial) role\b/gi,
+  /\bnavigat(?:e|ed|ing) (?:complex|the complexities)\b/gi,
+];
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have in is it of on or our the this to we will with you your"
+    .split(
+      " ",
+    ),
+);
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  sept: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+// Lines that are about education, not jobs – their dates don't count.
+const EDUCATION_LINE =
+  /\b(?:B\.?Sc?|B\.?A|B\.?Eng|M\.?Sc?|M\.?A|MBA|Ph\.?D|Bachelor|Master|Doctorate|Diploma|Degree|University|College|School|\[SCHOOL\])\b/i;
+
+function quote(text: string): string {
+  const t = text.trim().replace(/\s+/g, " ");
+  return t.length > MAX_QUOTE ? `${t.slice(0, MAX_QUOTE - 1)}…` : t;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9][a-z0-9+#'-]*/g) ?? [];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buzzwordSignal(resume: string): RiskSignal | null {
+  const total = words(resume).length;
+  if (total === 0) return null;
+
+  const found: string[] = [];
+  let count = 0;
+  for (const b of BUZZWORDS) {
+    const n = resume.match(
+      new RegExp(`(?<![\\w-])${escapeRegExp(b)}(?![\\w-])`, "gi"),
+    )?.length ?? 0;
+    if (n > 0) {
+      count += n;
+      found.push(n > 1 ? `${b} ×${n}` : b);
+    }
+  }
+
+  const density = Math.round((count / total) * 1000) / 10;
+  if (count < 3 && density < 1.5) return null;
+  return {
+    kind: "buzzwords",
+    severity: density >= 3 ? "high" : density >= 1.5 ? "medium" : "low",
+    summary: `${count} buzzwords, ${density} per 100 words`,
+    value: density,
+    evidence: found.slice(0, MAX_EVIDENCE),
+  };
+}
+
+// Runs of 6+ words that appear in the JD and the resume alike.
+function jdCopySignal(jd: string, resume: string): RiskSignal | null {
+  const N = 6;
+  const jdWords = words(jd);
+  const resumeWords = words(resume);
+  if (jdWords.length < N || resumeWords.length < N) return null;
+
+  const jdGrams = new Set<string>();
+  for (let i = 0; i + N <= jdWords.length; i++) {
+    jdGrams.add(jdWords.slice(i, i + N).join(" "));
+  }
+
+  // grow each match as far as it goes, then skip past it
+  const phrases: string[] = [];
+  for (let i = 0; i + N <= resumeWords.length;) {
+    const gram = resumeWords.slice(i, i + N);
+    const meaningful = gram.filter((w) => !STOPWORDS.has(w)).length >= 3;
+    if (!meaningful || !jdGrams.has(gram.join(" "))) {
+      i++;
+      continue;
+    }
+    let end = i + N;
+    while (
+      end < resumeWords.length &&
+      jdGrams.has(resumeWords.slice(end - N + 1, end + 1).join(" "))
+    ) {
+      end++;
+    }
+    phrases.push(resumeWords.slice(i, end).join(" "));
+    i = end;
+  }
+
+  if (phrases.length === 0) return null;
+  return {
+    kind: "jd-copy",
+    severity: phrases.length >= 4
+      ? "high"
+      : phrases.length >= 2
+      ? "medium"
+      : "low",
+    summary: `${phrases.length} phrase(s) copied word for word from the JD`,
+    value: phrases.length,
+    evidence: phrases.slice(0, MAX_EVIDENCE).map((p) => `"${quote(p)}"`),
+  };
+}
+
+function stockPhraseSignal(resume: string): RiskSignal | null {
+  const found: string[] = [];
+  for (const pattern of STOCK_PHRASES) {
+    for (const m of resume.matchAll(pattern)) found.push(m[0]);
+  }
+  if (found.length < 2) return null;
+  return {
+    kind: "stock-phrases",
+    severity: found.length >= 6 ? "high" : found.length >= 4 ? "medium" : "low",
+    summary: `${found.length} stock phrases typical of generated text`,
+    value: found.length,
+    evidence: [...new Set(found.map((f) => f.toLowerCase()))].slice(
+      0,
+      MAX_EVIDENCE,
+    ),
+  };
+}
+
+// A bullet with a figure in it (numbers, %, $, "x10", "3x") is concrete.
+const METRIC =
+  /\d|%|\$|€|£|\b(?:one|two|three|four|five|six|seven|eight|nine|ten|dozens?|hundreds?|thousands?|millions?|billions?)\b/i;
+
+function vagueBulletSignal(resume: string): RiskSignal | null {
+  const bullets = resume
+    .split("\n")
+    .map((l) => l.match(/^\s*(?:[-•*▪‣◦]|\d+[.)])\s+(.*)$/)?.[1] ?? "")
+    .filter((b) => words(b).length >= 4);
+  if (bullets.length < 3) return null;
+
+  const vague = bullets.filter((b) => !METRIC.test(b));
+  const ratio = Math.round((vague.length / bullets.length) * 100) / 100;
+  if (ratio < 0.6) return null;
+  return {
+    kind: "vague-bullets",
+    severity: ratio >= 0.9 ? "high" : ratio >= 0.75 ? "medium" : "low",
+    summary:
+      `${vague.length} of ${bullets.length} bullets have no number or metric`,
+    value: ratio,
+    evidence: vague.slice(0, 3).map(quote),
+  };
+}
+
+type DateRange = { start: number; end: number; text: string };
+
+const MONTH_NAME =
+  "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const POINT = `(?:${MONTH_NAME}\\s+|\\d{1,2}[/.])?(?:19|20)\\d{2}`;
+const RANGE = new RegExp(
+  `(${POINT})\\s*(?:-|–|—|to|until)\\s*(${POINT}|present|current|now|today)`,
+  "gi",
+);
+
+// Months since year 0; a bare year means January (start) / December (end).
+function toMonth(point: string, isEnd: boolean, now: Date): number | null {
+  const p = point.toLowerCase().trim();
+  if (/^(?:present|current|now|today)$/.test(p)) {
+    return now.getUTCFullYear() * 12 + now.getUTCMonth();
+  }
+  const year = Number(p.match(/(?:19|20)\d{2}/)?.[0]);
+  if (!year) return null;
+  const name = p.match(/^[a-z]+/)?.[0];
+  const numeric = p.match(/^(\d{1,2})[/.]/)?.[1];
+  const month = name !== undefined
+    ? MONTHS[name.slice(0, 4)] ?? MONTHS[name.slice(0, 3)]
+    : numeric
+    ? Number(numeric) - 1
+    : isEnd
+    ? 11
+    : 0;
+  if (month === undefined || month < 0 || month > 11) return null;
+  return year * 12 + month;
+}
+
+function formatMonth(m: number): string {
+  const names = "Jan Feb Mar Apr May Jun Jul Aug Sep Oct Nov Dec".split(" ");
+  return `${names[m % 12]} ${Math.floor(m / 12)}`;
+}
+
+// Employment date ranges, skipping education lines.
+function dateRanges(resume: string, now: Date): DateRange[] {
+  const out: DateRange[] = [];
+  for (const line of resume.split("\n")) {
+    if (EDUCATION_LINE.test(line)) continue;
+    for (const m of line.matchAll(RANGE)) {
+      const start = toMonth(m[1], false, now);
+      const end = toMonth(m[2], true, now);
+      if (start === null || end === null || end < start) continue;
+      out.push({ start, end, text: quote(m[0]) });
+    }
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+function timelineSignals(resume: string, now: Date): RiskSignal[] {
+  const ranges = dateRanges(resume, now);
+  if (ranges.length < 2) return [];
+
+  const overlaps: string[] = [];
+  const gaps: string[] = [];
+  let longestGap = 0;
+  let longestOverlap = 0;
+  let latest = ranges[0];
+  for (const r of ranges.slice(1)) {
+    const overlap = latest.end - r.start;
+    if (overlap > 3) {
+      overlaps.push(`${latest.text} and ${r.text} (${overlap} months)`);
+      longestOverlap = Math.max(longestOverlap, overlap);
+    }
+    const gap = r.start - latest.end - 1;
+    if (gap > 6) {
+      gaps.push(
+        `${formatMonth(latest.end + 1)} – ${
+          formatMonth(r.start - 1)
+        } (${gap} months)`,
+      );
+      longestGap = Math.max(longestGap, gap);
+    }
+    if (r.end > latest.end) latest = r;
+  }
+
+  const signals: RiskSignal[] = [];
+  if (overlaps.length) {
+    signals.push({
+      kind: "date-overlap",
+      severity: longestOverlap >= 12 ? "medium" : "low",
+      summary:
+        `${overlaps.length} overlapping job period(s), longest ${longestOverlap} months`,
+      value: longestOverlap,
+      evidence: overlaps.slice(0, MAX_EVIDENCE),
+    });
+  }
+  if (gaps.length) {
+    signals.push({
+      kind: "employment-gap",
+      severity: longestGap >= 24 ? "high" : longestGap >= 12 ? "medium" : "low",
+      summary:
+        `${gaps.length} gap(s) between jobs, longest ${longestGap} months`,
+      value: longestGap,
+      evidence: gaps.slice(0, MAX_EVIDENCE),
+    });
+  }
+  return signals;
+}
+
+export function detectRiskSignals(
+  jd: string,
+  resume: string,
+  now = new Date(),
+): RiskSignal[] {
+  return [
+    buzzwordSignal(resume),
+    jdCopySignal(jd, resume),
+    stockPhraseSignal(resume),
+    vagueBulletSignal(resume),
+    ...timelineSignals(resume, now),
+  ].filter((s): s is RiskSignal => s !== null);
+}
+
+// The prompt section: what was measured, for the model to weigh.
+export function describeSignalsForPrompt(signals: RiskSignal[]): string {
+  if (signals.length === 0) {
+    return "No measurable risk signals were found.";
+  }
+  return signals
+    .map((s) =>
+      `- [${s.severity}] ${s.kind}: ${s.summary}${
+        s.evidence.length ? ` (e.g. ${s.evidence.slice(0, 3).join("; ")})` : ""
+      }`
+    )
+    .join("\n");
+}
@@ -0,0 +1,89 @@
+import { assertEquals } from "@std/assert";
+import { describeSignalsForPrompt, detectRiskSignals } from "./signals.ts";
+
+const NOW = new Date(Date.UTC(2024, 5, 15));
+
+const TIMELINE = `Experience
+Acme Corp, Jan 2018 - present
+Globex, Mar 2019 - Jun 2020
+Initech, 2012 - 2014
+Education
+State University, 2008 - 2015`;
+
+Deno.test("a plain resume raises no signals", () => {
+  const signals = detectRiskSignals(
+    "Backend engineer, Go and Postgres.",
+    "Backend engineer at Acme, 2019 - 2023. Cut p95 latency by 40%.",
+    NOW,
+  );
+  assertEquals(signals, []);
+  assertEquals(
+    describeSignalsForPrompt(signals),
+    "No measurable risk signals were found.",
+  );
+});
+
+Deno.test("overlaps and gaps are measured up to the given date", () => {
+  assertEquals(detectRiskSignals("", TIMELINE, NOW), [
+    {
+      kind: "date-overlap",
+      severity: "medium",
+      summary: "1 overlapping job period(s), longest 63 months",
+      value: 63,
+      evidence: ["Jan 2018 - present and Mar 2019 - Jun 2020 (63 months)"],
+    },
+    {
+      kind: "employment-gap",
+      severity: "high",
+      summary: "1 gap(s) between jobs, longest 36 months",
+      value: 36,
+      evidence: ["Jan 2015 – Dec 2017 (36 months)"],
+    },
+  ]);
+
+  // in mid-2019 "present" overlapped the next job by only 3 months
+  const earlier = detectRiskSignals("", TIMELINE, new Date(Date.UTC(2019, 5)));
+  assertEquals(earlier.map((s) => s.kind), ["employment-gap"]);
+});
+
+Deno.test("buzzwords, stock phrases and vague bullets are counted", () => {
+  const resume =
+    `Passionate, results-driven self-starter with a proven track record in a fast-paced environment.
+- Spearheaded innovative, cutting-edge initiatives across teams
+- Leveraged synergies to deliver robust, world-class solutions
+- Worked on backend services and internal tooling
+- Cut p95 latency by 40% on the payments API`;
+  const signals = detectRiskSignals("", resume, NOW);
+  assertEquals(
+    signals.map((s) => [s.kind, s.severity, s.value]),
+    [
+      ["buzzwords", "high", 24.4],
+      ["stock-phrases", "low", 2],
+      ["vague-bullets", "medium", 0.75],
+    ],
+  );
+  assertEquals(signals[1].evidence, [
+    "proven track record",
+    "fast-paced environment",
+  ]);
+});
+
+Deno.test("phrases lifted from the JD are quoted whole", () => {
+  const jd =
+    "We need someone to design and operate distributed payment systems at scale for global merchants.";
+  const [signal] = detectRiskSignals(
+    jd,
+    "I design and operate distributed payment systems at scale for global merchants daily.",
+    NOW,
+  );
+  assertEquals(signal.kind, "jd-copy");
+  assertEquals(signal.evidence, [
+    '"design and operate distributed payment systems at scale for global merchants"',
+  ]);
+  assertEquals(
+    describeSignalsForPrompt([signal]),
+    `- [low] jd-copy: 1 phrase(s) copied word for word from the JD (e.g. ${
+      signal.evidence[0]
+    })`,
+  );
+});
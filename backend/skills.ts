@@ -0,0 +1,217 @@
+// skills.ts – deterministic skill extraction and coverage, no model calls.
+//
+// Skills are pulled out of the JD with a small dictionary (plus the role
+// profile's must-have / nice-to-have lists), then each resume is searched
+// for evidence: the skill's own name ("exact"), one of its known aliases
+// ("synonym"), or nothing ("missing"). Matches quote the resume line.
+
+import type { RoleProfile } from "./profiles.ts";
+
+export type SkillImportance = "required" | "preferred";
+
+export type JdSkill = {
+  skill: string;
+  importance: SkillImportance;
+  // aliases that count as a synonym match
+  synonyms: string[];
+};
+
+export type SkillMatchKind = "exact" | "synonym" | "missing";
+
+export type SkillMatch = {
+  skill: string;
+  importance: SkillImportance;
+  match: SkillMatchKind;
+  // the name or alias that was found
+  term: string | null;
+  // the resume line it was found on
+  quote: string | null;
+};
+
+type DictionaryEntry = {
+  skill: string;
+  synonyms: string[];
+  // only match with this exact casing (e.g. "Go", not the verb "go")
+  caseSensitive?: boolean;
+};
+
+const DICTIONARY: DictionaryEntry[] = [
+  { skill: "TypeScript", synonyms: ["ts"] },
+  { skill: "JavaScript", synonyms: ["js", "ecmascript", "es6"] },
+  { skill: "Node.js", synonyms: ["node", "nodejs"] },
+  { skill: "Deno", synonyms: [] },
+  { skill: "Bun", synonyms: [], caseSensitive: true },
+  { skill: "React", synonyms: ["react.js", "reactjs"] },
+  { skill: "Next.js", synonyms: ["nextjs"] },
+  { skill: "Vue", synonyms: ["vue.js", "vuejs", "nuxt"] },
+  { skill: "Angular", synonyms: ["angularjs"] },
+  { skill: "Svelte", synonyms: ["sveltekit"] },
+  { skill: "Tailwind", synonyms: ["tailwindcss"] },
+  { skill: "HTML", synonyms: ["html5"] },
+  { skill: "CSS", synonyms: ["css3", "sass", "scss"] },
+  { skill: "Python", synonyms: ["django", "flask", "fastapi"] },
+  { skill: "Go", synonyms: ["golang"], caseSensitive: true },
+  { skill: "Rust", synonyms: [] },
+  { skill: "Java", synonyms: ["jvm", "spring boot"] },
+  { skill: "Kotlin", synonyms: [] },
+  { skill: "C#", synonyms: [".net", "dotnet"] },
+  { skill: "C++", synonyms: ["cpp"] },
+  { skill: "Ruby", synonyms: ["rails", "ruby on rails"] },
+  { skill: "PHP", synonyms: ["laravel"] },
+  { skill: "SQL", synonyms: [] },
+  { skill: "PostgreSQL", synonyms: ["postgres", "psql"] },
+  { skill: "MySQL", synonyms: ["mariadb"] },
+  { skill: "MongoDB", synonyms: ["mongo"] },
+  { skill: "Redis", synonyms: [] },
+  { skill: "Kafka", synonyms: ["event streaming"] },
+  { skill: "GraphQL", synonyms: ["apollo"] },
+  {
+    skill: "REST",
+    synonyms: ["restful", "rest api", "http api"],
+    caseSensitive: true,
+  },
+  { skill: "gRPC", synonyms: ["protobuf"] },
+  { skill: "Docker", synonyms: ["containers", "containerization"] },
+  { skill: "Kubernetes", synonyms: ["k8s", "helm"] },
+  { skill: "Terraform", synonyms: ["infrastructure as code", "iac"] },
+  { skill: "AWS", synonyms: ["amazon web services", "ec2", "s3", "lambda"] },
+  { skill: "GCP", synonyms: ["google cloud"] },
+  { skill: "Azure", synonyms: [] },
+  {
+    skill: "CI/CD",
+    synonyms: [
+      "continuous integration",
+      "github actions",
+      "gitlab ci",
+      "jenkins",
+    ],
+  },
+  { skill: "Linux", synonyms: ["unix", "bash"] },
+  { skill: "Microservices", synonyms: ["service-oriented"] },
+  { skill: "Distributed systems", synonyms: ["distributed computing"] },
+  { skill: "Machine learning", synonyms: ["ml", "deep learning"] },
+  { skill: "LLM", synonyms: ["large language model", "gpt", "claude"] },
+  { skill: "AI agents", synonyms: ["agentic", "agent framework"] },
+  { skill: "PyTorch", synonyms: ["torch"] },
+  { skill: "TensorFlow", synonyms: ["keras"] },
+  {
+    skill: "Observability",
+    synonyms: ["prometheus", "grafana", "opentelemetry"],
+  },
+  { skill: "System design", synonyms: ["architecture"] },
+  { skill: "Testing", synonyms: ["unit tests", "jest", "vitest", "tdd"] },
+];
+
+// Section headings in the JD that switch which importance we assign.
+const PREFERRED_HEADING =
+  /\b(nice[- ]to[- ]have|preferred|bonus|good[- ]to[- ]have|pluses|would be great)\b/i;
+const REQUIRED_HEADING =
+  /\b(requirements?|required|must[- ]haves?|qualifications|what you(?:'|’)?ll need|you have)\b/i;
+// "… is a plus" on a single line
+const PREFERRED_INLINE = /\b(a plus|nice to have|preferred|bonus)\b/i;
+
+const MAX_QUOTE = 200;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-term match that still works for names like "C++" or "Node.js".
+function termPattern(term: string, caseSensitive = false): RegExp {
+  return new RegExp(
+    `(?<![A-Za-z0-9.])${escapeRegExp(term)}(?![A-Za-z0-9+#])`,
+    caseSensitive ? "" : "i",
+  );
+}
+
+function mentions(line: string, entry: DictionaryEntry): boolean {
+  return [entry.skill, ...entry.synonyms].some((t) =>
+    termPattern(t, entry.caseSensitive && t === entry.skill).test(line)
+  );
+}
+
+function dictionaryEntry(skill: string): DictionaryEntry {
+  const known = DICTIONARY.find((e) =>
+    e.skill.toLowerCase() === skill.toLowerCase()
+  );
+  return known ?? { skill, synonyms: [] };
+}
+
+// A short heading-like line ("Requirements:", "## Nice to have").
+function isHeading(line: string): boolean {
+  return line.length <= 60 && !/[.!?]$/.test(line) &&
+    (/:$/.test(line) || /^#+\s/.test(line) || line.split(/\s+/).length <= 5);
+}
+
+// Skills the JD asks for, in order of first mention. Profile must-haves
+// are always required and nice-to-haves preferred.
+export function extractJdSkills(
+  jd: string,
+  profile?: Pick<RoleProfile, "mustHave" | "niceToHave">,
+): JdSkill[] {
+  const found = new Map<string, JdSkill>();
+  const add = (entry: DictionaryEntry, importance: SkillImportance) => {
+    const key = entry.skill.toLowerCase();
+    const existing = found.get(key);
+    if (!existing) {
+      found.set(key, {
+        skill: entry.skill,
+        importance,
+        synonyms: entry.synonyms,
+      });
+    } else if (importance === "required") {
+      existing.importance = "required";
+    }
+  };
+
+  let section: SkillImportance = "required";
+  for (const raw of jd.split("\n")) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (isHeading(line)) {
+      if (PREFERRED_HEADING.test(line)) section = "preferred";
+      else if (REQUIRED_HEADING.test(line)) section = "required";
+    }
+    const importance = PREFERRED_INLINE.test(line) ? "preferred" : section;
+    for (const entry of DICTIONARY) {
+      if (mentions(line, entry)) add(entry, importance);
+    }
+  }
+
+  for (const s of profile?.mustHave ?? []) add(dictionaryEntry(s), "required");
+  for (const s of profile?.niceToHave ?? []) {
+    add(dictionaryEntry(s), "preferred");
+  }
+
+  return [...found.values()];
+}
+
+function quoteLine(line: string): string {
+  return line.length > MAX_QUOTE ? `${line.slice(0, MAX_QUOTE - 1)}…` : line;
+}
+
+// Check one resume for evidence of each JD skill.
+export function matchSkills(skills: JdSkill[], resume: string): SkillMatch[] {
+  const lines = resume.split("\n").map((l) => l.trim()).filter(Boolean);
+
+  return skills.map(({ skill, importance, synonyms }) => {
+    const entry = dictionaryEntry(skill);
+    const candidates: [string, SkillMatchKind, boolean][] = [
+      [skill, "exact", entry.caseSensitive ?? false],
+      ...synonyms.map((s): [string, SkillMatchKind, boolean] => [
+        s,
+        "synonym",
+        false,
+      ]),
+    ];
+
+    for (const [term, match, caseSensitive] of candidates) {
+      const pattern = termPattern(term, caseSensitive);
+      const line = lines.find((l) => pattern.test(l));
+      if (line) {
+        return { skill, importance, match, term, quote: quoteLine(line) };
+      }
+    }
+    return { skill, importance, match: "missing", term: null, quote: null };
+  });
+}
@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import { extractJdSkills, matchSkills } from "./skills.ts";
+
+const JD = `Backend Engineer
+Requirements:
+- 5 years of TypeScript and Node.js
+- PostgreSQL in production
+Nice to have:
+- Kubernetes
+- Go
+Experience with Terraform is a plus.
+You will go above and beyond.`;
+
+Deno.test("JD skills take their importance from the section they're in", () => {
+  assertEquals(
+    extractJdSkills(JD).map((s) => [s.skill, s.importance]),
+    [
+      ["TypeScript", "required"],
+      ["Node.js", "required"],
+      ["PostgreSQL", "required"],
+      ["Kubernetes", "preferred"],
+      ["Go", "preferred"],
+      ["Terraform", "preferred"],
+    ],
+  );
+});
+
+Deno.test("profile must-haves are required and nice-to-haves preferred", () => {
+  const skills = extractJdSkills(JD, {
+    mustHave: ["Kubernetes", "Elixir"],
+    niceToHave: ["Redis"],
+  });
+  assertEquals(
+    skills.slice(3).map((s) => [s.skill, s.importance, s.synonyms]),
+    [
+      ["Kubernetes", "required", ["k8s", "helm"]],
+      ["Go", "preferred", ["golang"]],
+      ["Terraform", "preferred", ["infrastructure as code", "iac"]],
+      ["Elixir", "required", []],
+      ["Redis", "preferred", []],
+    ],
+  );
+});
+
+Deno.test("resumes are matched by name or alias and quoted", () => {
+  const skills = extractJdSkills(JD);
+  const matches = matchSkills(
+    skills,
+    `Senior engineer
+Wrote TypeScript services on node
+Ran postgres and k8s clusters
+Wrote some go scripts`,
+  );
+  assertEquals(matches.slice(0, 4), [
+    {
+      skill: "TypeScript",
+      importance: "required",
+      match: "exact",
+      term: "TypeScript",
+      quote: "Wrote TypeScript services on node",
+    },
+    {
+      skill: "Node.js",
+      importance: "required",
+      match: "synonym",
+      term: "node",
+      quote: "Wrote TypeScript services on node",
+    },
+    {
+      skill: "PostgreSQL",
+      importance: "required",
+      match: "synonym",
+      term: "postgres",
+      quote: "Ran postgres and k8s clusters",
+    },
+    {
+      skill: "Kubernetes",
+      importance: "preferred",
+      match: "synonym",
+      term: "k8s",
+      quote: "Ran postgres and k8s clusters",
+    },
+  ]);
+  // "go" the verb isn't Go the language
+  assertEquals(matches.slice(4).map((m) => [m.skill, m.match]), [
+    ["Go", "missing"],
+    ["Terraform", "missing"],
+  ]);
+});
+
+Deno.test("long resume lines are cut in the quote", () => {
+  const line = `Shipped Rust services ${"and more ".repeat(40)}`.trim();
+  const [match] = matchSkills(extractJdSkills("Must know Rust"), line);
+  assertEquals(match.match, "exact");
+  assertEquals(match.quote?.length, 200);
+  assertEquals(match.quote?.endsWith("…"), true);
+});
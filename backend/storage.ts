@@ -0,0 +1,101 @@
+// storage.ts – Deno KV limits, and writing values that don't fit them.
+//
+// KV caps one value at 64 KiB and one atomic commit at 800 KiB over at most
+// 1000 mutations. A stored candidate can carry a 60 000-character resume
+// plus the raw output of every ensemble pass, so candidates are written as
+// JSON split over numbered entries under their key ([...key, 0], [...key,
+// 1], …), and batches of writes are committed in size-limited atomic ops.
+
+// Characters per chunk: 60 KB even when every character takes two bytes.
+const CHUNK_CHARS = 30_000;
+// Estimated bytes per atomic commit, well under the 800 KiB cap.
+const MAX_BATCH_BYTES = 512 * 1024;
+const MAX_BATCH_MUTATIONS = 500;
+
+export type KvWrite = {
+  key: Deno.KvKey;
+  // undefined = delete the key
+  value?: unknown;
+  expireIn?: number;
+};
+
+// Worst case of what a write costs against the commit cap: two bytes per
+// character of the key and the value's JSON.
+function sizeOf(write: KvWrite): number {
+  const value = write.value === undefined ? "" : JSON.stringify(write.value);
+  return (JSON.stringify(write.key).length + value.length) * 2;
+}
+
+// The writes that store `value` split under `key`. `previousChunks` is how
+// many chunks an earlier value under the same key had; the ones this value
+// doesn't overwrite are deleted.
+export function chunkedWrites(
+  key: Deno.KvKey,
+  value: unknown,
+  opts: { expireIn?: number; previousChunks?: number } = {},
+): KvWrite[] {
+  const json = JSON.stringify(value);
+  const writes: KvWrite[] = [];
+  for (let i = 0; i * CHUNK_CHARS < json.length; i++) {
+    writes.push({
+      key: [...key, i],
+      value: json.slice(i * CHUNK_CHARS, (i + 1) * CHUNK_CHARS),
+      expireIn: opts.expireIn,
+    });
+  }
+  for (let i = writes.length; i < (opts.previousChunks ?? 0); i++) {
+    writes.push({ key: [...key, i] });
+  }
+  return writes;
+}
+
+// Commit writes in as few atomic ops as the limits allow. Each batch is
+// atomic on its own, not the whole list: write the entries that make a
+// record visible (its header) last.
+export async function commitInBatches(
+  kv: Deno.Kv,
+  writes: KvWrite[],
+): Promise<void> {
+  let op = kv.atomic();
+  let bytes = 0;
+  let mutations = 0;
+  const flush = async () => {
+    if (mutations === 0) return;
+    const res = await op.commit();
+    if (!res.ok) throw new Error("KV batch write was rejected");
+    op = kv.atomic();
+    bytes = 0;
+    mutations = 0;
+  };
+
+  for (const write of writes) {
+    const size = sizeOf(write);
+    if (
+      mutations > 0 &&
+      (bytes + size > MAX_BATCH_BYTES || mutations >= MAX_BATCH_MUTATIONS)
+    ) {
+      await flush();
+    }
+    if (write.value === undefined) op.delete(write.key);
+    else op.set(write.key, write.value, { expireIn: write.expireIn });
+    bytes += size;
+    mutations++;
+  }
+  await flush();
+}
+
+// Read every record stored by chunkedWrites under `prefix` ([...prefix, n,
+// chunk]), in key order.
+export async function listChunked<T>(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey,
+): Promise<T[]> {
+  const records = new Map<Deno.KvKeyPart, string[]>();
+  for await (const entry of kv.list<string>({ prefix })) {
+    const id = entry.key[prefix.length];
+    const parts = records.get(id) ?? [];
+    parts.push(entry.value);
+    records.set(id, parts);
+  }
+  return [...records.values()].map((parts) => JSON.parse(parts.join("")) as T);
+}
@@ -0,0 +1,107 @@
+// fake_agent.ts – stands in for ZypherAgent in tests: replays recorded task
+// events (testdata/agent-events) or turns recorded model outputs
+// (testdata/model-output) into the events a real agent would emit.
+
+import type { TaskAgent } from "../providers.ts";
+
+export type FakeEvent = { type: string; [key: string]: unknown };
+
+// What the agent does for one prompt: emit these events, or fail.
+export type FakeReply = FakeEvent[] | Error;
+
+export function readFixture(path: string): Promise<string> {
+  return Deno.readTextFile(new URL(path, import.meta.url));
+}
+
+export async function readEvents(name: string): Promise<FakeEvent[]> {
+  return JSON.parse(await readFixture(`./agent-events/${name}.json`));
+}
+
+export function readOutput(name: string): Promise<string> {
+  return readFixture(`./model-output/${name}.txt`);
+}
+
+// The events for a finished answer: the text in small deltas, then the
+// closing message with token usage, like the Anthropic stream.
+export function eventsFor(
+  text: string,
+  opts: { stopReason?: string; inputTokens?: number } = {},
+): FakeEvent[] {
+  const deltas: FakeEvent[] = [];
+  for (let i = 0; i < text.length; i += 40) {
+    deltas.push({ type: "text-delta", delta: text.slice(i, i + 40) });
+  }
+  return [
+    ...deltas,
+    {
+      type: "message",
+      message: {
+        role: "assistant",
+        stop_reason: opts.stopReason ?? "end_turn",
+        usage: {
+          input_tokens: opts.inputTokens ?? 500,
+          output_tokens: Math.ceil(text.length / 4),
+        },
+      },
+    },
+  ];
+}
+
+// A TaskAgent whose runTask answers with `reply(prompt)`, after `delayMs`
+// if given. Every prompt it saw is kept in `prompts`, in order, and `peak`
+// is the most tasks it ever had running at once.
+export function fakeAgent(
+  reply: (prompt: string) => FakeReply,
+  opts: { delayMs?: number } = {},
+): TaskAgent & { prompts: string[]; peak: number } {
+  const prompts: string[] = [];
+  let running = 0;
+  const agent = {
+    prompts,
+    peak: 0,
+    runTask(prompt: string) {
+      prompts.push(prompt);
+      const out = reply(prompt);
+      // just enough of an Observable for rxjs-for-await
+      const observable = {
+        subscribe(observer: {
+          next: (e: FakeEvent) => void;
+          error: (err: unknown) => void;
+          complete: () => void;
+        }) {
+          let closed = false;
+          const finish = () => {
+            if (!closed) running--;
+            closed = true;
+          };
+          running++;
+          agent.peak = Math.max(agent.peak, running);
+          const emit = () => {
+            if (closed) return;
+            if (out instanceof Error) {
+              finish();
+              return observer.error(out);
+            }
+            for (const event of out) {
+              if (closed) return;
+              observer.next(event);
+            }
+            finish();
+            observer.complete();
+          };
+          let timer: ReturnType<typeof setTimeout> | undefined;
+          if (opts.delayMs) timer = setTimeout(emit, opts.delayMs);
+          else queueMicrotask(emit);
+          return {
+            unsubscribe: () => {
+              clearTimeout(timer);
+              finish();
+            },
+          };
+        },
+      };
+      return observable as unknown as ReturnType<TaskAgent["runTask"]>;
+    },
+  };
+  return agent;
+}
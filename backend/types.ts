@@ -0,0 +1,91 @@
+// types.ts – shapes shared between the HTTP layer and storage.
+
+import type { EnsembleConfig, EnsembleSummary } from "./ensemble.ts";
+import type { CalibrationExample } from "./feedback.ts";
+import type { RoleProfile } from "./profiles.ts";
+import type { Redaction } from "./redact.ts";
+import type { RiskSignal } from "./signals.ts";
+import type { JdSkill, SkillMatch } from "./skills.ts";
+import type { CandidateUsage } from "./usage.ts";
+
+export type ResumeInput = {
+  id: string;
+  text: string;
+};
+
+// What every candidate in one /analyze call is scored against.
+export type AnalyzeRun = {
+  jd: string;
+  profile: RoleProfile;
+  // skills pulled from the JD + profile, checked against every resume
+  skills: JdSkill[];
+  // score each candidate several times and combine (null = single pass)
+  ensemble: EnsembleConfig | null;
+  // also hide names, pronouns, schools and graduation years
+  blind: boolean;
+  // spending cap for the run in USD (null = none), see usage.ts
+  budgetUsd: number | null;
+  // reviewed candidates shown to the model as few-shot calibration
+  // (empty = off), see feedback.ts
+  calibration: CalibrationExample[];
+};
+
+// A resume after PII redaction: `text` is what the model, the logs and the
+// history get to see; the original never leaves readAnalyzeBody.
+// `force` skips the analysis cache for this resume.
+export type PreparedResume = ResumeInput & {
+  redactions: Redaction[];
+  force?: boolean;
+};
+
+export type AnalyzeResult = {
+  id: string;
+  verdict: string;
+  fitScore: number | null;
+  riskScore: number | null;
+  report: string;
+  alignment: string[];
+  gaps: string[];
+  redFlags: string[];
+  missingSkills: string[];
+  // deterministic JD skill coverage (see skills.ts), one entry per JD skill
+  skills: SkillMatch[];
+  // measured red flags the risk score is grounded in (see signals.ts)
+  riskSignals: RiskSignal[];
+  // PII masked before the resume reached the model (kinds + counts only)
+  redactions: Redaction[];
+  // blind-screening mode was on for this run
+  blind: boolean;
+  // clean = valid JSON first time, repaired = valid after one re-prompt,
+  // failed = never produced a valid assessment
+  parseStatus: "clean" | "repaired" | "failed";
+  // role profile the candidate was scored with
+  profile: { id: string; name: string };
+  // model id that produced this result, e.g. "claude-3-haiku-20240307"
+  model: string;
+  // how many model calls it took (1 = first try, repairs included)
+  attempts: number;
+  status: "ok" | "failed";
+  // tokens, model latency and estimated cost of those calls
+  usage: CandidateUsage;
+  // an answer hit the output token limit and was cut off
+  truncated: boolean;
+  // a model call was refused because the run's budget ran out
+  budgetExceeded: boolean;
+  // reused from the analysis cache (see cache.ts) instead of a model call
+  cached: boolean;
+  // present when scores were combined from several passes; fit/risk are
+  // then the median or mean, and verdict/report come from the closest pass
+  ensemble?: EnsembleSummary;
+};
+
+// Everything we know about one candidate after a run: what went in, what
+// the model said verbatim, and what we parsed out of it.
+export type CandidateAnalysis = {
+  resume: ResumeInput;
+  rawOutput: string;
+  result: AnalyzeResult;
+};
+
+// A recruiter's call on one candidate, saved with the run.
+export type CandidateDecision = "shortlisted" | "maybe" | "rejected";
@@ -0,0 +1,207 @@
+// usage.ts – token usage, latency and cost per candidate and per run, and
+// the optional budget cap that stops a run before it overspends.
+//
+//   MODEL_PRICES    JSON price table merged over the defaults below, in USD
+//                   per million tokens: {"my-model": {"input": 1, "output": 2}}
+//   RUN_BUDGET_USD  spending cap per analysis run (unset = no cap); a
+//                   request can ask for a lower one with `budgetUsd`
+
+import type { AnalyzeResult } from "./types.ts";
+
+// Output cap for a single model call; answers that hit it are cut off.
+export const MAX_OUTPUT_TOKENS = 1024;
+
+// What one model call used. `estimated` = the provider didn't report
+// usage, so the counts are guessed from the text length.
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+};
+
+// USD per million tokens.
+export type ModelPrice = { input: number; output: number };
+
+export type PriceTable = Record<string, ModelPrice>;
+
+const DEFAULT_PRICES: PriceTable = {
+  "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+  "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet-latest": { input: 3, output: 15 },
+  "claude-3-opus-latest": { input: 15, output: 75 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "mock-fitscore-v1": { input: 0, output: 0 },
+};
+
+// Usage of one candidate: every model call for it, repairs and ensemble
+// passes included.
+export type CandidateUsage = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  // time spent waiting on the model, retry back-off not included
+  latencyMs: number;
+  // null when a model used has no price in the table
+  costUsd: number | null;
+  estimated: boolean;
+};
+
+// Totals for a whole run, as returned by /analyze. Cached results cost
+// nothing this time, so their usage isn't counted.
+export type RunUsage = {
+  candidates: number;
+  // answered from the analysis cache
+  cached: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number | null;
+  // candidates whose output hit MAX_OUTPUT_TOKENS
+  truncated: number;
+  budgetUsd: number | null;
+  // candidates not (fully) analyzed because the budget ran out
+  skipped: number;
+};
+
+export const EMPTY_USAGE: CandidateUsage = {
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  latencyMs: 0,
+  costUsd: 0,
+  estimated: false,
+};
+
+function isPrice(v: unknown): v is ModelPrice {
+  const p = v as ModelPrice;
+  return !!p && typeof p === "object" &&
+    typeof p.input === "number" && p.input >= 0 &&
+    typeof p.output === "number" && p.output >= 0;
+}
+
+export function readPriceTable(): PriceTable {
+  const raw = Deno.env.get("MODEL_PRICES");
+  if (!raw) return { ...DEFAULT_PRICES };
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const table = { ...DEFAULT_PRICES };
+    for (const [model, price] of Object.entries(parsed)) {
+      if (isPrice(price)) table[model] = price;
+      else console.warn(`⚠️ MODEL_PRICES: ignoring bad entry for "${model}"`);
+    }
+    return table;
+  } catch {
+    console.warn("⚠️ MODEL_PRICES is not valid JSON – using default prices");
+    return { ...DEFAULT_PRICES };
+  }
+}
+
+// Spending cap from RUN_BUDGET_USD, null when unset.
+export function readRunBudget(): number | null {
+  const v = Number(Deno.env.get("RUN_BUDGET_USD"));
+  return Number.isFinite(v) && v > 0 ? v : null;
+}
+
+// Rough token count for text the provider didn't count for us.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function costOf(
+  usage: Pick<TokenUsage, "inputTokens" | "outputTokens">,
+  price: ModelPrice | undefined,
+): number | null {
+  if (!price) return null;
+  return (usage.inputTokens * price.input +
+    usage.outputTokens * price.output) / 1_000_000;
+}
+
+// Worst case for one call: the whole prompt in, a full answer out.
+export function worstCaseCost(
+  prompt: string,
+  price: ModelPrice | undefined,
+): number | null {
+  return costOf(
+    { inputTokens: estimateTokens(prompt), outputTokens: MAX_OUTPUT_TOKENS },
+    price,
+  );
+}
+
+export function addUsage(
+  a: CandidateUsage,
+  b: CandidateUsage,
+): CandidateUsage {
+  return {
+    calls: a.calls + b.calls,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    latencyMs: a.latencyMs + b.latencyMs,
+    costUsd: a.costUsd === null || b.costUsd === null
+      ? null
+      : a.costUsd + b.costUsd,
+    estimated: a.estimated || b.estimated,
+  };
+}
+
+export function summarizeRun(
+  results: AnalyzeResult[],
+  budgetUsd: number | null,
+): RunUsage {
+  const total = results.reduce(
+    (sum, r) => r.cached ? sum : addUsage(sum, r.usage),
+    EMPTY_USAGE,
+  );
+  return {
+    candidates: results.length,
+    cached: results.filter((r) => r.cached).length,
+    calls: total.calls,
+    inputTokens: total.inputTokens,
+    outputTokens: total.outputTokens,
+    latencyMs: total.latencyMs,
+    costUsd: total.costUsd,
+    truncated: results.filter((r) => r.truncated).length,
+    budgetUsd,
+    skipped: results.filter((r) => r.budgetExceeded).length,
+  };
+}
+
+// --- budget ---
+
+export function budgetExceededError(limitUsd: number): Error {
+  const err = new Error(`Run budget of $${limitUsd} reached`);
+  err.name = "BudgetExceededError";
+  return err;
+}
+
+export function isBudgetExceeded(err: unknown): boolean {
+  return err instanceof Error && err.name === "BudgetExceededError";
+}
+
+// Spending cap for one run, shared by its concurrent candidates. Every
+// model call reserves its worst-case cost first and is refused if that
+// could go over; the reservation is swapped for the real cost afterwards.
+export function createBudget(limitUsd: number) {
+  let committed = 0;
+
+  return {
+    limitUsd,
+
+    // false = this call could push the run over the cap
+    reserve(worstCase: number | null): boolean {
+      // unpriced models can't be capped
+      if (worstCase === null) return true;
+      if (committed + worstCase > limitUsd) return false;
+      committed += worstCase;
+      return true;
+    },
+
+    settle(reserved: number | null, actual: number | null) {
+      committed += (actual ?? 0) - (reserved ?? 0);
+    },
+  };
+}
+
+export type Budget = ReturnType<typeof createBudget>;
@@ -0,0 +1,296 @@
+// webhooks.ts – outbound side of the ATS integration: results of inbound
+// applications are POSTed to a configurable URL, signed like the inbound
+// webhook (see ats.ts), retried with backoff, and every attempt is kept in
+// a delivery log in Deno KV.
+//
+//   ATS_CALLBACK_URL        where deliveries go (unset = none are sent)
+//   ATS_CALLBACK_SECRET     signing secret (default ATS_WEBHOOK_SECRET)
+//   ATS_CALLBACK_ATTEMPTS   tries per delivery (default 6, which spans
+//                           about five minutes of backoff)
+//
+// A 2xx answer is delivered. Network errors, timeouts, 408, 429 and 5xx
+// are retried; any other status is final, since sending the same body
+// again won't change it.
+
+import { signPayload } from "./ats.ts";
+import { withRetry } from "./concurrency.ts";
+import { isOwnedBy } from "./security.ts";
+import type { AnalyzeResult } from "./types.ts";
+
+export type WebhookEvent = "application.scored" | "application.failed";
+
+export type ApplicationPayload = {
+  event: WebhookEvent;
+  jobRef: string;
+  applicationId: string;
+  candidateId: string;
+  // the background job that scored it, and the saved run
+  jobId: string;
+  sessionId: string | null;
+  // null for application.failed
+  result: AnalyzeResult | null;
+  error: string | null;
+};
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export type DeliveryAttempt = {
+  at: string;
+  // HTTP status, null when there was no answer
+  status: number | null;
+  error: string | null;
+  durationMs: number;
+};
+
+export type Delivery = {
+  id: string;
+  // API key name the scored application belongs to (the posting's owner);
+  // only it can list or redeliver it
+  client: string;
+  createdAt: string;
+  updatedAt: string;
+  url: string;
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  payload: ApplicationPayload;
+};
+
+export type WebhookConfig = {
+  url: string | null;
+  secret: string | null;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+};
+
+export function readWebhookConfig(): WebhookConfig {
+  const attempts = Number(Deno.env.get("ATS_CALLBACK_ATTEMPTS"));
+  return {
+    url: Deno.env.get("ATS_CALLBACK_URL")?.trim() || null,
+    secret: Deno.env.get("ATS_CALLBACK_SECRET")?.trim() ||
+      Deno.env.get("ATS_WEBHOOK_SECRET")?.trim() || null,
+    maxAttempts: Number.isInteger(attempts) && attempts > 0 ? attempts : 6,
+    baseDelayMs: 10_000,
+    maxDelayMs: 10 * 60_000,
+    timeoutMs: 10_000,
+  };
+}
+
+const DELIVERY = "webhook_deliveries";
+const DELIVERY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// error bodies from the receiver are kept, but not all of them
+const MAX_ERROR_CHARS = 300;
+
+// Time-ordered ids, like background jobs: KV key order = creation order.
+function newDeliveryId(now: Date): string {
+  const rand = crypto.randomUUID().slice(0, 8);
+  return `${now.getTime().toString(36).padStart(9, "0")}-${rand}`;
+}
+
+export function createDeliveryLog(kv: Deno.Kv) {
+  return {
+    async create(
+      url: string,
+      payload: ApplicationPayload,
+      client: string,
+    ): Promise<Delivery> {
+      const now = new Date().toISOString();
+      const delivery: Delivery = {
+        id: newDeliveryId(new Date(now)),
+        client,
+        createdAt: now,
+        updatedAt: now,
+        url,
+        status: "pending",
+        attempts: [],
+        payload,
+      };
+      await kv.set([DELIVERY, delivery.id], delivery, {
+        expireIn: DELIVERY_TTL_MS,
+      });
+      return delivery;
+    },
+
+    async get(id: string): Promise<Delivery | null> {
+      return (await kv.get<Delivery>([DELIVERY, id])).value;
+    },
+
+    // Only the sender writes deliveries, one send per delivery at a time.
+    async put(delivery: Delivery): Promise<Delivery> {
+      const next = { ...delivery, updatedAt: new Date().toISOString() };
+      await kv.set([DELIVERY, delivery.id], next, {
+        expireIn: DELIVERY_TTL_MS,
+      });
+      return next;
+    },
+
+    // The client's deliveries, newest first.
+    async list(client: string, limit = 50): Promise<Delivery[]> {
+      const out: Delivery[] = [];
+      for await (
+        const entry of kv.list<Delivery>({ prefix: [DELIVERY] }, {
+          reverse: true,
+        })
+      ) {
+        if (!isOwnedBy(entry.value.client, client)) continue;
+        out.push(entry.value);
+        if (out.length >= limit) break;
+      }
+      return out;
+    },
+
+    async listPending(): Promise<Delivery[]> {
+      const out: Delivery[] = [];
+      for await (const entry of kv.list<Delivery>({ prefix: [DELIVERY] })) {
+        if (entry.value.status === "pending") out.push(entry.value);
+      }
+      return out;
+    },
+  };
+}
+
+export type DeliveryLog = ReturnType<typeof createDeliveryLog>;
+
+// `status` is the receiver's answer, null when there was none.
+function deliveryError(message: string, status: number | null): Error {
+  const err = Object.assign(new Error(message), { status });
+  err.name = "DeliveryError";
+  return err;
+}
+
+function isRetryableDelivery(err: unknown): boolean {
+  const status = (err as { status?: number | null }).status ?? null;
+  return status === null || status === 408 || status === 429 ||
+    status >= 500;
+}
+
+export function createWebhookSender(
+  log: DeliveryLog,
+  config: WebhookConfig,
+  fetchFn: typeof fetch = fetch,
+) {
+  // deliveries being sent by this process, so a redeliver doesn't race one
+  const inFlight = new Set<string>();
+
+  // One POST, logged; throws unless the receiver answered 2xx.
+  async function attempt(delivery: Delivery, body: string): Promise<void> {
+    const started = Date.now();
+    let status: number | null = null;
+    let error: string | null = null;
+    try {
+      const res = await fetchFn(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "FitScore-Webhooks/1",
+          "X-FitScore-Event": delivery.payload.event,
+          "X-FitScore-Delivery": delivery.id,
+          ...(config.secret ? await signPayload(config.secret, body) : {}),
+        },
+        body,
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+      status = res.status;
+      const text = await res.text().catch(() => "");
+      if (!res.ok) {
+        error = `HTTP ${res.status}${
+          text ? `: ${text.slice(0, MAX_ERROR_CHARS)}` : ""
+        }`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    delivery.attempts.push({
+      at: new Date(started).toISOString(),
+      status,
+      error,
+      durationMs: Date.now() - started,
+    });
+    await log.put(delivery);
+    if (error) throw deliveryError(error, status);
+  }
+
+  // Run a delivery to the end: delivered, or failed after the last retry.
+  async function run(delivery: Delivery): Promise<Delivery> {
+    if (inFlight.has(delivery.id)) return delivery;
+    inFlight.add(delivery.id);
+    const body = JSON.stringify({
+      ...delivery.payload,
+      deliveryId: delivery.id,
+    });
+    try {
+      await withRetry(() => attempt(delivery, body), {
+        retries: config.maxAttempts - 1,
+        baseDelayMs: config.baseDelayMs,
+        maxDelayMs: config.maxDelayMs,
+        isRetryable: isRetryableDelivery,
+        onRetry: (err, n, delayMs) =>
+          console.warn(
+            `⚠️ Webhook ${delivery.id} attempt ${n} failed (${
+              err instanceof Error ? err.message : String(err)
+            }), retrying in ${delayMs}ms`,
+          ),
+      });
+      delivery.status = "delivered";
+      console.log(`📨 Webhook ${delivery.id} delivered`);
+    } catch (err) {
+      delivery.status = "failed";
+      const tries = delivery.attempts.length;
+      console.error(
+        `❌ Webhook ${delivery.id} failed after ${tries} attempt(s): ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+      );
+    } finally {
+      inFlight.delete(delivery.id);
+    }
+    // runs in the background (see send), so nothing upstream would catch it
+    return await log.put(delivery).catch((err) => {
+      console.error(
+        `❌ Webhook ${delivery.id}: failed to log the outcome:`,
+        err,
+      );
+      return delivery;
+    });
+  }
+
+  return {
+    enabled: config.url !== null,
+    log,
+
+    // Log a delivery and send it in the background. Returns the logged
+    // delivery, or null when no callback URL is configured.
+    async send(
+      payload: ApplicationPayload,
+      client: string,
+    ): Promise<Delivery | null> {
+      if (!config.url) return null;
+      const delivery = await log.create(config.url, payload, client);
+      void run(delivery);
+      return delivery;
+    },
+
+    // Send a logged delivery of the client's again (with a fresh round of
+    // retries), in the background. Returns it as pending, or null if it
+    // has no such delivery.
+    async redeliver(id: string, client: string): Promise<Delivery | null> {
+      const delivery = await log.get(id);
+      if (!delivery || !isOwnedBy(delivery.client, client)) return null;
+      if (inFlight.has(id)) return delivery;
+      const pending = await log.put({ ...delivery, status: "pending" });
+      void run(pending);
+      return pending;
+    },
+
+    // Pick up deliveries a previous process didn't get to finish.
+    async resumePending(): Promise<number> {
+      const pending = await log.listPending();
+      pending.forEach((d) => void run(d));
+      return pending.length;
+    },
+  };
+}
+
+export type WebhookSender = ReturnType<typeof createWebhookSender>;
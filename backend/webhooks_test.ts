@@ -0,0 +1,140 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { startReceiver } from "./ats-stub.ts";
+import {
+  type ApplicationPayload,
+  createDeliveryLog,
+  createWebhookSender,
+  type Delivery,
+  type WebhookConfig,
+} from "./webhooks.ts";
+
+const SECRET = "test-secret";
+
+const PAYLOAD: ApplicationPayload = {
+  event: "application.failed",
+  jobRef: "eng-1",
+  applicationId: "app-1",
+  candidateId: "app-1",
+  jobId: "job-1",
+  sessionId: null,
+  result: null,
+  error: "Job failed",
+};
+
+function config(overrides: Partial<WebhookConfig>): WebhookConfig {
+  return {
+    url: null,
+    secret: SECRET,
+    maxAttempts: 3,
+    baseDelayMs: 1,
+    maxDelayMs: 5,
+    timeoutMs: 2_000,
+    ...overrides,
+  };
+}
+
+// Send one payload and wait until the sender is done with it.
+async function deliver(
+  cfg: WebhookConfig,
+): Promise<{ delivery: Delivery; kv: Deno.Kv }> {
+  const kv = await Deno.openKv(":memory:");
+  const log = createDeliveryLog(kv);
+  const sender = createWebhookSender(log, cfg);
+  const { id } = (await sender.send(PAYLOAD, "web"))!;
+  for (;;) {
+    const delivery = (await log.get(id))!;
+    if (delivery.status !== "pending") return { delivery, kv };
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+Deno.test("a delivery is signed and logged", async () => {
+  const receiver = startReceiver({ secret: SECRET });
+  const { delivery, kv } = await deliver(config({ url: receiver.url }));
+  await receiver.shutdown();
+  kv.close();
+
+  assertEquals(delivery.status, "delivered");
+  assertEquals(delivery.attempts.map((a) => a.status), [204]);
+  const [got] = receiver.received;
+  assertEquals(got.signatureError, null);
+  assertEquals(got.event, "application.failed");
+  assertEquals(got.deliveryId, delivery.id);
+  assertEquals(got.body.applicationId, "app-1");
+});
+
+Deno.test("server errors are retried", async () => {
+  const receiver = startReceiver({ secret: SECRET, failFirst: 2 });
+  const { delivery, kv } = await deliver(config({ url: receiver.url }));
+  await receiver.shutdown();
+  kv.close();
+
+  assertEquals(delivery.status, "delivered");
+  assertEquals(delivery.attempts.map((a) => a.status), [503, 503, 204]);
+  assertStringIncludes(delivery.attempts[0].error!, "failing on purpose");
+});
+
+Deno.test("a client error is final", async () => {
+  const receiver = startReceiver({ secret: "someone-else" });
+  const { delivery, kv } = await deliver(config({ url: receiver.url }));
+  await receiver.shutdown();
+  kv.close();
+
+  assertEquals(delivery.status, "failed");
+  assertEquals(delivery.attempts.map((a) => a.status), [401]);
+});
+
+Deno.test("an unreachable receiver fails after the last attempt", async () => {
+  const receiver = startReceiver();
+  await receiver.shutdown();
+  const { delivery, kv } = await deliver(config({ url: receiver.url }));
+  kv.close();
+
+  assertEquals(delivery.status, "failed");
+  assertEquals(delivery.attempts.map((a) => a.status), [null, null, null]);
+});
+
+Deno.test("nothing is sent without a callback URL", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const sender = createWebhookSender(createDeliveryLog(kv), config({}));
+  assertEquals(await sender.send(PAYLOAD, "web"), null);
+  kv.close();
+});
+
+Deno.test("deliveries are only listed and redelivered for their key", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const log = createDeliveryLog(kv);
+  const sender = createWebhookSender(log, config({}));
+  const mine = await log.create("http://localhost:1/", PAYLOAD, "web");
+  const theirs = await log.create("http://localhost:1/", PAYLOAD, "ats");
+
+  assertEquals((await log.list("web")).map((d) => d.id), [mine.id]);
+  assertEquals(await sender.redeliver(theirs.id, "web"), null);
+  kv.close();
+});
+
+Deno.test("a delivery log that can't be written doesn't crash the sender", async () => {
+  const receiver = startReceiver({ secret: SECRET });
+  const kv = await Deno.openKv(":memory:");
+  const log = createDeliveryLog(kv);
+  let puts = 0;
+  const broken = {
+    ...log,
+    put: () => {
+      puts++;
+      return Promise.reject(new Error("KV is down"));
+    },
+  };
+  const sender = createWebhookSender(
+    broken,
+    config({ url: receiver.url, maxAttempts: 1 }),
+  );
+
+  await sender.send(PAYLOAD, "web");
+  // the attempt's write, then the outcome's
+  while (puts < 2) await new Promise((resolve) => setTimeout(resolve, 5));
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  await receiver.shutdown();
+  kv.close();
+  assertEquals(receiver.received.length, 1);
+});
@@ -0,0 +1,506 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "./App.tsx";
+import type { AnalyzeResult } from "./types.ts";
+import { makeResult, runUsage, sseBody } from "./testdata/results.ts";
+
+type Route = (init: RequestInit | undefined) => Response;
+
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Stand-in backend: GET endpoints the app loads on start, plus whatever a
+// test adds. Unknown calls fail the way an unreachable backend would.
+function mockBackend(routes: Record<string, Route> = {}) {
+  const all: Record<string, Route> = {
+    "GET /health": () =>
+      jsonResponse({
+        status: "ok",
+        provider: "mock",
+        model: "mock-fitscore-v1",
+        limits: { maxRoles: 2 },
+      }),
+    "GET /profiles": () => jsonResponse({ profiles: [] }),
+    "GET /sessions": () => jsonResponse({ sessions: [] }),
+    ...routes,
+  };
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const key = `${init?.method ?? "GET"} ${new URL(url).pathname}`;
+    const route = all[key];
+    if (!route) throw new TypeError(`Failed to fetch (${key})`);
+    return route(init);
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+// GET /sessions/run-1: the run as the backend saved it, with each result
+// next to the (masked) resume text it was scored on.
+function savedRun(jd: string, candidates: [AnalyzeResult, string][]): Route {
+  return () =>
+    jsonResponse({
+      session: {
+        id: "run-1",
+        createdAt: "2025-06-01T00:00:00.000Z",
+        model: "mock-fitscore-v1",
+        jd,
+        candidates: candidates.map(([result, text]) => ({
+          resume: { id: result.id, text },
+          rawOutput: "",
+          result,
+        })),
+        decisions: {},
+      },
+    });
+}
+
+function resumeBoxes() {
+  return screen.getAllByPlaceholderText("Paste the full resume text here...");
+}
+
+function fillRun(jd: string, resumes: string[]) {
+  fireEvent.change(screen.getByPlaceholderText("Paste the JD here..."), {
+    target: { value: jd },
+  });
+  resumes.slice(1).forEach(() =>
+    fireEvent.click(screen.getByRole("button", { name: "+ Add Resume" })),
+  );
+  resumeBoxes().forEach((box, i) =>
+    fireEvent.change(box, { target: { value: resumes[i] } }),
+  );
+}
+
+function analyze() {
+  fireEvent.click(screen.getByRole("button", { name: "Analyze Resumes" }));
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("resume list", () => {
+  it("starts with one resume that can't be removed", () => {
+    mockBackend();
+    render(<App />);
+    expect(resumeBoxes()).toHaveLength(1);
+    expect(screen.queryByRole("button", { name: "Remove" })).toBeNull();
+  });
+
+  it("adds numbered resumes and removes the chosen one", () => {
+    mockBackend();
+    render(<App />);
+    const add = screen.getByRole("button", { name: "+ Add Resume" });
+    fireEvent.click(add);
+    fireEvent.click(add);
+
+    const labels = screen.getAllByPlaceholderText("Candidate name or label");
+    expect(labels.map((l) => (l as HTMLInputElement).value)).toEqual([
+      "Candidate 1",
+      "Candidate 2",
+      "Candidate 3",
+    ]);
+
+    fireEvent.click(screen.getAllByRole("button", { name: "Remove" })[1]);
+    expect(
+      screen
+        .getAllByPlaceholderText("Candidate name or label")
+        .map((l) => (l as HTMLInputElement).value),
+    ).toEqual(["Candidate 1", "Candidate 3"]);
+  });
+});
+
+describe("error states", () => {
+  it("asks for a JD before calling the backend", () => {
+    const fetchMock = mockBackend();
+    render(<App />);
+    analyze();
+    expect(screen.getByText("Paste the job description first.")).toBeTruthy();
+    expect(fetchMock).not.toHaveBeenCalledWith(
+      expect.stringContaining("/analyze"),
+      expect.anything(),
+    );
+  });
+
+  it("asks for a resume when all of them are empty", () => {
+    mockBackend();
+    render(<App />);
+    fillRun("Senior TypeScript engineer", ["   "]);
+    analyze();
+    expect(screen.getByText("Provide at least one resume.")).toBeTruthy();
+  });
+
+  it("shows the backend's error message", async () => {
+    mockBackend({
+      "POST /analyze/stream": () =>
+        jsonResponse({ error: "Unknown profile 'nope'" }, 400),
+    });
+    render(<App />);
+    fillRun("Senior TypeScript engineer", ["Alice"]);
+    analyze();
+    expect(await screen.findByText("Unknown profile 'nope'")).toBeTruthy();
+  });
+
+  it("says so when history can't be loaded", async () => {
+    mockBackend({
+      "GET /sessions": () => jsonResponse({ error: "down" }, 500),
+    });
+    render(<App />);
+    expect(
+      await screen.findByText("Couldn't load history. Is the backend running?"),
+    ).toBeTruthy();
+  });
+});
+
+describe("results", () => {
+  const alice = makeResult();
+  const bob = makeResult({
+    id: "bob.txt",
+    verdict: "Analysis failed — fallback verdict. Check backend logs.",
+    fitScore: null,
+    riskScore: null,
+    status: "failed",
+    attempts: 3,
+  });
+
+  it("sends the non-empty resumes and renders a row per result", async () => {
+    const fetchMock = mockBackend({
+      "POST /analyze/stream": () =>
+        new Response(sseBody([alice, bob]), {
+          headers: { "Content-Type": "text/event-stream" },
+        }),
+    });
+    render(<App />);
+    fillRun("Senior TypeScript engineer", ["Alice, TS", "", "Bob, Java"]);
+    analyze();
+
+    expect(await screen.findByText(alice.verdict)).toBeTruthy();
+    expect(screen.getByText(bob.verdict)).toBeTruthy();
+    expect(screen.getByText("Failed after 3 attempts")).toBeTruthy();
+
+    const call = fetchMock.mock.calls.find(([url]) =>
+      url.endsWith("/analyze/stream"),
+    );
+    const body = JSON.parse(call?.[1]?.body as string);
+    expect(body.resumes.map((r: { text: string }) => r.text)).toEqual([
+      "Alice, TS",
+      "Bob, Java",
+    ]);
+    await waitFor(() =>
+      expect(
+        screen.getByRole("button", { name: "Analyze Resumes" }),
+      ).toHaveProperty("disabled", false),
+    );
+  });
+
+  it("opens the full report for a row", async () => {
+    mockBackend({
+      "POST /analyze/stream": () => new Response(sseBody([alice])),
+    });
+    render(<App />);
+    fillRun("Senior TypeScript engineer", ["Alice, TS"]);
+    analyze();
+
+    const row = (await screen.findByText(alice.verdict)).closest("tr");
+    fireEvent.click(
+      within(row as HTMLElement).getByRole("button", {
+        name: "View full report",
+      }),
+    );
+    expect(screen.getByText("Full Report — alice.txt")).toBeTruthy();
+    expect(screen.getByText("Terraform")).toBeTruthy();
+  });
+
+  it("saves the reviewer's rating and outcome with the run", async () => {
+    const fetchMock = mockBackend({
+      "POST /analyze/stream": () => new Response(sseBody([alice], "run-1")),
+      "PUT /sessions/run-1/feedback": (init) => {
+        const body = JSON.parse(init?.body as string);
+        return jsonResponse({
+          feedback: {
+            [body.candidateId]: {
+              ...body,
+              sessionId: "run-1",
+              reviewer: "web",
+              updatedAt: "2025-01-01T00:00:00.000Z",
+              scored: { fitScore: alice.fitScore },
+            },
+          },
+        });
+      },
+    });
+    render(<App />);
+    fillRun("Senior TypeScript engineer", ["Alice, TS"]);
+    fireEvent.click(screen.getByLabelText("Calibrate with reviews"));
+    analyze();
+
+    const row = (await screen.findByText(alice.verdict)).closest("tr");
+    fireEvent.click(
+      within(row as HTMLElement).getByRole("button", {
+        name: "View full report",
+      }),
+    );
+    fireEvent.change(await screen.findByLabelText("Your rating"), {
+      target: { value: "5" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Rejected" }));
+    fireEvent.click(screen.getByRole("button", { name: "Save review" }));
+
+    expect(await screen.findByText(/Saved by web/)).toBeTruthy();
+    const put = fetchMock.mock.calls.find(([url]) =>
+      url.endsWith("/feedback"),
+    );
+    expect(JSON.parse(put?.[1]?.body as string)).toEqual({
+      candidateId: "alice.txt",
+      rating: 5,
+      outcome: "rejected",
+      note: "",
+    });
+    const run = fetchMock.mock.calls.find(([url]) =>
+      url.endsWith("/analyze/stream"),
+    );
+    expect(JSON.parse(run?.[1]?.body as string).calibrate).toBe(true);
+  });
+
+  it("builds the interview kit from what the run was scored on", async () => {
+    const scored = makeResult({ id: "Candidate 1" });
+    const saved = "[NAME], TS, reach me at [EMAIL]";
+    const fetchMock = mockBackend({
+      "POST /analyze/stream": () => new Response(sseBody([scored], "run-1")),
+      "GET /sessions/run-1": savedRun("Senior TypeScript engineer", [
+        [scored, saved],
+      ]),
+      "POST /interview-kit": () => jsonResponse({ error: "down" }, 502),
+    });
+    render(<App />);
+    fillRun("Senior TypeScript engineer", ["Alice, TS, alice@example.com"]);
+    analyze();
+
+    const row = (await screen.findByText(scored.verdict)).closest("tr");
+    fireEvent.change(screen.getByPlaceholderText("Paste the JD here..."), {
+      target: { value: "Data analyst, SQL" },
+    });
+    fireEvent.change(resumeBoxes()[0], {
+      target: { value: "Someone else entirely" },
+    });
+    fireEvent.click(
+      within(row as HTMLElement).getByRole("button", { name: "Interview kit" }),
+    );
+
+    await waitFor(() =>
+      expect(
+        fetchMock.mock.calls.some(([url]) => url.endsWith("/interview-kit")),
+      ).toBe(true),
+    );
+    const call = fetchMock.mock.calls.find(([url]) =>
+      url.endsWith("/interview-kit"),
+    );
+    const body = JSON.parse(call?.[1]?.body as string);
+    expect(body.jd).toBe("Senior TypeScript engineer");
+    expect(body.resume).toEqual({ id: "Candidate 1", text: saved });
+  });
+
+  it("compares candidates on what the run was scored on", async () => {
+    const first = makeResult({ id: "Candidate 1" });
+    const second = makeResult({ id: "Candidate 2", verdict: "Second pick" });
+    const fetchMock = mockBackend({
+      "POST /analyze/stream": () =>
+        new Response(sseBody([first, second], "run-1")),
+      "GET /sessions/run-1": savedRun("Senior TypeScript engineer", [
+        [first, "[NAME], TS"],
+        [second, "[NAME], TS, [PHONE]"],
+      ]),
+      "POST /compare": () => jsonResponse({ error: "down" }, 502),
+    });
+    render(<App />);
+    fillRun("Senior TypeScript engineer", ["Alice, TS", "Bob, TS, 612 345 678"]);
+    analyze();
+
+    await screen.findByText(second.verdict);
+    fireEvent.change(screen.getByPlaceholderText("Paste the JD here..."), {
+      target: { value: "Data analyst, SQL" },
+    });
+    fireEvent.change(resumeBoxes()[1], { target: { value: "Carol, SQL" } });
+    for (const box of screen.getAllByTitle(
+      "Select for a head-to-head comparison",
+    )) {
+      fireEvent.click(box);
+    }
+    fireEvent.click(screen.getByRole("button", { name: "Compare 2 selected" }));
+
+    await waitFor(() =>
+      expect(
+        fetchMock.mock.calls.some(([url]) => url.endsWith("/compare")),
+      ).toBe(true),
+    );
+    const call = fetchMock.mock.calls.find(([url]) =>
+      url.endsWith("/compare"),
+    );
+    const body = JSON.parse(call?.[1]?.body as string);
+    expect(body.jd).toBe("Senior TypeScript engineer");
+    expect(body.candidates).toEqual([
+      { id: "Candidate 1", text: "[NAME], TS" },
+      { id: "Candidate 2", text: "[NAME], TS, [PHONE]" },
+    ]);
+  });
+});
+
+describe("JD review", () => {
+  it("shows issues inline and swaps in the rewrite", async () => {
+    mockBackend({
+      "POST /jd/analyze": () =>
+        jsonResponse({
+          analysis: {
+            requirements: {
+              role: "Backend Engineer",
+              seniority: "junior",
+              location: "Remote",
+              mustHave: ["TypeScript"],
+              niceToHave: [],
+              stack: ["TypeScript", "Postgres"],
+            },
+            issues: [
+              {
+                kind: "contradiction",
+                severity: "high",
+                quote: "Junior",
+                explanation: "A junior role asking for 6+ years.",
+                suggestion: "Lower the years.",
+                source: "measured",
+              },
+            ],
+            rewrite: "# Backend Engineer\n- TypeScript",
+            model: "mock-fitscore-v1",
+            generatedAt: "2025-06-01T00:00:00.000Z",
+            parseStatus: "clean",
+            usage: makeResult().usage,
+          },
+        }),
+    });
+    render(<App />);
+    const jdBox = screen.getByPlaceholderText("Paste the JD here...");
+    fireEvent.change(jdBox, {
+      target: { value: "Junior backend engineer, 6+ years of TypeScript" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Check JD quality" }));
+
+    expect(await screen.findByText("Contradiction")).toBeTruthy();
+    expect(screen.getByText("Postgres")).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "Use this rewrite" }));
+    expect((jdBox as HTMLTextAreaElement).value).toBe(
+      "# Backend Engineer\n- TypeScript",
+    );
+    expect(
+      screen.getByText("The JD has changed since this review."),
+    ).toBeTruthy();
+  });
+});
+
+describe("matrix mode", () => {
+  const asBackend = makeResult({ verdict: "Good backend fit." });
+  const asData = makeResult({ fitScore: 5, verdict: "Weak on analytics." });
+
+  it("scores every JD tab and follows the tab in the results", async () => {
+    const fetchMock = mockBackend({
+      "POST /analyze": () =>
+        jsonResponse({
+          roles: [
+            {
+              id: "role-1",
+              name: "Backend",
+              profile: { id: "corespeed-founder", name: "CoreSpeed" },
+              results: [asBackend],
+              sessionId: "s-1",
+            },
+            {
+              id: "role-2",
+              name: "Data",
+              profile: { id: "corespeed-founder", name: "CoreSpeed" },
+              results: [asData],
+              sessionId: "s-2",
+            },
+          ],
+          matrix: {
+            roles: [
+              { id: "role-1", name: "Backend" },
+              { id: "role-2", name: "Data" },
+            ],
+            candidates: ["alice.txt"],
+            cells: [
+              [{ fitScore: 8, riskScore: 3, status: "ok" }],
+              [{ fitScore: 5, riskScore: 3, status: "ok" }],
+            ],
+            bestFit: [
+              {
+                candidateId: "alice.txt",
+                roleId: "role-1",
+                fitScore: 8,
+                margin: 3,
+              },
+            ],
+          },
+          usage: runUsage([asBackend, asData]),
+        }),
+    });
+    render(<App />);
+    fireEvent.click(await screen.findByRole("button", { name: "+ Role" }));
+    // as many roles as the backend takes
+    expect(screen.queryByRole("button", { name: "+ Role" })).toBeNull();
+    fireEvent.click(screen.getByRole("button", { name: "Role 1" }));
+    fillRun("Backend engineer, TypeScript", ["Alice, TS"]);
+    fireEvent.change(screen.getByLabelText("Role name"), {
+      target: { value: "Backend" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Role 2" }));
+    fireEvent.change(screen.getByLabelText("Role name"), {
+      target: { value: "Data" },
+    });
+    fireEvent.change(screen.getByPlaceholderText("Paste the JD here..."), {
+      target: { value: "Data analyst, SQL" },
+    });
+    analyze();
+
+    // the tab on screen when the run started
+    expect(await screen.findByText(asData.verdict)).toBeTruthy();
+    const heatmap = screen.getByText("Best fit").closest("table");
+    expect(within(heatmap as HTMLElement).getByText("(+3)")).toBeTruthy();
+
+    const call = fetchMock.mock.calls.find(([url]) =>
+      url.endsWith("/analyze"),
+    );
+    const body = JSON.parse(call?.[1]?.body as string);
+    expect(body.jd).toBeUndefined();
+    expect(body.jds).toEqual([
+      { id: "role-1", name: "Backend", jd: "Backend engineer, TypeScript" },
+      { id: "role-2", name: "Data", jd: "Data analyst, SQL" },
+    ]);
+
+    fireEvent.click(
+      within(heatmap as HTMLElement).getByRole("button", { name: "Backend" }),
+    );
+    expect(screen.getByText(asBackend.verdict)).toBeTruthy();
+    expect(screen.queryByText(asData.verdict)).toBeNull();
+    const jdBox = screen.getByPlaceholderText("Paste the JD here...");
+    expect((jdBox as HTMLTextAreaElement).value).toBe(
+      "Backend engineer, TypeScript",
+    );
+  });
+});
@@ -1,33 +1,640 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import ComparisonPanel from "./ComparisonPanel.tsx";
+import HistoryPanel from "./HistoryPanel.tsx";
+import InterviewKitPanel from "./InterviewKitPanel.tsx";
+import JdReviewPanel from "./JdReviewPanel.tsx";
+import MatrixHeatmap from "./MatrixHeatmap.tsx";
+import ProfilePicker from "./ProfilePicker.tsx";
+import RankingControls from "./RankingControls.tsx";
+import ReportPanel from "./ReportPanel.tsx";
+import ReviewForm from "./ReviewForm.tsx";
+import SkillMatrix from "./SkillMatrix.tsx";
+import { describeRedactions } from "./redactions.ts";
+import { describeRunUsage, totalUsage } from "./usage.ts";
+import {
+  DEFAULT_FILTERS,
+  DEFAULT_SORT,
+  DEFAULT_WEIGHTS,
+  rankResults,
+  type RankingFilters,
+  type RankingWeights,
+  type SortKey,
+  type SortState,
+} from "./ranking.ts";
+import type {
+  AnalysisSession,
+  AnalyzeResult,
+  BackendInfo,
+  CandidateDecision,
+  Comparison,
+  EnsembleConfig,
+  EnsembleMethod,
+  ExtractedFile,
+  FeedbackInput,
+  InterviewKit,
+  JdAnalysis,
+  JobView,
+  MatrixRun,
+  ProfileInput,
+  RedactionPreview,
+  ResumeInput,
+  ReviewerFeedback,
+  RoleProfile,
+  RunUsage,
+  SessionSummary,
+} from "./types.ts";
 
-import React, { useState } from "react";
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
+// must match one of the backend's FITSCORE_API_KEYS (unset = open backend)
+const API_TOKEN: string | undefined = import.meta.env.VITE_API_TOKEN;
 
+// fetch() for backend calls: adds the API token when one is configured.
+const apiFetch = (url: string, init: RequestInit = {}) => {
+  const headers = new Headers(init.headers);
+  if (API_TOKEN) headers.set("Authorization", `Bearer ${API_TOKEN}`);
+  return fetch(url, { ...init, headers });
+};
+
+// seeded by the backend; matches the original CoreSpeed prompt
+const DEFAULT_PROFILE_ID = "corespeed-founder";
 
-type ResumeInput = {
-  id: string;
-  text: string;
+// A row in the results table. Rows with `progress` are still streaming in;
+// `pass` is the ensemble pass currently running.
+type ResultRow = AnalyzeResult & {
+  progress?: "queued" | "running";
+  pass?: { index: number; total: number };
 };
 
-type AnalyzeResult = {
-  id: string;
-  verdict: string;
-  fitScore: number | null;
-  riskScore: number | null;
-  report: string;
+// Bigger batches run as a background job (POST /jobs) instead of one
+// long stream, so closing the tab doesn't lose them.
+const BACKGROUND_JOB_THRESHOLD = 10;
+const JOB_POLL_MS = 1500;
+// the job being tracked, so a reload picks it up again
+const JOB_STORAGE_KEY = "fitscore.jobId";
+
+// One JD tab. With two or more filled in, a run scores every resume
+// against each of them (matrix mode); `id` doubles as the backend role id.
+type JdTab = { id: string; name: string; jd: string };
+
+type JdTabs = { tabs: JdTab[]; active: number };
+
+function withActiveJd(s: JdTabs, fn: (current: string) => string): JdTabs {
+  return {
+    ...s,
+    tabs: s.tabs.map((t, i) => (i === s.active ? { ...t, jd: fn(t.jd) } : t)),
+  };
+}
+
+// Placeholder for a candidate that hasn't been analyzed yet.
+function pendingRow(
+  id: string,
+  profile: AnalyzeResult["profile"],
+  model: string,
+  progress?: ResultRow["progress"],
+): ResultRow {
+  return {
+    id,
+    fitScore: null,
+    riskScore: null,
+    verdict: "",
+    report: "",
+    alignment: [],
+    gaps: [],
+    redFlags: [],
+    missingSkills: [],
+    skills: [],
+    riskSignals: [],
+    redactions: [],
+    parseStatus: "clean",
+    profile,
+    model,
+    attempts: 0,
+    status: "ok",
+    usage: {
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: 0,
+      costUsd: 0,
+      estimated: false,
+    },
+    progress,
+  };
+}
+
+// Table rows for a job: finished results plus placeholders for the rest.
+function jobRows(job: JobView): ResultRow[] {
+  return job.candidates.map(
+    (c) =>
+      c.result ??
+      (c.status === "cancelled"
+        ? {
+            ...pendingRow(c.id, job.profile, ""),
+            verdict: "Cancelled before it was analyzed.",
+            status: "failed",
+          }
+        : pendingRow(
+            c.id,
+            job.profile,
+            "",
+            c.status === "running" ? "running" : "queued",
+          )),
+  );
+}
+
+// The masked resume text a saved run was scored on, by candidate id.
+function resumeTexts(session: AnalysisSession): Record<string, string> {
+  return Object.fromEntries(
+    session.candidates.map((c) => [c.resume.id, c.resume.text]),
+  );
+}
+
+// Events emitted by POST /analyze/stream (see backend/server.ts).
+type StreamEvent =
+  | {
+    type: "candidate-start";
+    id: string;
+    index: number;
+    total: number;
+    attempt: number;
+    pass?: { index: number; total: number; model: string };
+  }
+  | { type: "delta"; id: string; index: number; delta: string }
+  | { type: "result"; index: number; result: AnalyzeResult }
+  | {
+      type: "done";
+      count: number;
+      sessionId: string | null;
+      usage: RunUsage;
+    }
+  | { type: "error"; error: string };
+
+// Read a fetch body as Server-Sent Events and hand each parsed event over.
+async function readEventStream(
+  res: Response,
+  onEvent: (event: StreamEvent) => void,
+) {
+  if (!res.body) throw new Error("Streaming not supported by this browser.");
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // events are separated by a blank line
+    let sep = buffer.indexOf("\n\n");
+    while (sep !== -1) {
+      const chunk = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+      const data = chunk
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) onEvent(JSON.parse(data) as StreamEvent);
+      sep = buffer.indexOf("\n\n");
+    }
+  }
+}
+
+// Ensemble agreement shown under a score badge.
+const ConfidenceNote: React.FC<{ value: number | null | undefined }> = ({
+  value,
+}) =>
+  value === null || value === undefined ? null : (
+    <span
+      className={`mt-1 block text-[10px] ${
+        value < 0.7 ? "text-amber-300" : "text-slate-500"
+      }`}
+      title="1 = every run agreed"
+    >
+      conf {Math.round(value * 100)}%
+    </span>
+  );
+
+// Clickable column header; scores start high-to-low, everything else A–Z.
+const SortHeader: React.FC<{
+  label: string;
+  sortKey: SortKey;
+  sort: SortState;
+  onSort: (sort: SortState) => void;
+}> = ({ label, sortKey, sort, onSort }) => {
+  const active = sort.key === sortKey;
+  const firstDir =
+    sortKey === "composite" || sortKey === "fit" ? "desc" : "asc";
+  return (
+    <th className="px-3 py-2 text-left font-semibold border-b border-slate-800">
+      <button
+        type="button"
+        className={`hover:text-emerald-300 ${active ? "text-emerald-300" : ""}`}
+        onClick={() =>
+          onSort({
+            key: sortKey,
+            dir: active
+              ? sort.dir === "asc"
+                ? "desc"
+                : "asc"
+              : firstDir,
+          })
+        }
+      >
+        {label}
+        {active && (sort.dir === "asc" ? " ▲" : " ▼")}
+      </button>
+    </th>
+  );
 };
 
+const DECISION_BUTTONS: {
+  value: CandidateDecision;
+  label: string;
+  title: string;
+  activeClass: string;
+}[] = [
+  {
+    value: "shortlisted",
+    label: "✓",
+    title: "Shortlist",
+    activeClass: "border-emerald-400 bg-emerald-600/80 text-emerald-50",
+  },
+  {
+    value: "maybe",
+    label: "?",
+    title: "Maybe",
+    activeClass: "border-amber-400 bg-amber-500/80 text-amber-50",
+  },
+  {
+    value: "rejected",
+    label: "✗",
+    title: "Reject",
+    activeClass: "border-red-400 bg-red-500/80 text-red-50",
+  },
+];
+
 const App: React.FC = () => {
-  const [jd, setJd] = useState("");
+  const [jdTabs, setJdTabs] = useState<JdTabs>({
+    tabs: [{ id: "role-1", name: "Role 1", jd: "" }],
+    active: 0,
+  });
+  const activeTab = jdTabs.tabs[jdTabs.active];
+  const jd = activeTab.jd;
+  const setJd = (value: string) =>
+    setJdTabs((s) => withActiveJd(s, () => value));
+  // the last matrix run, which of its roles the table shows, and the
+  // decisions made on the others (each role is its own saved session)
+  const [matrix, setMatrix] = useState<{
+    run: MatrixRun;
+    roleId: string;
+    decisions: Record<string, Partial<Record<string, CandidateDecision>>>;
+    // role id → the JD it was scored against
+    jds: Record<string, string>;
+  } | null>(null);
+  // JD review, for the JD text it was run on
+  const [jdReview, setJdReview] = useState<{
+    jd: string;
+    result: JdAnalysis | null;
+    loading: boolean;
+    error: string | null;
+  } | null>(null);
   const [resumes, setResumes] = useState<ResumeInput[]>([
     { id: "Candidate 1", text: "" },
   ]);
-  const [results, setResults] = useState<AnalyzeResult[]>([]);
+  const [results, setResults] = useState<ResultRow[]>([]);
+  // the JD the results on screen were scored against; the editor may have
+  // moved on since
+  const [runJd, setRunJd] = useState("");
+  // the masked resume text each result was scored on, as saved with the
+  // run; loaded when an interview kit first needs it
+  const [runResumes, setRunResumes] = useState<{
+    sessionId: string;
+    texts: Record<string, string>;
+  } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  // interview kits by candidate id, for the results on screen
+  const [kits, setKits] = useState<Record<string, InterviewKit>>({});
+  const [kitId, setKitId] = useState<string | null>(null);
+  const [kitLoading, setKitLoading] = useState(false);
+  const [kitError, setKitError] = useState<string | null>(null);
+  // rows ticked for a head-to-head comparison, and the one on screen
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<{
+    ids: string[];
+    result: Comparison | null;
+    loading: boolean;
+    error: string | null;
+  } | null>(null);
+
+  // saved runs (backend history)
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [activeSession, setActiveSession] = useState<{
+    id: string;
+    createdAt: string | null;
+  } | null>(null);
+
+  // ranking: composite weights, hard filters, sort, recruiter decisions
+  const [weights, setWeights] = useState<RankingWeights>(DEFAULT_WEIGHTS);
+  const [filters, setFilters] = useState<RankingFilters>(DEFAULT_FILTERS);
+  const [sort, setSort] = useState<SortState>(DEFAULT_SORT);
+  const [decisions, setDecisions] = useState<
+    Partial<Record<string, CandidateDecision>>
+  >({});
+  // reviewer feedback by session id, then candidate id, so it follows the
+  // role tabs of a matrix run
+  const [feedback, setFeedback] = useState<
+    Record<string, Partial<Record<string, ReviewerFeedback>>>
+  >({});
+  const [feedbackSaving, setFeedbackSaving] = useState(false);
+
+  // model backend, for the header badge
+  const [backend, setBackend] = useState<BackendInfo | null>(null);
+
+  useEffect(() => {
+    apiFetch(`${API_BASE_URL}/health`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: BackendInfo | null) => setBackend(data))
+      .catch(() => setBackend(null));
+  }, []);
+
+  // blind screening: also mask names, pronouns, schools, graduation years
+  const [blind, setBlind] = useState(false);
+  // show the model reviewed candidates of the profile as calibration
+  const [calibrate, setCalibrate] = useState(false);
+  // masked text for one resume, from POST /redact
+  const [preview, setPreview] = useState<
+    (RedactionPreview & { index: number }) | null
+  >(null);
+
+  // background job: opt-in, or automatic for big batches. `jobId` is the
+  // job being polled; it survives reloads via localStorage.
+  const [backgroundJob, setBackgroundJob] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(() =>
+    localStorage.getItem(JOB_STORAGE_KEY),
+  );
+  const [job, setJob] = useState<JobView | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  // spending cap for the next run (USD, empty = backend default), and the
+  // cap the shown run actually had
+  const [budget, setBudget] = useState("");
+  const [runBudget, setRunBudget] = useState<number | null>(null);
+
+  // ensemble mode: score each candidate several times and combine
+  const [ensembleOn, setEnsembleOn] = useState(false);
+  const [ensembleRuns, setEnsembleRuns] = useState(3);
+  const [ensembleMethod, setEnsembleMethod] =
+    useState<EnsembleMethod>("median");
+  const [ensembleModels, setEnsembleModels] = useState("");
+
+  // role profiles
+  const [profiles, setProfiles] = useState<RoleProfile[]>([]);
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const res = await apiFetch(`${API_BASE_URL}/profiles`);
+      if (!res.ok) throw new Error(`Profiles request failed with ${res.status}`);
+      const data = (await res.json()) as { profiles: RoleProfile[] };
+      setProfiles(data.profiles);
+    } catch (err) {
+      // the picker falls back to the default profile
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchProfiles();
+  }, [fetchProfiles]);
+
+  const saveProfile = async (input: ProfileInput) => {
+    const res = await apiFetch(`${API_BASE_URL}/profiles`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(data.error || `Request failed with ${res.status}`);
+    }
+    const saved = (data as { profile: RoleProfile }).profile;
+    setProfiles((prev) =>
+      [...prev.filter((p) => p.id !== saved.id), saved].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    );
+    setProfileId(saved.id);
+  };
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const res = await apiFetch(`${API_BASE_URL}/sessions`);
+      if (!res.ok) throw new Error(`History request failed with ${res.status}`);
+      const data = (await res.json()) as { sessions: SessionSummary[] };
+      setSessions(data.sessions);
+      setHistoryError(null);
+    } catch (err) {
+      console.error(err);
+      setHistoryError("Couldn't load history. Is the backend running?");
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, []);
+
+  const refreshSessions = () => {
+    setHistoryLoading(true);
+    void fetchSessions();
+  };
+
+  useEffect(() => {
+    void fetchSessions();
+  }, [fetchSessions]);
+
+  // Poll the tracked job until it's over, filling the table as candidates
+  // finish; the finished run then opens like any saved one.
+  useEffect(() => {
+    if (!jobId) return;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const stopTracking = () => {
+      localStorage.removeItem(JOB_STORAGE_KEY);
+      setJobId(null);
+      setCancelling(false);
+    };
+
+    const poll = async () => {
+      try {
+        const res = await apiFetch(
+          `${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`,
+        );
+        const data = await res.json().catch(() => ({}));
+        if (stopped) return;
+        if (res.status === 404) {
+          // expired, or started with another API key
+          stopTracking();
+          setJob(null);
+          return;
+        }
+        if (!res.ok) {
+          throw new Error(data.error || `Job request failed with ${res.status}`);
+        }
+
+        const view = (data as { job: JobView }).job;
+        setJob(view);
+        setRunBudget(view.usage.budgetUsd);
+        setJdTabs((s) => withActiveJd(s, (current) => current || view.jd));
+        setRunJd(view.jd);
+        setProfileId(view.profile.id);
+        setResults(jobRows(view));
+        if (view.status !== "queued" && view.status !== "running") {
+          stopTracking();
+          if (view.status === "failed") {
+            setError(view.error || "The background job failed.");
+          }
+          if (view.sessionId) {
+            setActiveSession({ id: view.sessionId, createdAt: null });
+            void fetchSessions();
+          }
+          return;
+        }
+      } catch (err) {
+        // keep polling through backend hiccups
+        console.error(err);
+      }
+      if (!stopped) timer = setTimeout(() => void poll(), JOB_POLL_MS);
+    };
+
+    void poll();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [jobId, fetchSessions]);
+
+  const cancelJob = async () => {
+    if (!jobId) return;
+    setCancelling(true);
+    try {
+      const res = await apiFetch(
+        `${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`,
+        { method: "DELETE" },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+      // polling picks up the final status
+      setJob((data as { job: JobView }).job);
+    } catch (err) {
+      console.error(err);
+      setCancelling(false);
+      setError(
+        (err instanceof Error && err.message) || "Couldn't cancel the job.",
+      );
+    }
+  };
+
+  const openSession = async (id: string) => {
+    if (loading || jobId) return;
+    setError(null);
+    try {
+      const res = await apiFetch(
+        `${API_BASE_URL}/sessions/${encodeURIComponent(id)}`,
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+
+      const session = (data as { session: AnalysisSession }).session;
+      setMatrix(null);
+      setJd(session.jd);
+      setRunJd(session.jd);
+      setResumes(session.candidates.map((c) => c.resume));
+      setRunResumes({ sessionId: session.id, texts: resumeTexts(session) });
+      setResults(session.candidates.map((c) => c.result));
+      setDecisions(session.decisions ?? {});
+      setFeedback((f) => ({ ...f, [session.id]: session.feedback ?? {} }));
+      setRunBudget(null);
+      const usedProfile = session.candidates[0]?.result.profile;
+      if (usedProfile) setProfileId(usedProfile.id);
+      setExpandedId(null);
+      setKits({});
+      setKitId(null);
+      setCompareIds([]);
+      setComparison(null);
+      setActiveSession({ id: session.id, createdAt: session.createdAt });
+    } catch (err) {
+      console.error(err);
+      setError(
+        (err instanceof Error && err.message) || "Couldn't open that run.",
+      );
+    }
+  };
+
+  // Switch JD tab. After a matrix run the results follow the tab, so kits,
+  // comparisons and decisions always refer to the JD on screen.
+  const selectRole = (roleId: string) => {
+    const index = jdTabs.tabs.findIndex((t) => t.id === roleId);
+    if (index !== -1) setJdTabs((s) => ({ ...s, active: index }));
+    setJdReview(null);
+
+    const role = matrix?.run.roles.find((r) => r.id === roleId);
+    if (!matrix || !role || role.id === matrix.roleId || loading) return;
+    const stashed = { ...matrix.decisions, [matrix.roleId]: decisions };
+    setMatrix({ ...matrix, roleId: role.id, decisions: stashed });
+    setResults(role.results);
+    setRunJd(matrix.jds[role.id] ?? "");
+    setDecisions(stashed[role.id] ?? {});
+    setExpandedId(null);
+    setKits({});
+    setKitId(null);
+    setCompareIds([]);
+    setComparison(null);
+    setActiveSession(
+      role.sessionId ? { id: role.sessionId, createdAt: null } : null,
+    );
+  };
+
+  const addRole = () => {
+    setJdReview(null);
+    setJdTabs((s) => {
+      const n =
+        Math.max(0, ...s.tabs.map((t) => Number(t.id.slice(5)) || 0)) + 1;
+      return {
+        tabs: [...s.tabs, { id: `role-${n}`, name: `Role ${n}`, jd: "" }],
+        active: s.tabs.length,
+      };
+    });
+  };
+
+  const renameRole = (name: string) => {
+    setJdTabs((s) => ({
+      ...s,
+      tabs: s.tabs.map((t, i) => (i === s.active ? { ...t, name } : t)),
+    }));
+  };
+
+  const removeRole = (index: number) => {
+    setJdReview(null);
+    setJdTabs((s) => ({
+      tabs: s.tabs.filter((_, i) => i !== index),
+      active: Math.min(
+        s.active > index ? s.active - 1 : s.active,
+        s.tabs.length - 2,
+      ),
+    }));
+  };
 
   const updateResume = (index: number, field: "id" | "text", value: string) => {
+    setPreview(null);
     setResumes((prev) => {
       const copy = [...prev];
       copy[index] = { ...copy[index], [field]: value };
@@ -43,15 +650,113 @@ const App: React.FC = () => {
   };
 
   const removeResume = (index: number) => {
+    setPreview(null);
     setResumes((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const handleAnalyze = async () => {
+  const togglePreview = async (index: number) => {
+    if (preview?.index === index) {
+      setPreview(null);
+      return;
+    }
+    try {
+      const res = await apiFetch(`${API_BASE_URL}/redact`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: resumes[index].text, blind }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+      setPreview({ ...(data as RedactionPreview), index });
+    } catch (err) {
+      console.error(err);
+      setError(
+        (err instanceof Error && err.message) ||
+          "Couldn't preview redaction.",
+      );
+    }
+  };
+
+  // resume file upload (drag & drop or picker)
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [dragOver, setDragOver] = useState(false);
+  const [uploadErrors, setUploadErrors] = useState<
+    { fileName: string; error: string }[]
+  >([]);
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setUploading(true);
+    setUploadErrors([]);
+
+    try {
+      const form = new FormData();
+      for (const f of files) form.append("files", f);
+
+      const res = await apiFetch(`${API_BASE_URL}/extract`, {
+        method: "POST",
+        body: form,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Upload failed with ${res.status}`);
+      }
+
+      const extracted = (data as { files: ExtractedFile[] }).files;
+      const ok = extracted.filter((f) => !f.error);
+      setUploadErrors(
+        extracted
+          .filter((f) => f.error)
+          .map((f) => ({ fileName: f.fileName, error: f.error as string })),
+      );
+
+      if (ok.length > 0) {
+        setResumes((prev) => {
+          // replace the untouched starter block instead of appending to it
+          const kept = prev.filter((r) => r.text.trim().length > 0);
+          return [...kept, ...ok.map((f) => ({ id: f.id, text: f.text }))];
+        });
+      }
+    } catch (err) {
+      console.error(err);
+      setUploadErrors(
+        files.map((f) => ({
+          fileName: f.name,
+          error:
+            (err instanceof Error && err.message) || "Upload failed.",
+        })),
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    void uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // `forceIds`: candidates to re-analyze even if the backend has them cached
+  const handleAnalyze = async (forceIds: string[] = []) => {
     setError(null);
     setResults([]);
+    setDecisions({});
+    setRunBudget(null);
     setExpandedId(null);
+    setKits({});
+    setKitId(null);
+    setCompareIds([]);
+    setComparison(null);
+    setActiveSession(null);
+    setMatrix(null);
 
-    if (!jd.trim()) {
+    const filledTabs = jdTabs.tabs.filter((t) => t.jd.trim());
+    const matrixMode = filledTabs.length > 1;
+    if (!matrixMode && !jd.trim()) {
       setError("Paste the job description first.");
       return;
     }
@@ -62,16 +767,105 @@ const App: React.FC = () => {
       return;
     }
 
+    const body = JSON.stringify({
+      ...(matrixMode
+        ? {
+            jds: filledTabs.map((t) => ({
+              id: t.id,
+              name: t.name.trim() || t.id,
+              jd: t.jd,
+            })),
+          }
+        : { jd }),
+      resumes: nonEmptyResumes.map((r) => ({
+        ...r,
+        force: r.force || forceIds.includes(r.id) || undefined,
+      })),
+      profileId,
+      blind,
+      calibrate: calibrate || undefined,
+      budgetUsd: Number(budget) > 0 ? Number(budget) : undefined,
+      ensemble: ensembleOn
+        ? ({
+            runs: ensembleRuns,
+            method: ensembleMethod,
+            models: ensembleModels
+              .split(",")
+              .map((m) => m.trim())
+              .filter(Boolean),
+          } satisfies EnsembleConfig)
+        : undefined,
+    });
+
     setLoading(true);
+    setRunJd(matrixMode ? "" : jd);
+    // a forced re-run is a one-off
+    setResumes((prev) => prev.map((r) => ({ ...r, force: undefined })));
     try {
-      const res = await fetch(`${API_BASE_URL}/analyze`, {
+      if (matrixMode) {
+        // several roles: one plain request, no stream or background job
+        const res = await apiFetch(`${API_BASE_URL}/analyze`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(data.error || `Request failed with ${res.status}`);
+        }
+        const run = data as MatrixRun;
+        const shown =
+          run.roles.find((r) => r.id === activeTab.id) ?? run.roles[0];
+        const jds = Object.fromEntries(filledTabs.map((t) => [t.id, t.jd]));
+        setMatrix({ run, roleId: shown.id, decisions: {}, jds });
+        setRunJd(jds[shown.id] ?? "");
+        setJdTabs((s) => ({
+          ...s,
+          active: Math.max(
+            0,
+            s.tabs.findIndex((t) => t.id === shown.id),
+          ),
+        }));
+        setResults(shown.results);
+        setRunBudget(run.usage.budgetUsd);
+        if (shown.sessionId) {
+          setActiveSession({ id: shown.sessionId, createdAt: null });
+        }
+        void fetchSessions();
+        return;
+      }
 
+      if (
+        backgroundJob ||
+        nonEmptyResumes.length > BACKGROUND_JOB_THRESHOLD
+      ) {
+        const res = await apiFetch(`${API_BASE_URL}/jobs`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(data.error || `Request failed with ${res.status}`);
+        }
+        const { jobId: id, job: created } = data as {
+          jobId: string;
+          job: JobView;
+        };
+        localStorage.setItem(JOB_STORAGE_KEY, id);
+        setJob(created);
+        setResults(jobRows(created));
+        setJobId(id);
+        return;
+      }
+
+      const res = await apiFetch(`${API_BASE_URL}/analyze/stream`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jd,
-          resumes: nonEmptyResumes,
-        }),
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body,
       });
 
       if (!res.ok) {
@@ -79,16 +873,346 @@ const App: React.FC = () => {
         throw new Error(data.error || `Request failed with ${res.status}`);
       }
 
-      const data = (await res.json()) as { results: AnalyzeResult[] };
-      setResults(data.results);
-    } catch (err: any) {
+      // Candidates run concurrently on the backend, so show everyone as
+      // queued up front and fill rows in by stream index as events arrive.
+      const profile = {
+        id: profileId,
+        name: profiles.find((p) => p.id === profileId)?.name ?? "",
+      };
+      setResults(
+        nonEmptyResumes.map((r) =>
+          pendingRow(r.id, profile, backend?.model ?? "", "queued"),
+        ),
+      );
+      const updateRow = (index: number, fn: (row: ResultRow) => ResultRow) =>
+        setResults((prev) =>
+          prev.map((row, i) => (i === index ? fn(row) : row)),
+        );
+
+      await readEventStream(res, (event) => {
+        switch (event.type) {
+          case "candidate-start":
+            // a retry starts over, so drop any partial output
+            updateRow(event.index, (row) => ({
+              ...row,
+              report: "",
+              attempts: event.attempt,
+              progress: "running",
+              pass: event.pass,
+            }));
+            break;
+          case "delta":
+            updateRow(event.index, (row) => ({
+              ...row,
+              report: row.report + event.delta,
+            }));
+            break;
+          case "result":
+            updateRow(event.index, () => event.result);
+            break;
+          case "done":
+            setRunBudget(event.usage.budgetUsd);
+            if (event.sessionId) {
+              setActiveSession({ id: event.sessionId, createdAt: null });
+              void fetchSessions();
+            }
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
+      });
+    } catch (err) {
       console.error(err);
-      setError(err.message || "Something went wrong.");
+      setError(
+        (err instanceof Error && err.message) || "Something went wrong.",
+      );
     } finally {
       setLoading(false);
     }
   };
 
+  // Saved with the run; clicking the active decision clears it.
+  const setDecision = async (candidateId: string, value: CandidateDecision) => {
+    if (!activeSession) return;
+    const previous = decisions;
+    const next = previous[candidateId] === value ? null : value;
+    setDecisions((d) => ({ ...d, [candidateId]: next ?? undefined }));
+
+    try {
+      const res = await apiFetch(
+        `${API_BASE_URL}/sessions/${encodeURIComponent(
+          activeSession.id,
+        )}/decisions`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ candidateId, decision: next }),
+        },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+      setDecisions(data.decisions ?? {});
+    } catch (err) {
+      console.error(err);
+      setDecisions(previous);
+      setError(
+        (err instanceof Error && err.message) || "Couldn't save decision.",
+      );
+    }
+  };
+
+  const saveFeedback = async (candidateId: string, input: FeedbackInput) => {
+    if (!activeSession) return;
+    const sessionId = activeSession.id;
+    setFeedbackSaving(true);
+    try {
+      const res = await apiFetch(
+        `${API_BASE_URL}/sessions/${encodeURIComponent(sessionId)}/feedback`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ candidateId, ...input }),
+        },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+      setFeedback((f) => ({ ...f, [sessionId]: data.feedback ?? {} }));
+    } catch (err) {
+      console.error(err);
+      setError(
+        (err instanceof Error && err.message) || "Couldn't save the review.",
+      );
+    } finally {
+      setFeedbackSaving(false);
+    }
+  };
+
+  // Downloads go through fetch so the API token is sent; the HTML
+  // shortlist opens in a new tab for printing.
+  const exportRun = async (format: "csv" | "json" | "html") => {
+    if (!activeSession) return;
+    // open the tab now, while we're still inside the click
+    const tab = format === "html" ? window.open("", "_blank") : null;
+    try {
+      const res = await apiFetch(
+        `${API_BASE_URL}/sessions/${encodeURIComponent(
+          activeSession.id,
+        )}/export?format=${format}`,
+      );
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+      const url = URL.createObjectURL(await res.blob());
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `fitscore-${activeSession.id}.${format}`;
+        link.click();
+      }
+      // give the tab / download a moment before freeing the blob
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err) {
+      tab?.close();
+      console.error(err);
+      setError((err instanceof Error && err.message) || "Export failed.");
+    }
+  };
+
+  // The saved resume text of the run on screen, by candidate id.
+  const loadRunResumes = async (): Promise<Record<string, string>> => {
+    if (!activeSession) throw new Error("This run hasn't been saved.");
+    if (runResumes?.sessionId === activeSession.id) return runResumes.texts;
+    const res = await apiFetch(
+      `${API_BASE_URL}/sessions/${encodeURIComponent(activeSession.id)}`,
+    );
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(data.error || `Request failed with ${res.status}`);
+    }
+    const texts = resumeTexts((data as { session: AnalysisSession }).session);
+    setRunResumes({ sessionId: activeSession.id, texts });
+    return texts;
+  };
+
+  // Open the interview kit for a candidate, generating it on first open
+  // (or again with `regenerate`).
+  const openInterviewKit = async (r: AnalyzeResult, regenerate = false) => {
+    setKitId(r.id);
+    setKitError(null);
+    if (kits[r.id] && !regenerate) return;
+
+    setKitLoading(true);
+    try {
+      const text = (await loadRunResumes())[r.id];
+      if (text === undefined) {
+        throw new Error("This candidate's resume isn't in the saved run.");
+      }
+      const res = await apiFetch(`${API_BASE_URL}/interview-kit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jd: runJd,
+          resume: { id: r.id, text },
+          analysis: r,
+          profileId: r.profile?.id,
+          blind: r.blind === true,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+      const kit = (data as { kit: InterviewKit }).kit;
+      setKits((prev) => ({ ...prev, [r.id]: kit }));
+    } catch (err) {
+      console.error(err);
+      setKitError(
+        (err instanceof Error && err.message) ||
+          "Couldn't generate the interview kit.",
+      );
+    } finally {
+      setKitLoading(false);
+    }
+  };
+
+  // Check the JD before scoring anyone against it.
+  const reviewJd = async () => {
+    const text = jd.trim();
+    if (!text) {
+      setJdReview({
+        jd: "",
+        result: null,
+        loading: false,
+        error: "Paste the job description first.",
+      });
+      return;
+    }
+    setJdReview({ jd: text, result: null, loading: true, error: null });
+    try {
+      const res = await apiFetch(`${API_BASE_URL}/jd/analyze`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jd: text, profileId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+      const analysis = (data as { analysis: JdAnalysis }).analysis;
+      setJdReview({ jd: text, result: analysis, loading: false, error: null });
+    } catch (err) {
+      console.error(err);
+      setJdReview({
+        jd: text,
+        result: null,
+        loading: false,
+        error:
+          (err instanceof Error && err.message) || "Couldn't review the JD.",
+      });
+    }
+  };
+
+  // Send the ticked candidates to the model together, ranked relative to
+  // each other.
+  const compareSelected = async () => {
+    const ids = compareIds;
+    const first = results.find((r) => r.id === ids[0]);
+    setComparison({ ids, result: null, loading: true, error: null });
+    try {
+      const texts = await loadRunResumes();
+      if (ids.some((id) => texts[id] === undefined)) {
+        throw new Error("Some of these resumes aren't in the saved run.");
+      }
+      const res = await apiFetch(`${API_BASE_URL}/compare`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jd: runJd,
+          candidates: ids.map((id) => ({ id, text: texts[id] })),
+          profileId: first?.profile?.id,
+          blind: first?.blind === true,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+      const result = (data as { comparison: Comparison }).comparison;
+      setComparison({ ids, result, loading: false, error: null });
+    } catch (err) {
+      console.error(err);
+      setComparison({
+        ids,
+        result: null,
+        loading: false,
+        error:
+          (err instanceof Error && err.message) ||
+          "Couldn't compare these candidates.",
+      });
+    }
+  };
+
+  // Same download / print-tab handling as exportRun.
+  const exportKit = async (kit: InterviewKit, format: "markdown" | "html") => {
+    const tab = format === "html" ? window.open("", "_blank") : null;
+    try {
+      const res = await apiFetch(
+        `${API_BASE_URL}/interview-kit/export?format=${format}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ kit }),
+        },
+      );
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `Request failed with ${res.status}`);
+      }
+      const url = URL.createObjectURL(await res.blob());
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `interview-kit-${kit.candidateId}.md`;
+        link.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err) {
+      tab?.close();
+      console.error(err);
+      setKitError((err instanceof Error && err.message) || "Export failed.");
+    }
+  };
+
+  const ranked = rankResults(results, {
+    weights,
+    filters,
+    sort,
+    decisions,
+    pending: (r) => !!r.progress,
+  });
+  const shownRole = matrix?.run.roles.find((r) => r.id === matrix.roleId);
+  // a matrix run reports the total over all its roles
+  const runUsage = describeRunUsage(
+    matrix
+      ? matrix.run.usage
+      : totalUsage(
+          results.filter((r) => !r.progress),
+          runBudget,
+        ),
+  );
+  const skillNames = (
+    results.find((r) => r.skills.length > 0)?.skills ?? []
+  ).map((m) => m.skill);
+
   const scoreBadgeClass = (score: number | null, type: "fit" | "risk") => {
     if (score === null) return "bg-slate-700 text-slate-200";
     if (type === "fit") {
@@ -120,11 +1244,28 @@ const App: React.FC = () => {
             </p>
           </div>
           <div className="inline-flex items-center gap-2 rounded-full bg-slate-900/60 border border-slate-700 px-4 py-2 text-xs text-slate-300">
-            <span className="inline-flex h-2 w-2 rounded-full bg-emerald-500 mr-1" />
-            Powered by Zypher + Claude 3 Haiku
+            <span
+              className={`inline-flex h-2 w-2 rounded-full mr-1 ${
+                backend ? "bg-emerald-500" : "bg-slate-500"
+              }`}
+            />
+            {!backend
+              ? "Backend offline"
+              : backend.provider === "mock"
+                ? `Offline mock provider (${backend.model})`
+                : `Powered by Zypher + ${backend.model}`}
           </div>
         </header>
 
+        <HistoryPanel
+          sessions={sessions}
+          activeId={activeSession?.id ?? null}
+          loading={historyLoading}
+          error={historyError}
+          onOpen={openSession}
+          onRefresh={refreshSessions}
+        />
+
         {/* JD + Resumes */}
         <div className="grid gap-6 md:grid-cols-2">
           {/* JD card */}
@@ -133,19 +1274,108 @@ const App: React.FC = () => {
               Job Description
             </h2>
             <p className="text-xs text-slate-400 mb-3">
-              Paste the CoreSpeed Senior Full-Stack / Agent Infra JD here, or
-              any other role you want to test.
+              Paste the JD for any role you want to test, and pick the role
+              profile (persona, skills, rubric, tone) to score it with. Add a
+              tab per open role to score the same resumes against each.
             </p>
+            <ProfilePicker
+              profiles={profiles}
+              selectedId={profileId}
+              onSelect={setProfileId}
+              onSave={saveProfile}
+              sharedId={DEFAULT_PROFILE_ID}
+            />
+            <div className="flex flex-wrap items-center gap-1 mb-2 text-xs">
+              {jdTabs.tabs.map((tab, i) => (
+                <span
+                  key={tab.id}
+                  className={`inline-flex items-center rounded-full border ${
+                    i === jdTabs.active
+                      ? "border-emerald-500 bg-emerald-500/10 text-emerald-200"
+                      : "border-slate-700 text-slate-300"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => selectRole(tab.id)}
+                    className="px-3 py-0.5"
+                  >
+                    {tab.name.trim() || tab.id}
+                  </button>
+                  {jdTabs.tabs.length > 1 && (
+                    <button
+                      type="button"
+                      aria-label={`Remove ${tab.name}`}
+                      onClick={() => removeRole(i)}
+                      className="pr-2 text-slate-500 hover:text-red-300"
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              ))}
+              {jdTabs.tabs.length < (backend?.limits.maxRoles ?? 1) && (
+                <button
+                  type="button"
+                  onClick={addRole}
+                  title="Score the same resumes against another open role"
+                  className="px-2 py-0.5 rounded-full border border-dashed border-slate-700 text-slate-400 hover:bg-slate-800 transition-colors"
+                >
+                  + Role
+                </button>
+              )}
+            </div>
+            {jdTabs.tabs.length > 1 && (
+              <input
+                className="w-full mb-2 rounded-lg bg-slate-950 border border-slate-800 px-3 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                aria-label="Role name"
+                placeholder="Role name"
+                value={activeTab.name}
+                onChange={(e) => renameRole(e.target.value)}
+              />
+            )}
             <textarea
               className="w-full h-60 rounded-xl bg-slate-950 border border-slate-800 px-3 py-2 text-xs leading-relaxed focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 resize-none"
               placeholder="Paste the JD here..."
               value={jd}
               onChange={(e) => setJd(e.target.value)}
             />
+            {jdReview ? (
+              <JdReviewPanel
+                analysis={jdReview.result}
+                loading={jdReview.loading}
+                error={jdReview.error}
+                stale={jdReview.jd !== jd.trim()}
+                onApplyRewrite={setJd}
+                onRecheck={() => void reviewJd()}
+                onClose={() => setJdReview(null)}
+              />
+            ) : (
+              <div className="mt-2 flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => void reviewJd()}
+                  title="Flag vague, contradictory or exclusionary wording and suggest a rewrite"
+                  className="text-xs px-3 py-1 rounded-full border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors"
+                >
+                  Check JD quality
+                </button>
+              </div>
+            )}
           </section>
 
           {/* Resumes */}
-          <section className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4 shadow-lg shadow-slate-950/40 flex flex-col">
+          <section
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={handleDrop}
+            className={`rounded-2xl border bg-slate-900/70 p-4 shadow-lg shadow-slate-950/40 flex flex-col transition-colors ${
+              dragOver ? "border-emerald-500" : "border-slate-800"
+            }`}
+          >
             <div className="flex items-center justify-between mb-3">
               <div>
                 <h2 className="text-sm font-semibold text-slate-100">
@@ -153,17 +1383,48 @@ const App: React.FC = () => {
                 </h2>
                 <p className="text-xs text-slate-400">
                   Each block is a full resume. Compare multiple candidates
-                  against the same JD.
+                  against the same JD. Drop PDF, DOCX, RTF or TXT files here.
                 </p>
               </div>
-              <button
-                onClick={addResume}
-                className="text-xs px-3 py-1 rounded-full bg-emerald-600 hover:bg-emerald-500 transition-colors"
-              >
-                + Add Resume
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploading}
+                  className="text-xs px-3 py-1 rounded-full border border-slate-700 text-slate-300 hover:bg-slate-800 disabled:opacity-50 transition-colors whitespace-nowrap"
+                >
+                  {uploading ? "Reading files…" : "Upload files"}
+                </button>
+                <button
+                  onClick={addResume}
+                  className="text-xs px-3 py-1 rounded-full bg-emerald-600 hover:bg-emerald-500 transition-colors whitespace-nowrap"
+                >
+                  + Add Resume
+                </button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept=".pdf,.docx,.rtf,.txt,.md"
+                hidden
+                onChange={(e) => {
+                  void uploadFiles(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+              />
             </div>
 
+            {uploadErrors.length > 0 && (
+              <ul className="mb-3 space-y-1 text-xs text-red-300 bg-red-950/50 border border-red-700/70 rounded-lg px-3 py-2">
+                {uploadErrors.map((f) => (
+                  <li key={f.fileName}>
+                    <span className="font-semibold">{f.fileName}</span>:{" "}
+                    {f.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+
             <div className="space-y-3 overflow-y-auto pr-1">
               {resumes.map((r, index) => (
                 <div
@@ -192,20 +1453,167 @@ const App: React.FC = () => {
                     value={r.text}
                     onChange={(e) => updateResume(index, "text", e.target.value)}
                   />
+                  <label
+                    className="inline-flex items-center gap-1 text-[11px] text-slate-400"
+                    title="Skip the cached result for this resume on the next run"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!!r.force}
+                      onChange={(e) =>
+                        setResumes((prev) =>
+                          prev.map((x, i) =>
+                            i === index ? { ...x, force: e.target.checked } : x,
+                          ),
+                        )
+                      }
+                    />
+                    Force re-analyze
+                  </label>
+                  {r.text.trim() && (
+                    <button
+                      type="button"
+                      onClick={() => void togglePreview(index)}
+                      className="text-[11px] text-emerald-400 hover:text-emerald-300 hover:underline"
+                    >
+                      {preview?.index === index
+                        ? "Hide redacted text"
+                        : "Preview what the model sees"}
+                    </button>
+                  )}
+                  {preview?.index === index && (
+                    <div className="rounded-lg border border-slate-800 bg-slate-900/60 p-2">
+                      <p className="mb-1 text-[11px] text-amber-300">
+                        {describeRedactions(preview.redactions) ||
+                          "Nothing to redact."}
+                      </p>
+                      <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap text-[11px] text-slate-300">
+                        {preview.text}
+                      </pre>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
 
             {/* Error + Analyze button */}
             <div className="mt-4 space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+                <label
+                  className="inline-flex items-center gap-1"
+                  title="Also hide names, pronouns, school names and graduation years from the model"
+                >
+                  <input
+                    type="checkbox"
+                    checked={blind}
+                    onChange={(e) => {
+                      setBlind(e.target.checked);
+                      setPreview(null);
+                    }}
+                  />
+                  Blind screening
+                </label>
+                <label
+                  className="inline-flex items-center gap-1"
+                  title="Show the model how reviewers rated earlier candidates for this profile"
+                >
+                  <input
+                    type="checkbox"
+                    checked={calibrate}
+                    onChange={(e) => setCalibrate(e.target.checked)}
+                  />
+                  Calibrate with reviews
+                </label>
+                <label className="inline-flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={ensembleOn}
+                    onChange={(e) => setEnsembleOn(e.target.checked)}
+                  />
+                  Ensemble
+                </label>
+                <label
+                  className="inline-flex items-center gap-1"
+                  title={`Run on the server and poll for results; always on for more than ${BACKGROUND_JOB_THRESHOLD} resumes`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={backgroundJob}
+                    onChange={(e) => setBackgroundJob(e.target.checked)}
+                  />
+                  Background job
+                </label>
+                <label
+                  className="inline-flex items-center gap-1"
+                  title="Stop the run before its estimated cost goes over this amount"
+                >
+                  Budget $
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    className="w-16 bg-slate-900 border border-slate-700 rounded-lg px-1 py-0.5"
+                    placeholder="none"
+                    value={budget}
+                    onChange={(e) => setBudget(e.target.value)}
+                  />
+                </label>
+                {ensembleOn && (
+                  <>
+                    <select
+                      className="bg-slate-900 border border-slate-700 rounded-lg px-1 py-0.5"
+                      value={ensembleRuns}
+                      onChange={(e) => setEnsembleRuns(Number(e.target.value))}
+                    >
+                      {[2, 3, 4, 5].map((n) => (
+                        <option key={n} value={n}>
+                          {n} runs
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className="bg-slate-900 border border-slate-700 rounded-lg px-1 py-0.5"
+                      value={ensembleMethod}
+                      onChange={(e) =>
+                        setEnsembleMethod(e.target.value as EnsembleMethod)
+                      }
+                    >
+                      <option value="median">median</option>
+                      <option value="mean">mean</option>
+                    </select>
+                    <input
+                      className="flex-1 min-w-32 bg-slate-900 border border-slate-700 rounded-lg px-2 py-0.5"
+                      placeholder="models (optional, e.g. haiku, sonnet)"
+                      value={ensembleModels}
+                      onChange={(e) => setEnsembleModels(e.target.value)}
+                    />
+                  </>
+                )}
+              </div>
               {error && (
                 <div className="text-xs text-red-300 bg-red-950/50 border border-red-700/70 rounded-lg px-3 py-2">
                   {error}
                 </div>
               )}
+              {jobId && job && (
+                <div className="flex items-center justify-between gap-2 text-xs text-slate-300 bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-2">
+                  <span>
+                    Background job {job.status}: {job.completed}/{job.total}{" "}
+                    analyzed
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => void cancelJob()}
+                    disabled={cancelling}
+                    className="rounded-lg border border-slate-700 px-2 py-0.5 hover:border-red-400 disabled:opacity-50"
+                  >
+                    {cancelling ? "Cancelling…" : "Cancel job"}
+                  </button>
+                </div>
+              )}
               <button
-                onClick={handleAnalyze}
-                disabled={loading}
+                onClick={() => void handleAnalyze()}
+                disabled={loading || !!jobId}
                 className="w-full justify-center inline-flex items-center gap-2 px-4 py-2 rounded-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-sm font-semibold transition-colors"
               >
                 {loading ? (
@@ -228,37 +1636,129 @@ const App: React.FC = () => {
               <div>
                 <h2 className="text-sm font-semibold text-slate-100">
                   Results
+                  {shownRole && ` – ${shownRole.name}`}
                 </h2>
                 <p className="text-xs text-slate-400">
                   FitScore = how well they match. RiskScore = how likely this
-                  resume is overselling / risky for CoreSpeed.
+                  resume is overselling / risky for this role.
                 </p>
+                {runUsage && (
+                  <p className="mt-1 text-[11px] text-slate-400">{runUsage}</p>
+                )}
+                {activeSession?.createdAt && (
+                  <p className="mt-1 text-[11px] text-emerald-400">
+                    Saved run from{" "}
+                    {new Date(activeSession.createdAt).toLocaleString()}
+                  </p>
+                )}
               </div>
+              {compareIds.length > 0 && (
+                <div className="flex items-center gap-2 text-[11px]">
+                  <button
+                    type="button"
+                    disabled={
+                      compareIds.length < 2 ||
+                      compareIds.length > 4 ||
+                      comparison?.loading
+                    }
+                    onClick={() => void compareSelected()}
+                    title="Rank the ticked candidates against each other (2–4)"
+                    className="rounded-lg border border-emerald-500/60 px-2 py-0.5 text-emerald-300 hover:border-emerald-400 disabled:opacity-40"
+                  >
+                    Compare {compareIds.length} selected
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setCompareIds([])}
+                    className="text-slate-500 hover:text-slate-300"
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
+              {activeSession && !loading && !jobId && (
+                <div className="flex items-center gap-2 text-[11px]">
+                  <span className="text-slate-500">Export</span>
+                  {(["csv", "json", "html"] as const).map((format) => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => void exportRun(format)}
+                      className="rounded-lg border border-slate-700 px-2 py-0.5 text-slate-200 hover:border-emerald-400"
+                    >
+                      {format === "html"
+                        ? "Shortlist (PDF)"
+                        : format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
+            {matrix && (
+              <MatrixHeatmap
+                matrix={matrix.run.matrix}
+                activeRoleId={matrix.roleId}
+                onSelectRole={selectRole}
+              />
+            )}
+
+            <RankingControls
+              weights={weights}
+              onWeightsChange={setWeights}
+              filters={filters}
+              onFiltersChange={setFilters}
+              skills={skillNames}
+              hidden={ranked.hidden}
+            />
+
             <div className="overflow-x-auto rounded-xl border border-slate-800 bg-slate-950/60">
               <table className="min-w-full text-xs">
                 <thead className="bg-slate-900/90">
                   <tr>
-                    <th className="px-3 py-2 text-left font-semibold border-b border-slate-800">
-                      Candidate
-                    </th>
-                    <th className="px-3 py-2 text-left font-semibold border-b border-slate-800">
-                      FitScore
-                    </th>
-                    <th className="px-3 py-2 text-left font-semibold border-b border-slate-800">
-                      RiskScore
-                    </th>
-                    <th className="px-3 py-2 text-left font-semibold border-b border-slate-800">
-                      Verdict
-                    </th>
+                    <SortHeader
+                      label="Candidate"
+                      sortKey="candidate"
+                      sort={sort}
+                      onSort={setSort}
+                    />
+                    <SortHeader
+                      label="Composite"
+                      sortKey="composite"
+                      sort={sort}
+                      onSort={setSort}
+                    />
+                    <SortHeader
+                      label="FitScore"
+                      sortKey="fit"
+                      sort={sort}
+                      onSort={setSort}
+                    />
+                    <SortHeader
+                      label="RiskScore"
+                      sortKey="risk"
+                      sort={sort}
+                      onSort={setSort}
+                    />
+                    <SortHeader
+                      label="Verdict"
+                      sortKey="verdict"
+                      sort={sort}
+                      onSort={setSort}
+                    />
+                    <SortHeader
+                      label="Decision"
+                      sortKey="decision"
+                      sort={sort}
+                      onSort={setSort}
+                    />
                     <th className="px-3 py-2 text-left font-semibold border-b border-slate-800">
                       Report
                     </th>
                   </tr>
                 </thead>
                 <tbody>
-                  {results.map((r, idx) => (
+                  {ranked.rows.map(({ row: r, composite }, idx) => (
                     <tr
                       key={r.id}
                       className={
@@ -268,7 +1768,29 @@ const App: React.FC = () => {
                       }
                     >
                       <td className="px-3 py-2 align-top whitespace-nowrap">
-                        {r.id}
+                        <label className="inline-flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            disabled={
+                              !!r.progress ||
+                              r.status === "failed" ||
+                              !activeSession
+                            }
+                            checked={compareIds.includes(r.id)}
+                            onChange={(e) =>
+                              setCompareIds((prev) =>
+                                e.target.checked
+                                  ? [...prev, r.id]
+                                  : prev.filter((id) => id !== r.id),
+                              )
+                            }
+                            title="Select for a head-to-head comparison"
+                          />
+                          {r.id}
+                        </label>
+                      </td>
+                      <td className="px-3 py-2 align-top font-semibold text-slate-100">
+                        {composite ?? "—"}
                       </td>
                       <td className="px-3 py-2 align-top">
                         <span
@@ -279,6 +1801,7 @@ const App: React.FC = () => {
                         >
                           {r.fitScore ?? "—"}
                         </span>
+                        <ConfidenceNote value={r.ensemble?.fitConfidence} />
                       </td>
                       <td className="px-3 py-2 align-top">
                         <span
@@ -289,11 +1812,101 @@ const App: React.FC = () => {
                         >
                           {r.riskScore ?? "—"}
                         </span>
+                        <ConfidenceNote value={r.ensemble?.riskConfidence} />
+                        {r.riskSignals.length > 0 && (
+                          <span
+                            className="mt-1 block text-[10px] text-slate-500"
+                            title={r.riskSignals
+                              .map((s) => `${s.severity}: ${s.summary}`)
+                              .join("\n")}
+                          >
+                            {r.riskSignals.length} signal
+                            {r.riskSignals.length === 1 ? "" : "s"}
+                          </span>
+                        )}
                       </td>
                       <td className="px-3 py-2 align-top max-w-xl">
-                        <span className="line-clamp-2 text-slate-200">
-                          {r.verdict || "No verdict parsed"}
-                        </span>
+                        {r.progress === "queued" ? (
+                          <span className="text-slate-500">Queued…</span>
+                        ) : r.progress === "running" ? (
+                          <span className="inline-flex items-center gap-2 text-slate-400">
+                            <span className="h-3 w-3 border-2 border-emerald-300 border-t-transparent rounded-full animate-spin" />
+                            {r.pass
+                              ? `Run ${r.pass.index + 1}/${r.pass.total}…`
+                              : r.attempts > 1
+                                ? `Retrying (attempt ${r.attempts})…`
+                                : "Analyzing…"}
+                          </span>
+                        ) : (
+                          <>
+                            <span
+                              className={`line-clamp-2 ${
+                                r.status === "failed"
+                                  ? "text-red-300"
+                                  : "text-slate-200"
+                              }`}
+                            >
+                              {r.verdict || "No verdict parsed"}
+                            </span>
+                            {r.cached && (
+                              <span
+                                className="mt-1 block text-[10px] text-slate-500"
+                                title="Same JD, resume, profile and model as an earlier run"
+                              >
+                                ♻ cached result
+                              </span>
+                            )}
+                            {r.truncated && (
+                              <span
+                                className="mt-1 block text-[10px] font-semibold text-amber-300"
+                                title="The model's answer hit the output token limit"
+                              >
+                                ✂ output cut off
+                              </span>
+                            )}
+                            {r.ensemble ? (
+                              <span className="mt-1 block text-[10px] text-slate-500">
+                                {r.ensemble.method} of {r.ensemble.validRuns}/
+                                {r.ensemble.totalRuns} runs
+                                {r.ensemble.disagreement && (
+                                  <span className="ml-1 font-semibold text-amber-300">
+                                    ⚠ runs disagree (fit{" "}
+                                    {r.ensemble.fitScores.join(", ")})
+                                  </span>
+                                )}
+                              </span>
+                            ) : (
+                              r.attempts > 1 && (
+                                <span className="mt-1 block text-[10px] text-slate-500">
+                                  {r.status === "failed"
+                                    ? "Failed"
+                                    : "Succeeded"}{" "}
+                                  after {r.attempts} attempts
+                                </span>
+                              )
+                            )}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 align-top whitespace-nowrap">
+                        <div className="inline-flex gap-1">
+                          {DECISION_BUTTONS.map((d) => (
+                            <button
+                              key={d.value}
+                              type="button"
+                              title={d.title}
+                              disabled={!activeSession || loading}
+                              onClick={() => void setDecision(r.id, d.value)}
+                              className={`h-6 w-6 rounded-md border text-[11px] disabled:opacity-40 ${
+                                decisions[r.id] === d.value
+                                  ? d.activeClass
+                                  : "border-slate-700 text-slate-400 hover:border-slate-500"
+                              }`}
+                            >
+                              {d.label}
+                            </button>
+                          ))}
+                        </div>
                       </td>
                       <td className="px-3 py-2 align-top whitespace-nowrap">
                         <button
@@ -308,6 +1921,36 @@ const App: React.FC = () => {
                             ? "Hide full report"
                             : "View full report"}
                         </button>
+                        {!r.progress &&
+                          resumes.some((x) => x.id === r.id) && (
+                            <button
+                              type="button"
+                              disabled={loading || !!jobId}
+                              onClick={() => void handleAnalyze([r.id])}
+                              title="Run the pool again, skipping the cache for this candidate"
+                              className="ml-3 text-[11px] text-slate-400 hover:text-slate-200 hover:underline disabled:opacity-40"
+                            >
+                              ↻ Re-analyze
+                            </button>
+                          )}
+                        {!r.progress &&
+                          r.status === "ok" &&
+                          activeSession && (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                kitId === r.id
+                                  ? setKitId(null)
+                                  : void openInterviewKit(r)
+                              }
+                              title="Questions that probe this candidate's gaps and red flags"
+                              className="ml-3 text-[11px] text-slate-400 hover:text-slate-200 hover:underline"
+                            >
+                              {kitId === r.id
+                                ? "Hide interview kit"
+                                : "Interview kit"}
+                            </button>
+                          )}
                       </td>
                     </tr>
                   ))}
@@ -318,19 +1961,55 @@ const App: React.FC = () => {
             {results.map(
               (r) =>
                 expandedId === r.id && (
-                  <div
-                    key={r.id}
-                    className="mt-4 rounded-xl border border-slate-800 bg-slate-950/80 p-4"
-                  >
-                    <h3 className="text-sm font-semibold mb-2">
-                      Full Report — {r.id}
-                    </h3>
-                    <pre className="whitespace-pre-wrap text-xs text-slate-200 leading-relaxed">
-                      {r.report}
-                    </pre>
-                  </div>
+                  <ReportPanel key={r.id} result={r} streaming={!!r.progress} />
                 ),
             )}
+
+            {activeSession &&
+              results.map(
+                (r) =>
+                  expandedId === r.id &&
+                  !r.progress && (
+                    <ReviewForm
+                      key={`${activeSession.id}/${r.id}`}
+                      candidateId={r.id}
+                      fitScore={r.fitScore}
+                      feedback={feedback[activeSession.id]?.[r.id] ?? null}
+                      saving={feedbackSaving || loading}
+                      onSave={(input) => void saveFeedback(r.id, input)}
+                    />
+                  ),
+              )}
+
+            {comparison && (
+              <ComparisonPanel
+                ids={comparison.ids}
+                comparison={comparison.result}
+                loading={comparison.loading}
+                error={comparison.error}
+                onClose={() => setComparison(null)}
+              />
+            )}
+
+            {kitId && (
+              <InterviewKitPanel
+                candidateId={kitId}
+                kit={kits[kitId] ?? null}
+                loading={kitLoading}
+                error={kitError}
+                onRegenerate={() => {
+                  const r = results.find((x) => x.id === kitId);
+                  if (r) void openInterviewKit(r, true);
+                }}
+                onExport={(format) => {
+                  const kit = kits[kitId];
+                  if (kit) void exportKit(kit, format);
+                }}
+                onClose={() => setKitId(null)}
+              />
+            )}
+
+            <SkillMatrix results={results.filter((r) => !r.progress)} />
           </section>
         )}
       </div>
@@ -0,0 +1,138 @@
+import React from "react";
+import { describeUsage } from "./usage.ts";
+import type { Comparison, RequirementRating } from "./types.ts";
+
+type Props = {
+  // the candidates sent, in the order they were selected
+  ids: string[];
+  comparison: Comparison | null;
+  loading: boolean;
+  error: string | null;
+  onClose: () => void;
+};
+
+const RATING_CLASS: Record<RequirementRating, string> = {
+  strong: "text-emerald-300",
+  partial: "text-amber-300",
+  missing: "text-red-300",
+};
+
+const RATING_MARK: Record<RequirementRating, string> = {
+  strong: "✓",
+  partial: "≈",
+  missing: "✗",
+};
+
+// Side-by-side view of a head-to-head comparison: the relative ranking,
+// then one row per JD requirement with a column per candidate.
+const ComparisonPanel: React.FC<Props> = ({
+  ids,
+  comparison,
+  loading,
+  error,
+  onClose,
+}) => {
+  // columns follow the model's ranking once there is one
+  const columns = comparison ? comparison.ranking.map((r) => r.id) : ids;
+
+  return (
+    <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950/80 p-4">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold">
+            Head-to-head — {ids.join(" vs ")}
+          </h3>
+          {comparison && (
+            <p className="text-[11px] text-slate-500">
+              {[`Model: ${comparison.model}`, describeUsage(comparison.usage)]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-[11px] text-slate-500 hover:text-slate-300"
+        >
+          ✕
+        </button>
+      </div>
+
+      {loading && (
+        <p className="inline-flex items-center gap-2 text-xs text-slate-400">
+          <span className="h-3 w-3 border-2 border-emerald-300 border-t-transparent rounded-full animate-spin" />
+          Comparing {ids.length} candidates side by side…
+        </p>
+      )}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {comparison && !loading && (
+        <>
+          <p className="mb-3 text-xs text-slate-200">{comparison.summary}</p>
+
+          <ol className="mb-4 space-y-1 text-xs text-slate-200">
+            {comparison.ranking.map((r) => (
+              <li key={r.id}>
+                <span className="mr-2 font-semibold text-emerald-300">
+                  #{r.rank} {r.id}
+                </span>
+                {r.justification}
+              </li>
+            ))}
+          </ol>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-left font-semibold border-b border-slate-800">
+                    JD requirement
+                  </th>
+                  {columns.map((id) => (
+                    <th
+                      key={id}
+                      className="px-2 py-1 text-left font-semibold border-b border-slate-800"
+                    >
+                      {id}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.requirements.map((req, i) => (
+                  <tr key={i} className="align-top">
+                    <td className="px-2 py-1 text-slate-300">
+                      {req.requirement}
+                    </td>
+                    {columns.map((id) => {
+                      const c = req.candidates.find((x) => x.id === id);
+                      return (
+                        <td key={id} className="px-2 py-1">
+                          {c && (
+                            <>
+                              <span className={RATING_CLASS[c.rating]}>
+                                {RATING_MARK[c.rating]} {c.rating}
+                              </span>
+                              {c.note && (
+                                <span className="block text-[11px] text-slate-400">
+                                  {c.note}
+                                </span>
+                              )}
+                            </>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,91 @@
+import React from "react";
+import type { SessionSummary } from "./types.ts";
+
+type Props = {
+  sessions: SessionSummary[];
+  activeId: string | null;
+  loading: boolean;
+  error: string | null;
+  onOpen: (id: string) => void;
+  onRefresh: () => void;
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// Past /analyze runs saved by the backend. Opening one reloads its JD,
+// resumes and results into the main view.
+const HistoryPanel: React.FC<Props> = ({
+  sessions,
+  activeId,
+  loading,
+  error,
+  onOpen,
+  onRefresh,
+}) => {
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4 shadow-lg shadow-slate-950/40">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-sm font-semibold text-slate-100">History</h2>
+          <p className="text-xs text-slate-400">
+            Every analysis is saved locally. Reopen a past run to see why a
+            candidate was passed on.
+          </p>
+        </div>
+        <button
+          onClick={onRefresh}
+          disabled={loading}
+          className="text-xs px-3 py-1 rounded-full border border-slate-700 text-slate-300 hover:bg-slate-800 disabled:opacity-50 transition-colors"
+        >
+          {loading ? "Loading…" : "Refresh"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-2 text-xs text-red-300 bg-red-950/50 border border-red-700/70 rounded-lg px-3 py-2">
+          {error}
+        </div>
+      )}
+
+      {sessions.length === 0 && !loading ? (
+        <p className="text-xs text-slate-500">No saved runs yet.</p>
+      ) : (
+        <ul className="max-h-56 space-y-1 overflow-y-auto pr-1">
+          {sessions.map((s) => (
+            <li key={s.id}>
+              <button
+                onClick={() => onOpen(s.id)}
+                className={`w-full text-left rounded-lg border px-3 py-2 text-xs transition-colors ${
+                  s.id === activeId
+                    ? "border-emerald-600 bg-emerald-950/40"
+                    : "border-slate-800 bg-slate-950/60 hover:bg-slate-900"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <span className="truncate text-slate-200">
+                    {s.jdPreview || "Untitled JD"}
+                  </span>
+                  <span className="whitespace-nowrap text-[11px] text-slate-500">
+                    {formatDate(s.createdAt)}
+                  </span>
+                </div>
+                <div className="mt-0.5 text-[11px] text-slate-400">
+                  {s.candidateCount} candidate
+                  {s.candidateCount === 1 ? "" : "s"} · {s.model}
+                  {s.topCandidate &&
+                    ` · top: ${s.topCandidate.id} (${s.topCandidate.fitScore})`}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,111 @@
+import React from "react";
+import { describeUsage } from "./usage.ts";
+import type { InterviewKit } from "./types.ts";
+
+type Props = {
+  candidateId: string;
+  // null while the first kit for this candidate is being generated
+  kit: InterviewKit | null;
+  loading: boolean;
+  error: string | null;
+  onRegenerate: () => void;
+  onExport: (format: "markdown" | "html") => void;
+  onClose: () => void;
+};
+
+// Interview questions for one candidate, opened from their results row.
+const InterviewKitPanel: React.FC<Props> = ({
+  candidateId,
+  kit,
+  loading,
+  error,
+  onRegenerate,
+  onExport,
+  onClose,
+}) => (
+  <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950/80 p-4">
+    <div className="flex items-center justify-between gap-3 mb-3">
+      <div>
+        <h3 className="text-sm font-semibold">
+          Interview Kit — {candidateId}
+        </h3>
+        {kit && (
+          <p className="text-[11px] text-slate-500">
+            {[
+              `${kit.questions.length} questions`,
+              `Model: ${kit.model}`,
+              new Date(kit.generatedAt).toLocaleString(),
+              describeUsage(kit.usage),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-2 text-[11px]">
+        {kit && (
+          <>
+            <button
+              type="button"
+              onClick={() => onExport("markdown")}
+              className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 hover:border-slate-500"
+            >
+              Markdown
+            </button>
+            <button
+              type="button"
+              onClick={() => onExport("html")}
+              className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 hover:border-slate-500"
+            >
+              Print / PDF
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          disabled={loading}
+          onClick={onRegenerate}
+          className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 hover:border-slate-500 disabled:opacity-40"
+        >
+          {kit ? "↻ Regenerate" : "Generate"}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-slate-500 hover:text-slate-300"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+
+    {loading && (
+      <p className="inline-flex items-center gap-2 text-xs text-slate-400">
+        <span className="h-3 w-3 border-2 border-emerald-300 border-t-transparent rounded-full animate-spin" />
+        Writing questions from the gaps and red flags…
+      </p>
+    )}
+    {error && <p className="text-xs text-red-300">{error}</p>}
+
+    {kit && !loading && (
+      <ol className="list-decimal pl-5 space-y-3 text-xs text-slate-200">
+        {kit.questions.map((q, i) => (
+          <li key={i}>
+            <p className="font-medium text-slate-100">{q.question}</p>
+            <p className="text-[11px] text-slate-500">
+              Checks: {q.requirement} · Probes: {q.probes}
+            </p>
+            <p className="mt-1 text-emerald-300">
+              <span className="font-semibold">Strong:</span> {q.strongAnswer}
+            </p>
+            <p className="text-red-300">
+              <span className="font-semibold">Weak:</span> {q.weakAnswer}
+            </p>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+export default InterviewKitPanel;
@@ -0,0 +1,178 @@
+import React from "react";
+import { describeUsage } from "./usage.ts";
+import type { JdAnalysis, JdIssue, JdIssueKind } from "./types.ts";
+
+type Props = {
+  // null while the review is running
+  analysis: JdAnalysis | null;
+  loading: boolean;
+  error: string | null;
+  // the JD was edited after this review
+  stale: boolean;
+  onApplyRewrite: (rewrite: string) => void;
+  onRecheck: () => void;
+  onClose: () => void;
+};
+
+const KIND_LABELS: Record<JdIssueKind, string> = {
+  ambiguity: "Ambiguous",
+  contradiction: "Contradiction",
+  exclusionary: "Exclusionary",
+  unrealistic: "Unrealistic",
+};
+
+const SEVERITY_CLASS: Record<JdIssue["severity"], string> = {
+  low: "bg-slate-800 text-slate-300",
+  medium: "bg-amber-950/60 text-amber-300",
+  high: "bg-red-950/60 text-red-300",
+};
+
+const Chips: React.FC<{ title: string; items: string[] }> = ({
+  title,
+  items,
+}) =>
+  items.length === 0 ? null : (
+    <div>
+      <h4 className="text-[11px] font-semibold text-slate-400 mb-1">
+        {title}
+      </h4>
+      <div className="flex flex-wrap gap-1">
+        {items.map((item) => (
+          <span
+            key={item}
+            className="rounded-full border border-slate-700 px-2 py-0.5 text-[11px] text-slate-200"
+          >
+            {item}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+
+// Inline JD review in the JD card: what the JD asks for, what's wrong with
+// it, and a rewrite that can replace it before anyone is scored.
+const JdReviewPanel: React.FC<Props> = ({
+  analysis,
+  loading,
+  error,
+  stale,
+  onApplyRewrite,
+  onRecheck,
+  onClose,
+}) => {
+  const req = analysis?.requirements;
+
+  return (
+    <div className="mt-3 rounded-xl border border-slate-800 bg-slate-950/80 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xs font-semibold text-slate-100">JD review</h3>
+          {analysis && (
+            <p className="text-[11px] text-slate-500">
+              {[
+                `${analysis.issues.length} issue${
+                  analysis.issues.length === 1 ? "" : "s"
+                }`,
+                `Model: ${analysis.model}`,
+                describeUsage(analysis.usage),
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-[11px]">
+          <button
+            type="button"
+            disabled={loading}
+            onClick={onRecheck}
+            className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 hover:border-slate-500 disabled:opacity-40"
+          >
+            ↻ Re-check
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-300"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {loading && (
+        <p className="inline-flex items-center gap-2 text-xs text-slate-400">
+          <span className="h-3 w-3 border-2 border-emerald-300 border-t-transparent rounded-full animate-spin" />
+          Reading the JD…
+        </p>
+      )}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {stale && analysis && !loading && (
+        <p className="text-[11px] text-amber-300">
+          The JD has changed since this review.
+        </p>
+      )}
+
+      {analysis && req && !loading && (
+        <>
+          <p className="text-xs text-slate-200">
+            <span className="font-semibold">{req.role}</span>
+            {[req.seniority, req.location]
+              .filter(Boolean)
+              .map((s) => ` · ${s}`)
+              .join("")}
+          </p>
+          <div className="grid gap-2">
+            <Chips title="Must-have" items={req.mustHave} />
+            <Chips title="Nice-to-have" items={req.niceToHave} />
+            <Chips title="Stack" items={req.stack} />
+          </div>
+
+          {analysis.issues.length > 0 ? (
+            <ul className="space-y-2 text-xs text-slate-200">
+              {analysis.issues.map((issue, i) => (
+                <li key={i}>
+                  <span
+                    className={`mr-2 rounded-full px-2 py-0.5 text-[10px] ${SEVERITY_CLASS[issue.severity]}`}
+                  >
+                    {issue.severity}
+                  </span>
+                  <span className="font-medium">{KIND_LABELS[issue.kind]}</span>
+                  {issue.quote && (
+                    <span className="text-slate-400"> — “{issue.quote}”</span>
+                  )}
+                  <span className="block pl-1 text-[11px] text-slate-400">
+                    {issue.explanation} {issue.suggestion}
+                    {issue.source === "measured" && (
+                      <span className="ml-1 text-slate-500">(measured)</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-emerald-300">No issues found.</p>
+          )}
+
+          <details className="text-xs">
+            <summary className="cursor-pointer text-slate-300">
+              Suggested rewrite
+            </summary>
+            <pre className="mt-2 max-h-60 overflow-y-auto whitespace-pre-wrap rounded-lg border border-slate-800 bg-slate-900 p-2 text-[11px] text-slate-200">
+              {analysis.rewrite}
+            </pre>
+            <button
+              type="button"
+              onClick={() => onApplyRewrite(analysis.rewrite)}
+              className="mt-2 rounded-full bg-emerald-600 px-3 py-1 text-[11px] hover:bg-emerald-500"
+            >
+              Use this rewrite
+            </button>
+          </details>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JdReviewPanel;
@@ -0,0 +1,111 @@
+import React from "react";
+import type { MatrixCell, ScoreMatrix } from "./types.ts";
+
+type Props = {
+  matrix: ScoreMatrix;
+  // the role whose results are in the table below
+  activeRoleId: string | null;
+  onSelectRole: (roleId: string) => void;
+};
+
+function cellClass(cell: MatrixCell): string {
+  if (cell.fitScore === null) return "bg-slate-900 text-slate-500";
+  if (cell.fitScore >= 8) return "bg-emerald-900/70 text-emerald-200";
+  if (cell.fitScore >= 5) return "bg-amber-900/60 text-amber-200";
+  return "bg-red-950/60 text-red-300";
+}
+
+function cellTitle(cell: MatrixCell): string {
+  if (cell.fitScore === null) {
+    return cell.status === "failed" ? "Analysis failed" : "No score";
+  }
+  return `Fit ${cell.fitScore}/10 · Risk ${cell.riskScore ?? "–"}/10`;
+}
+
+// Candidates × roles fit scores from a multi-JD run, with the role each
+// candidate fits best. Clicking a role shows its full results.
+const MatrixHeatmap: React.FC<Props> = ({
+  matrix,
+  activeRoleId,
+  onSelectRole,
+}) => {
+  const roleName = (id: string | null) =>
+    matrix.roles.find((r) => r.id === id)?.name ?? "–";
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-semibold mb-1">Role fit</h3>
+      <p className="text-[11px] text-slate-500 mb-2">
+        FitScore of every candidate for every role. Click a role to see its
+        results below; the margin is how far the best role leads the next.
+      </p>
+      <div className="overflow-x-auto rounded-xl border border-slate-800 bg-slate-950/60">
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-900/90">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold border-b border-slate-800">
+                Candidate
+              </th>
+              {matrix.roles.map((role) => (
+                <th
+                  key={role.id}
+                  className="px-2 py-2 text-center font-semibold border-b border-slate-800"
+                >
+                  <button
+                    type="button"
+                    onClick={() => onSelectRole(role.id)}
+                    className={`px-2 py-0.5 rounded-full transition-colors ${
+                      role.id === activeRoleId
+                        ? "bg-emerald-500/20 text-emerald-200"
+                        : "text-slate-300 hover:bg-slate-800"
+                    }`}
+                  >
+                    {role.name}
+                  </button>
+                </th>
+              ))}
+              <th className="px-3 py-2 text-left font-semibold border-b border-slate-800">
+                Best fit
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.candidates.map((id, c) => {
+              const best = matrix.bestFit[c];
+              return (
+                <tr key={id} className="border-b border-slate-800/70">
+                  <td className="px-3 py-2 font-semibold">{id}</td>
+                  {matrix.cells.map((row, r) => (
+                    <td
+                      key={matrix.roles[r].id}
+                      title={cellTitle(row[c])}
+                      className={`px-2 py-2 text-center font-semibold ${cellClass(row[c])}`}
+                    >
+                      {row[c].fitScore ?? "–"}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-slate-300">
+                    {best.roleId ? (
+                      <>
+                        {roleName(best.roleId)}
+                        {best.margin !== null && (
+                          <span className="ml-1 text-slate-500">
+                            (+{best.margin})
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-slate-500">No score</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MatrixHeatmap;
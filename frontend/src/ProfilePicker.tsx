@@ -0,0 +1,201 @@
+import React, { useState } from "react";
+import type { ProfileInput, ProfileTone, RoleProfile } from "./types.ts";
+
+type Props = {
+  profiles: RoleProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSave: (input: ProfileInput) => Promise<void>;
+  // the default profile every API key shares; editing it saves a copy
+  sharedId: string;
+};
+
+const TONE_LABELS: Record<ProfileTone, string> = {
+  "ruthless-founder": "Ruthless founder",
+  "neutral-hr": "Neutral HR",
+};
+
+const EMPTY_FORM: ProfileInput = {
+  name: "",
+  persona: "an experienced hiring manager",
+  seniority: "",
+  mustHave: [],
+  niceToHave: [],
+  rubric: "",
+  tone: "neutral-hr",
+};
+
+// one skill per line or comma-separated
+const splitList = (value: string) =>
+  value
+    .split(/[\n,]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+const inputClass =
+  "w-full text-xs bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+// Role profile selector for the JD card, with an inline create / edit form.
+const ProfilePicker: React.FC<Props> = ({
+  profiles,
+  selectedId,
+  onSelect,
+  onSave,
+  sharedId,
+}) => {
+  const [form, setForm] = useState<ProfileInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = profiles.find((p) => p.id === selectedId);
+
+  const startEdit = (profile: RoleProfile | undefined) => {
+    setError(null);
+    if (!profile) setForm({ ...EMPTY_FORM });
+    else if (profile.id === sharedId) {
+      setForm({ ...profile, id: undefined, name: `${profile.name} (copy)` });
+    } else setForm({ ...profile });
+  };
+
+  const update = <K extends keyof ProfileInput>(
+    key: K,
+    value: ProfileInput[K],
+  ) => setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+
+  const save = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      setError("Give the profile a name.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(form);
+      setForm(null);
+    } catch (err) {
+      setError(
+        (err instanceof Error && err.message) || "Couldn't save profile.",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          className={inputClass}
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+        >
+          {profiles.length === 0 && <option value={selectedId}>Default</option>}
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => startEdit(selected)}
+          disabled={!selected}
+          className="text-[11px] text-emerald-400 hover:text-emerald-300 hover:underline disabled:opacity-50 whitespace-nowrap"
+        >
+          Edit
+        </button>
+        <button
+          onClick={() => startEdit(undefined)}
+          className="text-[11px] text-emerald-400 hover:text-emerald-300 hover:underline whitespace-nowrap"
+        >
+          New
+        </button>
+      </div>
+
+      {selected && !form && (
+        <p className="text-[11px] text-slate-500">
+          {TONE_LABELS[selected.tone]}
+          {selected.seniority && ` · ${selected.seniority}`}
+          {selected.mustHave.length > 0 &&
+            ` · must-have: ${selected.mustHave.join(", ")}`}
+        </p>
+      )}
+
+      {form && (
+        <div
+          // remount per profile so the skill textareas pick up new defaults
+          key={form.id ?? "new"}
+          className="rounded-xl border border-slate-800 bg-slate-950/80 p-3 space-y-2"
+        >
+          <input
+            className={inputClass}
+            placeholder="Profile name (e.g. Product Designer – Mid)"
+            value={form.name}
+            onChange={(e) => update("name", e.target.value)}
+          />
+          <div className="flex gap-2">
+            <input
+              className={inputClass}
+              placeholder="Persona (e.g. a design lead at a SaaS startup)"
+              value={form.persona}
+              onChange={(e) => update("persona", e.target.value)}
+            />
+            <input
+              className={inputClass}
+              placeholder="Seniority"
+              value={form.seniority}
+              onChange={(e) => update("seniority", e.target.value)}
+            />
+            <select
+              className={inputClass}
+              value={form.tone}
+              onChange={(e) => update("tone", e.target.value as ProfileTone)}
+            >
+              {Object.entries(TONE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            className={`${inputClass} h-14 resize-none`}
+            placeholder="Must-have skills (comma or one per line)"
+            defaultValue={form.mustHave.join("\n")}
+            onChange={(e) => update("mustHave", splitList(e.target.value))}
+          />
+          <textarea
+            className={`${inputClass} h-14 resize-none`}
+            placeholder="Nice-to-have skills"
+            defaultValue={form.niceToHave.join("\n")}
+            onChange={(e) => update("niceToHave", splitList(e.target.value))}
+          />
+          <textarea
+            className={`${inputClass} h-16 resize-none`}
+            placeholder="Scoring rubric (optional)"
+            value={form.rubric}
+            onChange={(e) => update("rubric", e.target.value)}
+          />
+          {error && <p className="text-xs text-red-300">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(null)}
+              className="text-xs px-3 py-1 rounded-full border border-slate-700 text-slate-300 hover:bg-slate-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              disabled={saving}
+              className="text-xs px-3 py-1 rounded-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50"
+            >
+              {saving ? "Saving…" : "Save profile"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePicker;
@@ -0,0 +1,168 @@
+import React from "react";
+import type {
+  DecisionFilter,
+  RankingFilters,
+  RankingWeights,
+} from "./ranking.ts";
+
+type Props = {
+  weights: RankingWeights;
+  onWeightsChange: (weights: RankingWeights) => void;
+  filters: RankingFilters;
+  onFiltersChange: (filters: RankingFilters) => void;
+  // JD skills from the skill coverage check, for the "must have" filter
+  skills: string[];
+  // candidates hidden by the current filters
+  hidden: number;
+};
+
+const SCORE_LIMITS = [3, 4, 5, 6, 7, 8];
+
+const DECISION_FILTERS: { value: DecisionFilter; label: string }[] = [
+  { value: "all", label: "All decisions" },
+  { value: "undecided", label: "Undecided" },
+  { value: "shortlisted", label: "Shortlisted" },
+  { value: "maybe", label: "Maybe" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const selectClass =
+  "bg-slate-900 border border-slate-700 rounded-lg px-1 py-0.5 text-xs";
+
+// Weights for the composite score plus the hard filters above the table.
+const RankingControls: React.FC<Props> = ({
+  weights,
+  onWeightsChange,
+  filters,
+  onFiltersChange,
+  skills,
+  hidden,
+}) => {
+  const setFilter = <K extends keyof RankingFilters>(
+    key: K,
+    value: RankingFilters[K],
+  ) => onFiltersChange({ ...filters, [key]: value });
+
+  const toggleSkill = (skill: string) =>
+    setFilter(
+      "requiredSkills",
+      filters.requiredSkills.includes(skill)
+        ? filters.requiredSkills.filter((s) => s !== skill)
+        : [...filters.requiredSkills, skill],
+    );
+
+  return (
+    <div className="mb-3 space-y-2 rounded-xl border border-slate-800 bg-slate-950/60 p-3 text-xs text-slate-300">
+      <div className="flex flex-wrap items-center gap-4">
+        <span className="font-semibold text-slate-100">Composite</span>
+        <label className="inline-flex items-center gap-2">
+          Fit weight
+          <input
+            type="range"
+            min={0}
+            max={10}
+            value={weights.fit}
+            onChange={(e) =>
+              onWeightsChange({ ...weights, fit: Number(e.target.value) })
+            }
+          />
+          <span className="w-4 text-right">{weights.fit}</span>
+        </label>
+        <label className="inline-flex items-center gap-2">
+          Low-risk weight
+          <input
+            type="range"
+            min={0}
+            max={10}
+            value={weights.risk}
+            onChange={(e) =>
+              onWeightsChange({ ...weights, risk: Number(e.target.value) })
+            }
+          />
+          <span className="w-4 text-right">{weights.risk}</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-slate-100">Filters</span>
+        <select
+          className={selectClass}
+          value={filters.maxRisk ?? ""}
+          onChange={(e) =>
+            setFilter(
+              "maxRisk",
+              e.target.value === "" ? null : Number(e.target.value),
+            )
+          }
+        >
+          <option value="">Any risk</option>
+          {SCORE_LIMITS.map((n) => (
+            <option key={n} value={n}>
+              RiskScore ≤ {n}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={filters.minFit ?? ""}
+          onChange={(e) =>
+            setFilter(
+              "minFit",
+              e.target.value === "" ? null : Number(e.target.value),
+            )
+          }
+        >
+          <option value="">Any fit</option>
+          {SCORE_LIMITS.map((n) => (
+            <option key={n} value={n}>
+              FitScore ≥ {n}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={filters.decision}
+          onChange={(e) =>
+            setFilter("decision", e.target.value as DecisionFilter)
+          }
+        >
+          {DECISION_FILTERS.map((d) => (
+            <option key={d.value} value={d.value}>
+              {d.label}
+            </option>
+          ))}
+        </select>
+        {hidden > 0 && (
+          <span className="text-amber-300">
+            {hidden} candidate{hidden === 1 ? "" : "s"} hidden
+          </span>
+        )}
+      </div>
+
+      {skills.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-slate-400">Must have:</span>
+          {skills.map((skill) => {
+            const on = filters.requiredSkills.includes(skill);
+            return (
+              <button
+                key={skill}
+                type="button"
+                onClick={() => toggleSkill(skill)}
+                className={`rounded-full border px-2 py-0.5 text-[11px] ${
+                  on
+                    ? "border-emerald-400 bg-emerald-950/60 text-emerald-300"
+                    : "border-slate-700 text-slate-400 hover:border-slate-500"
+                }`}
+              >
+                {skill}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RankingControls;
@@ -0,0 +1,74 @@
+import { cleanup, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import ReportPanel from "./ReportPanel.tsx";
+import { makeResult } from "./testdata/results.ts";
+
+afterEach(cleanup);
+
+describe("ReportPanel", () => {
+  it("shows the structured lists and the report", () => {
+    render(<ReportPanel result={makeResult()} streaming={false} />);
+    expect(screen.getByText("Alignment")).toBeTruthy();
+    expect(screen.getByText("Five years of TypeScript on Deno")).toBeTruthy();
+    expect(screen.getByText("Missing Skills")).toBeTruthy();
+    // empty lists get no heading
+    expect(screen.queryByText("Red Flags")).toBeNull();
+    expect(screen.getByText(/Strong match\./)).toBeTruthy();
+  });
+
+  it("flags repaired, failed and truncated output", () => {
+    const { rerender } = render(
+      <ReportPanel
+        result={makeResult({ parseStatus: "repaired" })}
+        streaming={false}
+      />,
+    );
+    expect(
+      screen.getByText("Output repaired after one re-prompt"),
+    ).toBeTruthy();
+
+    rerender(
+      <ReportPanel
+        result={makeResult({ parseStatus: "failed", truncated: true })}
+        streaming={false}
+      />,
+    );
+    expect(screen.getByText("Model output could not be parsed")).toBeTruthy();
+    expect(
+      screen.getByText("An answer hit the output token limit and was cut off"),
+    ).toBeTruthy();
+  });
+
+  it("lists measured risk signals with their evidence", () => {
+    render(
+      <ReportPanel
+        result={makeResult({
+          riskSignals: [
+            {
+              kind: "employment-gap",
+              severity: "medium",
+              summary: "1 gap(s) between jobs, longest 14 months",
+              value: 14,
+              evidence: ["Jan 2020 – Feb 2021"],
+            },
+          ],
+        })}
+        streaming={false}
+      />,
+    );
+    expect(screen.getByText("Employment gap")).toBeTruthy();
+    expect(screen.getByText("Jan 2020 – Feb 2021")).toBeTruthy();
+  });
+
+  it("shows only the raw tokens while streaming", () => {
+    render(
+      <ReportPanel
+        result={makeResult({ parseStatus: "failed", report: "{\"fitSc" })}
+        streaming
+      />,
+    );
+    expect(screen.queryByText("Alignment")).toBeNull();
+    expect(screen.queryByText("Model output could not be parsed")).toBeNull();
+    expect(screen.getByText('{"fitSc')).toBeTruthy();
+  });
+});
@@ -0,0 +1,148 @@
+import React from "react";
+import { describeRedactions } from "./redactions.ts";
+import { describeUsage } from "./usage.ts";
+import type { AnalyzeResult, RiskSignal, RiskSignalKind } from "./types.ts";
+
+type Props = {
+  result: AnalyzeResult;
+  // still receiving raw model tokens – nothing is parsed yet
+  streaming: boolean;
+};
+
+const LIST_SECTIONS: {
+  key: "alignment" | "gaps" | "redFlags" | "missingSkills";
+  title: string;
+  className: string;
+}[] = [
+  { key: "alignment", title: "Alignment", className: "text-emerald-300" },
+  { key: "gaps", title: "Gaps", className: "text-amber-300" },
+  { key: "redFlags", title: "Red Flags", className: "text-red-300" },
+  { key: "missingSkills", title: "Missing Skills", className: "text-slate-300" },
+];
+
+const SIGNAL_LABELS: Record<RiskSignalKind, string> = {
+  buzzwords: "Buzzword density",
+  "jd-copy": "Copied from the JD",
+  "stock-phrases": "Generated-text phrasing",
+  "vague-bullets": "Bullets without metrics",
+  "date-overlap": "Overlapping dates",
+  "employment-gap": "Employment gap",
+};
+
+const SEVERITY_CLASS: Record<RiskSignal["severity"], string> = {
+  low: "bg-slate-800 text-slate-300",
+  medium: "bg-amber-950/60 text-amber-300",
+  high: "bg-red-950/60 text-red-300",
+};
+
+const PARSE_BADGE: Record<AnalyzeResult["parseStatus"], string | null> = {
+  clean: null,
+  repaired: "Output repaired after one re-prompt",
+  failed: "Model output could not be parsed",
+};
+
+// Expanded view for one candidate: the structured lists the model returned
+// plus its markdown report.
+const ReportPanel: React.FC<Props> = ({ result, streaming }) => {
+  const badge = streaming ? null : PARSE_BADGE[result.parseStatus];
+
+  return (
+    <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950/80 p-4">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div>
+          <h3 className="text-sm font-semibold">Full Report — {result.id}</h3>
+          <p className="text-[11px] text-slate-500">
+            {[
+              result.profile?.name && `Profile: ${result.profile.name}`,
+              result.model && `Model: ${result.model}`,
+              result.blind && "Blind screening",
+              result.cached && "Cached result",
+              !streaming && describeUsage(result.usage),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+          {describeRedactions(result.redactions) && (
+            <p className="text-[11px] text-amber-300">
+              {describeRedactions(result.redactions)} before analysis
+            </p>
+          )}
+          {!streaming && result.truncated && (
+            <p className="text-[11px] text-amber-300">
+              An answer hit the output token limit and was cut off
+            </p>
+          )}
+        </div>
+        {badge && (
+          <span
+            className={`rounded-full px-2 py-0.5 text-[10px] ${
+              result.parseStatus === "failed"
+                ? "bg-red-950/60 text-red-300"
+                : "bg-amber-950/60 text-amber-300"
+            }`}
+          >
+            {badge}
+          </span>
+        )}
+      </div>
+
+      {!streaming && (
+        <div className="mb-3 grid gap-3 md:grid-cols-2">
+          {LIST_SECTIONS.map(({ key, title, className }) => {
+            // runs saved before structured output have no lists
+            const items = result[key] ?? [];
+            if (items.length === 0) return null;
+            return (
+              <div key={key}>
+                <h4 className={`text-xs font-semibold mb-1 ${className}`}>
+                  {title}
+                </h4>
+                <ul className="list-disc pl-4 space-y-0.5 text-xs text-slate-200">
+                  {items.map((item, i) => (
+                    <li key={i}>{item}</li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!streaming && result.riskSignals.length > 0 && (
+        <div className="mb-3">
+          <h4 className="text-xs font-semibold mb-1 text-red-300">
+            Risk signals
+            <span className="ml-1 font-normal text-slate-500">
+              measured in the resume, not judged by the model
+            </span>
+          </h4>
+          <ul className="space-y-1 text-xs text-slate-200">
+            {result.riskSignals.map((s) => (
+              <li key={s.kind}>
+                <span
+                  className={`mr-2 rounded-full px-2 py-0.5 text-[10px] ${SEVERITY_CLASS[s.severity]}`}
+                >
+                  {s.severity}
+                </span>
+                <span className="font-medium">{SIGNAL_LABELS[s.kind]}</span>
+                {" — "}
+                {s.summary}
+                {s.evidence.length > 0 && (
+                  <span className="block pl-1 text-[11px] text-slate-500">
+                    {s.evidence.join(" · ")}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <pre className="whitespace-pre-wrap text-xs text-slate-200 leading-relaxed">
+        {result.report}
+      </pre>
+    </div>
+  );
+};
+
+export default ReportPanel;
@@ -0,0 +1,140 @@
+import React, { useState } from "react";
+import type {
+  FeedbackInput,
+  ReviewOutcome,
+  ReviewerFeedback,
+} from "./types.ts";
+
+type Props = {
+  candidateId: string;
+  fitScore: number | null;
+  feedback: ReviewerFeedback | null;
+  saving: boolean;
+  onSave: (input: FeedbackInput) => void;
+};
+
+const OUTCOMES: {
+  value: ReviewOutcome;
+  label: string;
+  activeClass: string;
+}[] = [
+  {
+    value: "advanced",
+    label: "Advanced",
+    activeClass: "border-sky-400 bg-sky-600/80 text-sky-50",
+  },
+  {
+    value: "rejected",
+    label: "Rejected",
+    activeClass: "border-red-400 bg-red-500/80 text-red-50",
+  },
+  {
+    value: "hired",
+    label: "Hired",
+    activeClass: "border-emerald-400 bg-emerald-600/80 text-emerald-50",
+  },
+];
+
+// The reviewer's own fit rating and what became of the candidate, saved
+// with the run. GET /calibration compares these with the model's scores.
+const ReviewForm: React.FC<Props> = ({
+  candidateId,
+  fitScore,
+  feedback,
+  saving,
+  onSave,
+}) => {
+  const [rating, setRating] = useState<number | null>(
+    feedback?.rating ?? null,
+  );
+  const [outcome, setOutcome] = useState<ReviewOutcome | null>(
+    feedback?.outcome ?? null,
+  );
+  const [note, setNote] = useState(feedback?.note ?? "");
+
+  const changed =
+    rating !== (feedback?.rating ?? null) ||
+    outcome !== (feedback?.outcome ?? null) ||
+    note.trim() !== (feedback?.note ?? "");
+
+  return (
+    <div className="mt-3 rounded-xl border border-slate-800 bg-slate-950/80 p-4">
+      <h3 className="text-sm font-semibold">Your review — {candidateId}</h3>
+      <p className="mb-2 text-[11px] text-slate-500">
+        Model FitScore: {fitScore ?? "–"}/10
+        {feedback &&
+          ` · Saved by ${feedback.reviewer}, ${new Date(
+            feedback.updatedAt,
+          ).toLocaleString()}`}
+      </p>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+        <label className="inline-flex items-center gap-1">
+          Your rating
+          <select
+            aria-label="Your rating"
+            value={rating ?? ""}
+            onChange={(e) =>
+              setRating(e.target.value === "" ? null : Number(e.target.value))
+            }
+            className="rounded-md border border-slate-700 bg-slate-900 px-1 py-0.5"
+          >
+            <option value="">–</option>
+            {Array.from({ length: 11 }, (_, i) => (
+              <option key={i} value={i}>
+                {i}
+              </option>
+            ))}
+          </select>
+        </label>
+        {OUTCOMES.map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            onClick={() => setOutcome(outcome === o.value ? null : o.value)}
+            className={`rounded-md border px-2 py-0.5 text-[11px] ${
+              outcome === o.value
+                ? o.activeClass
+                : "border-slate-700 text-slate-400 hover:border-slate-500"
+            }`}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={1000}
+        placeholder="Why? (optional, may be shown to the model as an example)"
+        className="mt-2 w-full rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+      />
+      <div className="mt-2 flex gap-2 text-[11px]">
+        <button
+          type="button"
+          disabled={saving || !changed || (rating === null && outcome === null)}
+          onClick={() => onSave({ rating, outcome, note: note.trim() })}
+          className="rounded-md border border-emerald-600 px-2 py-1 text-emerald-300 hover:bg-emerald-900/40 disabled:opacity-40"
+        >
+          Save review
+        </button>
+        {feedback && (
+          <button
+            type="button"
+            disabled={saving}
+            onClick={() => {
+              setRating(null);
+              setOutcome(null);
+              setNote("");
+              onSave({ rating: null, outcome: null, note: "" });
+            }}
+            className="text-slate-500 hover:text-slate-300 disabled:opacity-40"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewForm;
@@ -0,0 +1,92 @@
+import React from "react";
+import type { AnalyzeResult, SkillMatch } from "./types.ts";
+
+type Props = {
+  results: AnalyzeResult[];
+};
+
+const CELL: Record<
+  SkillMatch["match"],
+  { label: string; className: string }
+> = {
+  exact: { label: "✓", className: "bg-emerald-950/60 text-emerald-300" },
+  synonym: { label: "≈", className: "bg-amber-950/60 text-amber-300" },
+  missing: { label: "✗", className: "bg-red-950/40 text-red-400" },
+};
+
+function cellTitle(m: SkillMatch): string {
+  if (m.match === "missing") return `${m.skill}: no evidence in resume`;
+  const via = m.match === "synonym" ? ` (via "${m.term}")` : "";
+  return `${m.skill}${via}: “${m.quote}”`;
+}
+
+// Candidates × JD skills grid. Every result of a run is matched against the
+// same skill list, so the columns come from the first result that has one.
+const SkillMatrix: React.FC<Props> = ({ results }) => {
+  const rows = results.filter((r) => r.skills.length > 0);
+  if (rows.length === 0) return null;
+  const columns = rows[0].skills;
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-semibold mb-1">Skill coverage</h3>
+      <p className="text-[11px] text-slate-500 mb-2">
+        ✓ named in resume · ≈ synonym · ✗ missing. Hover a cell for the
+        resume line. Preferred skills are in italics.
+      </p>
+      <div className="overflow-x-auto rounded-xl border border-slate-800 bg-slate-950/60">
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-900/90">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold border-b border-slate-800">
+                Candidate
+              </th>
+              {columns.map((c) => (
+                <th
+                  key={c.skill}
+                  className={`px-2 py-2 text-center font-semibold border-b border-slate-800 ${
+                    c.importance === "preferred"
+                      ? "italic text-slate-400"
+                      : ""
+                  }`}
+                >
+                  {c.skill}
+                </th>
+              ))}
+              <th className="px-3 py-2 text-right font-semibold border-b border-slate-800">
+                Required covered
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => {
+              const required = r.skills.filter(
+                (m) => m.importance === "required",
+              );
+              const covered = required.filter((m) => m.match !== "missing");
+              return (
+                <tr key={r.id} className="border-b border-slate-800/70">
+                  <td className="px-3 py-2 font-semibold">{r.id}</td>
+                  {r.skills.map((m) => (
+                    <td
+                      key={m.skill}
+                      title={cellTitle(m)}
+                      className={`px-2 py-2 text-center ${CELL[m.match].className}`}
+                    >
+                      {CELL[m.match].label}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right text-slate-300">
+                    {covered.length}/{required.length}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SkillMatrix;
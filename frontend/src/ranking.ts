@@ -0,0 +1,149 @@
+// ranking.ts – composite score, hard filters and sorting for the results
+// table. Pure functions so the table can re-rank on every settings change.
+
+import type { AnalyzeResult, CandidateDecision } from "./types.ts";
+
+// Relative weights (0–10 each); only their ratio matters.
+export type RankingWeights = { fit: number; risk: number };
+
+export type DecisionFilter = "all" | "undecided" | CandidateDecision;
+
+export type RankingFilters = {
+  // hide candidates above this risk / below this fit (null = no limit)
+  maxRisk: number | null;
+  minFit: number | null;
+  // JD skills a candidate must show evidence for (exact or synonym)
+  requiredSkills: string[];
+  decision: DecisionFilter;
+};
+
+export type SortKey =
+  | "candidate"
+  | "composite"
+  | "fit"
+  | "risk"
+  | "verdict"
+  | "decision";
+
+export type SortState = { key: SortKey; dir: "asc" | "desc" };
+
+export const DEFAULT_WEIGHTS: RankingWeights = { fit: 7, risk: 3 };
+
+export const DEFAULT_FILTERS: RankingFilters = {
+  maxRisk: null,
+  minFit: null,
+  requiredSkills: [],
+  decision: "all",
+};
+
+export const DEFAULT_SORT: SortState = { key: "composite", dir: "desc" };
+
+// 0–10, higher = better: weighted mean of fit and inverted risk.
+export function compositeScore(
+  r: Pick<AnalyzeResult, "fitScore" | "riskScore">,
+  weights: RankingWeights,
+): number | null {
+  const total = weights.fit + weights.risk;
+  if (r.fitScore === null || r.riskScore === null || total <= 0) return null;
+  const score = (weights.fit * r.fitScore +
+    weights.risk * (10 - r.riskScore)) / total;
+  return Math.round(score * 10) / 10;
+}
+
+export function passesFilters(
+  r: AnalyzeResult,
+  decision: CandidateDecision | undefined,
+  filters: RankingFilters,
+): boolean {
+  if (
+    filters.maxRisk !== null &&
+    (r.riskScore === null || r.riskScore > filters.maxRisk)
+  ) {
+    return false;
+  }
+  if (
+    filters.minFit !== null &&
+    (r.fitScore === null || r.fitScore < filters.minFit)
+  ) {
+    return false;
+  }
+  for (const skill of filters.requiredSkills) {
+    const m = r.skills.find((s) => s.skill === skill);
+    if (!m || m.match === "missing") return false;
+  }
+  if (filters.decision === "undecided") return !decision;
+  if (filters.decision !== "all") return decision === filters.decision;
+  return true;
+}
+
+const DECISION_ORDER: Record<CandidateDecision, number> = {
+  shortlisted: 0,
+  maybe: 1,
+  rejected: 2,
+};
+
+export type RankedRow<T> = {
+  row: T;
+  // position in the unsorted list, for updates while streaming
+  index: number;
+  composite: number | null;
+};
+
+// Filter and sort. Rows still being analyzed (`pending`) skip the filters
+// so they don't vanish mid-run; empty values always sort last.
+export function rankResults<T extends AnalyzeResult>(
+  rows: T[],
+  opts: {
+    weights: RankingWeights;
+    filters: RankingFilters;
+    sort: SortState;
+    decisions: Partial<Record<string, CandidateDecision>>;
+    pending?: (row: T) => boolean;
+  },
+): { rows: RankedRow<T>[]; hidden: number } {
+  const { weights, filters, sort, decisions, pending } = opts;
+
+  const kept = rows
+    .map((row, index) => ({
+      row,
+      index,
+      composite: compositeScore(row, weights),
+    }))
+    .filter(({ row }) =>
+      pending?.(row) || passesFilters(row, decisions[row.id], filters)
+    );
+
+  const value = ({ row, composite }: RankedRow<T>): string | number | null => {
+    switch (sort.key) {
+      case "candidate":
+        return row.id.toLowerCase();
+      case "composite":
+        return composite;
+      case "fit":
+        return row.fitScore;
+      case "risk":
+        return row.riskScore;
+      case "verdict":
+        return row.verdict ? row.verdict.toLowerCase() : null;
+      case "decision": {
+        const d = decisions[row.id];
+        return d ? DECISION_ORDER[d] : null;
+      }
+    }
+  };
+
+  const sign = sort.dir === "asc" ? 1 : -1;
+  kept.sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    if (va === null || vb === null) {
+      return va === vb ? a.index - b.index : va === null ? 1 : -1;
+    }
+    const cmp = typeof va === "number" && typeof vb === "number"
+      ? va - vb
+      : String(va).localeCompare(String(vb));
+    return cmp !== 0 ? cmp * sign : a.index - b.index;
+  });
+
+  return { rows: kept, hidden: rows.length - kept.length };
+}
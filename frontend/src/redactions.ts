@@ -0,0 +1,30 @@
+// redactions.ts – human wording for the PII redaction summary.
+
+import type { Redaction } from "./types.ts";
+
+const REDACTION_LABELS: Record<Redaction["kind"], string> = {
+  email: "email",
+  phone: "phone number",
+  address: "address",
+  "profile-url": "profile link",
+  age: "age",
+  "date-of-birth": "date of birth",
+  photo: "photo mention",
+  "personal-detail": "personal detail",
+  name: "name",
+  pronoun: "gendered word",
+  school: "school name",
+  "graduation-year": "graduation year",
+};
+
+// "Redacted: 1 email, 2 phone numbers" – empty when nothing was masked.
+export function describeRedactions(redactions: Redaction[]) {
+  if (!redactions.length) return "";
+  return `Redacted: ${redactions
+    .map(({ kind, count }) => {
+      const label = REDACTION_LABELS[kind];
+      if (count === 1) return `1 ${label}`;
+      return `${count} ${label}${label.endsWith("s") ? "es" : "s"}`;
+    })
+    .join(", ")}`;
+}
@@ -0,0 +1,73 @@
+import type { AnalyzeResult, RunUsage } from "../types.ts";
+
+// A finished result as the backend sends it; override what a test needs.
+export function makeResult(
+  overrides: Partial<AnalyzeResult> = {},
+): AnalyzeResult {
+  return {
+    id: "alice.txt",
+    verdict: "Strong TypeScript backend engineer — move to interview.",
+    fitScore: 8,
+    riskScore: 3,
+    report: "## Verdict\nStrong match.",
+    alignment: ["Five years of TypeScript on Deno"],
+    gaps: ["Kubernetes only mentioned in passing"],
+    redFlags: [],
+    missingSkills: ["Terraform"],
+    skills: [],
+    riskSignals: [],
+    redactions: [],
+    blind: false,
+    parseStatus: "clean",
+    profile: { id: "corespeed-founder", name: "CoreSpeed" },
+    model: "mock-fitscore-v1",
+    attempts: 1,
+    status: "ok",
+    usage: {
+      calls: 1,
+      inputTokens: 800,
+      outputTokens: 120,
+      latencyMs: 40,
+      costUsd: 0,
+      estimated: false,
+    },
+    truncated: false,
+    budgetExceeded: false,
+    cached: false,
+    ...overrides,
+  };
+}
+
+export function runUsage(results: AnalyzeResult[]): RunUsage {
+  return {
+    candidates: results.length,
+    cached: 0,
+    calls: results.length,
+    inputTokens: 800 * results.length,
+    outputTokens: 120 * results.length,
+    latencyMs: 40 * results.length,
+    costUsd: 0,
+    truncated: 0,
+    budgetUsd: null,
+    skipped: 0,
+  };
+}
+
+// The /analyze/stream body for these results, one SSE event per line pair.
+export function sseBody(
+  results: AnalyzeResult[],
+  sessionId: string | null = null,
+): string {
+  const events = [
+    ...results.map((result, index) => ({ type: "result", index, result })),
+    {
+      type: "done",
+      count: results.length,
+      sessionId,
+      usage: runUsage(results),
+    },
+  ];
+  return events
+    .map((e) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`)
+    .join("");
+}
@@ -0,0 +1,365 @@
+// Shapes returned by the backend (mirrors backend/types.ts + sessions.ts).
+
+export type ResumeInput = {
+  id: string;
+  text: string;
+  // skip the backend's analysis cache for this resume on the next run
+  force?: boolean;
+};
+
+export type AnalyzeResult = {
+  id: string;
+  verdict: string;
+  fitScore: number | null;
+  riskScore: number | null;
+  report: string;
+  alignment: string[];
+  gaps: string[];
+  redFlags: string[];
+  missingSkills: string[];
+  // deterministic JD skill coverage
+  skills: SkillMatch[];
+  // measured red flags behind the risk score
+  riskSignals: RiskSignal[];
+  // PII masked before the model saw the resume
+  redactions: Redaction[];
+  blind?: boolean;
+  parseStatus: "clean" | "repaired" | "failed";
+  profile: { id: string; name: string };
+  model: string;
+  attempts: number;
+  status: "ok" | "failed";
+  ensemble?: EnsembleSummary;
+  // tokens, latency and cost of the model calls
+  usage: CandidateUsage;
+  // an answer hit the output token limit and was cut off
+  truncated?: boolean;
+  // not (fully) analyzed because the run's budget ran out
+  budgetExceeded?: boolean;
+  // reused from the backend's analysis cache, no model call made
+  cached?: boolean;
+};
+
+export type CandidateUsage = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  // null when the model has no price configured on the backend
+  costUsd: number | null;
+  // the provider didn't report usage; counts are guessed from text length
+  estimated: boolean;
+};
+
+export type RedactionKind =
+  | "email"
+  | "phone"
+  | "address"
+  | "profile-url"
+  | "age"
+  | "date-of-birth"
+  | "photo"
+  | "personal-detail"
+  | "name"
+  | "pronoun"
+  | "school"
+  | "graduation-year";
+
+export type Redaction = { kind: RedactionKind; count: number };
+
+// POST /redact – the masked text the model would see.
+export type RedactionPreview = { text: string; redactions: Redaction[] };
+
+export type SkillMatch = {
+  skill: string;
+  importance: "required" | "preferred";
+  match: "exact" | "synonym" | "missing";
+  // the name or alias found, and the resume line it was on
+  term: string | null;
+  quote: string | null;
+};
+
+export type RiskSignalKind =
+  | "buzzwords"
+  | "jd-copy"
+  | "stock-phrases"
+  | "vague-bullets"
+  | "date-overlap"
+  | "employment-gap";
+
+export type RiskSignal = {
+  kind: RiskSignalKind;
+  severity: "low" | "medium" | "high";
+  summary: string;
+  // density, count, ratio or months, depending on kind
+  value: number;
+  // the resume excerpts that triggered it
+  evidence: string[];
+};
+
+export type EnsembleMethod = "median" | "mean";
+
+// Request options for ensemble mode (POST /analyze `ensemble`).
+export type EnsembleConfig = {
+  runs: number;
+  models: string[];
+  method: EnsembleMethod;
+};
+
+// How several scoring passes for one candidate were combined.
+export type EnsembleSummary = {
+  method: EnsembleMethod;
+  validRuns: number;
+  totalRuns: number;
+  models: string[];
+  fitScores: number[];
+  riskScores: number[];
+  fitSpread: number | null;
+  riskSpread: number | null;
+  // 0–1, 1 = every run agreed
+  fitConfidence: number | null;
+  riskConfidence: number | null;
+  disagreement: boolean;
+};
+
+// GET /health – which model backend is answering.
+export type BackendInfo = {
+  status: "ok";
+  provider: "anthropic" | "openai" | "mock";
+  model: string;
+  // most JD tabs a multi-JD run may have
+  limits: { maxRoles: number };
+};
+
+export type CandidateAnalysis = {
+  resume: ResumeInput;
+  rawOutput: string;
+  result: AnalyzeResult;
+};
+
+export type AnalysisSession = {
+  id: string;
+  createdAt: string;
+  model: string;
+  jd: string;
+  candidates: CandidateAnalysis[];
+  // candidate id → recruiter decision (undecided candidates are absent)
+  decisions: Partial<Record<string, CandidateDecision>>;
+  // candidate id → reviewer feedback (unreviewed candidates are absent)
+  feedback?: Partial<Record<string, ReviewerFeedback>>;
+};
+
+export type CandidateDecision = "shortlisted" | "maybe" | "rejected";
+
+export type ReviewOutcome = "advanced" | "rejected" | "hired";
+
+// What a reviewer sends with PUT /sessions/:id/feedback; both null clears.
+export type FeedbackInput = {
+  rating: number | null;
+  outcome: ReviewOutcome | null;
+  note: string;
+};
+
+// A reviewer's own rating of a scored candidate and what happened to them,
+// checked against the scores by GET /calibration.
+export type ReviewerFeedback = FeedbackInput & {
+  sessionId: string;
+  candidateId: string;
+  reviewer: string;
+  updatedAt: string;
+  scored: {
+    fitScore: number | null;
+    riskScore: number | null;
+    verdict: string;
+    model: string;
+    profile: { id: string; name: string };
+  };
+};
+
+export type SessionSummary = {
+  id: string;
+  createdAt: string;
+  model: string;
+  jdPreview: string;
+  candidateCount: number;
+  topCandidate: { id: string; fitScore: number } | null;
+};
+
+// Per-run totals from /analyze, the stream's `done` event and GET /jobs/:id.
+export type RunUsage = {
+  candidates: number;
+  // answered from the cache; their usage isn't counted again
+  cached: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number | null;
+  truncated: number;
+  budgetUsd: number | null;
+  skipped: number;
+};
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+// GET /jobs/:id – a background analysis and the results so far.
+export type JobView = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status: JobStatus;
+  total: number;
+  completed: number;
+  // saved run with the finished candidates, once the job is over
+  sessionId: string | null;
+  error: string | null;
+  jd: string;
+  profile: { id: string; name: string };
+  usage: RunUsage;
+  candidates: {
+    index: number;
+    id: string;
+    status: "queued" | "running" | "done" | "cancelled";
+    result: AnalyzeResult | null;
+  }[];
+};
+
+// One uploaded file from POST /extract; `error` is set if it couldn't be read.
+export type ExtractedFile = {
+  fileName: string;
+  id: string;
+  text: string;
+  error: string | null;
+};
+
+export type ProfileTone = "ruthless-founder" | "neutral-hr";
+
+export type RoleProfile = {
+  id: string;
+  name: string;
+  persona: string;
+  seniority: string;
+  mustHave: string[];
+  niceToHave: string[];
+  rubric: string;
+  tone: ProfileTone;
+  updatedAt: string;
+};
+
+// Body of POST /profiles; include `id` to edit an existing profile.
+export type ProfileInput = Omit<RoleProfile, "id" | "updatedAt"> & {
+  id?: string;
+};
+
+// POST /interview-kit – questions that probe one candidate's gaps and red
+// flags, each tied to the JD requirement it checks.
+export type InterviewQuestion = {
+  question: string;
+  requirement: string;
+  // the gap, red flag or missing skill it targets
+  probes: string;
+  strongAnswer: string;
+  weakAnswer: string;
+};
+
+export type InterviewKit = {
+  candidateId: string;
+  questions: InterviewQuestion[];
+  model: string;
+  generatedAt: string;
+  parseStatus: "clean" | "repaired";
+  usage: CandidateUsage;
+};
+
+// POST /jd/analyze – the JD parsed into requirements, what's wrong with it
+// and a rewrite, before anyone is scored against it.
+export type JdIssueKind =
+  | "ambiguity"
+  | "contradiction"
+  | "exclusionary"
+  | "unrealistic";
+
+export type JdIssue = {
+  kind: JdIssueKind;
+  severity: "low" | "medium" | "high";
+  // the JD wording it's about; "" when it's about the JD as a whole
+  quote: string;
+  explanation: string;
+  suggestion: string;
+  // measured = found by the backend's checks, model = raised by the model
+  source: "measured" | "model";
+};
+
+export type JdAnalysis = {
+  requirements: {
+    role: string;
+    seniority: string;
+    location: string;
+    mustHave: string[];
+    niceToHave: string[];
+    stack: string[];
+  };
+  issues: JdIssue[];
+  // markdown
+  rewrite: string;
+  model: string;
+  generatedAt: string;
+  parseStatus: "clean" | "repaired";
+  usage: CandidateUsage;
+};
+
+// POST /compare – two to four candidates ranked against each other.
+export type RequirementRating = "strong" | "partial" | "missing";
+
+export type Comparison = {
+  // best first
+  ranking: { id: string; rank: number; justification: string }[];
+  requirements: {
+    requirement: string;
+    candidates: { id: string; rating: RequirementRating; note: string }[];
+  }[];
+  summary: string;
+  model: string;
+  generatedAt: string;
+  parseStatus: "clean" | "repaired";
+  usage: CandidateUsage;
+};
+
+// POST /analyze with `jds` – the same resumes scored against several roles.
+export type MatrixCell = {
+  fitScore: number | null;
+  riskScore: number | null;
+  status: AnalyzeResult["status"];
+};
+
+export type BestFit = {
+  candidateId: string;
+  // null when no role produced a score
+  roleId: string | null;
+  fitScore: number | null;
+  // fit points ahead of the runner-up role
+  margin: number | null;
+};
+
+export type ScoreMatrix = {
+  roles: { id: string; name: string }[];
+  candidates: string[];
+  // cells[role][candidate]
+  cells: MatrixCell[][];
+  bestFit: BestFit[];
+};
+
+// One role of a matrix run; each is saved as its own session.
+export type MatrixRole = {
+  id: string;
+  name: string;
+  profile: { id: string; name: string };
+  results: AnalyzeResult[];
+  sessionId: string | null;
+};
+
+export type MatrixRun = {
+  roles: MatrixRole[];
+  matrix: ScoreMatrix;
+  usage: RunUsage;
+};
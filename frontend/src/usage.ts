@@ -0,0 +1,74 @@
+// usage.ts – wording for token usage and cost.
+
+import type { AnalyzeResult, CandidateUsage, RunUsage } from "./types.ts";
+
+export function formatUsd(value: number | null): string {
+  if (value === null) return "cost unknown";
+  if (value === 0) return "$0";
+  return value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+// "1,234 in / 456 out tokens · 2.3 s · $0.0012"
+export function describeUsage(usage: CandidateUsage): string {
+  if (usage.calls === 0) return "";
+  return [
+    `${usage.estimated ? "~" : ""}${usage.inputTokens.toLocaleString()} in / ${usage.outputTokens.toLocaleString()} out tokens`,
+    formatSeconds(usage.latencyMs),
+    formatUsd(usage.costUsd),
+  ].join(" · ");
+}
+
+// Totals for the rows on screen, so saved runs and jobs get them too.
+// Cached results count as free.
+export function totalUsage(
+  results: AnalyzeResult[],
+  budgetUsd: number | null,
+): RunUsage {
+  const total: RunUsage = {
+    candidates: results.length,
+    cached: 0,
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    latencyMs: 0,
+    costUsd: 0,
+    truncated: 0,
+    budgetUsd,
+    skipped: 0,
+  };
+  for (const r of results) {
+    if (r.truncated) total.truncated++;
+    if (r.budgetExceeded) total.skipped++;
+    if (r.cached) total.cached++;
+    if (r.cached) continue;
+    total.calls += r.usage.calls;
+    total.inputTokens += r.usage.inputTokens;
+    total.outputTokens += r.usage.outputTokens;
+    total.latencyMs += r.usage.latencyMs;
+    total.costUsd =
+      total.costUsd === null || r.usage.costUsd === null
+        ? null
+        : total.costUsd + r.usage.costUsd;
+  }
+  return total;
+}
+
+// One line for the results header: tokens, model time, cost vs. budget.
+export function describeRunUsage(usage: RunUsage): string {
+  if (usage.calls === 0 && usage.cached === 0) return "";
+  const parts = [
+    `${usage.inputTokens.toLocaleString()} in / ${usage.outputTokens.toLocaleString()} out tokens`,
+    `${formatSeconds(usage.latencyMs)} model time`,
+    usage.budgetUsd !== null
+      ? `${formatUsd(usage.costUsd)} of ${formatUsd(usage.budgetUsd)} budget`
+      : formatUsd(usage.costUsd),
+  ];
+  if (usage.cached) parts.push(`${usage.cached} from cache`);
+  if (usage.truncated) parts.push(`${usage.truncated} cut off`);
+  if (usage.skipped) parts.push(`${usage.skipped} skipped (budget)`);
+  return parts.join(" · ");
+}
@@ -1,8 +1,13 @@
+/// <reference types="vitest/config" />
 import react from '@vitejs/plugin-react'
 import { defineConfig } from 'vite'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // component tests (npm test) run in a fake DOM, no backend needed
+  test: {
+    environment: 'jsdom',
+  },
 })
 // Basic Vite config. No fancy plugins needed for this project.